@@ -11,7 +11,8 @@ export default defineConfig({
       port: 4000,
       reuseExistingServer: !process.env.CI,
       env: {
-        SUPPORT_QUEUE_FILE: 'data/e2e-support-queue.json'
+        SUPPORT_QUEUE_FILE: 'data/e2e-support-queue.json',
+        MIN_FORM_FILL_MS: '0'
       }
     },
     {
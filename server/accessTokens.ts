@@ -0,0 +1,23 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+
+/**
+ * Candidates reach their own request with an unguessable token. Only its hash
+ * is stored, so a leaked queue file does not grant access to status pages.
+ */
+export function createAccessToken(): { token: string; hash: string } {
+  const token = randomBytes(32).toString('base64url');
+  return { token, hash: hashAccessToken(token) };
+}
+
+export function hashAccessToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function verifyAccessToken(token: string | undefined, hash: string | null): boolean {
+  if (!token || !hash) {
+    return false;
+  }
+  const expected = Buffer.from(hash, 'hex');
+  const actual = Buffer.from(hashAccessToken(token), 'hex');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -1,18 +1,56 @@
 import request from 'supertest';
-import { describe, expect, it, beforeEach, afterEach } from 'vitest';
-import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { describe, expect, it, beforeEach, afterEach, vi } from 'vitest';
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
 import { tmpdir } from 'os';
 import path from 'path';
 import { createApp } from './app';
+import { loadConfig } from './config';
+import { createFaqIndex, parseFaqArticle } from './faq';
+import { createLogger } from './logger';
+import type { MailMessage } from './mail';
+import { createNotifier } from './notifications';
+import type { StoredSupportRequest } from './queue';
+import { createSessionStore } from './sessions';
+import type { SlotStore } from './slots';
+import { createQueueStore, createSlotStore, type SupportQueueStore } from './store';
+import { createAccount, createJsonCoachUserStore, type CoachRole } from './users';
+import { createJsonWebhookDeliveryStore, createWebhookDispatcher } from './webhooks';
 
 const validPayload = {
   name: 'Ada Lovelace',
   email: 'ada@example.com',
   topic: 'Mock interviews',
   message: 'Help me prepare for system design.',
-  urgency: 'normal'
+  urgency: 'normal',
+  elapsedMs: 5000
 };
 
+const coachPassword = 'correct-horse-battery';
+
+/** Coach accounts in `dir` plus a session store the app under test shares with the test. */
+function coachFixtures(dir: string) {
+  const users = createJsonCoachUserStore(path.join(dir, 'coach-users.json'));
+  const sessions = createSessionStore({ ttlMs: 60 * 60 * 1000 });
+  return {
+    users,
+    sessions,
+    async signIn(username: string, role: CoachRole) {
+      await users.create(await createAccount({ username, name: username, role, password: coachPassword }));
+      return { Authorization: `Bearer ${sessions.create(username).token}` };
+    }
+  };
+}
+
+/** Drops every email, so no outbox writes outlive the test's temp directory. */
+function silentNotifier() {
+  return createNotifier({
+    transport: { send: async () => {} },
+    logger: createLogger({ level: 'silent' }),
+    onCallEmail: null,
+    pagerEmail: null
+  });
+}
+
 describe('support API', () => {
   let tempDir: string;
   let queueFile: string;
@@ -45,6 +83,83 @@ describe('support API', () => {
       id: expect.any(String),
       createdAt: expect.any(String)
     });
+    expect(queue[0]).not.toHaveProperty('elapsedMs');
+  });
+
+  it('stores the interview context with the schema version', async () => {
+    const app = createApp();
+
+    await request(app)
+      .post('/support')
+      .send({ ...validPayload, category: 'behavioral', role: 'Engineering manager', interviewDate: '2026-05-31' })
+      .expect(201);
+    await request(app)
+      .post('/support')
+      .send({ ...validPayload, interviewDate: 'next Tuesday' })
+      .expect(400);
+
+    const queue = JSON.parse(readFileSync(queueFile, 'utf-8'));
+    expect(queue).toHaveLength(1);
+    expect(queue[0]).toMatchObject({
+      schemaVersion: 4,
+      locale: 'en',
+      category: 'behavioral',
+      role: 'Engineering manager',
+      interviewDate: '2026-05-31',
+      format: 'no_preference'
+    });
+    expect(queue[0]).not.toHaveProperty('company');
+  });
+
+  it('keeps every submission when many arrive at once', async () => {
+    const app = createApp();
+
+    const responses = await Promise.all(
+      Array.from({ length: 40 }, (_, index) =>
+        request(app)
+          .post('/support')
+          .send({ ...validPayload, email: `ada+${index}@example.com`, topic: `Parallel request ${index}` })
+      )
+    );
+
+    expect(responses.every((response) => response.status === 201)).toBe(true);
+    const queue = JSON.parse(readFileSync(queueFile, 'utf-8'));
+    expect(queue).toHaveLength(40);
+    expect(new Set(queue.map((entry: { id: string }) => entry.id)).size).toBe(40);
+  });
+
+  it('emails the candidate a confirmation without waiting for delivery', async () => {
+    const sent: MailMessage[] = [];
+    const notifier = createNotifier({
+      transport: { send: async (message) => void sent.push(message) },
+      logger: createLogger({ level: 'silent' }),
+      onCallEmail: null,
+      pagerEmail: null
+    });
+    const app = createApp({ notifier });
+
+    const response = await request(app).post('/support').send(validPayload).expect(201);
+    await notifier.idle();
+
+    expect(sent).toEqual([
+      expect.objectContaining({ to: validPayload.email, text: expect.stringContaining(response.body.id) })
+    ]);
+  });
+
+  it('accepts submissions even when email delivery fails', async () => {
+    const notifier = createNotifier({
+      transport: { send: () => Promise.reject(new Error('SMTP down')) },
+      logger: createLogger({ level: 'silent' }),
+      onCallEmail: 'oncall@example.com',
+      pagerEmail: null,
+      retry: { attempts: 2, baseDelayMs: 1 }
+    });
+    const app = createApp({ notifier });
+
+    await request(app).post('/support').send(validPayload).expect(201);
+    await notifier.idle();
+
+    expect(JSON.parse(readFileSync(queueFile, 'utf-8'))).toHaveLength(1);
   });
 
   it('rejects invalid payloads', async () => {
@@ -53,5 +168,1729 @@ describe('support API', () => {
     const response = await request(app).post('/support').send({}).expect(400);
 
     expect(response.body.error).toBe('Invalid payload');
+    expect(response.body).toMatchObject({
+      code: 'invalid_payload',
+      details: {
+        name: 'name_required',
+        email: 'email_invalid',
+        topic: 'topic_required',
+        message: 'message_too_short',
+        urgency: 'urgency_invalid'
+      }
+    });
+  });
+
+  it('stores the language the candidate chose, or the one their browser prefers', async () => {
+    const app = createApp();
+
+    await request(app)
+      .post('/support')
+      .set('Accept-Language', 'fr-FR, de-AT;q=0.8, en;q=0.5')
+      .send(validPayload)
+      .expect(201);
+    await request(app)
+      .post('/support')
+      .set('Accept-Language', 'de')
+      .send({ ...validPayload, email: 'grace@example.com', locale: 'en' })
+      .expect(201);
+
+    const queue = JSON.parse(readFileSync(queueFile, 'utf-8'));
+    expect(queue.map((entry: { locale: string }) => entry.locale)).toEqual(['de', 'en']);
+  });
+
+  it('records the partner site a widget submission came from', async () => {
+    const app = createApp();
+
+    await request(app)
+      .post('/support')
+      .send({ ...validPayload, partnerId: 'acme-careers' })
+      .expect(201);
+    await request(app)
+      .post('/support')
+      .send({ ...validPayload, email: 'grace@example.com', partnerId: '' })
+      .expect(201);
+    const invalid = await request(app)
+      .post('/support')
+      .send({ ...validPayload, email: 'alan@example.com', partnerId: '<script>' })
+      .expect(400);
+
+    expect(invalid.body.details).toEqual({ partnerId: 'partner_invalid' });
+    const queue = JSON.parse(readFileSync(queueFile, 'utf-8'));
+    expect(queue[0]).toMatchObject({ partnerId: 'acme-careers' });
+    expect(queue[1]).not.toHaveProperty('partnerId');
+  });
+
+  it('reads queue entries written before the ticket lifecycle existed', async () => {
+    writeFileSync(
+      queueFile,
+      JSON.stringify([{ ...validPayload, id: 'legacy', createdAt: '2024-01-01T00:00:00.000Z' }])
+    );
+    const { users, sessions, signIn } = coachFixtures(tempDir);
+    const auth = await signIn('grace', 'coach');
+    const app = createApp({ users, sessions });
+
+    const response = await request(app).get('/support/legacy').set(auth).expect(200);
+
+    expect(response.body).toMatchObject({ status: 'open', notes: [], updatedAt: '2024-01-01T00:00:00.000Z' });
+  });
+});
+
+describe('HTTP hardening', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(tmpdir(), 'support-'));
+    process.env.SUPPORT_QUEUE_FILE = path.join(tempDir, 'queue.json');
+  });
+
+  afterEach(() => {
+    delete process.env.SUPPORT_QUEUE_FILE;
+    delete process.env.CORS_ALLOWED_ORIGINS;
+    delete process.env.JSON_BODY_LIMIT;
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('allows configured origins and refuses others', async () => {
+    process.env.CORS_ALLOWED_ORIGINS = 'https://prep.example.com';
+    const app = createApp();
+
+    const allowed = await request(app)
+      .post('/support')
+      .set('Origin', 'https://prep.example.com')
+      .send(validPayload)
+      .expect(201);
+    expect(allowed.headers['access-control-allow-origin']).toBe('https://prep.example.com');
+
+    const refused = await request(app)
+      .post('/support')
+      .set('Origin', 'https://evil.example.com')
+      .send(validPayload)
+      .expect(403);
+    expect(refused.headers['access-control-allow-origin']).toBeUndefined();
+
+    await request(app)
+      .options('/support')
+      .set('Origin', 'https://evil.example.com')
+      .set('Access-Control-Request-Method', 'POST')
+      .expect(403);
+  });
+
+  it('sets security headers', async () => {
+    const app = createApp();
+
+    const response = await request(app).get('/health').expect(200);
+
+    expect(response.headers).toMatchObject({
+      'x-content-type-options': 'nosniff',
+      'x-frame-options': 'DENY',
+      'referrer-policy': 'no-referrer'
+    });
+    expect(response.headers['x-powered-by']).toBeUndefined();
+  });
+
+  it('rejects bodies over the configured limit and malformed JSON', async () => {
+    process.env.JSON_BODY_LIMIT = '1kb';
+    const app = createApp();
+
+    await request(app)
+      .post('/support')
+      .send({ ...validPayload, message: 'x'.repeat(2048) })
+      .expect(413);
+    await request(app).post('/support').set('Content-Type', 'application/json').send('{"name":').expect(400);
+  });
+});
+
+describe('request logging', () => {
+  let tempDir: string;
+  let lines: string[];
+  const logger = createLogger({ level: 'info', write: (line) => lines.push(line) });
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(tmpdir(), 'support-'));
+    process.env.SUPPORT_QUEUE_FILE = path.join(tempDir, 'queue.json');
+    lines = [];
+  });
+
+  afterEach(() => {
+    delete process.env.SUPPORT_QUEUE_FILE;
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('echoes the request ID and writes a redacted access log', async () => {
+    const app = createApp({ logger });
+
+    const response = await request(app)
+      .post('/support')
+      .set('X-Request-Id', 'trace-123')
+      .send(validPayload)
+      .expect(201);
+
+    expect(response.headers['x-request-id']).toBe('trace-123');
+    const accessLog = JSON.parse(lines[lines.length - 1]);
+    expect(accessLog).toMatchObject({
+      level: 'info',
+      msg: 'request completed',
+      requestId: 'trace-123',
+      method: 'POST',
+      path: '/support',
+      status: 201,
+      durationMs: expect.any(Number)
+    });
+    expect(lines.join('\n')).not.toContain(validPayload.email);
+  });
+
+  it('generates a request ID when none is supplied', async () => {
+    const app = createApp({ logger });
+
+    const response = await request(app).get('/health').set('X-Request-Id', 'not valid!').expect(200);
+
+    expect(response.headers['x-request-id']).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it('includes the request ID in 500 responses and logs the error', async () => {
+    const failingStore = createQueueStore(loadConfig().queue, logger);
+    failingStore.append = () => Promise.reject(new Error(`disk full while saving ${validPayload.email}`));
+    const app = createApp({ logger, store: failingStore });
+
+    const response = await request(app).post('/support').send(validPayload).expect(500);
+
+    expect(response.body).toEqual({
+      error: 'Unexpected error handling support request',
+      requestId: response.headers['x-request-id']
+    });
+    const errorLog = lines.map((line) => JSON.parse(line)).find((entry) => entry.level === 'error');
+    expect(errorLog).toMatchObject({
+      requestId: response.headers['x-request-id'],
+      err: { message: 'disk full while saving [REDACTED]' }
+    });
+  });
+});
+
+describe('abuse protection', () => {
+  let tempDir: string;
+  let queueFile: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(tmpdir(), 'support-'));
+    queueFile = path.join(tempDir, 'queue.json');
+    process.env.SUPPORT_QUEUE_FILE = queueFile;
+  });
+
+  afterEach(() => {
+    delete process.env.SUPPORT_QUEUE_FILE;
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('limits submissions per IP with Retry-After', async () => {
+    const app = createApp({ rateLimit: { windowMs: 60_000, maxPerIp: 2, maxPerEmail: 10, maxLoginAttempts: 10 } });
+
+    await request(app)
+      .post('/support')
+      .send({ ...validPayload, email: 'one@example.com' })
+      .expect(201);
+    await request(app)
+      .post('/support')
+      .send({ ...validPayload, email: 'two@example.com' })
+      .expect(201);
+    const response = await request(app)
+      .post('/support')
+      .send({ ...validPayload, email: 'three@example.com' })
+      .expect(429);
+
+    expect(response.headers['retry-after']).toBe('60');
+    expect(response.body).toEqual({ error: 'Too many requests', code: 'rate_limited', retryAfterSeconds: 60 });
+  });
+
+  it('limits submissions per email address regardless of case', async () => {
+    const app = createApp({
+      notifier: silentNotifier(),
+      rateLimit: { windowMs: 60_000, maxPerIp: 10, maxPerEmail: 1, maxLoginAttempts: 10 }
+    });
+
+    await request(app).post('/support').send(validPayload).expect(201);
+    await request(app)
+      .post('/support')
+      .send({ ...validPayload, email: 'ADA@example.com' })
+      .expect(429);
+    await request(app)
+      .post('/support')
+      .send({ ...validPayload, email: 'grace@example.com' })
+      .expect(201);
+  });
+
+  it('silently drops submissions that fill the honeypot', async () => {
+    const app = createApp();
+    await request(app).post('/support').send(validPayload).expect(201);
+
+    const response = await request(app)
+      .post('/support')
+      .send({ ...validPayload, website: 'https://spam.example' })
+      .expect(201);
+
+    expect(response.body).toMatchObject({ status: 'ok', id: expect.any(String) });
+    expect(JSON.parse(readFileSync(queueFile, 'utf-8'))).toHaveLength(1);
+  });
+
+  it('rejects forms submitted faster than a person could fill them', async () => {
+    const app = createApp({ minFillTimeMs: 2000 });
+
+    const response = await request(app)
+      .post('/support')
+      .send({ ...validPayload, elapsedMs: 300 })
+      .expect(400);
+
+    expect(response.body.error).toMatch(/too fast/i);
+  });
+});
+
+describe('webhook events', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(tmpdir(), 'support-'));
+    process.env.SUPPORT_QUEUE_FILE = path.join(tempDir, 'queue.json');
+  });
+
+  afterEach(() => {
+    delete process.env.SUPPORT_QUEUE_FILE;
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('emits created and status events, lists failures and replays them', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({ ok: false, status: 500 });
+    const webhooks = createWebhookDispatcher({
+      subscriptions: [
+        {
+          id: 'crm',
+          url: 'https://crm.example.com/hooks',
+          secret: 'whsec_0123456789abcdef',
+          events: ['support.created', 'support.status_changed']
+        }
+      ],
+      deliveries: createJsonWebhookDeliveryStore(path.join(tempDir, 'deliveries.json')),
+      logger: createLogger({ level: 'silent' }),
+      retry: { attempts: 1, baseDelayMs: 1 },
+      fetch: fetchMock
+    });
+    const { users, sessions, signIn } = coachFixtures(tempDir);
+    const auth = await signIn('grace', 'admin');
+    const app = createApp({ webhooks, users, sessions });
+
+    const { body } = await request(app).post('/support').send(validPayload).expect(201);
+    await request(app).patch(`/support/${body.id}`).set(auth).send({ status: 'in_progress' }).expect(200);
+    await request(app).patch(`/support/${body.id}`).set(auth).send({ note: 'No status change' }).expect(200);
+    await webhooks.idle();
+
+    const failed = await request(app).get('/webhooks/deliveries').query({ status: 'failed' }).set(auth).expect(200);
+    expect(failed.body.items.map((delivery: { event: string }) => delivery.event)).toEqual([
+      'support.created',
+      'support.status_changed'
+    ]);
+
+    // The receiver holds the replayed attempt open, so the delivery is still pending when replayed again.
+    let respond = (_response: { ok: boolean; status: number }) => {};
+    fetchMock.mockImplementation(() => new Promise((resolve) => (respond = resolve)));
+    const replayUrl = `/webhooks/deliveries/${failed.body.items[0].id}/replay`;
+    await request(app).post(replayUrl).set(auth).expect(202);
+    const again = await request(app).post(replayUrl).set(auth).expect(409);
+    expect(again.body.error).toBe('This delivery is still being sent');
+    respond({ ok: true, status: 200 });
+    await webhooks.idle();
+
+    const succeeded = await request(app).get('/webhooks/deliveries').query({ status: 'succeeded' }).set(auth);
+    expect(succeeded.body.items).toHaveLength(1);
+    await request(app).post('/webhooks/deliveries/missing/replay').set(auth).expect(404);
+    await request(app).get('/webhooks/deliveries').expect(401);
+  });
+});
+
+describe.each(['json', 'sqlite'])('coach ticket API (%s store)', (driver) => {
+  let tempDir: string;
+  let store: SupportQueueStore;
+  let coaches: ReturnType<typeof coachFixtures>;
+  let auth: { Authorization: string };
+
+  beforeEach(async () => {
+    tempDir = mkdtempSync(path.join(tmpdir(), 'support-'));
+    process.env.SUPPORT_QUEUE_DRIVER = driver;
+    process.env.SUPPORT_QUEUE_FILE = path.join(tempDir, 'queue.json');
+    process.env.SUPPORT_QUEUE_DB = path.join(tempDir, 'queue.db');
+    const config = loadConfig();
+    store = createQueueStore(config.queue, createLogger({ level: config.logLevel }));
+    coaches = coachFixtures(tempDir);
+    auth = await coaches.signIn('grace', 'lead');
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await store.close();
+    delete process.env.SUPPORT_QUEUE_DRIVER;
+    delete process.env.SUPPORT_QUEUE_FILE;
+    delete process.env.SUPPORT_QUEUE_DB;
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  async function submit(app: ReturnType<typeof createApp>, overrides: Record<string, unknown> = {}) {
+    const response = await request(app)
+      .post('/support')
+      .send({ ...validPayload, ...overrides })
+      .expect(201);
+    return response.body.id as string;
+  }
+
+  it('rejects requests without a valid coach token', async () => {
+    const app = createApp({ store, users: coaches.users, sessions: coaches.sessions });
+
+    await request(app).get('/support').expect(401);
+    await request(app).get('/support').set('Authorization', 'Bearer wrong').expect(401);
+    await request(app).patch('/support/abc').send({ status: 'in_progress' }).expect(401);
+  });
+
+  it('lists requests with filters and cursor pagination', async () => {
+    const app = createApp({ store, users: coaches.users, sessions: coaches.sessions });
+    // A second apart, so creation order alone decides the page order.
+    const start = Date.now();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(start);
+    const reviewId = await submit(app, { topic: 'Resume review' });
+    vi.setSystemTime(start + 1000);
+    const urgentId = await submit(app, { urgency: 'urgent' });
+    vi.setSystemTime(start + 2000);
+    const polishId = await submit(app, { topic: 'Resume polish' });
+
+    const urgent = await request(app).get('/support').query({ urgency: 'urgent' }).set(auth).expect(200);
+    expect(urgent.body.items.map((item: { id: string }) => item.id)).toEqual([urgentId]);
+
+    const firstPage = await request(app).get('/support').query({ topic: 'resume', limit: 1 }).set(auth).expect(200);
+    expect(firstPage.body.items).toHaveLength(1);
+    expect(firstPage.body.nextCursor).toEqual(expect.any(String));
+
+    const secondPage = await request(app)
+      .get('/support')
+      .query({ topic: 'resume', limit: 1, cursor: firstPage.body.nextCursor })
+      .set(auth)
+      .expect(200);
+    expect([...firstPage.body.items, ...secondPage.body.items].map((item: { id: string }) => item.id)).toEqual([
+      reviewId,
+      polishId
+    ]);
+    expect(secondPage.body.nextCursor).toBeNull();
+
+    const future = await request(app).get('/support').query({ from: '2999-01-01T00:00:00Z' }).set(auth).expect(200);
+    expect(future.body.items).toHaveLength(0);
+  });
+
+  it('triages new requests and flags overdue ones in lists', async () => {
+    const app = createApp({ store, users: coaches.users, sessions: coaches.sessions });
+    const id = await submit(app, { urgency: 'urgent', topic: 'Offer negotiation', message: 'Got an offer, help!' });
+
+    const stored = await store.get(id);
+    expect(stored?.triage).toEqual({
+      labels: ['offer'],
+      boost: 10,
+      slaDueAt: new Date(Date.parse(stored!.createdAt) + 4 * 60 * 60 * 1000).toISOString(),
+      escalatedAt: null
+    });
+
+    const fresh = await request(app).get(`/support/${id}`).set(auth).expect(200);
+    expect(fresh.body).toMatchObject({ priority: 50, overdue: false });
+
+    await store.update(id, (entry) => ({
+      ...entry,
+      triage: { ...entry.triage!, slaDueAt: '2000-01-01T00:00:00.000Z' }
+    }));
+    const list = await request(app).get('/support').set(auth).expect(200);
+    expect(list.body.items).toEqual([expect.objectContaining({ id, overdue: true })]);
+
+    const replied = await request(app).patch(`/support/${id}`).set(auth).send({ reply: 'Happy to help.' }).expect(200);
+    expect(replied.body.overdue).toBe(false);
+  });
+
+  it('filters by interview category, reading older entries as general', async () => {
+    const app = createApp({ store, users: coaches.users, sessions: coaches.sessions });
+    const codingId = await submit(app, { category: 'coding', company: 'Acme', seniority: 'senior' });
+    const generalId = await submit(app, { email: 'grace@example.com' });
+    // Written before schema version 2: no version, category or format.
+    const legacy = { ...validPayload, id: 'legacy', createdAt: '2023-01-01T00:00:00.000Z', status: 'open' };
+    await store.append(legacy as unknown as StoredSupportRequest);
+
+    const coding = await request(app).get('/support').query({ category: 'coding' }).set(auth).expect(200);
+    expect(coding.body.items).toEqual([
+      expect.objectContaining({ id: codingId, schemaVersion: 4, company: 'Acme', seniority: 'senior' })
+    ]);
+
+    const general = await request(app).get('/support').query({ category: 'general' }).set(auth).expect(200);
+    expect(general.body.items.map((item: { id: string }) => item.id)).toEqual(['legacy', generalId]);
+    expect(general.body.items[0]).toMatchObject({ schemaVersion: 1, category: 'general', format: 'no_preference' });
+
+    await request(app).get('/support').query({ category: 'puzzles' }).set(auth).expect(400);
+  });
+
+  it('filters by assignee and finds unassigned requests', async () => {
+    const app = createApp({ store, users: coaches.users, sessions: coaches.sessions });
+    const assignedId = await submit(app, { urgency: 'urgent' });
+    const unassignedId = await submit(app, { urgency: 'urgent', email: 'grace@example.com' });
+    await request(app).patch(`/support/${assignedId}`).set(auth).send({ assignee: 'grace' }).expect(200);
+
+    const mine = await request(app).get('/support').query({ assignee: 'grace' }).set(auth).expect(200);
+    expect(mine.body.items.map((item: { id: string }) => item.id)).toEqual([assignedId]);
+
+    const triage = await request(app)
+      .get('/support')
+      .query({ urgency: 'urgent', unassigned: 'true' })
+      .set(auth)
+      .expect(200);
+    expect(triage.body.items.map((item: { id: string }) => item.id)).toEqual([unassignedId]);
+
+    const assigned = await request(app).get('/support').query({ unassigned: 'false' }).set(auth).expect(200);
+    expect(assigned.body.items.map((item: { id: string }) => item.id)).toEqual([assignedId]);
+  });
+
+  it('rejects invalid list queries', async () => {
+    const app = createApp({ store, users: coaches.users, sessions: coaches.sessions });
+
+    await request(app).get('/support').query({ status: 'archived' }).set(auth).expect(400);
+    await request(app).get('/support').query({ cursor: 'garbage' }).set(auth).expect(400);
+    // Ranges are ordered by the instants they name, whatever their offsets.
+    await request(app)
+      .get('/support')
+      .query({ from: '2024-01-01T10:00:00+02:00', to: '2024-01-01T09:00:00Z' })
+      .set(auth)
+      .expect(200);
+    await request(app)
+      .get('/support')
+      .query({ from: '2024-01-01T10:00:00Z', to: '2024-01-01T11:00:00+02:00' })
+      .set(auth)
+      .expect(400);
+  });
+
+  it('returns a single request or 404', async () => {
+    const app = createApp({ store, users: coaches.users, sessions: coaches.sessions });
+    const id = await submit(app);
+
+    const response = await request(app).get(`/support/${id}`).set(auth).expect(200);
+    expect(response.body).toMatchObject({ id, status: 'open', assignee: null, notes: [] });
+
+    await request(app).get('/support/missing').set(auth).expect(404);
+  });
+
+  it('updates status, assignee and notes', async () => {
+    const app = createApp({ store, users: coaches.users, sessions: coaches.sessions });
+    const id = await submit(app);
+
+    const response = await request(app)
+      .patch(`/support/${id}`)
+      .set(auth)
+      .send({ status: 'in_progress', assignee: 'grace', note: 'Asked for the job description.' })
+      .expect(200);
+
+    expect(response.body).toMatchObject({
+      status: 'in_progress',
+      assignee: 'grace',
+      notes: [{ author: 'grace', body: 'Asked for the job description.', id: expect.any(String) }]
+    });
+  });
+
+  it('rejects invalid status transitions', async () => {
+    const app = createApp({ store, users: coaches.users, sessions: coaches.sessions });
+    const id = await submit(app);
+
+    const response = await request(app).patch(`/support/${id}`).set(auth).send({ status: 'closed' }).expect(409);
+
+    expect(response.body.error).toMatch(/open to closed/);
+    await request(app).patch(`/support/${id}`).set(auth).send({}).expect(400);
+  });
+
+  it('re-checks transitions and claims against the stored request, not the one read first', async () => {
+    const app = createApp({ store, users: coaches.users, sessions: coaches.sessions });
+    const id = await submit(app);
+    const snapshot = await store.get(id);
+    await request(app).patch(`/support/${id}`).set(auth).send({ status: 'in_progress', assignee: 'grace' }).expect(200);
+    await request(app).patch(`/support/${id}`).set(auth).send({ status: 'resolved' }).expect(200);
+    await request(app).patch(`/support/${id}`).set(auth).send({ status: 'closed' }).expect(200);
+
+    // Reads still see the request open and unassigned, as if the changes above landed in between.
+    const staleApp = createApp({
+      store: { ...store, get: async () => snapshot },
+      users: coaches.users,
+      sessions: coaches.sessions
+    });
+    const coach = await coaches.signIn('linus', 'coach');
+    const claim = await request(staleApp).patch(`/support/${id}`).set(coach).send({ assignee: 'linus' }).expect(409);
+    expect(claim.body.error).toMatch(/changed by someone else/);
+    await request(staleApp).patch(`/support/${id}`).set(auth).send({ status: 'in_progress' }).expect(409);
+
+    expect(await store.get(id)).toMatchObject({ status: 'closed', assignee: 'grace' });
+  });
+
+  it('lets candidates follow their request with the access token only', async () => {
+    const app = createApp({ store, users: coaches.users, sessions: coaches.sessions });
+    const { body } = await request(app).post('/support').send(validPayload).expect(201);
+    expect(body.accessToken).toMatch(/^[\w-]{43}$/);
+
+    await request(app)
+      .patch(`/support/${body.id}`)
+      .set(auth)
+      .send({ status: 'in_progress', note: 'Internal only', reply: 'Which company is the interview with?' })
+      .expect(200);
+
+    const status = await request(app)
+      .get(`/support/${body.id}/status`)
+      .set('X-Access-Token', body.accessToken)
+      .expect(200);
+
+    expect(status.body).toMatchObject({
+      id: body.id,
+      status: 'in_progress',
+      topic: validPayload.topic,
+      messages: [{ role: 'coach', author: 'grace', body: 'Which company is the interview with?' }]
+    });
+    expect(status.body).not.toHaveProperty('notes');
+    expect(status.body).not.toHaveProperty('email');
+    expect(status.body).not.toHaveProperty('accessTokenHash');
+
+    await request(app).get(`/support/${body.id}/status`).set('X-Access-Token', 'guess').expect(404);
+    await request(app).get(`/support/${body.id}/status`).expect(404);
+    await request(app).get('/support/missing/status').set('X-Access-Token', body.accessToken).expect(404);
+  });
+
+  it('threads messages between the candidate and coaches', async () => {
+    const app = createApp({ store, users: coaches.users, sessions: coaches.sessions });
+    const { body } = await request(app).post('/support').send(validPayload).expect(201);
+    const candidate = { 'X-Access-Token': body.accessToken };
+
+    const question = await request(app)
+      .post(`/support/${body.id}/messages`)
+      .set(candidate)
+      .send({ body: 'Can we focus on system design?' })
+      .expect(201);
+    expect(question.body).toMatchObject({ role: 'candidate', author: validPayload.name });
+
+    const coachView = await request(app).get(`/support/${body.id}/messages`).set(auth).expect(200);
+    expect(coachView.body.unread).toBe(1);
+
+    await request(app)
+      .post(`/support/${body.id}/messages`)
+      .set(auth)
+      .send({ body: 'Sure, bring a recent design.' })
+      .expect(201);
+
+    const thread = await request(app).get(`/support/${body.id}/messages`).set(candidate).expect(200);
+    expect(thread.body.messages.map((message: { role: string }) => message.role)).toEqual(['candidate', 'coach']);
+    expect(thread.body.unread).toBe(1);
+    // Replying marks everything before it as read for the coach.
+    expect(thread.body.readMarkers.coach).toBe(thread.body.messages[1].createdAt);
+
+    const read = await request(app)
+      .put(`/support/${body.id}/messages/read`)
+      .set(candidate)
+      .send({ upTo: thread.body.messages[1].id })
+      .expect(200);
+    expect(read.body.unread).toBe(0);
+
+    const status = await request(app).get(`/support/${body.id}/status`).set(candidate).expect(200);
+    expect(status.body.unread).toBe(0);
+  });
+
+  it('guards the message thread', async () => {
+    const app = createApp({ store, users: coaches.users, sessions: coaches.sessions });
+    const { body } = await request(app).post('/support').send(validPayload).expect(201);
+    const other = await request(app)
+      .post('/support')
+      .send({ ...validPayload, email: 'grace@example.com' })
+      .expect(201);
+
+    await request(app).get(`/support/${body.id}/messages`).expect(404);
+    await request(app).get(`/support/${body.id}/messages`).set('X-Access-Token', other.body.accessToken).expect(404);
+    await request(app).get(`/support/${body.id}/messages`).set('Authorization', 'Bearer wrong').expect(401);
+    await request(app)
+      .post(`/support/${body.id}/messages`)
+      .set('X-Access-Token', body.accessToken)
+      .send({ body: '' })
+      .expect(400);
+
+    await request(app).patch(`/support/${body.id}`).set(auth).send({ status: 'in_progress' }).expect(200);
+    await request(app).patch(`/support/${body.id}`).set(auth).send({ status: 'resolved' }).expect(200);
+    await request(app).patch(`/support/${body.id}`).set(auth).send({ status: 'closed' }).expect(200);
+    await request(app)
+      .post(`/support/${body.id}/messages`)
+      .set('X-Access-Token', body.accessToken)
+      .send({ body: 'One more thing' })
+      .expect(409);
+  });
+});
+
+describe('coach accounts and roles', () => {
+  let tempDir: string;
+  let coaches: ReturnType<typeof coachFixtures>;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(tmpdir(), 'support-'));
+    process.env.SUPPORT_QUEUE_FILE = path.join(tempDir, 'queue.json');
+    coaches = coachFixtures(tempDir);
+  });
+
+  afterEach(() => {
+    delete process.env.SUPPORT_QUEUE_FILE;
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const createTestApp = () => createApp({ users: coaches.users, sessions: coaches.sessions });
+
+  it('logs in with a password and logs out again', async () => {
+    await coaches.signIn('grace', 'coach');
+    const app = createTestApp();
+
+    await request(app).post('/auth/login').send({ username: 'grace', password: 'wrong-password' }).expect(401);
+    await request(app).post('/auth/login').send({ username: 'nobody', password: coachPassword }).expect(401);
+    await request(app).post('/auth/login').send({ username: 'grace' }).expect(400);
+
+    const login = await request(app)
+      .post('/auth/login')
+      .send({ username: 'grace', password: coachPassword })
+      .expect(200);
+    expect(login.body).toMatchObject({ coach: { username: 'grace', role: 'coach' }, expiresAt: expect.any(String) });
+    const auth = { Authorization: `Bearer ${login.body.token}` };
+
+    const me = await request(app).get('/auth/me').set(auth).expect(200);
+    expect(me.body).toEqual({ username: 'grace', name: 'grace', role: 'coach' });
+
+    await request(app).post('/auth/logout').set(auth).expect(204);
+    await request(app).get('/auth/me').set(auth).expect(401);
+  });
+
+  it('limits failed login attempts per username with their own setting', async () => {
+    await coaches.signIn('grace', 'coach');
+    const app = createApp({
+      users: coaches.users,
+      sessions: coaches.sessions,
+      rateLimit: { windowMs: 60_000, maxPerIp: 100, maxPerEmail: 100, maxLoginAttempts: 2 }
+    });
+
+    await request(app).post('/auth/login').send({ username: 'grace', password: 'guess-number-1' }).expect(401);
+    await request(app).post('/auth/login').send({ username: 'GRACE', password: 'guess-number-2' }).expect(401);
+    const limited = await request(app).post('/auth/login').send({ username: 'grace', password: coachPassword });
+    expect(limited.status).toBe(429);
+  });
+
+  it('does not count successful logins against the limit', async () => {
+    await coaches.signIn('grace', 'coach');
+    const app = createApp({
+      users: coaches.users,
+      sessions: coaches.sessions,
+      rateLimit: { windowMs: 60_000, maxPerIp: 100, maxPerEmail: 100, maxLoginAttempts: 2 }
+    });
+
+    for (let attempt = 0; attempt < 3; attempt += 1) {
+      await request(app).post('/auth/login').send({ username: 'grace', password: coachPassword }).expect(200);
+    }
+    // A success also clears the failures before it.
+    await request(app).post('/auth/login').send({ username: 'grace', password: 'guess-number-1' }).expect(401);
+    await request(app).post('/auth/login').send({ username: 'grace', password: coachPassword }).expect(200);
+    await request(app).post('/auth/login').send({ username: 'grace', password: 'guess-number-2' }).expect(401);
+    await request(app).post('/auth/login').send({ username: 'grace', password: 'guess-number-3' }).expect(401);
+    await request(app).post('/auth/login').send({ username: 'grace', password: coachPassword }).expect(429);
+  });
+
+  it.each([
+    ['get', '/auth/me'],
+    ['post', '/auth/logout'],
+    ['get', '/support'],
+    ['get', '/support/abc'],
+    ['patch', '/support/abc'],
+    ['get', '/support/abc/messages'],
+    ['get', '/admin/users'],
+    ['post', '/admin/users'],
+    ['patch', '/admin/users/grace'],
+    ['delete', '/admin/users/grace'],
+    ['get', '/webhooks/deliveries'],
+    ['post', '/webhooks/deliveries/abc/replay']
+  ] as const)('rejects %s %s without a valid session', async (method, url) => {
+    const app = createTestApp();
+
+    const response = await request(app)[method](url).set('Authorization', 'Bearer not-a-session').send({});
+
+    expect(response.status).toBe(401);
+    expect(response.headers['www-authenticate']).toBe('Bearer');
+  });
+
+  it('lets coaches claim requests but only leads reassign them', async () => {
+    const coach = await coaches.signIn('grace', 'coach');
+    const lead = await coaches.signIn('linus', 'lead');
+    const app = createTestApp();
+    const { body } = await request(app).post('/support').send(validPayload).expect(201);
+
+    await request(app).patch(`/support/${body.id}`).set(coach).send({ assignee: 'linus' }).expect(403);
+    await request(app).patch(`/support/${body.id}`).set(coach).send({ assignee: 'grace' }).expect(200);
+    await request(app).patch(`/support/${body.id}`).set(coach).send({ assignee: null }).expect(403);
+
+    await request(app).patch(`/support/${body.id}`).set(lead).send({ assignee: 'nobody' }).expect(400);
+    const reassigned = await request(app)
+      .patch(`/support/${body.id}`)
+      .set(lead)
+      .send({ assignee: 'linus' })
+      .expect(200);
+    expect(reassigned.body.assignee).toBe('linus');
+  });
+
+  it.each([
+    ['coach', 'get', '/admin/users'],
+    ['coach', 'post', '/admin/users'],
+    ['coach', 'get', '/webhooks/deliveries'],
+    ['coach', 'post', '/webhooks/deliveries/abc/replay'],
+    ['lead', 'get', '/admin/users'],
+    ['lead', 'post', '/admin/users'],
+    ['lead', 'patch', '/admin/users/grace'],
+    ['lead', 'delete', '/admin/users/grace'],
+    ['lead', 'get', '/webhooks/deliveries'],
+    ['lead', 'post', '/webhooks/deliveries/abc/replay']
+  ] as const)('forbids a %s from %s %s', async (role, method, url) => {
+    const auth = await coaches.signIn('someone', role);
+    const app = createTestApp();
+
+    const response = await request(app)[method](url).set(auth).send({});
+
+    expect(response.status).toBe(403);
+  });
+
+  it('lets admins manage accounts', async () => {
+    const admin = await coaches.signIn('ada', 'admin');
+    const app = createTestApp();
+
+    const created = await request(app)
+      .post('/admin/users')
+      .set(admin)
+      .send({
+        username: 'grace',
+        name: 'Grace Hopper',
+        role: 'coach',
+        email: 'grace@example.com',
+        password: coachPassword
+      })
+      .expect(201);
+    expect(created.body).toMatchObject({
+      username: 'grace',
+      role: 'coach',
+      email: 'grace@example.com',
+      disabled: false
+    });
+    expect(created.body).not.toHaveProperty('passwordHash');
+
+    await request(app)
+      .post('/admin/users')
+      .set(admin)
+      .send({ username: 'grace', name: 'Grace', role: 'coach', password: coachPassword })
+      .expect(409);
+    await request(app)
+      .post('/admin/users')
+      .set(admin)
+      .send({ username: 'alan', name: 'Alan', role: 'coach', password: 'short' })
+      .expect(400);
+
+    const list = await request(app).get('/admin/users').set(admin).expect(200);
+    expect(list.body.items.map((user: { username: string }) => user.username)).toEqual(['ada', 'grace']);
+    expect(list.body.items[0]).not.toHaveProperty('passwordHash');
+
+    const login = await request(app).post('/auth/login').send({ username: 'grace', password: coachPassword });
+    const grace = { Authorization: `Bearer ${login.body.token}` };
+    await request(app).get('/support').set(grace).expect(200);
+
+    const cleared = await request(app).patch('/admin/users/grace').set(admin).send({ email: null }).expect(200);
+    expect(cleared.body).not.toHaveProperty('email');
+    await request(app).patch('/admin/users/grace').set(admin).send({ disabled: true }).expect(200);
+    await request(app).get('/support').set(grace).expect(401);
+    await request(app).post('/auth/login').send({ username: 'grace', password: coachPassword }).expect(401);
+
+    await request(app).patch('/admin/users/ada').set(admin).send({ role: 'lead' }).expect(409);
+    await request(app).delete('/admin/users/ada').set(admin).expect(409);
+    await request(app).patch('/admin/users/missing').set(admin).send({ name: 'Missing' }).expect(404);
+    await request(app).delete('/admin/users/grace').set(admin).expect(204);
+    await request(app).delete('/admin/users/grace').set(admin).expect(404);
+  });
+});
+
+describe('attachments', () => {
+  let tempDir: string;
+  let coaches: ReturnType<typeof coachFixtures>;
+  const pdf = Buffer.from('%PDF-1.7\n%test resume\n');
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(tmpdir(), 'support-'));
+    process.env.SUPPORT_QUEUE_FILE = path.join(tempDir, 'queue.json');
+    process.env.ATTACHMENT_MAX_BYTES = '1024';
+    process.env.ATTACHMENT_MAX_FILES = '2';
+    coaches = coachFixtures(tempDir);
+  });
+
+  afterEach(() => {
+    delete process.env.SUPPORT_QUEUE_FILE;
+    delete process.env.ATTACHMENT_MAX_BYTES;
+    delete process.env.ATTACHMENT_MAX_FILES;
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function submitWithFiles(app: ReturnType<typeof createApp>, files: { data: Buffer; filename: string }[]) {
+    const upload = request(app).post('/support');
+    for (const [field, value] of Object.entries(validPayload)) {
+      upload.field(field, String(value));
+    }
+    for (const file of files) {
+      upload.attach('attachments', file.data, file.filename);
+    }
+    return upload;
+  }
+
+  it('stores uploads and serves them to the candidate and coaches', async () => {
+    const app = createApp({ users: coaches.users, sessions: coaches.sessions });
+    const auth = await coaches.signIn('grace', 'coach');
+
+    const created = await submitWithFiles(app, [{ data: pdf, filename: '../../résumé.pdf' }]).expect(201);
+    const { id, accessToken } = created.body;
+
+    const status = await request(app).get(`/support/${id}/status`).set('X-Access-Token', accessToken).expect(200);
+    expect(status.body.attachments).toEqual([
+      {
+        id: expect.any(String),
+        filename: 'résumé.pdf',
+        contentType: 'application/pdf',
+        size: pdf.length,
+        uploadedAt: expect.any(String)
+      }
+    ]);
+    const url = `/support/${id}/attachments/${status.body.attachments[0].id}`;
+
+    const download = await request(app).get(url).set('X-Access-Token', accessToken).buffer(true).expect(200);
+    expect(download.headers['content-type']).toBe('application/pdf');
+    expect(download.headers['content-disposition']).toContain('attachment');
+    expect(Buffer.from(download.body)).toEqual(pdf);
+
+    await request(app).get(url).set(auth).expect(200);
+    await request(app).get(url).expect(404);
+    await request(app).get(`/support/${id}/attachments/missing`).set(auth).expect(404);
+  });
+
+  it('rejects files whose contents do not match their type', async () => {
+    const app = createApp();
+
+    const response = await submitWithFiles(app, [{ data: Buffer.from('MZ\x90\x00'), filename: 'resume.pdf' }]).expect(
+      415
+    );
+
+    expect(response.body.error).toContain('resume.pdf');
+    await submitWithFiles(app, [{ data: Buffer.from('#!/bin/sh'), filename: 'run.sh' }]).expect(415);
+    expect(existsSync(path.join(tempDir, 'queue.json'))).toBe(false);
+    expect(existsSync(path.join(tempDir, 'attachments'))).toBe(false);
+  });
+
+  it('enforces the size and count limits', async () => {
+    const app = createApp();
+
+    const tooLarge = await submitWithFiles(app, [
+      { data: Buffer.concat([pdf, Buffer.alloc(2048, 0x20)]), filename: 'big.pdf' }
+    ]).expect(413);
+    expect(tooLarge.body.error).toBe('Attachments must be 1 KB or smaller');
+
+    await submitWithFiles(app, [
+      { data: pdf, filename: 'a.pdf' },
+      { data: pdf, filename: 'b.pdf' },
+      { data: pdf, filename: 'c.pdf' }
+    ]).expect(400);
+  });
+
+  it('removes the files of a repeat submission that could not be merged', async () => {
+    const store = createQueueStore(loadConfig().queue, createLogger({ level: 'silent' }));
+    const created = await submitWithFiles(createApp({ store }), [{ data: pdf, filename: 'resume.pdf' }]).expect(201);
+    const originalDir = path.join(tempDir, 'attachments', created.body.id);
+
+    const failing = createApp({ store: { ...store, update: () => Promise.reject(new Error('disk full')) } });
+    await submitWithFiles(failing, [{ data: pdf, filename: 'cover-letter.pdf' }]).expect(500);
+    expect(readdirSync(originalDir)).toHaveLength(1);
+
+    // The original was erased after the duplicate check found it, so the repeat becomes a request of its own.
+    const erased = createApp({ store: { ...store, update: async () => undefined } });
+    const filed = await submitWithFiles(erased, [{ data: pdf, filename: 'cover-letter.pdf' }]).expect(201);
+    expect(filed.body.id).not.toBe(created.body.id);
+    expect(readdirSync(originalDir)).toHaveLength(1);
+    await store.close();
+  });
+});
+
+describe.each(['json', 'sqlite'])('coaching sessions (%s store)', (driver) => {
+  let tempDir: string;
+  let store: SupportQueueStore;
+  let slots: SlotStore;
+  let coaches: ReturnType<typeof coachFixtures>;
+  let sent: MailMessage[];
+  let notifier: ReturnType<typeof createNotifier>;
+  const hour = 60 * 60 * 1000;
+  const inHours = (hours: number) => new Date(Math.ceil(Date.now() / hour) * hour + hours * hour).toISOString();
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(tmpdir(), 'support-'));
+    process.env.SUPPORT_QUEUE_DRIVER = driver;
+    process.env.SUPPORT_QUEUE_FILE = path.join(tempDir, 'queue.json');
+    process.env.SUPPORT_QUEUE_DB = path.join(tempDir, 'queue.db');
+    const config = loadConfig();
+    const logger = createLogger({ level: 'silent' });
+    store = createQueueStore(config.queue, logger);
+    slots = createSlotStore(config.queue, logger);
+    coaches = coachFixtures(tempDir);
+    sent = [];
+    notifier = createNotifier({
+      transport: { send: async (message) => void sent.push(message) },
+      logger,
+      onCallEmail: null,
+      pagerEmail: null
+    });
+  });
+
+  afterEach(async () => {
+    await store.close();
+    await slots.close();
+    delete process.env.SUPPORT_QUEUE_DRIVER;
+    delete process.env.SUPPORT_QUEUE_FILE;
+    delete process.env.SUPPORT_QUEUE_DB;
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function makeApp() {
+    return createApp({ store, slots, notifier, users: coaches.users, sessions: coaches.sessions });
+  }
+
+  async function submit(app: ReturnType<typeof createApp>, email = validPayload.email) {
+    const response = await request(app)
+      .post('/support')
+      .send({ ...validPayload, email })
+      .expect(201);
+    return { id: response.body.id as string, candidate: { 'X-Access-Token': response.body.accessToken as string } };
+  }
+
+  async function publish(app: ReturnType<typeof createApp>, auth: { Authorization: string }, startsAt: string) {
+    const response = await request(app)
+      .post('/slots')
+      .set(auth)
+      .send({ startsAt, durationMinutes: 45, timeZone: 'Europe/Berlin' })
+      .expect(201);
+    return response.body.id as string;
+  }
+
+  it('lets coaches publish slots and refuses overlapping or past ones', async () => {
+    const app = makeApp();
+    const auth = await coaches.signIn('grace', 'coach');
+    const other = await coaches.signIn('linus', 'coach');
+    const startsAt = inHours(24);
+
+    const created = await request(app)
+      .post('/slots')
+      .set(auth)
+      .send({ startsAt: startsAt.replace('Z', '+00:00'), timeZone: 'Europe/Berlin' })
+      .expect(201);
+    expect(created.body).toMatchObject({
+      coach: 'grace',
+      coachName: 'grace',
+      startsAt,
+      endsAt: inHours(25),
+      timeZone: 'Europe/Berlin',
+      booking: null
+    });
+
+    await request(app)
+      .post('/slots')
+      .set(auth)
+      .send({ startsAt: inHours(24.5), timeZone: 'Europe/Berlin' })
+      .expect(409);
+    await request(app).post('/slots').set(other).send({ startsAt, timeZone: 'Europe/Berlin' }).expect(201);
+    await request(app)
+      .post('/slots')
+      .set(auth)
+      .send({ startsAt: inHours(-2), timeZone: 'UTC' })
+      .expect(400);
+    await request(app)
+      .post('/slots')
+      .set(auth)
+      .send({ startsAt: inHours(30), timeZone: 'Mars/Olympus' })
+      .expect(400);
+    await request(app).post('/slots').set(auth).send({ startsAt: '2030-01-01T10:00:00', timeZone: 'UTC' }).expect(400);
+    await request(app)
+      .post('/slots')
+      .send({ startsAt: inHours(30), timeZone: 'UTC' })
+      .expect(401);
+
+    const mine = await request(app).get('/slots').query({ coach: 'grace' }).set(auth).expect(200);
+    expect(mine.body.items).toHaveLength(1);
+  });
+
+  it('books, reschedules and cancels sessions with calendar invites for both parties', async () => {
+    const app = makeApp();
+    const auth = await coaches.signIn('grace', 'coach');
+    await coaches.users.update('grace', (account) => ({ ...account, email: 'grace@example.com' }));
+    const first = await publish(app, auth, inHours(24));
+    const second = await publish(app, auth, inHours(48));
+    const { id, candidate } = await submit(app);
+    await notifier.idle();
+    sent.length = 0;
+
+    const offered = await request(app).get(`/support/${id}/slots`).set(candidate).expect(200);
+    expect(offered.body.items).toEqual([
+      { id: first, coachName: 'grace', startsAt: inHours(24), endsAt: expect.any(String) },
+      { id: second, coachName: 'grace', startsAt: inHours(48), endsAt: expect.any(String) }
+    ]);
+
+    const booked = await request(app)
+      .put(`/support/${id}/session`)
+      .set(candidate)
+      .send({ slotId: first, timeZone: 'America/New_York' })
+      .expect(200);
+    expect(booked.body).toMatchObject({ id: first, timeZone: 'America/New_York', startsAt: inHours(24) });
+    await notifier.idle();
+    expect(sent.map((message) => message.to).sort()).toEqual([validPayload.email, 'grace@example.com']);
+    expect(sent[0].attachments?.[0]).toMatchObject({
+      filename: 'invite.ics',
+      content: expect.stringContaining('METHOD:REQUEST')
+    });
+    expect(sent.find((message) => message.to === validPayload.email)?.text).toContain('(America/New_York)');
+    expect(sent.find((message) => message.to === 'grace@example.com')?.text).toContain('(Europe/Berlin)');
+
+    const status = await request(app).get(`/support/${id}/status`).set(candidate).expect(200);
+    expect(status.body.session).toMatchObject({ id: first, coachName: 'grace' });
+    const remaining = await request(app).get(`/support/${id}/slots`).set(candidate).expect(200);
+    expect(remaining.body.items.map((slot: { id: string }) => slot.id)).toEqual([second]);
+
+    const invite = await request(app).get(`/support/${id}/session.ics`).set(candidate).expect(200);
+    expect(invite.headers['content-type']).toContain('text/calendar');
+    // Long lines are folded at 75 octets.
+    expect(invite.text.replace(/\r\n /g, '')).toContain(`UID:${id}-${first}@interview-helper`);
+
+    sent.length = 0;
+    await request(app)
+      .put(`/support/${id}/session`)
+      .set(candidate)
+      .send({ slotId: second, timeZone: 'America/New_York' })
+      .expect(200);
+    await notifier.idle();
+    expect(sent.map((message) => message.attachments?.[0].filename).sort()).toEqual([
+      'cancel.ics',
+      'cancel.ics',
+      'invite.ics',
+      'invite.ics'
+    ]);
+    expect((await slots.get(first))?.booking).toBeNull();
+
+    sent.length = 0;
+    await request(app).delete(`/support/${id}/session`).set(candidate).expect(204);
+    await notifier.idle();
+    expect(sent).toHaveLength(2);
+    expect(sent[0].attachments?.[0].content).toContain('STATUS:CANCELLED');
+    await request(app).get(`/support/${id}/session`).set(candidate).expect(404);
+    await request(app).delete(`/support/${id}/session`).set(candidate).expect(404);
+  });
+
+  it('never lets two requests book the same slot', async () => {
+    const app = makeApp();
+    const auth = await coaches.signIn('grace', 'coach');
+    const slotId = await publish(app, auth, inHours(24));
+    const a = await submit(app);
+    const b = await submit(app, 'grace@example.com');
+
+    const results = await Promise.all(
+      [a, b].map(({ id, candidate }) =>
+        request(app).put(`/support/${id}/session`).set(candidate).send({ slotId, timeZone: 'UTC' })
+      )
+    );
+
+    expect(results.map((response) => response.status).sort()).toEqual([200, 409]);
+    const slot = await slots.get(slotId);
+    expect([a.id, b.id]).toContain(slot?.booking?.requestId);
+  });
+
+  it('refuses bookings for closed requests or past slots', async () => {
+    const app = makeApp();
+    const auth = await coaches.signIn('grace', 'lead');
+    const slotId = await publish(app, auth, inHours(24));
+    const { id, candidate } = await submit(app);
+
+    await store.update(id, (entry) => ({ ...entry, status: 'resolved' }));
+    await request(app).put(`/support/${id}/session`).set(candidate).send({ slotId, timeZone: 'UTC' }).expect(409);
+
+    const past = await submit(app);
+    await slots.create({
+      id: 'past',
+      coach: 'grace',
+      coachName: 'grace',
+      startsAt: inHours(-3),
+      endsAt: inHours(-2),
+      timeZone: 'UTC',
+      booking: null,
+      createdAt: inHours(-10)
+    });
+    await request(app)
+      .put(`/support/${past.id}/session`)
+      .set(past.candidate)
+      .send({ slotId: 'past', timeZone: 'UTC' })
+      .expect(409);
+    await request(app)
+      .put(`/support/${past.id}/session`)
+      .set(past.candidate)
+      .send({ slotId: 'missing', timeZone: 'UTC' })
+      .expect(404);
+    await request(app).get(`/support/${past.id}/slots`).expect(404);
+  });
+
+  it("cancels the booking when a slot is removed and keeps other coaches' slots safe", async () => {
+    const app = makeApp();
+    const owner = await coaches.signIn('grace', 'coach');
+    const other = await coaches.signIn('linus', 'coach');
+    const lead = await coaches.signIn('ada', 'lead');
+    const slotId = await publish(app, owner, inHours(24));
+    const { id, candidate } = await submit(app);
+    await request(app).put(`/support/${id}/session`).set(candidate).send({ slotId, timeZone: 'UTC' }).expect(200);
+    await notifier.idle();
+    sent.length = 0;
+
+    await request(app).delete(`/slots/${slotId}`).set(other).expect(403);
+    await request(app).delete(`/slots/${slotId}`).set(lead).expect(204);
+    await notifier.idle();
+
+    expect(sent).toEqual([
+      expect.objectContaining({ to: validPayload.email, subject: expect.stringContaining('cancelled') })
+    ]);
+    const status = await request(app).get(`/support/${id}/status`).set(candidate).expect(200);
+    expect(status.body.session).toBeNull();
+    await request(app).delete(`/slots/${slotId}`).set(lead).expect(404);
+  });
+});
+
+describe('repeat submissions', () => {
+  let tempDir: string;
+  let queueFile: string;
+  const repeat = { ...validPayload, message: 'Help me prepare for system design!!' };
+  const notifier = silentNotifier();
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(tmpdir(), 'support-'));
+    queueFile = path.join(tempDir, 'queue.json');
+    process.env.SUPPORT_QUEUE_FILE = queueFile;
+  });
+
+  afterEach(() => {
+    delete process.env.SUPPORT_QUEUE_FILE;
+    delete process.env.DUPLICATE_POLICY;
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const readQueue = () => JSON.parse(readFileSync(queueFile, 'utf-8')) as StoredSupportRequest[];
+
+  it('merges near-duplicates from the same address into the original', async () => {
+    const app = createApp({ notifier });
+    const original = await request(app).post('/support').send(validPayload).expect(201);
+
+    const response = await request(app)
+      .post('/support')
+      .send({ ...repeat, email: 'ADA@example.com', urgency: 'urgent' })
+      .expect(409);
+
+    expect(response.body).toMatchObject({ duplicateOf: original.body.id, merged: true });
+    const queue = readQueue();
+    expect(queue).toHaveLength(1);
+    expect(queue[0].notes).toEqual([
+      expect.objectContaining({ author: 'Duplicate detection', body: expect.stringContaining('system design!!') })
+    ]);
+    const audit = JSON.parse(readFileSync(path.join(tempDir, 'audit-log.json'), 'utf-8'));
+    expect(audit[audit.length - 1]).toMatchObject({
+      action: 'request.merged',
+      actor: 'duplicate-detection',
+      changes: [{ field: 'notes', before: 0, after: 1 }]
+    });
+
+    await request(app)
+      .post('/support')
+      .send({ ...validPayload, topic: 'Resume review', message: 'Could a coach look over my resume before Friday?' })
+      .expect(201);
+    await request(app)
+      .post('/support')
+      .send({ ...validPayload, email: 'grace@example.com' })
+      .expect(201);
+  });
+
+  it('rejects near-duplicates without touching the original when configured to', async () => {
+    process.env.DUPLICATE_POLICY = 'reject';
+    const app = createApp({ notifier });
+    const original = await request(app).post('/support').send(validPayload).expect(201);
+
+    const response = await request(app).post('/support').send(repeat).expect(409);
+
+    expect(response.body).toMatchObject({ duplicateOf: original.body.id, merged: false });
+    expect(readQueue()[0].notes).toEqual([]);
+  });
+
+  it('replays the first response for a repeated Idempotency-Key', async () => {
+    const app = createApp({ notifier });
+    const key = 'a7f3c2d4-0b1e-4c7a-9f00-123456789abc';
+
+    const first = await request(app).post('/support').set('Idempotency-Key', key).send(validPayload).expect(201);
+    const retry = await request(app)
+      .post('/support')
+      .set('Idempotency-Key', key)
+      .send({ ...validPayload, elapsedMs: 9000 })
+      .expect(201);
+
+    expect(retry.body).toEqual(first.body);
+    expect(retry.headers['idempotent-replayed']).toBe('true');
+    expect(readQueue()).toHaveLength(1);
+
+    await request(app)
+      .post('/support')
+      .set('Idempotency-Key', key)
+      .send({ ...validPayload, topic: 'Something else' })
+      .expect(422);
+    await request(app).post('/support').set('Idempotency-Key', 'bad key!').send(validPayload).expect(400);
+  });
+});
+
+describe('reports', () => {
+  let tempDir: string;
+  let coaches: ReturnType<typeof coachFixtures>;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(tmpdir(), 'support-'));
+    process.env.SUPPORT_QUEUE_FILE = path.join(tempDir, 'queue.json');
+    coaches = coachFixtures(tempDir);
+  });
+
+  afterEach(() => {
+    delete process.env.SUPPORT_QUEUE_FILE;
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  async function seed() {
+    const app = createApp({ users: coaches.users, sessions: coaches.sessions, notifier: silentNotifier() });
+    const lead = await coaches.signIn('lin', 'lead');
+    const first = await request(app).post('/support').send(validPayload).expect(201);
+    await request(app)
+      .post('/support')
+      .send({ ...validPayload, email: 'grace@example.com', topic: 'Offer review', urgency: 'urgent' })
+      .expect(201);
+    await request(app)
+      .patch(`/support/${first.body.id}`)
+      .set(lead)
+      .send({ status: 'in_progress', reply: 'Happy to help.' })
+      .expect(200);
+    return { app, lead, firstId: first.body.id as string };
+  }
+
+  it('exports the queue to leads as CSV or NDJSON', async () => {
+    const { app, lead, firstId } = await seed();
+
+    const csv = await request(app).get('/reports/export').set(lead).expect(200);
+    expect(csv.headers['content-type']).toMatch(/^text\/csv/);
+    expect(csv.headers['content-disposition']).toBe('attachment; filename="support-requests.csv"');
+    const rows = csv.text.trimEnd().split('\r\n');
+    expect(rows).toHaveLength(3);
+    expect(rows[0]).toMatch(/^id,createdAt,/);
+    expect(rows[1]).toMatch(new RegExp(`^${firstId},.*,Mock interviews,Ada Lovelace,ada@example.com,`));
+
+    const ndjson = await request(app)
+      .get('/reports/export')
+      .query({ format: 'ndjson', status: 'in_progress', from: new Date(Date.now() - 60_000).toISOString() })
+      .set(lead)
+      .expect(200);
+    expect(ndjson.headers['content-type']).toMatch(/^application\/x-ndjson/);
+    const lines = ndjson.text
+      .trimEnd()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+    expect(lines).toEqual([expect.objectContaining({ id: firstId, messages: 1, firstResponseAt: expect.any(String) })]);
+    expect(lines[0]).not.toHaveProperty('accessTokenHash');
+
+    await request(app).get('/reports/export').query({ format: 'xlsx' }).set(lead).expect(400);
+  });
+
+  it('reports volume, response times and SLA breaches for a period', async () => {
+    const { app, lead } = await seed();
+
+    const response = await request(app).get('/reports/metrics').set(lead).expect(200);
+
+    expect(response.body).toMatchObject({
+      total: 2,
+      byUrgency: { normal: 1, urgent: 1 },
+      byCategory: { general: 2 },
+      byTopic: [
+        { topic: 'Mock interviews', count: 1 },
+        { topic: 'Offer review', count: 1 }
+      ],
+      firstResponse: { responded: 1, medianMinutes: 0 },
+      sla: { due: 1, breached: 0, breachRate: 0 }
+    });
+    expect(Date.parse(response.body.to) - Date.parse(response.body.from)).toBe(7 * 24 * 60 * 60 * 1000);
+
+    const earlier = await request(app)
+      .get('/reports/metrics')
+      .query({ from: '2024-01-01T00:00:00Z', to: '2024-01-08T00:00:00Z' })
+      .set(lead)
+      .expect(200);
+    expect(earlier.body).toMatchObject({ from: '2024-01-01T00:00:00.000Z', total: 0, sla: { breachRate: null } });
+
+    await request(app)
+      .get('/reports/metrics')
+      .query({ from: '2024-01-08T00:00:00Z', to: '2024-01-01T00:00:00Z' })
+      .set(lead)
+      .expect(400);
+  });
+
+  it('is limited to leads and admins', async () => {
+    const app = createApp({ users: coaches.users, sessions: coaches.sessions });
+    const coach = await coaches.signIn('grace', 'coach');
+    const admin = await coaches.signIn('root', 'admin');
+
+    await request(app).get('/reports/export').expect(401);
+    await request(app).get('/reports/export').set(coach).expect(403);
+    await request(app).get('/reports/metrics').set(coach).expect(403);
+    await request(app).get('/reports/metrics').set(admin).expect(200);
+  });
+});
+
+describe('personal data requests', () => {
+  let tempDir: string;
+  let coaches: ReturnType<typeof coachFixtures>;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(tmpdir(), 'support-'));
+    process.env.SUPPORT_QUEUE_FILE = path.join(tempDir, 'queue.json');
+    coaches = coachFixtures(tempDir);
+  });
+
+  afterEach(() => {
+    delete process.env.SUPPORT_QUEUE_FILE;
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('exports and erases everything tied to an address and audits both', async () => {
+    const app = createApp({ users: coaches.users, sessions: coaches.sessions, notifier: silentNotifier() });
+    const admin = await coaches.signIn('root', 'admin');
+    const coach = await coaches.signIn('grace', 'coach');
+    await request(app).post('/support').send(validPayload).expect(201);
+    await request(app)
+      .post('/support')
+      .send({ ...validPayload, email: 'ADA@example.com', topic: 'Resume review', message: 'Could you read my CV?' })
+      .expect(201);
+    const other = await request(app)
+      .post('/support')
+      .send({ ...validPayload, email: 'grace@example.com' })
+      .expect(201);
+
+    await request(app).post('/privacy/export').set(coach).send({ email: 'ada@example.com' }).expect(403);
+    await request(app).post('/privacy/export').set(admin).send({ email: 'not an email' }).expect(400);
+
+    const exported = await request(app)
+      .post('/privacy/export')
+      .set(admin)
+      .send({ email: 'ada@example.com' })
+      .expect(200);
+    expect(exported.body.requests).toEqual([
+      expect.objectContaining({ topic: 'Mock interviews', session: null }),
+      expect.objectContaining({ topic: 'Resume review' })
+    ]);
+    expect(exported.body.requests[0]).not.toHaveProperty('accessTokenHash');
+
+    const erased = await request(app)
+      .post('/privacy/erasure')
+      .set(admin)
+      .send({ email: 'ada@example.com' })
+      .expect(200);
+    expect(erased.body.erased).toEqual(exported.body.requests.map((entry: { id: string }) => entry.id));
+
+    const remaining = await request(app).get('/support').set(admin).expect(200);
+    expect(remaining.body.items.map((entry: { id: string }) => entry.id)).toEqual([other.body.id]);
+
+    const log = await request(app).get('/audit-log').set(admin).expect(200);
+    expect(log.body.items.slice(0, 2)).toEqual([
+      expect.objectContaining({ action: 'privacy.erased', actor: 'root', requestIds: erased.body.erased }),
+      expect.objectContaining({ action: 'privacy.exported', actor: 'root', emailHash: expect.any(String) })
+    ]);
+    expect(JSON.stringify(log.body)).not.toContain('ada@example.com');
+    await request(app).get('/audit-log').set(coach).expect(403);
+  });
+});
+
+describe('audit trail', () => {
+  let tempDir: string;
+  let coaches: ReturnType<typeof coachFixtures>;
+  let auditFile: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(tmpdir(), 'support-'));
+    process.env.SUPPORT_QUEUE_FILE = path.join(tempDir, 'queue.json');
+    auditFile = path.join(tempDir, 'audit-log.json');
+    coaches = coachFixtures(tempDir);
+  });
+
+  afterEach(() => {
+    delete process.env.SUPPORT_QUEUE_FILE;
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('records who changed what on each request in a verifiable chain', async () => {
+    const app = createApp({ users: coaches.users, sessions: coaches.sessions, notifier: silentNotifier() });
+    const lead = await coaches.signIn('lin', 'lead');
+    const coach = await coaches.signIn('grace', 'coach');
+    const created = await request(app).post('/support').send(validPayload).expect(201);
+    const id = created.body.id as string;
+
+    await request(app)
+      .patch(`/support/${id}`)
+      .set(coach)
+      .send({ status: 'in_progress', assignee: 'grace', note: 'Ada asked about Acme.' })
+      .expect(200);
+    // Nothing changes, so nothing is recorded.
+    await request(app).patch(`/support/${id}`).set(coach).send({ status: 'in_progress' }).expect(200);
+
+    const trail = await request(app).get(`/support/${id}/audit`).set(coach).expect(200);
+    expect(trail.body.items).toEqual([
+      expect.objectContaining({
+        action: 'request.updated',
+        actor: 'grace',
+        requestIds: [id],
+        changes: [
+          { field: 'status', before: 'open', after: 'in_progress' },
+          { field: 'assignee', before: null, after: 'grace' },
+          { field: 'notes', before: 0, after: 1 }
+        ]
+      }),
+      expect.objectContaining({
+        action: 'request.created',
+        actor: 'candidate',
+        changes: expect.arrayContaining([{ field: 'status', before: null, after: 'open' }])
+      })
+    ]);
+    expect(readFileSync(auditFile, 'utf-8')).not.toContain('Acme');
+
+    await request(app).get('/audit-log/verify').set(coach).expect(403);
+    const intact = await request(app).get('/audit-log/verify').set(lead).expect(200);
+    expect(intact.body).toEqual({ valid: true, checked: 2, brokenAt: null, head: trail.body.items[0].hash });
+
+    const events = JSON.parse(readFileSync(auditFile, 'utf-8'));
+    events[0].actor = 'someone-else';
+    writeFileSync(auditFile, JSON.stringify(events));
+    const tampered = await request(app).get('/audit-log/verify').set(lead).expect(200);
+    expect(tampered.body).toMatchObject({ valid: false, brokenAt: events[0].id });
+  });
+
+  it('records messages from the candidate and from coaches', async () => {
+    const app = createApp({ users: coaches.users, sessions: coaches.sessions, notifier: silentNotifier() });
+    const coach = await coaches.signIn('grace', 'coach');
+    const created = await request(app).post('/support').send(validPayload).expect(201);
+    const id = created.body.id as string;
+
+    await request(app)
+      .post(`/support/${id}/messages`)
+      .set('X-Access-Token', created.body.accessToken)
+      .send({ body: 'Can we focus on system design?' })
+      .expect(201);
+    await request(app).post(`/support/${id}/messages`).set(coach).send({ body: 'Sure.' }).expect(201);
+
+    const trail = await request(app).get(`/support/${id}/audit`).set(coach).expect(200);
+    expect(trail.body.items.slice(0, 2)).toEqual([
+      expect.objectContaining({
+        action: 'request.updated',
+        actor: 'grace',
+        changes: [{ field: 'messages', before: 1, after: 2 }]
+      }),
+      expect.objectContaining({
+        action: 'request.updated',
+        actor: 'candidate',
+        changes: [{ field: 'messages', before: 0, after: 1 }]
+      })
+    ]);
+    expect(readFileSync(auditFile, 'utf-8')).not.toContain('system design');
+  });
+});
+
+describe('reply templates', () => {
+  let tempDir: string;
+  let coaches: ReturnType<typeof coachFixtures>;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(tmpdir(), 'support-'));
+    process.env.SUPPORT_QUEUE_FILE = path.join(tempDir, 'queue.json');
+    coaches = coachFixtures(tempDir);
+  });
+
+  afterEach(() => {
+    delete process.env.SUPPORT_QUEUE_FILE;
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const turnaround = {
+    title: 'Resume review turnaround',
+    category: 'Resume review',
+    body: 'Hi {{name}}, thanks for your note about "{{topic}}". We review resumes within two working days.'
+  };
+
+  it('lets coaches manage shared templates and leads edit any of them', async () => {
+    const app = createApp({ users: coaches.users, sessions: coaches.sessions });
+    const grace = await coaches.signIn('grace', 'coach');
+    const alan = await coaches.signIn('alan', 'coach');
+    const lead = await coaches.signIn('lin', 'lead');
+
+    await request(app).post('/templates').send(turnaround).expect(401);
+    const invalid = await request(app)
+      .post('/templates')
+      .set(grace)
+      .send({ ...turnaround, body: 'Hi {{nmae}}!' })
+      .expect(400);
+    expect(JSON.stringify(invalid.body.details)).toContain('{{name}} and {{topic}}');
+
+    const created = await request(app).post('/templates').set(grace).send(turnaround).expect(201);
+    expect(created.body).toMatchObject({ ...turnaround, createdBy: 'grace', usageCount: 0, lastUsedAt: null });
+    await request(app)
+      .post('/templates')
+      .set(alan)
+      .send({ title: 'How mock interviews work', category: 'Logistics', body: 'Each mock interview lasts an hour.' })
+      .expect(201);
+
+    const listed = await request(app).get('/templates').set(alan).expect(200);
+    expect(listed.body.items.map((item: { title: string }) => item.title)).toEqual([
+      'How mock interviews work',
+      'Resume review turnaround'
+    ]);
+    const filtered = await request(app).get('/templates').query({ category: 'resume review' }).set(alan).expect(200);
+    expect(filtered.body.items).toEqual([expect.objectContaining({ id: created.body.id })]);
+
+    const id = created.body.id as string;
+    await request(app).patch(`/templates/${id}`).set(alan).send({ title: 'Mine now' }).expect(403);
+    await request(app).patch(`/templates/${id}`).set(grace).send({}).expect(400);
+    const renamed = await request(app)
+      .patch(`/templates/${id}`)
+      .set(lead)
+      .send({ title: 'Resume turnaround' })
+      .expect(200);
+    expect(renamed.body).toMatchObject({ title: 'Resume turnaround', body: turnaround.body, createdBy: 'grace' });
+
+    await request(app).delete(`/templates/${id}`).set(alan).expect(403);
+    await request(app).delete(`/templates/${id}`).set(grace).expect(204);
+    await request(app).delete(`/templates/${id}`).set(grace).expect(404);
+  });
+
+  it('sends a template as a reply filled in from the request and counts each use', async () => {
+    const sent: MailMessage[] = [];
+    const notifier = createNotifier({
+      transport: { send: async (message) => void sent.push(message) },
+      logger: createLogger({ level: 'silent' }),
+      onCallEmail: null,
+      pagerEmail: null
+    });
+    const app = createApp({ users: coaches.users, sessions: coaches.sessions, notifier });
+    const coach = await coaches.signIn('grace', 'coach');
+    const lead = await coaches.signIn('lin', 'lead');
+    const template = await request(app).post('/templates').set(coach).send(turnaround).expect(201);
+    const first = await request(app).post('/support').send(validPayload).expect(201);
+    const second = await request(app)
+      .post('/support')
+      .send({ ...validPayload, email: 'grace@example.com' })
+      .expect(201);
+
+    const replied = await request(app)
+      .patch(`/support/${first.body.id}`)
+      .set(coach)
+      .send({ templateId: template.body.id })
+      .expect(200);
+    expect(replied.body.messages).toEqual([
+      expect.objectContaining({
+        role: 'coach',
+        body: 'Hi Ada Lovelace, thanks for your note about "Mock interviews". We review resumes within two working days.'
+      })
+    ]);
+    await notifier.idle();
+    expect(sent.some((message) => message.text.includes('two working days'))).toBe(true);
+
+    // An inserted template the coach edited is sent as written and still counts.
+    const edited = await request(app)
+      .patch(`/support/${second.body.id}`)
+      .set(coach)
+      .send({ templateId: template.body.id, reply: 'Hi Ada, we review resumes within a day this week.' })
+      .expect(200);
+    expect(edited.body.messages[0].body).toBe('Hi Ada, we review resumes within a day this week.');
+
+    await request(app).patch(`/support/${first.body.id}`).set(coach).send({ templateId: 'missing' }).expect(400);
+
+    await request(app).get('/reports/templates').set(coach).expect(403);
+    const usage = await request(app).get('/reports/templates').set(lead).expect(200);
+    expect(usage.body.items).toEqual([
+      expect.objectContaining({ id: template.body.id, usageCount: 2, lastUsedAt: expect.any(String) })
+    ]);
+  });
+});
+
+describe('FAQ suggestions', () => {
+  let tempDir: string;
+  let coaches: ReturnType<typeof coachFixtures>;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(tmpdir(), 'support-'));
+    process.env.SUPPORT_QUEUE_FILE = path.join(tempDir, 'queue.json');
+    coaches = coachFixtures(tempDir);
+  });
+
+  afterEach(() => {
+    delete process.env.SUPPORT_QUEUE_FILE;
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const faq = createFaqIndex(
+    [
+      parseFaqArticle('resume-review', 'en', '# Can a coach review my resume?\n\nYes. Attach your resume as a PDF.'),
+      parseFaqArticle('resume-review', 'de', '# Prüft ein Coach meinen Lebenslauf?\n\nJa. Hängen Sie ihn als PDF an.'),
+      parseFaqArticle('response-times', 'en', '# How quickly will a coach reply?\n\nMost requests within 24 hours.')
+    ].filter((article) => article !== undefined)
+  );
+
+  it('suggests articles for what the candidate typed and serves them in their language', async () => {
+    const app = createApp({ faq });
+
+    const english = await request(app).get('/faq/search').query({ q: 'review my resu' }).expect(200);
+    expect(english.body.items).toEqual([
+      { id: 'resume-review', title: 'Can a coach review my resume?', summary: 'Yes. Attach your resume as a PDF.' }
+    ]);
+    const german = await request(app).get('/faq/search').query({ q: 'Lebenslauf', locale: 'de' }).expect(200);
+    expect(german.body.items.map((item: { title: string }) => item.title)).toEqual([
+      'Prüft ein Coach meinen Lebenslauf?'
+    ]);
+    expect((await request(app).get('/faq/search').expect(200)).body.items).toEqual([]);
+    await request(app).get('/faq/search').query({ q: 'resume', limit: 50 }).expect(400);
+
+    const article = await request(app).get('/faq/articles/response-times').query({ locale: 'de' }).expect(200);
+    expect(article.body).toMatchObject({
+      id: 'response-times',
+      locale: 'en',
+      title: 'How quickly will a coach reply?'
+    });
+    await request(app).get('/faq/articles/missing').expect(404);
+  });
+
+  it('counts opened articles and deflections in the queue metrics', async () => {
+    const app = createApp({ faq, users: coaches.users, sessions: coaches.sessions });
+    const lead = await coaches.signIn('lin', 'lead');
+
+    await request(app).post('/faq/events').send({ type: 'opened', articleId: 'resume-review' }).expect(204);
+    await request(app).post('/faq/events').send({ type: 'opened', articleId: 'response-times' }).expect(204);
+    // The form reports a deflection with `navigator.sendBeacon`, which posts plain text.
+    await request(app)
+      .post('/faq/events')
+      .set('Content-Type', 'text/plain')
+      .send(JSON.stringify({ type: 'deflected', articleId: 'resume-review' }))
+      .expect(204);
+    await request(app).post('/faq/events').set('Content-Type', 'text/plain').send('not json').expect(400);
+    await request(app).post('/faq/events').send({ type: 'liked', articleId: 'resume-review' }).expect(400);
+    await request(app).post('/faq/events').send({ type: 'opened', articleId: 'missing' }).expect(404);
+
+    const metrics = await request(app).get('/reports/metrics').set(lead).expect(200);
+    expect(metrics.body.faq).toEqual({
+      opened: 2,
+      deflected: 1,
+      byArticle: [
+        { articleId: 'resume-review', title: 'Can a coach review my resume?', opened: 1, deflected: 1 },
+        { articleId: 'response-times', title: 'How quickly will a coach reply?', opened: 1, deflected: 0 }
+      ]
+    });
   });
 });
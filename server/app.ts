@@ -1,53 +1,1309 @@
 import express, { type Request, type Response, type NextFunction } from 'express';
-import cors from 'cors';
 import { randomUUID } from 'crypto';
+import { once } from 'events';
 import { z } from 'zod';
-import { appendToQueue } from './queue';
-
-const bodySchema = z.object({
-  name: z.string().min(2),
-  email: z.string().email(),
-  topic: z.string().min(3),
-  message: z.string().min(10),
-  urgency: z.enum(['normal', 'urgent'])
+import multer from 'multer';
+import { defaultLocale, matchLocale } from '../shared/locales';
+import { fillTemplate } from '../shared/replyTemplates';
+import { supportRequestErrors, supportRequestSchema, supportRequestSchemaVersion } from '../shared/supportRequest';
+import { toTicketView, triageRequest } from './triage';
+import { createAccessToken, verifyAccessToken } from './accessTokens';
+import {
+  attachmentUpload,
+  createAttachmentStorage,
+  detectAttachmentType,
+  sanitizeFilename,
+  type AttachmentStorage
+} from './attachments';
+import { auditActions, createJsonAuditLog, diffRequest, hashEmail, type AuditLog } from './audit';
+import { buildCalendarInvite } from './calendar';
+import { bearerToken, requireCoach, requireParticipant, requireRole, type CoachIdentity } from './auth';
+import { loadConfig, type ServerConfig } from './config';
+import { findDuplicate, mergeDuplicate } from './duplicates';
+import {
+  createFaqIndex,
+  createJsonFaqEventStore,
+  faqArticleQuerySchema,
+  faqEventSchema,
+  faqSearchQuerySchema,
+  loadFaqArticles,
+  type FaqEventStore,
+  type FaqIndex
+} from './faq';
+import { createIdempotencyCache, fingerprint, idempotencyKeySchema, type IdempotencyCache } from './idempotency';
+import { createLogger, type Logger } from './logger';
+import { createMailTransport } from './mail';
+import { createNotifier, type Notifier } from './notifications';
+import { appendMessage, markRead, postMessageSchema, readMarkerSchema, toThreadView } from './messages';
+import { dummyPasswordHash, hashPassword, verifyPassword } from './passwords';
+import { eraseRequest, exportPersonalData, findRequestsByEmail } from './privacy';
+import type { ParticipantRole, StoredSupportRequest } from './queue';
+import { computeMetrics, exportLines, exportQuerySchema, iterateTickets, metricsQuerySchema } from './reports';
+import { createSlidingWindowLimiter, limitByIp, sendTooManyRequests, type RateLimitOptions } from './rateLimit';
+import { requestContext } from './requestContext';
+import { corsAllowList, securityHeaders } from './security';
+import { createSessionStore, type SessionStore } from './sessions';
+import {
+  bookingSchema,
+  createSlotSchema,
+  slotQuerySchema,
+  toOpenSlotView,
+  toSessionView,
+  type AvailabilitySlot,
+  type SlotStore
+} from './slots';
+import { createQueueStore, createSlotStore, type SupportQueueStore } from './store';
+import {
+  applyTemplateUpdate,
+  createJsonReplyTemplateStore,
+  createTemplate,
+  createTemplateSchema,
+  recordTemplateUse,
+  templateQuerySchema,
+  updateTemplateSchema,
+  type ReplyTemplate,
+  type ReplyTemplateStore
+} from './templates';
+import { createJsonWebhookDeliveryStore, createWebhookDispatcher, type WebhookDispatcher } from './webhooks';
+import {
+  applyPatch,
+  canTransition,
+  isValidCursor,
+  listQuerySchema,
+  patchSchema,
+  statusPageUrl,
+  toCandidateView
+} from './tickets';
+import {
+  applyUserUpdate,
+  createAccount,
+  createJsonCoachUserStore,
+  createUserSchema,
+  hasRole,
+  loginSchema,
+  toProfile,
+  updateUserSchema,
+  type CoachUserStore
+} from './users';
+
+const bodySchema = supportRequestSchema.extend({
+  // Anti-abuse signals sent by SupportForm; never persisted.
+  website: z.string().optional(),
+  // Multipart submissions send every field as a string.
+  elapsedMs: z.coerce.number().int().nonnegative()
 });
 
 export type SupportRequestBody = z.infer<typeof bodySchema>;
 
-export function createApp() {
+export interface AppOptions {
+  /** Validated settings; defaults to `loadConfig()` on the current environment. */
+  config?: ServerConfig;
+  /** Structured logger; defaults to JSON lines on stdout at `config.logLevel`. */
+  logger?: Logger;
+  /** Sends confirmation and coach emails; defaults to the transport in `config.mail`. */
+  notifier?: Notifier;
+  /** Sends signed events to the configured webhook subscriptions. */
+  webhooks?: WebhookDispatcher;
+  /** Where submissions are persisted; defaults to the store selected by `config.queue`. */
+  store?: SupportQueueStore;
+  /** Coach availability and bookings; defaults to the store selected by `config.queue`. */
+  slots?: SlotStore;
+  /** Where uploaded files are written; defaults to `config.attachments.dir`. */
+  attachments?: AttachmentStorage;
+  /** Coach accounts; defaults to the JSON file in `config.auth.usersFile`. */
+  users?: CoachUserStore;
+  /** Signed-in coach sessions; defaults to an in-memory store with `config.auth.sessionTtlMs`. */
+  sessions?: SessionStore;
+  /** Responses remembered by `Idempotency-Key`; defaults to an in-memory cache with `config.duplicates.idempotencyTtlMs`. */
+  idempotency?: IdempotencyCache;
+  /** Hash-chained record of every change to a request; defaults to the JSON file in `config.audit.file`. */
+  audit?: AuditLog;
+  /** Saved replies shared by the coaches; defaults to the JSON file in `config.templates.file`. */
+  templates?: ReplyTemplateStore;
+  /** Help articles suggested while a candidate types; defaults to the Markdown files in `config.faq.dir`. */
+  faq?: FaqIndex;
+  /** How often each article was opened and answered a question; defaults to the JSON file in `config.faq.eventsFile`. */
+  faqEvents?: FaqEventStore;
+  /** Overrides `config.rateLimit` for `POST /support`. */
+  rateLimit?: RateLimitOptions;
+  /** Overrides `config.minFillTimeMs`; faster submissions are rejected as automated. */
+  minFillTimeMs?: number;
+}
+
+export function createApp(options: AppOptions = {}) {
   const app = express();
-  app.use(cors());
-  app.use(express.json());
+  const config = options.config ?? loadConfig();
+  const logger = options.logger ?? createLogger({ level: config.logLevel });
+  const users = options.users ?? createJsonCoachUserStore(config.auth.usersFile, logger);
+  const sessions = options.sessions ?? createSessionStore({ ttlMs: config.auth.sessionTtlMs });
+  const attachments = options.attachments ?? createAttachmentStorage(config.attachments.dir);
+  const coachOnly = requireCoach(users, sessions);
+  const leadOnly = requireRole('lead');
+  const adminOnly = requireRole('admin');
+  const store = options.store ?? createQueueStore(config.queue, logger);
+  const participantOnly = requireParticipant(coachOnly, store);
+  const slots = options.slots ?? createSlotStore(config.queue, logger);
+  const notifier =
+    options.notifier ??
+    createNotifier({
+      transport: createMailTransport(config.mail),
+      logger,
+      onCallEmail: config.mail.onCallEmail,
+      pagerEmail: config.mail.pagerEmail
+    });
+  const webhooks =
+    options.webhooks ??
+    createWebhookDispatcher({
+      subscriptions: config.webhooks.subscriptions,
+      deliveries: createJsonWebhookDeliveryStore(config.webhooks.deliveriesFile, logger),
+      logger
+    });
+  const rateLimit = options.rateLimit ?? config.rateLimit;
+  const ipLimiter = createSlidingWindowLimiter(rateLimit.windowMs, rateLimit.maxPerIp);
+  const emailLimiter = createSlidingWindowLimiter(rateLimit.windowMs, rateLimit.maxPerEmail);
+  // Login attempts are counted per username so one account cannot be brute-forced from many addresses.
+  // A successful login clears the count, so only failures add up.
+  const loginLimiter = createSlidingWindowLimiter(rateLimit.windowMs, rateLimit.maxLoginAttempts);
+  const minFillTimeMs = options.minFillTimeMs ?? config.minFillTimeMs;
+  const idempotency = options.idempotency ?? createIdempotencyCache({ ttlMs: config.duplicates.idempotencyTtlMs });
+  const audit = options.audit ?? createJsonAuditLog(config.audit.file, logger);
+  const templates = options.templates ?? createJsonReplyTemplateStore(config.templates.file, logger);
+  const faq = options.faq ?? createFaqIndex(loadFaqArticles(config.faq.dir, logger));
+  const faqEvents = options.faqEvents ?? createJsonFaqEventStore(config.faq.eventsFile, logger);
+  // FAQ events get their own budget so reading articles never uses up the allowance for submitting.
+  const faqLimiter = createSlidingWindowLimiter(rateLimit.windowMs, rateLimit.maxPerIp);
+
+  const sessionCoach = async (slot: AvailabilitySlot) => ({
+    name: slot.coachName,
+    email: (await users.get(slot.coach))?.email ?? null
+  });
+
+  // Sends the cancellation for a slot that was booked; the request may have been deleted since.
+  const notifyCancelled = async (slot: AvailabilitySlot) => {
+    const entry = slot.booking && (await store.get(slot.booking.requestId));
+    if (entry) {
+      notifier.sessionCancelled(entry, slot, await sessionCoach(slot));
+    }
+  };
+
+  app.disable('x-powered-by');
+  app.use(requestContext(logger));
+  app.use(securityHeaders({ hsts: config.nodeEnv === 'production' }));
+  app.use(corsAllowList(config.corsAllowedOrigins));
+  app.use(express.json({ limit: config.jsonBodyLimit }));
 
   app.get('/health', (_req, res) => {
     res.json({ status: 'ok' });
   });
 
-  app.post('/support', async (req: Request, res: Response, next: NextFunction) => {
+  app.post('/auth/login', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const parsed = loginSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid payload', details: parsed.error.format() });
+      }
+
+      const { username, password } = parsed.data;
+      const limitKey = username.toLowerCase();
+      const limit = loginLimiter.hit(limitKey);
+      if (!limit.allowed) {
+        return sendTooManyRequests(res, limit.retryAfterMs);
+      }
+
+      const account = await users.get(username);
+      const valid = await verifyPassword(password, account?.passwordHash ?? (await dummyPasswordHash()));
+      if (!account || account.disabled || !valid) {
+        return res.status(401).json({ error: 'Invalid username or password' });
+      }
+      loginLimiter.reset(limitKey);
+
+      const session = sessions.create(account.username);
+      const coach: CoachIdentity = { username: account.username, name: account.name, role: account.role };
+      (res.locals.logger as Logger).info('coach signed in', { username: account.username });
+      return res.json({ ...session, coach });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  app.post('/auth/logout', coachOnly, (req: Request, res: Response) => {
+    sessions.revoke(bearerToken(req) as string);
+    res.status(204).end();
+  });
+
+  app.get('/auth/me', coachOnly, (_req: Request, res: Response) => {
+    res.json(res.locals.coach);
+  });
+
+  app.get('/faq/search', (req: Request, res: Response) => {
+    const parsed = faqSearchQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid query', details: parsed.error.format() });
+    }
+    const { q, locale, limit } = parsed.data;
+    return res.json({ items: faq.search(q, { locale, limit }) });
+  });
+
+  app.get('/faq/articles/:id', (req: Request<{ id: string }>, res: Response) => {
+    const parsed = faqArticleQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid query', details: parsed.error.format() });
+    }
+    const article = faq.get(req.params.id, parsed.data.locale);
+    if (!article) {
+      return res.status(404).json({ error: 'Article not found' });
+    }
+    return res.json(article);
+  });
+
+  // `navigator.sendBeacon` posts as text/plain, the one type a cross-origin page can send while it unloads.
+  app.post(
+    '/faq/events',
+    limitByIp(faqLimiter),
+    express.text({ type: 'text/plain', limit: '1kb' }),
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        let body: unknown = req.body;
+        if (typeof body === 'string') {
+          try {
+            body = JSON.parse(body);
+          } catch {
+            return res.status(400).json({ error: 'Invalid payload' });
+          }
+        }
+        const parsed = faqEventSchema.safeParse(body);
+        if (!parsed.success) {
+          return res.status(400).json({ error: 'Invalid payload', details: parsed.error.format() });
+        }
+        if (!faq.get(parsed.data.articleId, defaultLocale)) {
+          return res.status(404).json({ error: 'Article not found' });
+        }
+        await faqEvents.record(parsed.data, new Date().toISOString());
+        return res.status(204).end();
+      } catch (error) {
+        return next(error);
+      }
+    }
+  );
+
+  app.post(
+    '/support',
+    limitByIp(ipLimiter),
+    attachmentUpload(config.attachments),
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const parsed = bodySchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res
+            .status(400)
+            .json({ error: 'Invalid payload', code: 'invalid_payload', details: supportRequestErrors(parsed.error) });
+        }
+
+        const { website, elapsedMs, ...submission } = parsed.data;
+
+        // Bots fill the hidden honeypot field; answer as if it worked so they don't adapt.
+        if (website) {
+          return res.status(201).json({ status: 'ok', id: randomUUID(), accessToken: createAccessToken().token });
+        }
+
+        if (elapsedMs < minFillTimeMs) {
+          return res.status(400).json({
+            error: 'Submission was too fast. Please review your request and try again.',
+            code: 'too_fast'
+          });
+        }
+
+        const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+        const idempotencyKey = req.get('idempotency-key');
+        if (idempotencyKey !== undefined) {
+          if (!idempotencyKeySchema.safeParse(idempotencyKey).success) {
+            return res.status(400).json({ error: 'Invalid Idempotency-Key header', code: 'invalid_idempotency_key' });
+          }
+          const claim = idempotency.claim(
+            idempotencyKey,
+            fingerprint({ submission, files: files.map((file) => [file.originalname, file.size]) })
+          );
+          if (claim.state === 'replay') {
+            res.set('Idempotent-Replayed', 'true');
+            return res.status(claim.response.status).json(claim.response.body);
+          }
+          if (claim.state === 'in_progress') {
+            return res.status(409).json({
+              error: 'This submission is still being processed. Try again in a moment.',
+              code: 'submission_in_progress'
+            });
+          }
+          if (claim.state === 'mismatch') {
+            return res.status(422).json({
+              error: 'This Idempotency-Key was already used for a different submission',
+              code: 'idempotency_key_reused'
+            });
+          }
+        }
+
+        // Outcomes that must not repeat on retry are remembered against the key.
+        const reply = (status: number, responseBody: object) => {
+          if (idempotencyKey) {
+            idempotency.complete(idempotencyKey, { status, body: responseBody });
+          }
+          return res.status(status).json(responseBody);
+        };
+
+        try {
+          const emailLimit = emailLimiter.hit(submission.email.toLowerCase());
+          if (!emailLimit.allowed) {
+            return sendTooManyRequests(res, emailLimit.retryAfterMs);
+          }
+
+          const uploads = files.map((file) => {
+            const filename = sanitizeFilename(file.originalname);
+            return { filename, contentType: detectAttachmentType(filename, file.buffer), data: file.buffer };
+          });
+          const rejected = uploads.find((upload) => upload.contentType === null);
+          if (rejected) {
+            return res.status(415).json({
+              error: `${rejected.filename} is not an accepted file type. Attach PDF, DOCX, text or image files.`,
+              code: 'attachment_type'
+            });
+          }
+          const accepted = uploads.map((upload) => ({ ...upload, contentType: upload.contentType as string }));
+
+          if (config.duplicates.policy !== 'off') {
+            // Rate limits keep one address to a handful of requests, so one page covers the window.
+            const recent = await store.list({
+              email: submission.email,
+              from: new Date(Date.now() - config.duplicates.windowMs).toISOString(),
+              limit: 100
+            });
+            const original = findDuplicate(submission, recent.items, config.duplicates);
+            const merged = config.duplicates.policy === 'merge';
+            let updated: StoredSupportRequest | undefined;
+            if (original && merged) {
+              const now = new Date().toISOString();
+              const saved = await attachments.save(original.id, accepted, now);
+              let before = original;
+              try {
+                updated = await store.update(original.id, (entry) => {
+                  before = entry;
+                  return mergeDuplicate(entry, submission, { now, newId: randomUUID, attachments: saved });
+                });
+              } finally {
+                if (!updated) {
+                  await attachments.remove(
+                    original.id,
+                    saved.map((attachment) => attachment.id)
+                  );
+                }
+              }
+              if (updated) {
+                await audit.record({
+                  action: 'request.merged',
+                  actor: 'duplicate-detection',
+                  requestIds: [original.id],
+                  changes: diffRequest(before, updated)
+                });
+              }
+            }
+            // An original erased since it was found cannot take the merge, so the submission is filed as new.
+            if (original && (!merged || updated)) {
+              (res.locals.logger as Logger).info('duplicate submission', {
+                supportRequestId: original.id,
+                policy: config.duplicates.policy
+              });
+              return reply(409, {
+                error: merged
+                  ? 'You already sent us this request, so we added these details to it.'
+                  : 'You already sent us this request. A coach will answer it there.',
+                code: 'duplicate',
+                duplicateOf: original.id,
+                merged
+              });
+            }
+          }
+
+          const now = new Date().toISOString();
+          const id = randomUUID();
+          const access = createAccessToken();
+          const entry: StoredSupportRequest = {
+            ...submission,
+            locale: submission.locale ?? matchLocale(req.acceptsLanguages()),
+            id,
+            schemaVersion: supportRequestSchemaVersion,
+            createdAt: now,
+            status: 'open',
+            assignee: null,
+            notes: [],
+            messages: [],
+            attachments: await attachments.save(id, accepted, now),
+            triage: triageRequest({ ...submission, createdAt: now }, config.triage),
+            readMarkers: { candidate: null, coach: null },
+            accessTokenHash: access.hash,
+            updatedAt: now
+          };
+
+          try {
+            await store.append(entry);
+          } catch (error) {
+            await attachments.removeAll(id);
+            throw error;
+          }
+          await audit.record({
+            action: 'request.created',
+            actor: 'candidate',
+            requestIds: [id],
+            changes: diffRequest(null, entry)
+          });
+          notifier.submissionReceived(entry, { statusUrl: statusPageUrl(config.publicAppUrl, entry.id, access.token) });
+          webhooks.emit('support.created', entry);
+
+          return reply(201, { status: 'ok', id: entry.id, accessToken: access.token });
+        } finally {
+          if (idempotencyKey) {
+            idempotency.release(idempotencyKey);
+          }
+        }
+      } catch (error) {
+        return next(error);
+      }
+    }
+  );
+
+  app.get('/support/:id/status', async (req: Request<{ id: string }>, res: Response, next: NextFunction) => {
+    try {
+      const entry = await store.get(req.params.id);
+      // Unknown ids and wrong tokens look the same so ids cannot be probed.
+      if (!entry || !verifyAccessToken(req.get('x-access-token'), entry.accessTokenHash)) {
+        return res.status(404).json({ error: 'Support request not found' });
+      }
+      const booked = await slots.findByRequest(entry.id);
+      return res.json(toCandidateView(entry, booked ? toSessionView(booked) : null));
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  app.get('/support', coachOnly, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const parsed = listQuerySchema.safeParse(req.query);
+      if (!parsed.success || (parsed.data.cursor && !isValidCursor(parsed.data.cursor))) {
+        return res.status(400).json({ error: 'Invalid query', details: parsed.error?.format() });
+      }
+
+      const page = await store.list(parsed.data);
+      const now = Date.now();
+      return res.json({ ...page, items: page.items.map((entry) => toTicketView(entry, now)) });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  app.get('/support/:id', coachOnly, async (req: Request<{ id: string }>, res: Response, next: NextFunction) => {
+    try {
+      const entry = await store.get(req.params.id);
+      if (!entry) {
+        return res.status(404).json({ error: 'Support request not found' });
+      }
+      return res.json(toTicketView(entry));
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  // Events stay readable after the request itself is erased or purged.
+  app.get('/support/:id/audit', coachOnly, async (req: Request<{ id: string }>, res: Response, next: NextFunction) => {
+    try {
+      return res.json({ items: await audit.list({ requestId: req.params.id }) });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  app.patch('/support/:id', coachOnly, async (req: Request<{ id: string }>, res: Response, next: NextFunction) => {
     try {
-      const parsed = bodySchema.safeParse(req.body);
+      const parsed = patchSchema.safeParse(req.body);
       if (!parsed.success) {
         return res.status(400).json({ error: 'Invalid payload', details: parsed.error.format() });
       }
 
-      const entry = {
-        ...parsed.data,
+      const existing = await store.get(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: 'Support request not found' });
+      }
+
+      const { status } = parsed.data;
+      if (status && !canTransition(existing.status, status)) {
+        return res.status(409).json({ error: `Cannot move a request from ${existing.status} to ${status}` });
+      }
+
+      const coach = res.locals.coach as CoachIdentity;
+      const { assignee } = parsed.data;
+      if (assignee !== undefined && assignee !== existing.assignee) {
+        // Coaches may claim an unassigned request; anything else is a reassignment.
+        const claiming = existing.assignee === null && assignee === coach.username;
+        if (!claiming && !hasRole(coach.role, 'lead')) {
+          return res.status(403).json({ error: 'Only leads can reassign requests' });
+        }
+        const target = assignee === null ? null : await users.get(assignee);
+        if (target === undefined || target?.disabled) {
+          return res.status(400).json({ error: `Unknown coach: ${assignee}` });
+        }
+      }
+
+      const { templateId } = parsed.data;
+      const template = templateId === undefined ? undefined : await templates.get(templateId);
+      if (templateId !== undefined && !template) {
+        return res.status(400).json({ error: `Unknown template: ${templateId}` });
+      }
+      // A template sent as it is gets filled in here; one the coach edited first arrives as `reply`.
+      const patch =
+        template && !parsed.data.reply ? { ...parsed.data, reply: fillTemplate(template.body, existing) } : parsed.data;
+
+      // The checks above ran on a snapshot; another coach may have moved or claimed the request since.
+      // They are repeated on the stored entry, and a request that no longer passes is left as it is.
+      const now = new Date().toISOString();
+      let before = existing;
+      let conflict = false;
+      const updated = await store.update(req.params.id, (entry) => {
+        before = entry;
+        const reassigning = assignee !== undefined && assignee !== entry.assignee;
+        conflict =
+          (status !== undefined && !canTransition(entry.status, status)) ||
+          (reassigning && !(entry.assignee === null && assignee === coach.username) && !hasRole(coach.role, 'lead'));
+        return conflict ? entry : applyPatch(entry, patch, { actor: coach.name, now, newId: randomUUID });
+      });
+      if (!updated) {
+        return res.status(404).json({ error: 'Support request not found' });
+      }
+      if (conflict) {
+        return res.status(409).json({ error: 'This request was changed by someone else; reload it and try again' });
+      }
+      if (template) {
+        await templates.update(template.id, (current) => recordTemplateUse(current, now));
+      }
+
+      const changes = diffRequest(before, updated);
+      if (changes.length > 0) {
+        await audit.record({ action: 'request.updated', actor: coach.username, requestIds: [updated.id], changes });
+      }
+      if (updated.status !== before.status) {
+        webhooks.emit('support.status_changed', updated, { previousStatus: before.status });
+      }
+      if (patch.reply) {
+        notifier.coachReplied(updated, updated.messages[updated.messages.length - 1]);
+      }
+
+      return res.json(toTicketView(updated));
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  app.get(
+    '/support/:id/attachments/:attachmentId',
+    participantOnly,
+    async (req: Request<{ id: string; attachmentId: string }>, res: Response, next: NextFunction) => {
+      try {
+        const entry = await store.get(req.params.id);
+        const attachment = entry?.attachments.find((candidate) => candidate.id === req.params.attachmentId);
+        if (!entry || !attachment) {
+          return res.status(404).json({ error: 'Attachment not found' });
+        }
+
+        res.attachment(attachment.filename);
+        res.type(attachment.contentType);
+        return res.sendFile(attachments.pathOf(entry.id, attachment.id), (error) => {
+          if (error && !res.headersSent) {
+            next(error);
+          }
+        });
+      } catch (error) {
+        return next(error);
+      }
+    }
+  );
+
+  app.get(
+    '/support/:id/messages',
+    participantOnly,
+    async (req: Request<{ id: string }>, res: Response, next: NextFunction) => {
+      try {
+        const entry = await store.get(req.params.id);
+        if (!entry) {
+          return res.status(404).json({ error: 'Support request not found' });
+        }
+        return res.json(toThreadView(entry, participantRole(res)));
+      } catch (error) {
+        return next(error);
+      }
+    }
+  );
+
+  app.post(
+    '/support/:id/messages',
+    participantOnly,
+    async (req: Request<{ id: string }>, res: Response, next: NextFunction) => {
+      try {
+        const parsed = postMessageSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({ error: 'Invalid payload', details: parsed.error.format() });
+        }
+
+        const role = participantRole(res);
+        const identity = (role === 'coach' ? res.locals.coach : res.locals.candidate) as { name: string };
+        const message = {
+          id: randomUUID(),
+          role,
+          author: identity.name,
+          body: parsed.data.body,
+          createdAt: new Date().toISOString()
+        };
+        // Checked inside the update so a request closed meanwhile cannot take one more message.
+        let closed = false;
+        let before: StoredSupportRequest | undefined;
+        const updated = await store.update(req.params.id, (entry) => {
+          before = entry;
+          closed = entry.status === 'closed';
+          return closed ? entry : appendMessage(entry, message);
+        });
+        if (!updated) {
+          return res.status(404).json({ error: 'Support request not found' });
+        }
+        if (closed) {
+          return res.status(409).json({ error: 'This request is closed and no longer accepts messages' });
+        }
+        await audit.record({
+          action: 'request.updated',
+          actor: role === 'coach' ? (res.locals.coach as CoachIdentity).username : 'candidate',
+          requestIds: [updated.id],
+          changes: diffRequest(before ?? null, updated)
+        });
+
+        if (role === 'coach') {
+          notifier.coachReplied(updated, message);
+        }
+
+        return res.status(201).json(message);
+      } catch (error) {
+        return next(error);
+      }
+    }
+  );
+
+  app.put(
+    '/support/:id/messages/read',
+    participantOnly,
+    async (req: Request<{ id: string }>, res: Response, next: NextFunction) => {
+      try {
+        const parsed = readMarkerSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({ error: 'Invalid payload', details: parsed.error.format() });
+        }
+
+        const role = participantRole(res);
+        const updated = await store.update(req.params.id, (entry) => markRead(entry, role, parsed.data.upTo));
+        if (!updated) {
+          return res.status(404).json({ error: 'Support request not found' });
+        }
+        return res.json(toThreadView(updated, role));
+      } catch (error) {
+        return next(error);
+      }
+    }
+  );
+
+  app.get(
+    '/support/:id/slots',
+    participantOnly,
+    async (_req: Request<{ id: string }>, res: Response, next: NextFunction) => {
+      try {
+        const now = Date.now();
+        const open = await slots.list({
+          from: new Date(now).toISOString(),
+          to: new Date(now + bookingWindowMs).toISOString(),
+          available: true
+        });
+        return res.json({ items: open.map(toOpenSlotView) });
+      } catch (error) {
+        return next(error);
+      }
+    }
+  );
+
+  app.get(
+    '/support/:id/session',
+    participantOnly,
+    async (req: Request<{ id: string }>, res: Response, next: NextFunction) => {
+      try {
+        const slot = await slots.findByRequest(req.params.id);
+        const session = slot && toSessionView(slot);
+        if (!session) {
+          return res.status(404).json({ error: 'No session is booked for this request' });
+        }
+        return res.json(session);
+      } catch (error) {
+        return next(error);
+      }
+    }
+  );
+
+  app.put(
+    '/support/:id/session',
+    participantOnly,
+    async (req: Request<{ id: string }>, res: Response, next: NextFunction) => {
+      try {
+        const parsed = bookingSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({ error: 'Invalid payload', details: parsed.error.format() });
+        }
+
+        const entry = await store.get(req.params.id);
+        if (!entry) {
+          return res.status(404).json({ error: 'Support request not found' });
+        }
+        if (entry.status === 'resolved' || entry.status === 'closed') {
+          return res.status(409).json({ error: `Sessions cannot be booked for a ${entry.status} request` });
+        }
+
+        const slot = await slots.get(parsed.data.slotId);
+        if (!slot) {
+          return res.status(404).json({ error: 'Slot not found' });
+        }
+        if (Date.parse(slot.startsAt) <= Date.now()) {
+          return res.status(409).json({ error: 'This slot has already started' });
+        }
+
+        const result = await slots.book(slot.id, {
+          requestId: entry.id,
+          candidateTimeZone: parsed.data.timeZone,
+          bookedAt: new Date().toISOString()
+        });
+        if (result.status === 'not_found') {
+          return res.status(404).json({ error: 'Slot not found' });
+        }
+        if (result.status === 'taken') {
+          return res.status(409).json({ error: 'This slot was just booked by someone else. Pick another time.' });
+        }
+
+        if (result.previous) {
+          notifier.sessionCancelled(entry, result.previous, await sessionCoach(result.previous));
+        }
+        // Re-booking the same slot only updates the time zone; no new invite is needed.
+        if (result.previous || slot.booking?.requestId !== entry.id) {
+          notifier.sessionBooked(entry, result.slot, await sessionCoach(result.slot));
+        }
+        (res.locals.logger as Logger).info('session booked', {
+          supportRequestId: entry.id,
+          slotId: result.slot.id,
+          rescheduledFrom: result.previous?.id
+        });
+        return res.json(toSessionView(result.slot));
+      } catch (error) {
+        return next(error);
+      }
+    }
+  );
+
+  app.delete(
+    '/support/:id/session',
+    participantOnly,
+    async (req: Request<{ id: string }>, res: Response, next: NextFunction) => {
+      try {
+        const booked = await slots.findByRequest(req.params.id);
+        if (!booked) {
+          return res.status(404).json({ error: 'No session is booked for this request' });
+        }
+        if (Date.parse(booked.startsAt) <= Date.now()) {
+          return res.status(409).json({ error: 'A session that has started cannot be cancelled' });
+        }
+
+        const cancelled = await slots.cancel(req.params.id);
+        if (cancelled) {
+          await notifyCancelled(cancelled);
+        }
+        return res.status(204).end();
+      } catch (error) {
+        return next(error);
+      }
+    }
+  );
+
+  app.get(
+    '/support/:id/session.ics',
+    participantOnly,
+    async (req: Request<{ id: string }>, res: Response, next: NextFunction) => {
+      try {
+        const [entry, slot] = await Promise.all([store.get(req.params.id), slots.findByRequest(req.params.id)]);
+        if (!entry || !slot) {
+          return res.status(404).json({ error: 'No session is booked for this request' });
+        }
+
+        const coach = await sessionCoach(slot);
+        res.attachment('coaching-session.ics');
+        res.type('text/calendar; charset=utf-8');
+        return res.send(
+          buildCalendarInvite(
+            {
+              slot,
+              requestId: entry.id,
+              summary: `Interview coaching: ${entry.topic}`,
+              description: `Coaching session with ${coach.name} for ${entry.name}. Reference: #${entry.id}`,
+              organizer: coach,
+              attendee: { name: entry.name, email: entry.email }
+            },
+            'REQUEST'
+          )
+        );
+      } catch (error) {
+        return next(error);
+      }
+    }
+  );
+
+  app.get('/slots', coachOnly, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const parsed = slotQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid query', details: parsed.error.format() });
+      }
+      return res.json({ items: await slots.list(parsed.data) });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  app.post('/slots', coachOnly, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const parsed = createSlotSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid payload', details: parsed.error.format() });
+      }
+
+      const { startsAt, durationMinutes, timeZone } = parsed.data;
+      if (Date.parse(startsAt) <= Date.now()) {
+        return res.status(400).json({ error: 'Slots must start in the future' });
+      }
+
+      const coach = res.locals.coach as CoachIdentity;
+      const slot: AvailabilitySlot = {
         id: randomUUID(),
+        coach: coach.username,
+        coachName: coach.name,
+        startsAt,
+        endsAt: new Date(Date.parse(startsAt) + durationMinutes * 60_000).toISOString(),
+        timeZone,
+        booking: null,
         createdAt: new Date().toISOString()
       };
+      if ((await slots.create(slot)) === 'overlaps') {
+        return res.status(409).json({ error: 'This slot overlaps one you already offer' });
+      }
+      return res.status(201).json(slot);
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  app.delete('/slots/:id', coachOnly, async (req: Request<{ id: string }>, res: Response, next: NextFunction) => {
+    try {
+      const slot = await slots.get(req.params.id);
+      if (!slot) {
+        return res.status(404).json({ error: 'Slot not found' });
+      }
+      const coach = res.locals.coach as CoachIdentity;
+      if (slot.coach !== coach.username && !hasRole(coach.role, 'lead')) {
+        return res.status(403).json({ error: "Only leads can remove another coach's slots" });
+      }
+
+      const removed = await slots.remove(slot.id);
+      if (removed?.booking && Date.parse(removed.startsAt) > Date.now()) {
+        await notifyCancelled(removed);
+      }
+      return res.status(204).end();
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  app.get('/templates', coachOnly, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const parsed = templateQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid query', details: parsed.error.format() });
+      }
+      return res.json({ items: await templates.list(parsed.data) });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  app.post('/templates', coachOnly, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const parsed = createTemplateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid payload', details: parsed.error.format() });
+      }
+
+      const template = createTemplate(parsed.data, {
+        id: randomUUID(),
+        author: (res.locals.coach as CoachIdentity).username,
+        now: new Date().toISOString()
+      });
+      await templates.create(template);
+      return res.status(201).json(template);
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  // Any coach may add to the shared library; changing or removing someone else's template is for leads.
+  const canEditTemplate = (coach: CoachIdentity, template: ReplyTemplate) =>
+    template.createdBy === coach.username || hasRole(coach.role, 'lead');
+
+  app.patch('/templates/:id', coachOnly, async (req: Request<{ id: string }>, res: Response, next: NextFunction) => {
+    try {
+      const parsed = updateTemplateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid payload', details: parsed.error.format() });
+      }
+
+      const template = await templates.get(req.params.id);
+      if (!template) {
+        return res.status(404).json({ error: 'Template not found' });
+      }
+      if (!canEditTemplate(res.locals.coach as CoachIdentity, template)) {
+        return res.status(403).json({ error: "Only leads can change another coach's templates" });
+      }
+
+      const updated = await templates.update(template.id, (current) =>
+        applyTemplateUpdate(current, parsed.data, new Date().toISOString())
+      );
+      return res.json(updated);
+    } catch (error) {
+      return next(error);
+    }
+  });
 
-      await appendToQueue(entry);
+  app.delete('/templates/:id', coachOnly, async (req: Request<{ id: string }>, res: Response, next: NextFunction) => {
+    try {
+      const template = await templates.get(req.params.id);
+      if (!template) {
+        return res.status(404).json({ error: 'Template not found' });
+      }
+      if (!canEditTemplate(res.locals.coach as CoachIdentity, template)) {
+        return res.status(403).json({ error: "Only leads can remove another coach's templates" });
+      }
 
-      return res.status(201).json({ status: 'ok', id: entry.id });
+      await templates.remove(template.id);
+      return res.status(204).end();
     } catch (error) {
       return next(error);
     }
   });
 
-  app.use((error: unknown, _req: Request, res: Response, _next: NextFunction) => {
-    console.error(error);
-    res.status(500).json({ error: 'Unexpected error handling support request' });
+  app.get('/reports/export', coachOnly, leadOnly, async (req: Request, res: Response, next: NextFunction) => {
+    const parsed = exportQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid query', details: parsed.error.format() });
+    }
+
+    const { format, ...filter } = parsed.data;
+    // attachment() guesses the type from the extension, so the type is set after it.
+    res.attachment(`support-requests.${format}`);
+    res.type(format === 'csv' ? 'text/csv' : 'application/x-ndjson');
+    try {
+      // Written page by page, waiting for the client to drain, so a large queue never sits in memory at once.
+      for await (const line of exportLines(iterateTickets(store, filter), format)) {
+        if (!res.write(line)) {
+          await once(res, 'drain');
+        }
+      }
+      return res.end();
+    } catch (error) {
+      if (!res.headersSent) {
+        return next(error);
+      }
+      // The status line is already out; cutting the connection tells the client the file is incomplete.
+      ((res.locals.logger as Logger | undefined) ?? logger).error('export failed', { err: error });
+      return res.destroy();
+    }
+  });
+
+  app.get('/reports/metrics', coachOnly, leadOnly, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const parsed = metricsQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid query', details: parsed.error.format() });
+      }
+
+      const now = Date.now();
+      const to = parsed.data.to ? new Date(parsed.data.to).toISOString() : new Date(now).toISOString();
+      const from = parsed.data.from
+        ? new Date(parsed.data.from).toISOString()
+        : new Date(Date.parse(to) - metricsPeriodMs).toISOString();
+      const metrics = await computeMetrics(iterateTickets(store, { from, to }), { from, to }, now);
+      const articles = await faqEvents.summarize({ from, to });
+      return res.json({
+        ...metrics,
+        faq: {
+          opened: articles.reduce((sum, article) => sum + article.opened, 0),
+          deflected: articles.reduce((sum, article) => sum + article.deflected, 0),
+          byArticle: articles.map((article) => ({
+            ...article,
+            // Counts outlive articles that were since removed from the FAQ.
+            title: faq.get(article.articleId, defaultLocale)?.title ?? null
+          }))
+        }
+      });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  // Templates sent most often answer the questions that keep coming back, so they are the first candidates for FAQ entries.
+  app.get('/reports/templates', coachOnly, leadOnly, async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      const items = await templates.list({});
+      return res.json({
+        items: items.sort(
+          (a, b) => b.usageCount - a.usageCount || (b.lastUsedAt ?? '').localeCompare(a.lastUsedAt ?? '')
+        )
+      });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  app.get('/admin/users', coachOnly, adminOnly, async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      const accounts = await users.list();
+      return res.json({ items: accounts.map(toProfile) });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  app.post('/admin/users', coachOnly, adminOnly, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const parsed = createUserSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid payload', details: parsed.error.format() });
+      }
+
+      const account = await createAccount(parsed.data);
+      if (!(await users.create(account))) {
+        return res.status(409).json({ error: `Username ${account.username} is already taken` });
+      }
+      return res.status(201).json(toProfile(account));
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  app.patch(
+    '/admin/users/:username',
+    coachOnly,
+    adminOnly,
+    async (req: Request<{ username: string }>, res: Response, next: NextFunction) => {
+      try {
+        const parsed = updateUserSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({ error: 'Invalid payload', details: parsed.error.format() });
+        }
+
+        const { password, ...changes } = parsed.data;
+        const admin = res.locals.coach as CoachIdentity;
+        if (
+          req.params.username === admin.username &&
+          (changes.disabled || (changes.role && changes.role !== 'admin'))
+        ) {
+          return res.status(409).json({ error: 'You cannot remove your own admin access' });
+        }
+
+        const passwordHash = password ? await hashPassword(password) : undefined;
+        const updated = await users.update(req.params.username, (account) =>
+          applyUserUpdate(account, changes, { passwordHash, now: new Date().toISOString() })
+        );
+        if (!updated) {
+          return res.status(404).json({ error: 'Coach not found' });
+        }
+
+        if (changes.disabled || passwordHash) {
+          sessions.revokeUser(updated.username);
+        }
+        return res.json(toProfile(updated));
+      } catch (error) {
+        return next(error);
+      }
+    }
+  );
+
+  app.delete(
+    '/admin/users/:username',
+    coachOnly,
+    adminOnly,
+    async (req: Request<{ username: string }>, res: Response, next: NextFunction) => {
+      try {
+        if (req.params.username === (res.locals.coach as CoachIdentity).username) {
+          return res.status(409).json({ error: 'You cannot delete your own account' });
+        }
+        if (!(await users.remove(req.params.username))) {
+          return res.status(404).json({ error: 'Coach not found' });
+        }
+        sessions.revokeUser(req.params.username);
+        return res.status(204).end();
+      } catch (error) {
+        return next(error);
+      }
+    }
+  );
+
+  // The address travels in the body rather than the query string so it stays out of access logs.
+  const privacyRequestSchema = z.object({ email: z.string().trim().email() });
+
+  app.post('/privacy/export', coachOnly, adminOnly, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const parsed = privacyRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid payload', details: parsed.error.format() });
+      }
+
+      const entries = await findRequestsByEmail(store, parsed.data.email);
+      const coach = res.locals.coach as CoachIdentity;
+      await audit.record({
+        action: 'privacy.exported',
+        actor: coach.username,
+        requestIds: entries.map((entry) => entry.id),
+        emailHash: hashEmail(parsed.data.email)
+      });
+      return res.json({
+        email: parsed.data.email,
+        exportedAt: new Date().toISOString(),
+        requests: await exportPersonalData(entries, slots)
+      });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  app.post('/privacy/erasure', coachOnly, adminOnly, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const parsed = privacyRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid payload', details: parsed.error.format() });
+      }
+
+      const entries = await findRequestsByEmail(store, parsed.data.email);
+      for (const entry of entries) {
+        await eraseRequest({ store, slots, attachments, webhooks }, entry.id);
+      }
+      const coach = res.locals.coach as CoachIdentity;
+      const requestIds = entries.map((entry) => entry.id);
+      // Recorded even when nothing matched, as proof the request was handled.
+      await audit.record({
+        action: 'privacy.erased',
+        actor: coach.username,
+        requestIds,
+        emailHash: hashEmail(parsed.data.email)
+      });
+      (res.locals.logger as Logger).info('personal data erased', { count: requestIds.length });
+      return res.json({ erased: requestIds });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  app.get('/audit-log', coachOnly, leadOnly, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const parsed = z
+        .object({ action: z.enum(auditActions).optional(), requestId: z.string().min(1).optional() })
+        .safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid query', details: parsed.error.format() });
+      }
+      return res.json({ items: await audit.list(parsed.data) });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  app.get('/audit-log/verify', coachOnly, leadOnly, async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      return res.json(await audit.verify());
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  app.get('/webhooks/deliveries', coachOnly, adminOnly, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const parsed = z.object({ status: z.enum(['pending', 'succeeded', 'failed']).optional() }).safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid query', details: parsed.error.format() });
+      }
+      return res.json({ items: await webhooks.listDeliveries(parsed.data) });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  app.post(
+    '/webhooks/deliveries/:id/replay',
+    coachOnly,
+    adminOnly,
+    async (req: Request<{ id: string }>, res: Response, next: NextFunction) => {
+      try {
+        const result = await webhooks.replay(req.params.id);
+        if (result.status === 'not_found') {
+          return res.status(404).json({ error: 'Webhook delivery not found' });
+        }
+        if (result.status === 'in_flight') {
+          return res.status(409).json({ error: 'This delivery is still being sent' });
+        }
+        return res.status(202).json(result.delivery);
+      } catch (error) {
+        return next(error);
+      }
+    }
+  );
+
+  app.use((error: unknown, req: Request, res: Response, _next: NextFunction) => {
+    // Errors raised by express.json() carry the HTTP status they map to.
+    const { status, type } = error as { status?: number; type?: string };
+    if (type === 'entity.too.large') {
+      return res.status(413).json({ error: 'Payload too large' });
+    }
+    if (error instanceof multer.MulterError) {
+      return error.code === 'LIMIT_FILE_SIZE'
+        ? res.status(413).json({
+            error: `Attachments must be ${formatBytes(config.attachments.maxBytes)} or smaller`,
+            code: 'attachment_too_large'
+          })
+        : res.status(400).json({ error: `Invalid upload: ${error.message}`, code: 'invalid_upload' });
+    }
+    if (status === 400 && type === 'entity.parse.failed') {
+      return res.status(400).json({ error: 'Invalid payload' });
+    }
+
+    const requestLogger = (res.locals.logger as Logger | undefined) ?? logger;
+    requestLogger.error('unhandled error', { err: error, method: req.method, path: req.path });
+    return res
+      .status(500)
+      .json({ error: 'Unexpected error handling support request', requestId: res.locals.requestId as string });
   });
 
   return app;
 }
+
+// Metrics cover the last week unless a period is given.
+const metricsPeriodMs = 7 * 24 * 60 * 60 * 1000;
+
+// Candidates are offered slots starting in the next two weeks.
+const bookingWindowMs = 14 * 24 * 60 * 60 * 1000;
+
+function participantRole(res: Response): ParticipantRole {
+  return res.locals.coach ? 'coach' : 'candidate';
+}
+
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${Math.round(bytes / (1024 * 1024))} MB` : `${Math.round(bytes / 1024)} KB`;
+}
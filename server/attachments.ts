@@ -0,0 +1,107 @@
+import { randomUUID } from 'crypto';
+import { mkdir, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import multer from 'multer';
+import type { AttachmentConfig } from './config';
+import type { AttachmentMeta } from './queue';
+
+interface AllowedType {
+  extensions: string[];
+  /** Checks the first bytes so a renamed executable is not accepted as a PDF. */
+  matches: (data: Buffer) => boolean;
+}
+
+const startsWith = (signature: number[]) => (data: Buffer) =>
+  data.length >= signature.length && signature.every((byte, index) => data[index] === byte);
+
+export const allowedAttachmentTypes: Record<string, AllowedType> = {
+  'application/pdf': { extensions: ['.pdf'], matches: startsWith([0x25, 0x50, 0x44, 0x46]) },
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': {
+    extensions: ['.docx'],
+    matches: startsWith([0x50, 0x4b, 0x03, 0x04])
+  },
+  'text/plain': { extensions: ['.txt', '.md'], matches: (data) => !data.includes(0) },
+  'image/png': { extensions: ['.png'], matches: startsWith([0x89, 0x50, 0x4e, 0x47]) },
+  'image/jpeg': { extensions: ['.jpg', '.jpeg'], matches: startsWith([0xff, 0xd8, 0xff]) }
+};
+
+/** Keeps only the base name, without control characters, capped at 120 characters. */
+export function sanitizeFilename(original: string): string {
+  const base = path.basename(original.replace(/\\/g, '/')).replace(/[\u0000-\u001f\u007f"]/g, '');
+  return base.slice(-120) || 'attachment';
+}
+
+/**
+ * Resolves the type of an upload from its extension and checks the bytes
+ * agree. Returns `null` for anything not on the allow-list.
+ */
+export function detectAttachmentType(filename: string, data: Buffer): string | null {
+  const extension = path.extname(filename).toLowerCase();
+  const match = Object.entries(allowedAttachmentTypes).find(([, type]) => type.extensions.includes(extension));
+  return match && match[1].matches(data) ? match[0] : null;
+}
+
+/** Parses `multipart/form-data` bodies into `req.files`; JSON requests pass through untouched. */
+export function attachmentUpload(config: AttachmentConfig) {
+  return multer({
+    storage: multer.memoryStorage(),
+    // Browsers send UTF-8 filenames without declaring a charset.
+    defParamCharset: 'utf8',
+    limits: { fileSize: config.maxBytes, files: config.maxFiles, fields: 20, fieldSize: 64 * 1024 }
+  }).array('attachments', config.maxFiles);
+}
+
+export interface AttachmentStorage {
+  /** Writes validated uploads for a request and returns their metadata. */
+  save(
+    requestId: string,
+    files: { filename: string; contentType: string; data: Buffer }[],
+    now: string
+  ): Promise<AttachmentMeta[]>;
+  /** Absolute path of a stored attachment, for `res.sendFile`. */
+  pathOf(requestId: string, attachmentId: string): string;
+  /** Deletes the given files of a request, leaving its others in place. */
+  remove(requestId: string, attachmentIds: string[]): Promise<void>;
+  removeAll(requestId: string): Promise<void>;
+}
+
+/** Stores each request's files in its own directory, named by attachment id rather than the uploaded name. */
+export function createAttachmentStorage(dir: string): AttachmentStorage {
+  const requestDir = (requestId: string) => path.join(dir, path.basename(requestId));
+
+  return {
+    async save(requestId, files, now) {
+      if (files.length === 0) {
+        return [];
+      }
+      await mkdir(requestDir(requestId), { recursive: true });
+      return Promise.all(
+        files.map(async (file) => {
+          const id = randomUUID();
+          await writeFile(path.join(requestDir(requestId), id), file.data, { flag: 'wx' });
+          return {
+            id,
+            filename: file.filename,
+            contentType: file.contentType,
+            size: file.data.length,
+            uploadedAt: now
+          };
+        })
+      );
+    },
+
+    pathOf(requestId, attachmentId) {
+      return path.join(requestDir(requestId), path.basename(attachmentId));
+    },
+
+    async remove(requestId, attachmentIds) {
+      await Promise.all(
+        attachmentIds.map((id) => rm(path.join(requestDir(requestId), path.basename(id)), { force: true }))
+      );
+    },
+
+    async removeAll(requestId) {
+      await rm(requestDir(requestId), { recursive: true, force: true });
+    }
+  };
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createJsonAuditLog, diffRequest, verifyAuditChain, type AuditEvent } from './audit';
+import type { StoredSupportRequest } from './queue';
+
+const entry = {
+  id: 'req-1',
+  status: 'open',
+  assignee: null,
+  urgency: 'normal',
+  category: 'general',
+  notes: [],
+  messages: [],
+  attachments: []
+} as unknown as StoredSupportRequest;
+
+describe('diffRequest', () => {
+  it('lists the audited fields that changed, counting notes and messages', () => {
+    const updated = {
+      ...entry,
+      status: 'in_progress',
+      assignee: 'grace',
+      notes: [{ id: 'n-1', author: 'Grace', body: 'Private', createdAt: '2024-03-01T09:00:00.000Z' }]
+    } as StoredSupportRequest;
+
+    expect(diffRequest(entry, updated)).toEqual([
+      { field: 'status', before: 'open', after: 'in_progress' },
+      { field: 'assignee', before: null, after: 'grace' },
+      { field: 'notes', before: 0, after: 1 }
+    ]);
+    expect(diffRequest(entry, entry)).toEqual([]);
+    expect(diffRequest(null, entry)).toContainEqual({ field: 'urgency', before: null, after: 'normal' });
+  });
+});
+
+describe('JSON audit log', () => {
+  let tempDir: string;
+  let file: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(tmpdir(), 'audit-'));
+    file = path.join(tempDir, 'audit-log.json');
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('links every event to the one before, even when written concurrently', async () => {
+    const log = createJsonAuditLog(file);
+
+    await Promise.all(
+      Array.from({ length: 5 }, (_, index) =>
+        log.record({ action: 'request.created', actor: 'candidate', requestIds: [`req-${index}`] })
+      )
+    );
+
+    const events = (await log.list({})).reverse();
+    expect(events.map((event) => event.sequence)).toEqual([1, 2, 3, 4, 5]);
+    expect(events[0].previousHash).toBeNull();
+    expect(events[3].previousHash).toBe(events[2].hash);
+    expect(await log.verify()).toEqual({ valid: true, checked: 5, brokenAt: null, head: events[4].hash });
+    expect(await log.list({ requestId: 'req-2' })).toEqual([events[2]]);
+  });
+
+  it('detects edited, removed and reordered events', async () => {
+    const log = createJsonAuditLog(file);
+    for (const requestId of ['req-1', 'req-2', 'req-3']) {
+      await log.record({ action: 'request.updated', actor: 'grace', requestIds: [requestId] });
+    }
+    const events = JSON.parse(readFileSync(file, 'utf-8')) as AuditEvent[];
+
+    expect(verifyAuditChain(events).valid).toBe(true);
+    expect(verifyAuditChain([events[0], events[2]])).toMatchObject({ valid: false, brokenAt: events[2].id });
+    expect(verifyAuditChain([events[1], events[0], events[2]])).toMatchObject({ brokenAt: events[1].id });
+
+    writeFileSync(file, JSON.stringify([events[0], { ...events[1], actor: 'lin' }, events[2]]));
+    expect(await log.verify()).toEqual({ valid: false, checked: 2, brokenAt: events[1].id, head: null });
+  });
+});
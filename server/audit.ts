@@ -0,0 +1,164 @@
+import { createHash, randomUUID } from 'crypto';
+import { isArray, loadJsonFile, saveJsonFile, withFileLock } from './jsonFile';
+import type { Logger } from './logger';
+import type { StoredSupportRequest } from './queue';
+
+export const auditActions = [
+  'request.created',
+  'request.updated',
+  'request.merged',
+  'retention.anonymized',
+  'retention.purged',
+  'privacy.exported',
+  'privacy.erased'
+] as const;
+
+export type AuditAction = (typeof auditActions)[number];
+
+/**
+ * Workflow fields whose changes are recorded. Notes, messages and attachments
+ * are recorded as counts: their text stays out of the log, so an erasure
+ * really removes it.
+ */
+export const auditedFields = ['status', 'assignee', 'urgency', 'category', 'notes', 'messages', 'attachments'] as const;
+
+export type AuditedField = (typeof auditedFields)[number];
+
+export interface AuditChange {
+  field: AuditedField;
+  /** `null` for a request that did not exist before. */
+  before: string | number | null;
+  after: string | number | null;
+}
+
+export interface AuditEvent {
+  id: string;
+  /** Position in the log, starting at 1. */
+  sequence: number;
+  action: AuditAction;
+  /** Username of the coach who acted, or `candidate`, `duplicate-detection` or `retention`. */
+  actor: string;
+  /** Requests the action touched; they may no longer exist. */
+  requestIds: string[];
+  /** `hashEmail()` of the address an export or erasure was for, so the log itself holds no address. */
+  emailHash: string | null;
+  /** Before/after values of the fields that changed; empty for exports, erasures and retention runs. */
+  changes: AuditChange[];
+  occurredAt: string;
+  /** `hash` of the previous event, or `null` for the first. */
+  previousHash: string | null;
+  /** SHA-256 over this event's fields and `previousHash`; see `hashAuditEvent()`. */
+  hash: string;
+}
+
+export type AuditRecord = Pick<AuditEvent, 'action' | 'actor' | 'requestIds'> &
+  Partial<Pick<AuditEvent, 'emailHash' | 'changes'>>;
+
+export interface AuditVerification {
+  valid: boolean;
+  /** Events checked. */
+  checked: number;
+  /** Id of the first event whose hash or link does not match, or `null` when the chain is intact. */
+  brokenAt: string | null;
+  /** Hash of the newest event; keep a copy elsewhere to also detect events removed from the end. */
+  head: string | null;
+}
+
+/** An append-only, hash-chained record of who did what. Events are never changed or removed. */
+export interface AuditLog {
+  record(event: AuditRecord): Promise<AuditEvent>;
+  /** Newest first. */
+  list(filter: { action?: AuditAction; requestId?: string }): Promise<AuditEvent[]>;
+  verify(): Promise<AuditVerification>;
+}
+
+/** Lets an admin check whether an address was exported or erased without the log storing it. */
+export function hashEmail(email: string): string {
+  return createHash('sha256').update(email.trim().toLowerCase()).digest('hex');
+}
+
+function auditedValue(entry: StoredSupportRequest, field: AuditedField): string | number | null {
+  const value = entry[field];
+  return Array.isArray(value) ? value.length : value;
+}
+
+/** The audited fields that differ; pass `null` as `before` for a new request. */
+export function diffRequest(before: StoredSupportRequest | null, after: StoredSupportRequest): AuditChange[] {
+  return auditedFields
+    .map((field) => ({ field, before: before && auditedValue(before, field), after: auditedValue(after, field) }))
+    .filter((change) => change.before !== change.after);
+}
+
+// Hashed as an array so the result does not depend on the key order of a parsed file.
+export function hashAuditEvent(event: Omit<AuditEvent, 'hash'>): string {
+  const fields = [
+    event.sequence,
+    event.id,
+    event.action,
+    event.actor,
+    event.requestIds,
+    event.emailHash,
+    event.changes,
+    event.occurredAt,
+    event.previousHash
+  ];
+  return createHash('sha256').update(JSON.stringify(fields)).digest('hex');
+}
+
+/** Walks the chain from the first event, checking each hash and its link to the event before. */
+export function verifyAuditChain(events: AuditEvent[]): AuditVerification {
+  let previousHash: string | null = null;
+  for (const [index, event] of events.entries()) {
+    const { hash, ...fields } = event;
+    if (event.sequence !== index + 1 || event.previousHash !== previousHash || hashAuditEvent(fields) !== hash) {
+      return { valid: false, checked: index + 1, brokenAt: event.id, head: null };
+    }
+    previousHash = hash;
+  }
+  return { valid: true, checked: events.length, brokenAt: null, head: previousHash };
+}
+
+/**
+ * Keeps the audit trail in a JSON file next to the queue, with the same
+ * locking and recovery. Appends are serialized, so every event links to the
+ * one written just before it.
+ */
+export function createJsonAuditLog(filePath: string, logger?: Logger): AuditLog {
+  const load = async () => (await loadJsonFile(filePath, { fallback: [], isValid: isArray, logger })) as AuditEvent[];
+
+  return {
+    record(event) {
+      return withFileLock(filePath, async () => {
+        const events = await load();
+        const previous = events[events.length - 1] as AuditEvent | undefined;
+        const fields: Omit<AuditEvent, 'hash'> = {
+          id: randomUUID(),
+          sequence: (previous?.sequence ?? 0) + 1,
+          action: event.action,
+          actor: event.actor,
+          requestIds: event.requestIds,
+          emailHash: event.emailHash ?? null,
+          changes: event.changes ?? [],
+          occurredAt: new Date().toISOString(),
+          previousHash: previous?.hash ?? null
+        };
+        const recorded: AuditEvent = { ...fields, hash: hashAuditEvent(fields) };
+        events.push(recorded);
+        await saveJsonFile(filePath, events);
+        return recorded;
+      });
+    },
+
+    async list(filter) {
+      const events = await withFileLock(filePath, load);
+      return events
+        .filter((event) => !filter.action || event.action === filter.action)
+        .filter((event) => !filter.requestId || event.requestIds.includes(filter.requestId))
+        .reverse();
+    },
+
+    async verify() {
+      return verifyAuditChain(await withFileLock(filePath, load));
+    }
+  };
+}
@@ -0,0 +1,75 @@
+import type { Request, Response, NextFunction } from 'express';
+import { verifyAccessToken } from './accessTokens';
+import type { SessionStore } from './sessions';
+import type { SupportQueueStore } from './store';
+import { hasRole, type CoachRole, type CoachUserStore } from './users';
+
+export interface CoachIdentity {
+  username: string;
+  name: string;
+  role: CoachRole;
+}
+
+export function bearerToken(req: Request): string | undefined {
+  const [scheme, token] = (req.get('authorization') ?? '').split(' ');
+  return scheme?.toLowerCase() === 'bearer' && token ? token : undefined;
+}
+
+/**
+ * Accepts a session token from `POST /auth/login` and sets `res.locals.coach`.
+ * Disabled or deleted accounts lose access immediately.
+ */
+export function requireCoach(users: CoachUserStore, sessions: SessionStore) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const token = bearerToken(req);
+      const username = token ? sessions.resolve(token) : undefined;
+      const account = username ? await users.get(username) : undefined;
+
+      if (!account || account.disabled) {
+        res.set('WWW-Authenticate', 'Bearer');
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const coach: CoachIdentity = { username: account.username, name: account.name, role: account.role };
+      res.locals.coach = coach;
+      return next();
+    } catch (error) {
+      return next(error);
+    }
+  };
+}
+
+/** Runs after `requireCoach`; rejects coaches whose role is below `role`. */
+export function requireRole(role: CoachRole) {
+  return (_req: Request, res: Response, next: NextFunction) => {
+    const coach = res.locals.coach as CoachIdentity | undefined;
+    if (!coach || !hasRole(coach.role, role)) {
+      return res.status(403).json({ error: `Requires the ${role} role` });
+    }
+    return next();
+  };
+}
+
+/**
+ * Admits either a coach (bearer token) or the candidate who owns the request
+ * (`X-Access-Token`), setting `res.locals.coach` or `res.locals.candidate`.
+ */
+export function requireParticipant(coachOnly: ReturnType<typeof requireCoach>, store: SupportQueueStore) {
+  return async (req: Request<{ id: string }>, res: Response, next: NextFunction) => {
+    if (req.get('authorization')) {
+      return coachOnly(req, res, next);
+    }
+
+    try {
+      const entry = await store.get(req.params.id);
+      if (!entry || !verifyAccessToken(req.get('x-access-token'), entry.accessTokenHash)) {
+        return res.status(404).json({ error: 'Support request not found' });
+      }
+      res.locals.candidate = { name: entry.name };
+      return next();
+    } catch (error) {
+      return next(error);
+    }
+  };
+}
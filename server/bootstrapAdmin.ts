@@ -0,0 +1,41 @@
+import { createInterface } from 'readline/promises';
+import { loadConfig } from './config';
+import { createAccount, createJsonCoachUserStore, createUserSchema } from './users';
+
+// Usage: npm run users:bootstrap-admin -- <username> "<display name>"
+// The password comes from BOOTSTRAP_ADMIN_PASSWORD or is prompted for.
+const [username, name = username] = process.argv.slice(2);
+
+if (!username) {
+  console.error('Usage: npm run users:bootstrap-admin -- <username> "<display name>"');
+  process.exit(1);
+}
+
+const config = loadConfig();
+const users = createJsonCoachUserStore(config.auth.usersFile);
+
+if ((await users.list()).some((account) => account.role === 'admin')) {
+  console.error(`${config.auth.usersFile} already has an admin. Use the admin API to add more accounts.`);
+  process.exit(1);
+}
+
+let password = process.env.BOOTSTRAP_ADMIN_PASSWORD;
+if (!password) {
+  const prompt = createInterface({ input: process.stdin, output: process.stdout });
+  password = await prompt.question('Password (12+ characters): ');
+  prompt.close();
+}
+
+const parsed = createUserSchema.safeParse({ username, name, role: 'admin', password });
+if (!parsed.success) {
+  for (const issue of parsed.error.issues) {
+    console.error(`${issue.path.join('.')}: ${issue.message}`);
+  }
+  process.exit(1);
+}
+
+if (!(await users.create(await createAccount(parsed.data)))) {
+  console.error(`Username ${username} is already taken`);
+  process.exit(1);
+}
+console.log(`Created admin ${username} in ${config.auth.usersFile}`);
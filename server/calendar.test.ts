@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { buildCalendarInvite, formatInZone, type CalendarEvent } from './calendar';
+
+const event: CalendarEvent = {
+  slot: {
+    id: 'slot-1',
+    coach: 'grace',
+    coachName: 'Grace Hopper',
+    startsAt: '2024-03-05T13:00:00.000Z',
+    endsAt: '2024-03-05T14:00:00.000Z',
+    timeZone: 'Europe/Berlin',
+    booking: { requestId: 'req-1', candidateTimeZone: 'America/New_York', bookedAt: '2024-03-01T09:00:00.000Z' },
+    createdAt: '2024-03-01T08:00:00.000Z'
+  },
+  requestId: 'req-1',
+  summary: 'Interview coaching: Offers, negotiation; tips',
+  description: 'Line one\nLine two',
+  organizer: { name: 'Grace Hopper', email: 'grace@example.com' },
+  attendee: { name: 'Ada "Countess"', email: 'ada@example.com' }
+};
+
+describe('buildCalendarInvite', () => {
+  it('writes a UTC invite with escaped text', () => {
+    const ics = buildCalendarInvite(event, 'REQUEST', '2024-03-01T09:00:00.000Z');
+
+    expect(ics.split('\r\n')).toEqual([
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Interview Helper//Coaching sessions//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:REQUEST',
+      'BEGIN:VEVENT',
+      'UID:req-1-slot-1@interview-helper',
+      'SEQUENCE:0',
+      'DTSTAMP:20240301T090000Z',
+      'DTSTART:20240305T130000Z',
+      'DTEND:20240305T140000Z',
+      'SUMMARY:Interview coaching: Offers\\, negotiation\\; tips',
+      'DESCRIPTION:Line one\\nLine two',
+      'ORGANIZER;CN="Grace Hopper":mailto:grace@example.com',
+      'ATTENDEE;CN="Ada Countess";ROLE=REQ-PARTICIPANT:mailto:ada@example.com',
+      'STATUS:CONFIRMED',
+      'END:VEVENT',
+      'END:VCALENDAR',
+      ''
+    ]);
+  });
+
+  it('cancels with the same UID and folds long lines', () => {
+    const ics = buildCalendarInvite(
+      { ...event, description: 'ü'.repeat(60), organizer: { name: 'Grace Hopper', email: null } },
+      'CANCEL'
+    );
+    const lines = ics.split('\r\n');
+
+    expect(lines).toContain('METHOD:CANCEL');
+    expect(lines).toContain('STATUS:CANCELLED');
+    expect(lines).toContain('UID:req-1-slot-1@interview-helper');
+    expect(ics).not.toContain('ORGANIZER');
+    expect(lines.every((line) => Buffer.byteLength(line) <= 75)).toBe(true);
+    expect(ics.replace(/\r\n /g, '')).toContain(`DESCRIPTION:${'ü'.repeat(60)}`);
+  });
+});
+
+describe('formatInZone', () => {
+  it('shows the instant in the given zone', () => {
+    expect(formatInZone('2024-03-05T13:00:00.000Z', 'Europe/Berlin')).toBe('Tue, 5 Mar 2024, 14:00 (Europe/Berlin)');
+    expect(formatInZone('2024-03-05T13:00:00.000Z', 'America/New_York')).toBe(
+      'Tue, 5 Mar 2024, 08:00 (America/New_York)'
+    );
+  });
+});
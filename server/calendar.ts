@@ -0,0 +1,103 @@
+import type { AvailabilitySlot } from './slots';
+
+export interface CalendarEvent {
+  slot: AvailabilitySlot;
+  requestId: string;
+  summary: string;
+  description: string;
+  organizer: { name: string; email: string | null };
+  attendee: { name: string; email: string };
+}
+
+/** Keeps the UID stable per request and slot so calendar apps match a cancellation to its invite. */
+export function calendarUid(requestId: string, slotId: string): string {
+  return `${requestId}-${slotId}@interview-helper`;
+}
+
+function formatUtc(iso: string): string {
+  return iso.replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+function escapeParam(value: string): string {
+  return `"${value.replace(/["\r\n]/g, '')}"`;
+}
+
+// RFC 5545 caps content lines at 75 octets; longer ones continue on lines starting with a space.
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? 75 : 74;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+/**
+ * Builds an iCalendar invite (`METHOD:REQUEST`) or cancellation
+ * (`METHOD:CANCEL`). Times are written in UTC so every calendar app shows the
+ * session in its own user's zone.
+ */
+export function buildCalendarInvite(
+  event: CalendarEvent,
+  method: 'REQUEST' | 'CANCEL',
+  now = new Date().toISOString()
+): string {
+  const { slot } = event;
+  const organizer = event.organizer.email
+    ? `ORGANIZER;CN=${escapeParam(event.organizer.name)}:mailto:${event.organizer.email}`
+    : null;
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Interview Helper//Coaching sessions//EN',
+    'CALSCALE:GREGORIAN',
+    `METHOD:${method}`,
+    'BEGIN:VEVENT',
+    `UID:${calendarUid(event.requestId, slot.id)}`,
+    // Later messages about the same session must carry a higher sequence to replace earlier ones.
+    `SEQUENCE:${method === 'CANCEL' ? 1 : 0}`,
+    `DTSTAMP:${formatUtc(now)}`,
+    `DTSTART:${formatUtc(slot.startsAt)}`,
+    `DTEND:${formatUtc(slot.endsAt)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+    `DESCRIPTION:${escapeText(event.description)}`,
+    organizer,
+    `ATTENDEE;CN=${escapeParam(event.attendee.name)};ROLE=REQ-PARTICIPANT:mailto:${event.attendee.email}`,
+    `STATUS:${method === 'CANCEL' ? 'CANCELLED' : 'CONFIRMED'}`,
+    'END:VEVENT',
+    'END:VCALENDAR'
+  ];
+  return `${lines
+    .filter((line): line is string => line !== null)
+    .map(foldLine)
+    .join('\r\n')}\r\n`;
+}
+
+/** Formats an instant for an email, e.g. `Tue, 5 Mar 2024, 14:00 (Europe/Berlin)` in `en-GB`. */
+export function formatInZone(iso: string, timeZone: string, language = 'en-GB'): string {
+  const formatted = new Intl.DateTimeFormat(language, {
+    timeZone,
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).format(new Date(iso));
+  return `${formatted} (${timeZone})`;
+}
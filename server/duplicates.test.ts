@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { findDuplicate, mergeDuplicate, normalizeText, textSimilarity } from './duplicates';
+import type { StoredSupportRequest } from './queue';
+import { makeEntry } from './testFixtures';
+
+const createdAt = '2024-03-01T09:00:00.000Z';
+const start = Date.parse(createdAt);
+const hour = 60 * 60 * 1000;
+const config = { windowMs: 24 * hour, threshold: 0.85 };
+
+// The request a repeat submission is compared with.
+function earlierRequest(overrides: Partial<StoredSupportRequest> = {}): StoredSupportRequest {
+  return makeEntry({
+    message: 'Help me prepare for my system design interview at Acme next week.',
+    ...overrides
+  });
+}
+
+describe('textSimilarity', () => {
+  it('ignores case, accents, punctuation and spacing', () => {
+    expect(normalizeText('  Résumé   review!! ')).toBe('resume review');
+    expect(textSimilarity('Résumé review!!', 'resume   REVIEW')).toBe(1);
+  });
+
+  it('scores small edits high and different questions low', () => {
+    const original = 'Help me prepare for my system design interview at Acme next week.';
+
+    expect(
+      textSimilarity(original, 'Help me prepare for my system design interview at Acme next week please')
+    ).toBeGreaterThan(0.9);
+    expect(textSimilarity(original, 'Can someone review my resume before Friday?')).toBeLessThan(0.5);
+    expect(textSimilarity('a', 'b')).toBe(0);
+  });
+});
+
+describe('findDuplicate', () => {
+  const repeat = {
+    email: 'ADA@example.com',
+    topic: 'Mock interviews',
+    message: 'Help me prepare for my system design interview at Acme next week!'
+  };
+
+  it('matches the latest similar open request from the same address', () => {
+    const older = earlierRequest({ id: 'older' });
+    const newer = earlierRequest({ id: 'newer', createdAt: '2024-03-01T10:00:00.000Z', status: 'in_progress' });
+
+    expect(findDuplicate(repeat, [older, newer], config, start + 2 * hour)?.id).toBe('newer');
+  });
+
+  it('skips other addresses, finished requests, old requests and different questions', () => {
+    const entries = [
+      earlierRequest({ id: 'other-email', email: 'grace@example.com' }),
+      earlierRequest({ id: 'resolved', status: 'resolved' }),
+      earlierRequest({ id: 'closed', status: 'closed' }),
+      earlierRequest({ id: 'different', topic: 'Resume', message: 'Can someone review my resume before Friday?' })
+    ];
+
+    expect(findDuplicate(repeat, entries, config, start + hour)).toBeUndefined();
+    expect(findDuplicate(repeat, [earlierRequest()], config, start + 25 * hour)).toBeUndefined();
+  });
+});
+
+describe('mergeDuplicate', () => {
+  it('records the repeat as a note and keeps its attachments', () => {
+    const attachment = {
+      id: 'a1',
+      filename: 'resume.pdf',
+      contentType: 'application/pdf',
+      size: 10,
+      uploadedAt: '2024-03-01T11:00:00.000Z'
+    };
+
+    const merged = mergeDuplicate(
+      earlierRequest(),
+      { email: 'ada@example.com', topic: 'Mock interviews', message: 'Still need help!', urgency: 'urgent' },
+      { now: '2024-03-01T11:00:00.000Z', newId: () => 'n1', attachments: [attachment] }
+    );
+
+    expect(merged.notes).toEqual([
+      {
+        id: 'n1',
+        author: 'Duplicate detection',
+        body: 'The candidate sent this again (urgent):\n\nMock interviews\n\nStill need help!\nAttachments: resume.pdf',
+        createdAt: '2024-03-01T11:00:00.000Z'
+      }
+    ]);
+    expect(merged.attachments).toEqual([attachment]);
+    expect(merged.updatedAt).toBe('2024-03-01T11:00:00.000Z');
+  });
+});
@@ -0,0 +1,103 @@
+import type { AttachmentMeta, StoredSupportRequest } from './queue';
+
+export const duplicatePolicies = ['merge', 'reject', 'off'] as const;
+
+export type DuplicatePolicy = (typeof duplicatePolicies)[number];
+
+export interface DuplicateConfig {
+  /** `merge` adds the repeat to the original as a note, `reject` refuses it; both answer `409`. */
+  policy: DuplicatePolicy;
+  /** How far back to look for an earlier request from the same email. */
+  windowMs: number;
+  /** Similarity from 0 to 1 at which two requests count as the same. */
+  threshold: number;
+  /** How long an `Idempotency-Key` replays its original response. */
+  idempotencyTtlMs: number;
+}
+
+/** Lowercases, strips accents and punctuation and collapses whitespace, so trivial edits do not count. */
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+function bigrams(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (let index = 0; index < text.length - 1; index += 1) {
+    const pair = text.slice(index, index + 2);
+    counts.set(pair, (counts.get(pair) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Dice coefficient over character pairs of the normalized texts: 1 for the
+ * same text, close to 1 for typo fixes and small additions, low otherwise.
+ */
+export function textSimilarity(a: string, b: string): number {
+  const left = normalizeText(a);
+  const right = normalizeText(b);
+  if (left === right) {
+    return 1;
+  }
+  if (left.length < 2 || right.length < 2) {
+    return 0;
+  }
+
+  const leftPairs = bigrams(left);
+  const rightPairs = bigrams(right);
+  let shared = 0;
+  for (const [pair, count] of leftPairs) {
+    shared += Math.min(count, rightPairs.get(pair) ?? 0);
+  }
+  return (2 * shared) / (left.length - 1 + (right.length - 1));
+}
+
+type Submission = Pick<StoredSupportRequest, 'email' | 'topic' | 'message'>;
+
+/**
+ * Returns the most recent request from the same email within the window that
+ * is still being worked on and reads like the same question. Requests that are
+ * resolved or closed are never matched: asking again then is a new question.
+ */
+export function findDuplicate(
+  submission: Submission,
+  candidates: StoredSupportRequest[],
+  config: Pick<DuplicateConfig, 'windowMs' | 'threshold'>,
+  now = Date.now()
+): StoredSupportRequest | undefined {
+  const email = submission.email.toLowerCase();
+  const text = `${submission.topic}\n${submission.message}`;
+  return candidates
+    .filter(
+      (entry) =>
+        entry.email.toLowerCase() === email &&
+        (entry.status === 'open' || entry.status === 'in_progress') &&
+        now - Date.parse(entry.createdAt) <= config.windowMs
+    )
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .find((entry) => textSimilarity(`${entry.topic}\n${entry.message}`, text) >= config.threshold);
+}
+
+/** Folds a repeat submission into the original as an internal note, keeping any new attachments. */
+export function mergeDuplicate(
+  entry: StoredSupportRequest,
+  repeat: Submission & Pick<StoredSupportRequest, 'urgency'>,
+  context: { now: string; newId: () => string; attachments: AttachmentMeta[] }
+): StoredSupportRequest {
+  const attached =
+    context.attachments.length > 0
+      ? `\nAttachments: ${context.attachments.map((file) => file.filename).join(', ')}`
+      : '';
+  const body = `The candidate sent this again (${repeat.urgency}):\n\n${repeat.topic}\n\n${repeat.message}${attached}`;
+  return {
+    ...entry,
+    notes: [...entry.notes, { id: context.newId(), author: 'Duplicate detection', body, createdAt: context.now }],
+    attachments: [...entry.attachments, ...context.attachments],
+    updatedAt: context.now
+  };
+}
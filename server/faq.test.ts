@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createFaqIndex, createJsonFaqEventStore, loadFaqArticles, parseFaqArticle } from './faq';
+
+describe('parseFaqArticle', () => {
+  it('reads the title, headings, paragraphs and lists and keeps link targets', () => {
+    const article = parseFaqArticle(
+      'booking',
+      'en',
+      [
+        '# How do I book a **session**?',
+        '',
+        'Open the [status page](https://example.com/requests)',
+        'and pick a slot.',
+        '',
+        '## Moving it',
+        '',
+        '- Pick another slot.',
+        '* Or cancel it.'
+      ].join('\r\n')
+    );
+
+    expect(article).toEqual({
+      id: 'booking',
+      locale: 'en',
+      title: 'How do I book a session?',
+      summary: 'Open the status page (https://example.com/requests) and pick a slot.',
+      blocks: [
+        { type: 'paragraph', text: 'Open the status page (https://example.com/requests) and pick a slot.' },
+        { type: 'heading', text: 'Moving it' },
+        { type: 'list', items: ['Pick another slot.', 'Or cancel it.'] }
+      ]
+    });
+    expect(parseFaqArticle('untitled', 'en', 'Just some text.')).toBeUndefined();
+  });
+});
+
+describe('loadFaqArticles', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'faq-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reads default-language articles and their translations, skipping other files', () => {
+    writeFileSync(path.join(dir, 'resume-review.md'), '# Resume review\n\nAttach it.');
+    writeFileSync(path.join(dir, 'resume-review.de.md'), '# Lebenslauf\n\nHängen Sie ihn an.');
+    writeFileSync(path.join(dir, 'resume-review.fr.md'), '# CV\n\nJoignez-le.');
+    writeFileSync(path.join(dir, 'notes.txt'), 'not an article');
+    writeFileSync(path.join(dir, 'untitled.md'), 'No heading here.');
+
+    expect(loadFaqArticles(dir).map((article) => [article.id, article.locale])).toEqual([
+      ['resume-review', 'de'],
+      ['resume-review', 'en']
+    ]);
+    expect(loadFaqArticles(path.join(dir, 'missing'))).toEqual([]);
+  });
+});
+
+describe('createFaqIndex', () => {
+  const index = createFaqIndex(
+    [
+      parseFaqArticle('sessions', 'en', '# Booking a session\n\nPick a slot on the status page.'),
+      parseFaqArticle('resume', 'en', '# Resume reviews\n\nAttach your resume. A coach replies with comments.'),
+      parseFaqArticle('resume', 'de', '# Lebenslauf prüfen\n\nHängen Sie Ihren Lebenslauf an.'),
+      parseFaqArticle('replies', 'en', '# Reply times\n\nA coach replies within a day. Urgent requests within hours.')
+    ].filter((article) => article !== undefined)
+  );
+
+  it('ranks title matches first and ignores case, plurals and filler words', () => {
+    expect(index.search('How do I get my RESUMES reviewed?', { locale: 'en', limit: 3 }).map((hit) => hit.id)).toEqual([
+      'resume'
+    ]);
+    expect(index.search('when does a coach reply', { locale: 'en', limit: 3 }).map((hit) => hit.id)).toEqual([
+      'replies',
+      'resume'
+    ]);
+    expect(index.search('the and of', { locale: 'en', limit: 3 })).toEqual([]);
+  });
+
+  it('completes the word still being typed, but not one that is finished', () => {
+    expect(index.search('book', { locale: 'en', limit: 3 }).map((hit) => hit.id)).toEqual(['sessions']);
+    expect(index.search('book ', { locale: 'en', limit: 3 })).toEqual([]);
+  });
+
+  it('searches translations, falling back to untranslated articles', () => {
+    expect(index.search('Lebenslauf', { locale: 'de', limit: 3 }).map((hit) => hit.id)).toEqual(['resume']);
+    expect(index.search('slot', { locale: 'de', limit: 3 }).map((hit) => hit.id)).toEqual(['sessions']);
+    expect(index.get('resume', 'de')?.title).toBe('Lebenslauf prüfen');
+    expect(index.get('sessions', 'de')?.locale).toBe('en');
+  });
+});
+
+describe('createJsonFaqEventStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'faq-events-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('totals events per article for the hours in a period', async () => {
+    const store = createJsonFaqEventStore(path.join(dir, 'faq-events.json'));
+    await store.record({ type: 'opened', articleId: 'resume' }, '2024-03-01T09:15:00.000Z');
+    await store.record({ type: 'opened', articleId: 'resume' }, '2024-03-01T09:45:00.000Z');
+    await store.record({ type: 'deflected', articleId: 'resume' }, '2024-03-01T09:50:00.000Z');
+    await store.record({ type: 'opened', articleId: 'sessions' }, '2024-03-01T11:00:00.000Z');
+    await store.record({ type: 'opened', articleId: 'sessions' }, '2024-03-02T08:00:00.000Z');
+
+    expect(await store.summarize({ from: '2024-03-01T00:00:00.000Z', to: '2024-03-02T00:00:00.000Z' })).toEqual([
+      { articleId: 'resume', opened: 2, deflected: 1 },
+      { articleId: 'sessions', opened: 1, deflected: 0 }
+    ]);
+    expect(await store.summarize({ from: '2024-03-01T10:00:00.000Z', to: '2024-03-03T00:00:00.000Z' })).toEqual([
+      { articleId: 'sessions', opened: 2, deflected: 0 }
+    ]);
+  });
+});
@@ -0,0 +1,311 @@
+import { readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { defaultLocale, isSupportedLocale, supportedLocales, type Locale } from '../shared/locales';
+import { isArray, loadJsonFile, saveJsonFile, withFileLock } from './jsonFile';
+import type { Logger } from './logger';
+
+export type FaqBlock = { type: 'heading' | 'paragraph'; text: string } | { type: 'list'; items: string[] };
+
+/** A help article from `FAQ_DIR`, written in Markdown and kept to what the form can show inline. */
+export interface FaqArticle {
+  /** File name without the locale and `.md`, shared by every translation of the article. */
+  id: string;
+  locale: Locale;
+  title: string;
+  /** First paragraph, shortened, for the suggestion list. */
+  summary: string;
+  blocks: FaqBlock[];
+}
+
+export interface FaqSearchHit {
+  id: string;
+  title: string;
+  summary: string;
+}
+
+const summaryLength = 160;
+
+// `resume-review.md` is the default-language article; `resume-review.de.md` translates it.
+const articleFilePattern = /^([a-z0-9][a-z0-9-]*)(?:\.([a-z]{2}))?\.md$/;
+
+// Links keep their target in brackets; emphasis and code markers are dropped.
+function plainText(markdown: string): string {
+  return markdown
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, '$1 ($2)')
+    .replace(/\*\*|__|`/g, '')
+    .trim();
+}
+
+function summarize(text: string): string {
+  if (text.length <= summaryLength) {
+    return text;
+  }
+  const cut = text.slice(0, summaryLength);
+  return `${cut.slice(0, cut.lastIndexOf(' ') > 0 ? cut.lastIndexOf(' ') : summaryLength)}…`;
+}
+
+const listItemPattern = /^[-*]\s+/;
+
+/**
+ * Reads the subset of Markdown the articles use: one `# Title`, then headings,
+ * paragraphs and bullet lists separated by blank lines. Returns `undefined`
+ * for a file without a title.
+ */
+export function parseFaqArticle(id: string, locale: Locale, markdown: string): FaqArticle | undefined {
+  const chunks = markdown
+    .replace(/\r\n/g, '\n')
+    .split(/\n\s*\n/)
+    .map((chunk) => chunk.trim())
+    .filter(Boolean);
+  const [heading, ...rest] = chunks;
+  if (!heading || !/^#\s/.test(heading) || heading.includes('\n')) {
+    return undefined;
+  }
+
+  const blocks = rest.map((chunk): FaqBlock => {
+    const lines = chunk.split('\n').map((line) => line.trim());
+    if (lines.every((line) => listItemPattern.test(line))) {
+      return { type: 'list', items: lines.map((line) => plainText(line.replace(listItemPattern, ''))) };
+    }
+    if (lines.length === 1 && /^#{2,6}\s/.test(lines[0])) {
+      return { type: 'heading', text: plainText(lines[0].replace(/^#+\s+/, '')) };
+    }
+    return { type: 'paragraph', text: plainText(lines.join(' ')) };
+  });
+  const firstParagraph = blocks.find((block) => block.type === 'paragraph');
+
+  return {
+    id,
+    locale,
+    title: plainText(heading.replace(/^#\s+/, '')),
+    summary: firstParagraph && 'text' in firstParagraph ? summarize(firstParagraph.text) : '',
+    blocks
+  };
+}
+
+/** Reads every article in `dir` once at startup; a missing directory means no FAQ. */
+export function loadFaqArticles(dir: string, logger?: Logger): FaqArticle[] {
+  let files: string[];
+  try {
+    files = readdirSync(dir);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const articles: FaqArticle[] = [];
+  for (const file of files.sort()) {
+    const match = articleFilePattern.exec(file);
+    const locale = match?.[2] ?? defaultLocale;
+    if (!match || !isSupportedLocale(locale)) {
+      continue;
+    }
+    const article = parseFaqArticle(match[1], locale, readFileSync(path.join(dir, file), 'utf-8'));
+    if (article) {
+      articles.push(article);
+    } else {
+      logger?.warn('FAQ article has no "# Title" line; skipped', { file });
+    }
+  }
+  return articles;
+}
+
+// Words that say nothing about what a candidate needs, in every supported language.
+const stopWords = new Set(
+  (
+    'a an and are as at be but by can do for from have how i if in is it me my no not of on or our so that the ' +
+    'their there this to was we what when which who will with you your ' +
+    'aber als am an auch auf aus bei bin bis das dass dem den der des die ein eine einen einer es für hat ich ' +
+    'ihr im in ist mit nach nicht noch oder sie sind so und von vor was wie wir zu zum zur'
+  ).split(' ')
+);
+
+/** Lower-cased words without accents or a plural `s`, so "Interviews" finds "interview". */
+function tokenize(text: string): string[] {
+  const words =
+    text
+      .toLowerCase()
+      .normalize('NFKD')
+      .replace(/\p{M}/gu, '')
+      .match(/[\p{L}\p{N}]+/gu) ?? [];
+  return words
+    .filter((word) => word.length > 1 && !stopWords.has(word))
+    .map((word) => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word));
+}
+
+// Title words count three times: an article named after the question is the best answer to it.
+const titleWeight = 3;
+// BM25 tuning: how fast repeated words stop adding up, and how much long articles are discounted.
+const k1 = 1.2;
+const b = 0.75;
+
+interface IndexedArticle {
+  article: FaqArticle;
+  terms: Map<string, number>;
+  length: number;
+}
+
+function indexArticle(article: FaqArticle): IndexedArticle {
+  const text = article.blocks.map((block) => ('text' in block ? block.text : block.items.join(' '))).join(' ');
+  const words = [...Array<string[]>(titleWeight).fill(tokenize(article.title)).flat(), ...tokenize(text)];
+  const terms = new Map<string, number>();
+  for (const word of words) {
+    terms.set(word, (terms.get(word) ?? 0) + 1);
+  }
+  return { article, terms, length: words.length };
+}
+
+export interface FaqIndex {
+  /**
+   * Best matches for what the candidate has typed so far, best first. The last
+   * word also matches longer words while it is still being typed.
+   */
+  search(query: string, options: { locale: Locale; limit: number }): FaqSearchHit[];
+  /** The article in `locale`, or in the default language when it has not been translated. */
+  get(id: string, locale: Locale): FaqArticle | undefined;
+}
+
+export function createFaqIndex(articles: FaqArticle[]): FaqIndex {
+  const byLocale = new Map<Locale, IndexedArticle[]>();
+  for (const locale of supportedLocales) {
+    const ids = [...new Set(articles.map((article) => article.id))];
+    const localized = ids.map(
+      (id) =>
+        articles.find((article) => article.id === id && article.locale === locale) ??
+        articles.find((article) => article.id === id && article.locale === defaultLocale)
+    );
+    byLocale.set(locale, localized.filter((article): article is FaqArticle => article !== undefined).map(indexArticle));
+  }
+
+  return {
+    search(query, { locale, limit }) {
+      const indexed = byLocale.get(locale) ?? [];
+      const words = [...new Set(tokenize(query))];
+      if (indexed.length === 0 || words.length === 0) {
+        return [];
+      }
+
+      const averageLength = indexed.reduce((sum, entry) => sum + entry.length, 0) / indexed.length;
+      const documentFrequency = (term: string) => indexed.filter((entry) => entry.terms.has(term)).length;
+      const vocabulary = [...new Set(indexed.flatMap((entry) => [...entry.terms.keys()]))];
+      const last = words[words.length - 1];
+      const stillTyping = !/\s$/.test(query) && last.length >= 3;
+      const terms = stillTyping
+        ? [...words.slice(0, -1), ...vocabulary.filter((term) => term.startsWith(last))]
+        : words;
+
+      const idf = new Map(
+        [...new Set(terms)].map((term) => {
+          const frequency = documentFrequency(term);
+          return [term, Math.log(1 + (indexed.length - frequency + 0.5) / (frequency + 0.5))];
+        })
+      );
+
+      return indexed
+        .map((entry) => {
+          let score = 0;
+          for (const [term, weight] of idf) {
+            const count = entry.terms.get(term) ?? 0;
+            score += (weight * count * (k1 + 1)) / (count + k1 * (1 - b + (b * entry.length) / averageLength));
+          }
+          return { entry, score };
+        })
+        .filter(({ score }) => score > 0)
+        .sort((x, y) => y.score - x.score || x.entry.article.title.localeCompare(y.entry.article.title))
+        .slice(0, limit)
+        .map(({ entry: { article } }) => ({ id: article.id, title: article.title, summary: article.summary }));
+    },
+
+    get(id, locale) {
+      return byLocale.get(locale)?.find((entry) => entry.article.id === id)?.article;
+    }
+  };
+}
+
+export const faqSearchQuerySchema = z.object({
+  q: z.string().max(6000).default(''),
+  locale: z.enum(supportedLocales).default(defaultLocale),
+  limit: z.coerce.number().int().min(1).max(10).default(3)
+});
+
+export const faqArticleQuerySchema = z.object({
+  locale: z.enum(supportedLocales).default(defaultLocale)
+});
+
+export const faqEventTypes = ['opened', 'deflected'] as const;
+
+export type FaqEventType = (typeof faqEventTypes)[number];
+
+/**
+ * `opened` is sent when a candidate expands a suggested article; `deflected`
+ * when they then leave the form without sending it, naming the last article opened.
+ */
+export const faqEventSchema = z.object({
+  type: z.enum(faqEventTypes),
+  articleId: z.string().min(1).max(100)
+});
+
+export type FaqEvent = z.infer<typeof faqEventSchema>;
+
+/** Events are counted per article and UTC hour; they say nothing about who sent them. */
+interface FaqEventBucket {
+  /** `YYYY-MM-DDTHH` */
+  hour: string;
+  articleId: string;
+  opened: number;
+  deflected: number;
+}
+
+export interface FaqArticleCounts {
+  articleId: string;
+  opened: number;
+  deflected: number;
+}
+
+export interface FaqEventStore {
+  record(event: FaqEvent, at: string): Promise<void>;
+  /** Totals per article for the hours starting within `[from, to)`, most deflections first. */
+  summarize(range: { from: string; to: string }): Promise<FaqArticleCounts[]>;
+}
+
+export function createJsonFaqEventStore(filePath: string, logger?: Logger): FaqEventStore {
+  const load = async () =>
+    (await loadJsonFile(filePath, { fallback: [], isValid: isArray, logger })) as FaqEventBucket[];
+
+  return {
+    record(event, at) {
+      return withFileLock(filePath, async () => {
+        const buckets = await load();
+        const hour = at.slice(0, 13);
+        let bucket = buckets.find((entry) => entry.hour === hour && entry.articleId === event.articleId);
+        if (!bucket) {
+          bucket = { hour, articleId: event.articleId, opened: 0, deflected: 0 };
+          buckets.push(bucket);
+        }
+        bucket[event.type] += 1;
+        await saveJsonFile(filePath, buckets);
+      });
+    },
+
+    async summarize({ from, to }) {
+      const buckets = await withFileLock(filePath, load);
+      const totals = new Map<string, FaqArticleCounts>();
+      for (const bucket of buckets) {
+        const start = `${bucket.hour}:00:00.000Z`;
+        if (start < from || start >= to) {
+          continue;
+        }
+        const total = totals.get(bucket.articleId) ?? { articleId: bucket.articleId, opened: 0, deflected: 0 };
+        total.opened += bucket.opened;
+        total.deflected += bucket.deflected;
+        totals.set(bucket.articleId, total);
+      }
+      return [...totals.values()].sort(
+        (x, y) => y.deflected - x.deflected || y.opened - x.opened || x.articleId.localeCompare(y.articleId)
+      );
+    }
+  };
+}
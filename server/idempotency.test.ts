@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { createIdempotencyCache, fingerprint } from './idempotency';
+
+describe('idempotency cache', () => {
+  it('replays completed responses for the same payload only', () => {
+    const cache = createIdempotencyCache({ ttlMs: 1000, now: () => 0 });
+    const payload = fingerprint({ topic: 'Mock interviews' });
+
+    expect(cache.claim('key-0001', payload)).toEqual({ state: 'claimed' });
+    expect(cache.claim('key-0001', payload)).toEqual({ state: 'in_progress' });
+
+    cache.complete('key-0001', { status: 201, body: { id: 'abc' } });
+    cache.release('key-0001');
+
+    expect(cache.claim('key-0001', payload)).toEqual({
+      state: 'replay',
+      response: { status: 201, body: { id: 'abc' } }
+    });
+    expect(cache.claim('key-0001', fingerprint({ topic: 'Other' }))).toEqual({ state: 'mismatch' });
+  });
+
+  it('frees keys whose request failed and forgets expired ones', () => {
+    let now = 0;
+    const cache = createIdempotencyCache({ ttlMs: 1000, now: () => now });
+
+    cache.claim('key-0001', 'a');
+    cache.release('key-0001');
+    expect(cache.claim('key-0001', 'b')).toEqual({ state: 'claimed' });
+
+    cache.complete('key-0001', { status: 201, body: {} });
+    now = 1000;
+    expect(cache.claim('key-0001', 'c')).toEqual({ state: 'claimed' });
+  });
+});
@@ -0,0 +1,82 @@
+import { createHash } from 'crypto';
+import { z } from 'zod';
+
+export const idempotencyKeySchema = z
+  .string()
+  .regex(/^[A-Za-z0-9_-]{8,100}$/, 'use 8-100 letters, digits, dashes or underscores');
+
+export interface StoredResponse {
+  status: number;
+  body: unknown;
+}
+
+export type IdempotencyClaim =
+  | { state: 'claimed' }
+  /** The key already finished; send the stored response again. */
+  | { state: 'replay'; response: StoredResponse }
+  /** Another request with the key is still running. */
+  | { state: 'in_progress' }
+  /** The key was used for a different payload. */
+  | { state: 'mismatch' };
+
+export interface IdempotencyCache {
+  claim(key: string, fingerprint: string): IdempotencyClaim;
+  /** Stores the response for replays and releases the claim. */
+  complete(key: string, response: StoredResponse): void;
+  /** Drops an unfinished claim so the client can retry; completed keys are kept. */
+  release(key: string): void;
+}
+
+/** Hashes the parts of a request that must match for a replay. */
+export function fingerprint(value: unknown): string {
+  return createHash('sha256').update(JSON.stringify(value)).digest('hex');
+}
+
+type Entry = { fingerprint: string; expiresAt: number; response: StoredResponse | null };
+
+/**
+ * Remembers responses by `Idempotency-Key` in memory, like rate limits and
+ * sessions, so a double-click or a retried upload creates one request. A
+ * replay needs the same fingerprint, so a key alone never reveals a response.
+ */
+export function createIdempotencyCache(options: { ttlMs: number; now?: () => number }): IdempotencyCache {
+  const now = options.now ?? Date.now;
+  const entries = new Map<string, Entry>();
+
+  const prune = (at: number) => {
+    for (const [key, entry] of entries) {
+      if (entry.expiresAt <= at) {
+        entries.delete(key);
+      }
+    }
+  };
+
+  return {
+    claim(key, requestFingerprint) {
+      const at = now();
+      prune(at);
+      const existing = entries.get(key);
+      if (!existing) {
+        entries.set(key, { fingerprint: requestFingerprint, expiresAt: at + options.ttlMs, response: null });
+        return { state: 'claimed' };
+      }
+      if (existing.fingerprint !== requestFingerprint) {
+        return { state: 'mismatch' };
+      }
+      return existing.response ? { state: 'replay', response: existing.response } : { state: 'in_progress' };
+    },
+
+    complete(key, response) {
+      const entry = entries.get(key);
+      if (entry) {
+        entry.response = response;
+      }
+    },
+
+    release(key) {
+      if (entries.get(key)?.response === null) {
+        entries.delete(key);
+      }
+    }
+  };
+}
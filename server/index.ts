@@ -1,8 +1,65 @@
 import { createApp } from './app';
+import { createAttachmentStorage } from './attachments';
+import { createJsonAuditLog } from './audit';
+import { ConfigError, loadConfig } from './config';
+import { createLogger } from './logger';
+import { createMailTransport } from './mail';
+import { createNotifier } from './notifications';
+import { createRetentionSweeper } from './privacy';
+import { createQueueStore, createSlotStore } from './store';
+import { createEscalationSweeper } from './triage';
+import { createJsonWebhookDeliveryStore, createWebhookDispatcher } from './webhooks';
 
-const port = Number(process.env.PORT ?? 4000);
-const app = createApp();
+function startupConfig() {
+  try {
+    return loadConfig();
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      createLogger({ level: 'error' }).error('invalid server configuration', { issues: error.issues });
+      process.exit(1);
+    }
+    throw error;
+  }
+}
 
-app.listen(port, () => {
-  console.log(`Support API listening on http://localhost:${port}`);
+const config = startupConfig();
+const logger = createLogger({ level: config.logLevel });
+// Shared with the escalation and retention sweeps so all see the same data and send through the same channels.
+const store = createQueueStore(config.queue, logger);
+const slots = createSlotStore(config.queue, logger);
+const attachments = createAttachmentStorage(config.attachments.dir);
+const audit = createJsonAuditLog(config.audit.file, logger);
+const notifier = createNotifier({
+  transport: createMailTransport(config.mail),
+  logger,
+  onCallEmail: config.mail.onCallEmail,
+  pagerEmail: config.mail.pagerEmail
 });
+const webhooks = createWebhookDispatcher({
+  subscriptions: config.webhooks.subscriptions,
+  deliveries: createJsonWebhookDeliveryStore(config.webhooks.deliveriesFile, logger),
+  logger
+});
+const app = createApp({ config, logger, store, slots, attachments, audit, notifier, webhooks });
+
+app.listen(config.port, () => {
+  logger.info('support API listening', { url: `http://localhost:${config.port}` });
+});
+
+createEscalationSweeper({
+  store,
+  notifier,
+  webhooks,
+  logger,
+  intervalMs: config.triage.escalationIntervalMs
+}).start();
+
+createRetentionSweeper({
+  store,
+  slots,
+  attachments,
+  webhooks,
+  audit,
+  logger,
+  config: config.retention
+}).start();
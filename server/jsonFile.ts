@@ -0,0 +1,113 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { Logger } from './logger';
+
+const fileLocks = new Map<string, Promise<unknown>>();
+
+/**
+ * Runs `task` after every task previously queued for the same file has settled,
+ * so read-modify-write cycles within this process never interleave.
+ */
+export function withFileLock<T>(filePath: string, task: () => Promise<T>): Promise<T> {
+  const previous = fileLocks.get(filePath) ?? Promise.resolve();
+  const run = previous.then(task);
+  const settled = run.catch(() => undefined);
+  fileLocks.set(filePath, settled);
+  void settled.then(() => {
+    if (fileLocks.get(filePath) === settled) {
+      fileLocks.delete(filePath);
+    }
+  });
+  return run;
+}
+
+// Write to a sibling temp file and rename it over the target, so readers only
+// ever see the previous or the next complete file, never a partial write.
+export async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.${randomUUID()}.tmp`;
+  try {
+    const handle = await fs.open(tempPath, 'w');
+    try {
+      await handle.writeFile(content, 'utf-8');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+function backupPath(filePath: string): string {
+  return `${filePath}.bak`;
+}
+
+async function parseJsonFile<T>(filePath: string, isValid: (value: unknown) => value is T): Promise<T | undefined> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(content);
+    return isValid(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export const isArray = (value: unknown): value is unknown[] => Array.isArray(value);
+
+/**
+ * Loads a JSON document, repairing the file if it is missing or unreadable. A
+ * corrupt file is moved aside (never deleted) and replaced by the last good
+ * backup, or by `fallback` when no backup exists. Call inside `withFileLock`.
+ */
+export async function loadJsonFile<T>(
+  filePath: string,
+  options: { fallback: T; isValid: (value: unknown) => value is T; logger?: Logger }
+): Promise<T> {
+  const current = await parseJsonFile(filePath, options.isValid);
+  if (current !== undefined) {
+    return current;
+  }
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const exists = await fs.access(filePath).then(
+    () => true,
+    () => false
+  );
+  const backup = await parseJsonFile(backupPath(filePath), options.isValid);
+  const restored = backup ?? options.fallback;
+
+  if (exists) {
+    const corruptPath = `${filePath}.corrupt-${Date.now()}`;
+    await fs.rename(filePath, corruptPath);
+    options.logger?.error('data file was unreadable; restored from backup', {
+      file: filePath,
+      movedTo: corruptPath,
+      restoredFromBackup: backup !== undefined
+    });
+  }
+
+  await writeFileAtomic(filePath, JSON.stringify(restored, null, 2));
+  return restored;
+}
+
+/**
+ * Atomically replaces a JSON document loaded with `loadJsonFile`, keeping the
+ * previous version as `<file>.bak`. Call inside `withFileLock`.
+ */
+export async function saveJsonFile(filePath: string, value: unknown): Promise<void> {
+  // The current file parsed successfully before this write, so it is the last known-good copy.
+  await fs.copyFile(filePath, backupPath(filePath));
+  await writeFileAtomic(filePath, JSON.stringify(value, null, 2));
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { createLogger, redact } from './logger';
+
+describe('createLogger', () => {
+  it('writes JSON lines at or above the configured level', () => {
+    const lines: string[] = [];
+    const logger = createLogger({ level: 'info', write: (line) => lines.push(line) });
+
+    logger.debug('hidden');
+    logger.child({ requestId: 'req-1' }).warn('slow queue write', { durationMs: 1200 });
+
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0])).toEqual({
+      time: expect.any(String),
+      level: 'warn',
+      msg: 'slow queue write',
+      requestId: 'req-1',
+      durationMs: 1200
+    });
+  });
+
+  it('redacts candidate details but keeps error stacks', () => {
+    const lines: string[] = [];
+    const logger = createLogger({ level: 'debug', write: (line) => lines.push(line) });
+
+    logger.error('submission failed', {
+      payload: { name: 'Ada Lovelace', email: 'ada@example.com', topic: 'Mock interviews', message: 'Help me' },
+      err: new Error('duplicate entry for ada@example.com')
+    });
+
+    const entry = JSON.parse(lines[0]);
+    expect(entry.payload).toEqual({
+      name: '[REDACTED]',
+      email: '[REDACTED]',
+      topic: 'Mock interviews',
+      message: '[REDACTED]'
+    });
+    expect(entry.err).toMatchObject({
+      type: 'Error',
+      message: 'duplicate entry for [REDACTED]',
+      stack: expect.any(String)
+    });
+    expect(lines[0]).not.toContain('ada@example.com');
+  });
+
+  it('stays quiet when silent', () => {
+    const lines: string[] = [];
+    createLogger({ level: 'silent', write: (line) => lines.push(line) }).error('boom');
+
+    expect(lines).toEqual([]);
+  });
+});
+
+describe('redact', () => {
+  it('masks email addresses inside free text', () => {
+    expect(redact(['contact grace@example.org today'])).toEqual(['contact [REDACTED] today']);
+  });
+});
@@ -0,0 +1,97 @@
+import type { LogLevel } from './config';
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+  /** Returns a logger that adds `bindings` to every line, e.g. the request ID. */
+  child(bindings: LogFields): Logger;
+}
+
+export interface LoggerOptions {
+  level: LogLevel;
+  bindings?: LogFields;
+  /** Receives one serialized JSON line per entry; defaults to stdout. */
+  write?: (line: string) => void;
+}
+
+const severity: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40, silent: Infinity };
+
+// Candidate PII and credentials never leave the process, even at debug level.
+const redactedKeys = new Set([
+  'name',
+  'email',
+  'message',
+  'body',
+  'note',
+  'authorization',
+  'cookie',
+  'password',
+  'token'
+]);
+const emailPattern = /[^\s@"'<>]+@[^\s@"'<>]+\.[^\s@"'<>]+/g;
+
+export const REDACTED = '[REDACTED]';
+
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') {
+    return value.replace(emailPattern, REDACTED);
+  }
+  if (depth > 8 || value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, depth + 1));
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      redactedKeys.has(key.toLowerCase()) ? REDACTED : redact(item, depth + 1)
+    ])
+  );
+}
+
+function serializeError(error: unknown): unknown {
+  if (error instanceof Error) {
+    return { type: error.name, message: redact(error.message), stack: redact(error.stack) };
+  }
+  return redact(error);
+}
+
+/**
+ * Minimal JSON-lines logger. Fields are redacted before serialization; pass
+ * errors as `err` to keep their message and stack.
+ */
+export function createLogger(options: LoggerOptions): Logger {
+  const write = options.write ?? ((line: string) => process.stdout.write(`${line}\n`));
+  const bindings = options.bindings ?? {};
+
+  const log = (level: Exclude<LogLevel, 'silent'>, msg: string, fields: LogFields = {}) => {
+    if (severity[level] < severity[options.level]) {
+      return;
+    }
+
+    const { err, ...rest } = { ...bindings, ...fields };
+    const entry: LogFields = {
+      time: new Date().toISOString(),
+      level,
+      msg,
+      ...(redact(rest) as LogFields)
+    };
+    if (err !== undefined) {
+      entry.err = serializeError(err);
+    }
+    write(JSON.stringify(entry));
+  };
+
+  return {
+    debug: (msg, fields) => log('debug', msg, fields),
+    info: (msg, fields) => log('info', msg, fields),
+    warn: (msg, fields) => log('warn', msg, fields),
+    error: (msg, fields) => log('error', msg, fields),
+    child: (childBindings) => createLogger({ ...options, bindings: { ...bindings, ...childBindings } })
+  };
+}
@@ -0,0 +1,55 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import type { MailConfig } from './config';
+
+export interface MailAttachment {
+  filename: string;
+  contentType: string;
+  content: string;
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  headers?: Record<string, string>;
+  attachments?: MailAttachment[];
+}
+
+/** Delivers a single message. Implementations throw when delivery fails. */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export function createSmtpTransport(smtpUrl: string, from: string): MailTransport {
+  const transporter = nodemailer.createTransport(smtpUrl);
+
+  return {
+    async send(message) {
+      await transporter.sendMail({ from, ...message });
+    }
+  };
+}
+
+/**
+ * Writes each message as a JSON file instead of sending it, for local
+ * development and tests. Files sort by the time they were written.
+ */
+export function createOutboxTransport(directory: string, from: string): MailTransport {
+  return {
+    async send(message) {
+      await fs.mkdir(directory, { recursive: true });
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID()}.json`;
+      await fs.writeFile(path.join(directory, fileName), JSON.stringify({ from, ...message }, null, 2), 'utf-8');
+    }
+  };
+}
+
+export function createMailTransport(config: MailConfig): MailTransport {
+  if (config.transport === 'smtp' && config.smtpUrl) {
+    return createSmtpTransport(config.smtpUrl, config.from);
+  }
+  return createOutboxTransport(config.outboxDir, config.from);
+}
@@ -0,0 +1,46 @@
+import { z } from 'zod';
+import type { ConversationMessage, ParticipantRole, StoredSupportRequest } from './queue';
+
+export const postMessageSchema = z.object({
+  body: z.string().trim().min(2).max(5000)
+});
+
+export const readMarkerSchema = z.object({
+  /** Newest message the caller has seen; everything up to it counts as read. */
+  upTo: z.string().min(1)
+});
+
+export function appendMessage(entry: StoredSupportRequest, message: ConversationMessage): StoredSupportRequest {
+  return {
+    ...entry,
+    messages: [...entry.messages, message],
+    // Writing a message implies having read the thread up to that point.
+    readMarkers: { ...entry.readMarkers, [message.role]: message.createdAt },
+    updatedAt: message.createdAt
+  };
+}
+
+/** Moves the caller's read marker forward; it never moves back. */
+export function markRead(entry: StoredSupportRequest, role: ParticipantRole, upTo: string): StoredSupportRequest {
+  const message = entry.messages.find((candidate) => candidate.id === upTo);
+  const current = entry.readMarkers[role];
+  if (!message || (current && current >= message.createdAt)) {
+    return entry;
+  }
+  return { ...entry, readMarkers: { ...entry.readMarkers, [role]: message.createdAt } };
+}
+
+export function unreadCount(entry: StoredSupportRequest, role: ParticipantRole): number {
+  const marker = entry.readMarkers[role];
+  return entry.messages.filter((message) => message.role !== role && (!marker || message.createdAt > marker)).length;
+}
+
+export interface ThreadView {
+  messages: ConversationMessage[];
+  readMarkers: StoredSupportRequest['readMarkers'];
+  unread: number;
+}
+
+export function toThreadView(entry: StoredSupportRequest, role: ParticipantRole): ThreadView {
+  return { messages: entry.messages, readMarkers: entry.readMarkers, unread: unreadCount(entry, role) };
+}
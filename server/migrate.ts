@@ -0,0 +1,24 @@
+import { existsSync } from 'fs';
+import path from 'path';
+import { importJsonQueue, importJsonSlots } from './sqliteStore';
+import { resolveDataPath } from './config';
+
+const jsonPath = resolveDataPath(process.argv[2] ?? process.env.SUPPORT_QUEUE_FILE, 'support-queue.json');
+const sqlitePath = resolveDataPath(process.argv[3] ?? process.env.SUPPORT_QUEUE_DB, 'support-queue.db');
+const slotsArg = process.argv[4] ?? process.env.SUPPORT_SLOTS_FILE;
+const slotsPath = slotsArg ? resolveDataPath(slotsArg, 'slots.json') : path.join(path.dirname(jsonPath), 'slots.json');
+
+if (!existsSync(jsonPath)) {
+  console.error(`No JSON queue found at ${jsonPath}`);
+  process.exit(1);
+}
+
+const { imported, skipped } = await importJsonQueue(jsonPath, sqlitePath);
+console.log(`Imported ${imported} requests into ${sqlitePath} (${skipped} already present)`);
+
+if (existsSync(slotsPath)) {
+  const slots = await importJsonSlots(slotsPath, sqlitePath);
+  console.log(`Imported ${slots.imported} slots into ${sqlitePath} (${slots.skipped} already present)`);
+} else {
+  console.log(`No slot file found at ${slotsPath}; no slots to import`);
+}
@@ -0,0 +1,202 @@
+import { describe, expect, it, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createLogger } from './logger';
+import { createOutboxTransport, type MailMessage, type MailTransport } from './mail';
+import { createNotifier, renderTemplate } from './notifications';
+import { makeEntry } from './testFixtures';
+
+const entry = makeEntry({ createdAt: '2024-01-01T00:00:00.000Z', triage: null });
+
+const logger = createLogger({ level: 'silent' });
+const links = { statusUrl: 'http://localhost:5173/requests/req-1#token=abc' };
+
+describe('renderTemplate', () => {
+  it('fills known placeholders and leaves unknown ones visible', () => {
+    expect(renderTemplate('Hi {{name}}, re {{ topic }} {{missing}}', { name: 'Ada', topic: 'SQL' })).toBe(
+      'Hi Ada, re SQL {{missing}}'
+    );
+  });
+});
+
+describe('createNotifier', () => {
+  let outboxDir: string;
+
+  beforeEach(() => {
+    outboxDir = mkdtempSync(path.join(tmpdir(), 'support-outbox-'));
+  });
+
+  afterEach(() => {
+    rmSync(outboxDir, { recursive: true, force: true });
+  });
+
+  function readOutbox(): MailMessage[] {
+    return readdirSync(outboxDir).map((file) => JSON.parse(readFileSync(path.join(outboxDir, file), 'utf-8')));
+  }
+
+  it('confirms to the candidate and alerts the on-call coach', async () => {
+    const notifier = createNotifier({
+      transport: createOutboxTransport(outboxDir, 'support@example.com'),
+      logger,
+      onCallEmail: 'oncall@example.com',
+      pagerEmail: 'pager@example.com'
+    });
+
+    notifier.submissionReceived(entry, links);
+    await notifier.idle();
+
+    const messages = readOutbox();
+    expect(messages).toHaveLength(2);
+    expect(messages).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          from: 'support@example.com',
+          to: 'ada@example.com',
+          subject: 'We received your request: Mock interviews',
+          text: expect.stringMatching(/Reference: #req-1[\s\S]*requests\/req-1#token=abc/)
+        }),
+        expect.objectContaining({ to: 'oncall@example.com', subject: 'New normal request: Mock interviews' })
+      ])
+    );
+  });
+
+  it('pages immediately for urgent requests', async () => {
+    const notifier = createNotifier({
+      transport: createOutboxTransport(outboxDir, 'support@example.com'),
+      logger,
+      onCallEmail: 'oncall@example.com',
+      pagerEmail: 'pager@example.com'
+    });
+
+    notifier.submissionReceived({ ...entry, urgency: 'urgent' }, links);
+    await notifier.idle();
+
+    expect(readOutbox()).toContainEqual(
+      expect.objectContaining({
+        to: 'pager@example.com',
+        subject: '[URGENT] Mock interviews (Ada Lovelace)',
+        headers: { 'X-Priority': '1', Importance: 'high' }
+      })
+    );
+  });
+
+  it('pages about requests past their SLA', async () => {
+    const notifier = createNotifier({
+      transport: createOutboxTransport(outboxDir, 'support@example.com'),
+      logger,
+      onCallEmail: 'oncall@example.com',
+      pagerEmail: null
+    });
+
+    notifier.slaBreached({
+      ...entry,
+      triage: { labels: ['offer'], boost: 10, slaDueAt: '2024-01-02T00:00:00.000Z', escalatedAt: null }
+    });
+    await notifier.idle();
+
+    expect(readOutbox()).toEqual([
+      expect.objectContaining({
+        to: 'oncall@example.com',
+        subject: '[SLA] Overdue request: Mock interviews (Ada Lovelace)',
+        text: expect.stringMatching(/due a response by 2024-01-02T00:00:00.000Z[\s\S]*Assignee: nobody\nLabels: offer/),
+        headers: { 'X-Priority': '1', Importance: 'high' }
+      })
+    ]);
+  });
+
+  it('emails the candidate when a coach replies', async () => {
+    const notifier = createNotifier({
+      transport: createOutboxTransport(outboxDir, 'support@example.com'),
+      logger,
+      onCallEmail: 'oncall@example.com',
+      pagerEmail: null
+    });
+
+    notifier.coachReplied(entry, {
+      id: 'msg-1',
+      role: 'coach',
+      author: 'grace',
+      body: 'Bring a recent design doc.',
+      createdAt: '2024-01-02T00:00:00.000Z'
+    });
+    await notifier.idle();
+
+    expect(readOutbox()).toEqual([
+      expect.objectContaining({
+        to: 'ada@example.com',
+        subject: 'New reply about Mock interviews',
+        text: expect.stringContaining('grace replied to your request #req-1')
+      })
+    ]);
+  });
+
+  it('writes to candidates in their language and to coaches in English', async () => {
+    const notifier = createNotifier({
+      transport: createOutboxTransport(outboxDir, 'support@example.com'),
+      logger,
+      onCallEmail: 'oncall@example.com',
+      pagerEmail: null
+    });
+    const german = { ...entry, locale: 'de' as const };
+
+    notifier.submissionReceived(german, links);
+    notifier.sessionBooked(
+      german,
+      {
+        id: 'slot-1',
+        coach: 'grace',
+        coachName: 'Grace Hopper',
+        startsAt: '2024-03-05T13:00:00.000Z',
+        endsAt: '2024-03-05T14:00:00.000Z',
+        timeZone: 'Europe/Berlin',
+        booking: { requestId: 'req-1', candidateTimeZone: 'Europe/Berlin', bookedAt: '2024-03-01T09:00:00.000Z' },
+        createdAt: '2024-03-01T08:00:00.000Z'
+      },
+      { name: 'Grace Hopper', email: 'grace@example.com' }
+    );
+    await notifier.idle();
+
+    const subjects = Object.fromEntries(readOutbox().map((message) => [`${message.to} ${message.subject}`, true]));
+    expect(Object.keys(subjects).sort()).toEqual([
+      'ada@example.com Coaching-Termin gebucht: Di., 5. März 2024, 14:00 (Europe/Berlin)',
+      'ada@example.com Wir haben Ihre Anfrage erhalten: Mock interviews',
+      'grace@example.com Coaching session booked: Tue, 5 Mar 2024, 14:00 (Europe/Berlin)',
+      'oncall@example.com New normal request: Mock interviews'
+    ]);
+  });
+
+  it('retries failed sends with backoff and gives up quietly', async () => {
+    const attempts: string[] = [];
+    let failuresLeft = 2;
+    const flaky: MailTransport = {
+      async send(message) {
+        attempts.push(message.to);
+        if (message.to === 'oncall@example.com') {
+          throw new Error('SMTP unavailable');
+        }
+        if (failuresLeft > 0) {
+          failuresLeft -= 1;
+          throw new Error('connection reset');
+        }
+      }
+    };
+    const lines: string[] = [];
+    const notifier = createNotifier({
+      transport: flaky,
+      logger: createLogger({ level: 'error', write: (line) => lines.push(line) }),
+      onCallEmail: 'oncall@example.com',
+      pagerEmail: null,
+      retry: { attempts: 3, baseDelayMs: 1 }
+    });
+
+    expect(() => notifier.submissionReceived(entry, links)).not.toThrow();
+    await notifier.idle();
+
+    expect(attempts.filter((to) => to === 'oncall@example.com')).toHaveLength(3);
+    expect(attempts.filter((to) => to === 'ada@example.com').length).toBeGreaterThanOrEqual(2);
+    expect(lines.map((line) => JSON.parse(line))).toEqual([
+      expect.objectContaining({ msg: 'notification failed', kind: 'coach_alert', attempts: 3 })
+    ]);
+  });
+});
@@ -0,0 +1,404 @@
+import type { Locale } from '../shared/locales';
+import { buildCalendarInvite, formatInZone } from './calendar';
+import type { Logger } from './logger';
+import type { MailMessage, MailTransport } from './mail';
+import type { ConversationMessage, StoredSupportRequest } from './queue';
+import type { AvailabilitySlot } from './slots';
+
+export interface MessageTemplate {
+  subject: string;
+  text: string;
+}
+
+export type TemplateValues = Record<string, string>;
+
+/** Replaces `{{key}}` placeholders; unknown keys are left untouched so gaps are visible. */
+export function renderTemplate(template: string, values: TemplateValues): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) => values[key] ?? match);
+}
+
+export const templates = {
+  candidateConfirmation: {
+    subject: 'We received your request: {{topic}}',
+    text: [
+      'Hi {{name}},',
+      '',
+      'Thanks for reaching out. A coach will reply to this address shortly.',
+      '',
+      'Topic: {{topic}}',
+      'Reference: #{{id}}',
+      '',
+      'Follow your request and read coach replies here: {{statusUrl}}',
+      '',
+      '- The Interview Helper coaching team'
+    ].join('\n')
+  },
+  coachAlert: {
+    subject: 'New {{urgency}} request: {{topic}}',
+    text: [
+      'A new support request was queued.',
+      '',
+      'From: {{name}} <{{email}}>',
+      'Urgency: {{urgency}}',
+      'Topic: {{topic}}',
+      'Reference: {{id}}',
+      '',
+      '{{message}}'
+    ].join('\n')
+  },
+  candidateReply: {
+    subject: 'New reply about {{topic}}',
+    text: [
+      'Hi {{name}},',
+      '',
+      '{{author}} replied to your request #{{id}}:',
+      '',
+      '{{body}}',
+      '',
+      'Reply from the status page linked in your confirmation email.',
+      '',
+      '- The Interview Helper coaching team'
+    ].join('\n')
+  },
+  coachPage: {
+    subject: '[URGENT] {{topic}} ({{name}})',
+    text: 'Urgent support request {{id}} from {{name}} needs a coach now.\n\n{{message}}'
+  },
+  slaBreach: {
+    subject: '[SLA] Overdue request: {{topic}} ({{name}})',
+    text: [
+      'Support request {{id}} from {{name}} was due a response by {{slaDueAt}} and has none yet.',
+      '',
+      'Urgency: {{urgency}}',
+      'Assignee: {{assignee}}',
+      'Labels: {{labels}}',
+      '',
+      '{{message}}'
+    ].join('\n')
+  },
+  sessionBooked: {
+    subject: 'Coaching session booked: {{when}}',
+    text: [
+      'Hi {{recipient}},',
+      '',
+      'A coaching session about "{{topic}}" is booked.',
+      '',
+      'When: {{when}}',
+      'Coach: {{coach}}',
+      'Candidate: {{name}}',
+      'Reference: #{{id}}',
+      '',
+      'The attached invite adds it to your calendar.',
+      '',
+      '- The Interview Helper coaching team'
+    ].join('\n')
+  },
+  sessionCancelled: {
+    subject: 'Coaching session cancelled: {{when}}',
+    text: [
+      'Hi {{recipient}},',
+      '',
+      'The coaching session about "{{topic}}" on {{when}} was cancelled.',
+      '',
+      'Reference: #{{id}}',
+      '',
+      'Open the attached file to remove it from your calendar.',
+      '',
+      '- The Interview Helper coaching team'
+    ].join('\n')
+  }
+} satisfies Record<string, MessageTemplate>;
+
+type CandidateTemplates = Pick<
+  typeof templates,
+  'candidateConfirmation' | 'candidateReply' | 'sessionBooked' | 'sessionCancelled'
+>;
+
+/** Emails candidates get, in the language they used the form in. Coaches always get `templates`. */
+export const candidateTemplates: Record<Locale, CandidateTemplates> = {
+  en: templates,
+  de: {
+    candidateConfirmation: {
+      subject: 'Wir haben Ihre Anfrage erhalten: {{topic}}',
+      text: [
+        'Hallo {{name}},',
+        '',
+        'vielen Dank für Ihre Nachricht. Ein Coach antwortet Ihnen in Kürze an diese Adresse.',
+        '',
+        'Thema: {{topic}}',
+        'Referenz: #{{id}}',
+        '',
+        'Hier verfolgen Sie Ihre Anfrage und lesen die Antworten der Coaches: {{statusUrl}}',
+        '',
+        '- Ihr Interview-Helper-Coaching-Team'
+      ].join('\n')
+    },
+    candidateReply: {
+      subject: 'Neue Antwort zu {{topic}}',
+      text: [
+        'Hallo {{name}},',
+        '',
+        '{{author}} hat auf Ihre Anfrage #{{id}} geantwortet:',
+        '',
+        '{{body}}',
+        '',
+        'Antworten Sie über die Statusseite, die in Ihrer Bestätigungs-E-Mail verlinkt ist.',
+        '',
+        '- Ihr Interview-Helper-Coaching-Team'
+      ].join('\n')
+    },
+    sessionBooked: {
+      subject: 'Coaching-Termin gebucht: {{when}}',
+      text: [
+        'Hallo {{recipient}},',
+        '',
+        'Ein Coaching-Termin zum Thema „{{topic}}“ ist gebucht.',
+        '',
+        'Wann: {{when}}',
+        'Coach: {{coach}}',
+        'Kandidat: {{name}}',
+        'Referenz: #{{id}}',
+        '',
+        'Mit der angehängten Einladung tragen Sie den Termin in Ihren Kalender ein.',
+        '',
+        '- Ihr Interview-Helper-Coaching-Team'
+      ].join('\n')
+    },
+    sessionCancelled: {
+      subject: 'Coaching-Termin abgesagt: {{when}}',
+      text: [
+        'Hallo {{recipient}},',
+        '',
+        'Der Coaching-Termin zum Thema „{{topic}}“ am {{when}} wurde abgesagt.',
+        '',
+        'Referenz: #{{id}}',
+        '',
+        'Öffnen Sie die angehängte Datei, um den Termin aus Ihrem Kalender zu entfernen.',
+        '',
+        '- Ihr Interview-Helper-Coaching-Team'
+      ].join('\n')
+    }
+  }
+};
+
+const dateLocales: Record<Locale, string> = { en: 'en-GB', de: 'de-DE' };
+
+function renderMessage(to: string, template: MessageTemplate, values: TemplateValues): MailMessage {
+  return { to, subject: renderTemplate(template.subject, values), text: renderTemplate(template.text, values) };
+}
+
+export interface RetryPolicy {
+  attempts: number;
+  /** Delay before the first retry; doubles for every further attempt. */
+  baseDelayMs: number;
+}
+
+export interface NotifierOptions {
+  transport: MailTransport;
+  logger: Logger;
+  onCallEmail: string | null;
+  pagerEmail: string | null;
+  retry?: RetryPolicy;
+}
+
+/** The coach running a session; without an email only the candidate is sent the invite. */
+export interface SessionCoach {
+  name: string;
+  email: string | null;
+}
+
+export interface Notifier {
+  /** Queues the candidate confirmation and coach alerts. Never throws; delivery happens in the background. */
+  submissionReceived(entry: StoredSupportRequest, links: { statusUrl: string }): void;
+  /** Emails the candidate a coach's reply. Never throws. */
+  coachReplied(entry: StoredSupportRequest, message: ConversationMessage): void;
+  /** Pages the on-call coach about a request past its SLA. Never throws. */
+  slaBreached(entry: StoredSupportRequest): void;
+  /** Sends both parties the session details with a calendar invite. Never throws. */
+  sessionBooked(entry: StoredSupportRequest, slot: AvailabilitySlot, coach: SessionCoach): void;
+  /** Sends both parties a calendar cancellation for a slot that was booked. Never throws. */
+  sessionCancelled(entry: StoredSupportRequest, slot: AvailabilitySlot, coach: SessionCoach): void;
+  /** Resolves once every queued delivery has succeeded or exhausted its retries. */
+  idle(): Promise<void>;
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+export function createNotifier(options: NotifierOptions): Notifier {
+  const { transport, logger } = options;
+  const retry = options.retry ?? { attempts: 5, baseDelayMs: 1000 };
+  const pending = new Set<Promise<void>>();
+
+  const deliver = async (kind: string, requestId: string, message: MailMessage) => {
+    for (let attempt = 1; ; attempt += 1) {
+      try {
+        await transport.send(message);
+        logger.info('notification sent', { kind, supportRequestId: requestId, attempt });
+        return;
+      } catch (error) {
+        if (attempt >= retry.attempts) {
+          logger.error('notification failed', { kind, supportRequestId: requestId, attempts: attempt, err: error });
+          return;
+        }
+        const retryInMs = retry.baseDelayMs * 2 ** (attempt - 1);
+        logger.warn('notification failed; retrying', {
+          kind,
+          supportRequestId: requestId,
+          attempt,
+          retryInMs,
+          err: error
+        });
+        await sleep(retryInMs);
+      }
+    }
+  };
+
+  const enqueue = (kind: string, requestId: string, message: MailMessage) => {
+    const task = deliver(kind, requestId, message).finally(() => pending.delete(task));
+    pending.add(task);
+  };
+
+  // The candidate sees times in the zone they booked from, the coach in the zone they published the slot in.
+  const sendSession = (
+    method: 'REQUEST' | 'CANCEL',
+    entry: StoredSupportRequest,
+    slot: AvailabilitySlot,
+    coach: SessionCoach
+  ) => {
+    const kind = method === 'REQUEST' ? 'session_booked' : 'session_cancelled';
+    try {
+      const attachment = {
+        filename: method === 'REQUEST' ? 'invite.ics' : 'cancel.ics',
+        contentType: `text/calendar; charset=utf-8; method=${method}`,
+        content: buildCalendarInvite(
+          {
+            slot,
+            requestId: entry.id,
+            summary: `Interview coaching: ${entry.topic}`,
+            description: `Coaching session with ${coach.name} for ${entry.name}. Reference: #${entry.id}`,
+            organizer: coach,
+            attendee: { name: entry.name, email: entry.email }
+          },
+          method
+        )
+      };
+      const values: TemplateValues = { id: entry.id, name: entry.name, topic: entry.topic, coach: coach.name };
+      const recipients: { to: string; name: string; timeZone: string; locale: Locale }[] = [
+        {
+          to: entry.email,
+          name: entry.name,
+          timeZone: slot.booking?.candidateTimeZone ?? slot.timeZone,
+          locale: entry.locale
+        },
+        ...(coach.email ? [{ to: coach.email, name: coach.name, timeZone: slot.timeZone, locale: 'en' as const }] : [])
+      ];
+      for (const recipient of recipients) {
+        const localized = candidateTemplates[recipient.locale] ?? templates;
+        enqueue(kind, entry.id, {
+          ...renderMessage(recipient.to, method === 'REQUEST' ? localized.sessionBooked : localized.sessionCancelled, {
+            ...values,
+            recipient: recipient.name,
+            when: formatInZone(slot.startsAt, recipient.timeZone, dateLocales[recipient.locale])
+          }),
+          attachments: [attachment]
+        });
+      }
+    } catch (error) {
+      logger.error('could not queue notifications', { supportRequestId: entry.id, err: error });
+    }
+  };
+
+  return {
+    submissionReceived(entry, links) {
+      try {
+        const values: TemplateValues = {
+          id: entry.id,
+          statusUrl: links.statusUrl,
+          name: entry.name,
+          email: entry.email,
+          topic: entry.topic,
+          message: entry.message,
+          urgency: entry.urgency
+        };
+
+        enqueue(
+          'candidate_confirmation',
+          entry.id,
+          renderMessage(entry.email, (candidateTemplates[entry.locale] ?? templates).candidateConfirmation, values)
+        );
+
+        if (options.onCallEmail) {
+          enqueue('coach_alert', entry.id, renderMessage(options.onCallEmail, templates.coachAlert, values));
+        }
+
+        const pageTo = options.pagerEmail ?? options.onCallEmail;
+        if (entry.urgency === 'urgent' && pageTo) {
+          enqueue('coach_page', entry.id, {
+            ...renderMessage(pageTo, templates.coachPage, values),
+            headers: { 'X-Priority': '1', Importance: 'high' }
+          });
+        }
+      } catch (error) {
+        logger.error('could not queue notifications', { supportRequestId: entry.id, err: error });
+      }
+    },
+
+    coachReplied(entry, message) {
+      try {
+        const values: TemplateValues = {
+          id: entry.id,
+          name: entry.name,
+          topic: entry.topic,
+          author: message.author,
+          body: message.body
+        };
+        enqueue(
+          'candidate_reply',
+          entry.id,
+          renderMessage(entry.email, (candidateTemplates[entry.locale] ?? templates).candidateReply, values)
+        );
+      } catch (error) {
+        logger.error('could not queue notifications', { supportRequestId: entry.id, err: error });
+      }
+    },
+
+    slaBreached(entry) {
+      const pageTo = options.pagerEmail ?? options.onCallEmail;
+      if (!pageTo) {
+        return;
+      }
+      try {
+        const values: TemplateValues = {
+          id: entry.id,
+          name: entry.name,
+          topic: entry.topic,
+          message: entry.message,
+          urgency: entry.urgency,
+          assignee: entry.assignee ?? 'nobody',
+          labels: entry.triage?.labels.join(', ') || 'none',
+          slaDueAt: entry.triage?.slaDueAt ?? 'unknown'
+        };
+        enqueue('sla_breach', entry.id, {
+          ...renderMessage(pageTo, templates.slaBreach, values),
+          headers: { 'X-Priority': '1', Importance: 'high' }
+        });
+      } catch (error) {
+        logger.error('could not queue notifications', { supportRequestId: entry.id, err: error });
+      }
+    },
+
+    sessionBooked(entry, slot, coach) {
+      sendSession('REQUEST', entry, slot, coach);
+    },
+
+    sessionCancelled(entry, slot, coach) {
+      sendSession('CANCEL', entry, slot, coach);
+    },
+
+    async idle() {
+      while (pending.size > 0) {
+        await Promise.all(pending);
+      }
+    }
+  };
+}
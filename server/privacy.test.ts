@@ -0,0 +1,195 @@
+import { describe, expect, it, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createAttachmentStorage, type AttachmentStorage } from './attachments';
+import { createJsonAuditLog, type AuditLog } from './audit';
+import { createLogger } from './logger';
+import {
+  anonymizeEntry,
+  createRetentionSweeper,
+  eraseRequest,
+  exportPersonalData,
+  findRequestsByEmail,
+  type PrivacyDependencies,
+  type RetentionMode
+} from './privacy';
+import { createJsonQueueStore, type StoredSupportRequest } from './queue';
+import { createJsonSlotStore, type AvailabilitySlot } from './slots';
+import { makeEntry } from './testFixtures';
+import { createJsonWebhookDeliveryStore, createWebhookDispatcher } from './webhooks';
+
+const day = 24 * 60 * 60 * 1000;
+const start = Date.parse('2024-03-01T09:00:00.000Z');
+const at = (days: number) => new Date(start + days * day).toISOString();
+
+// A request with something personal in every field that can hold it.
+function personalEntry(id: string, overrides: Partial<StoredSupportRequest> = {}): StoredSupportRequest {
+  return makeEntry({
+    id,
+    category: 'system_design',
+    company: 'Acme',
+    createdAt: at(0),
+    assignee: 'grace',
+    notes: [{ id: 'n-1', author: 'Grace', body: 'Ada mentioned Acme.', createdAt: at(1) }],
+    messages: [{ id: 'm-1', role: 'coach', author: 'Grace', body: 'Hi Ada!', createdAt: at(1) }],
+    accessTokenHash: 'hash',
+    updatedAt: at(1),
+    ...overrides
+  });
+}
+
+const slot: AvailabilitySlot = {
+  id: 'slot-1',
+  coach: 'grace',
+  coachName: 'Grace Hopper',
+  startsAt: at(5),
+  endsAt: at(5.04),
+  timeZone: 'Europe/Berlin',
+  booking: { requestId: 'req-1', candidateTimeZone: 'Europe/London', bookedAt: at(2) },
+  createdAt: at(0)
+};
+
+describe('anonymizeEntry', () => {
+  it('removes personal details but keeps what reporting needs', () => {
+    const anonymized = anonymizeEntry(
+      personalEntry('req-1', {
+        status: 'closed',
+        seniority: 'senior',
+        interviewDate: '2024-03-08',
+        partnerId: 'bootcamp',
+        triage: { labels: ['system-design'], boost: 1, slaDueAt: at(1), escalatedAt: null }
+      }),
+      at(100)
+    );
+
+    expect(anonymized).toMatchObject({
+      id: 'req-1',
+      name: '[removed]',
+      email: '',
+      topic: '[removed]',
+      message: '[removed]',
+      status: 'closed',
+      category: 'system_design',
+      // Kept for reporting: none of these tells one candidate from another.
+      seniority: 'senior',
+      partnerId: 'bootcamp',
+      triage: { labels: ['system-design'] },
+      notes: [],
+      messages: [{ id: 'm-1', role: 'coach', author: '[removed]', body: '[removed]', createdAt: at(1) }],
+      accessTokenHash: null,
+      updatedAt: at(100)
+    });
+    expect(anonymized.company).toBeUndefined();
+    expect(anonymized.interviewDate).toBeUndefined();
+    expect(JSON.stringify(anonymized)).not.toMatch(/Ada|Acme/);
+  });
+});
+
+describe('privacy operations', () => {
+  let tempDir: string;
+  let deps: PrivacyDependencies;
+  let attachments: AttachmentStorage;
+  let audit: AuditLog;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(tmpdir(), 'privacy-'));
+    attachments = createAttachmentStorage(path.join(tempDir, 'attachments'));
+    audit = createJsonAuditLog(path.join(tempDir, 'audit-log.json'));
+    deps = {
+      store: createJsonQueueStore(path.join(tempDir, 'queue.json')),
+      slots: createJsonSlotStore(path.join(tempDir, 'slots.json')),
+      attachments,
+      webhooks: createWebhookDispatcher({
+        subscriptions: [],
+        deliveries: createJsonWebhookDeliveryStore(path.join(tempDir, 'deliveries.json')),
+        logger: createLogger({ level: 'silent' })
+      })
+    };
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  async function seed() {
+    await deps.store.append(personalEntry('req-1'));
+    await deps.store.append(personalEntry('req-2', { email: 'ADA@example.com', createdAt: at(1) }));
+    await deps.store.append(personalEntry('req-3', { email: 'grace@example.com', createdAt: at(2) }));
+    await deps.slots.create(slot);
+    await attachments.save(
+      'req-1',
+      [{ filename: 'cv.txt', contentType: 'text/plain', data: Buffer.from('cv') }],
+      at(0)
+    );
+  }
+
+  it('exports and erases everything tied to an address', async () => {
+    await seed();
+
+    const entries = await findRequestsByEmail(deps.store, 'ada@example.com');
+    expect(entries.map((entry) => entry.id)).toEqual(['req-1', 'req-2']);
+
+    const records = await exportPersonalData(entries, deps.slots);
+    expect(records[0]).toMatchObject({ id: 'req-1', notes: [expect.any(Object)], session: { id: 'slot-1' } });
+    expect(records[0]).not.toHaveProperty('accessTokenHash');
+    expect(records[1].session).toBeNull();
+
+    await eraseRequest(deps, 'req-1');
+
+    expect(await deps.store.get('req-1')).toBeUndefined();
+    expect(existsSync(path.join(tempDir, 'attachments', 'req-1'))).toBe(false);
+    expect((await deps.slots.get('slot-1'))?.booking).toBeNull();
+    expect(await deps.store.get('req-3')).toBeDefined();
+  });
+
+  function sweeper(mode: RetentionMode, closedDays: number | null = 30) {
+    return createRetentionSweeper({
+      ...deps,
+      audit,
+      logger: createLogger({ level: 'silent' }),
+      config: { closedDays, mode, intervalMs: 60_000 },
+      now: () => start + 60 * day
+    });
+  }
+
+  async function seedClosed() {
+    await deps.store.append(personalEntry('old', { status: 'closed', updatedAt: at(10) }));
+    await deps.store.append(personalEntry('recent', { status: 'closed', updatedAt: at(45) }));
+    await deps.store.append(personalEntry('open', { status: 'open', updatedAt: at(1) }));
+    await attachments.save('old', [{ filename: 'cv.txt', contentType: 'text/plain', data: Buffer.from('cv') }], at(0));
+  }
+
+  it('anonymizes requests closed for longer than the retention period', async () => {
+    await seedClosed();
+
+    expect(await sweeper('anonymize').sweep()).toEqual(['old']);
+    expect(await sweeper('anonymize').sweep()).toEqual([]);
+
+    expect(await deps.store.get('old')).toMatchObject({ email: '', name: '[removed]', status: 'closed' });
+    expect(await deps.store.get('recent')).toMatchObject({ email: 'ada@example.com' });
+    expect(await deps.store.get('open')).toMatchObject({ email: 'ada@example.com' });
+    expect(existsSync(path.join(tempDir, 'attachments', 'old'))).toBe(false);
+    expect(await audit.list({})).toEqual([
+      expect.objectContaining({ action: 'retention.anonymized', actor: 'retention', requestIds: ['old'] })
+    ]);
+  });
+
+  it('purges them instead when configured to', async () => {
+    await seedClosed();
+
+    expect(await sweeper('purge').sweep()).toEqual(['old']);
+
+    expect(await deps.store.get('old')).toBeUndefined();
+    expect(await deps.store.get('recent')).toBeDefined();
+    expect(await audit.list({ action: 'retention.purged' })).toHaveLength(1);
+  });
+
+  it('keeps everything when no retention period is set', async () => {
+    await seedClosed();
+
+    expect(await sweeper('purge', null).sweep()).toEqual([]);
+    expect(await deps.store.get('old')).toBeDefined();
+    expect(await audit.list({})).toEqual([]);
+  });
+});
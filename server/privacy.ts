@@ -0,0 +1,175 @@
+import type { AttachmentStorage } from './attachments';
+import type { AuditLog } from './audit';
+import type { Logger } from './logger';
+import type { StoredSupportRequest } from './queue';
+import { iterateTickets } from './reports';
+import { toSessionView, type SessionView, type SlotStore } from './slots';
+import type { SupportQueueStore } from './store';
+import type { WebhookDispatcher } from './webhooks';
+
+export const retentionModes = ['anonymize', 'purge'] as const;
+
+export type RetentionMode = (typeof retentionModes)[number];
+
+export interface RetentionConfig {
+  /** Days after its last update that a closed request is kept; `null` keeps requests forever. */
+  closedDays: number | null;
+  /** `anonymize` keeps the request for reporting without personal details, `purge` deletes it. */
+  mode: RetentionMode;
+  /** How often the retention sweep runs. */
+  intervalMs: number;
+}
+
+/** Everything that holds personal details about a request. */
+export interface PrivacyDependencies {
+  store: SupportQueueStore;
+  slots: SlotStore;
+  attachments: AttachmentStorage;
+  webhooks: WebhookDispatcher;
+}
+
+const removed = '[removed]';
+
+/** Anonymized requests keep no address, so none of them is found again by email. */
+export function isAnonymized(entry: StoredSupportRequest): boolean {
+  return entry.email === '';
+}
+
+/**
+ * Strips everything that could identify the candidate while keeping what the
+ * metrics need: status, urgency, category, seniority, partner site, triage
+ * labels and when each message was sent. None of those tells one candidate
+ * from another; an exact interview date can, so it goes with the rest.
+ */
+export function anonymizeEntry(entry: StoredSupportRequest, now: string): StoredSupportRequest {
+  return {
+    ...entry,
+    name: removed,
+    email: '',
+    topic: removed,
+    message: removed,
+    company: undefined,
+    role: undefined,
+    interviewDate: undefined,
+    notes: [],
+    messages: entry.messages.map((message) => ({ ...message, author: removed, body: removed })),
+    attachments: [],
+    accessTokenHash: null,
+    updatedAt: now
+  };
+}
+
+export async function findRequestsByEmail(store: SupportQueueStore, email: string): Promise<StoredSupportRequest[]> {
+  const entries: StoredSupportRequest[] = [];
+  for await (const entry of iterateTickets(store, { email })) {
+    entries.push(entry);
+  }
+  return entries;
+}
+
+/** A candidate's request as handed to them on an access request: everything except the status-page token hash. */
+export type PersonalDataRecord = Omit<StoredSupportRequest, 'accessTokenHash'> & { session: SessionView | null };
+
+export async function exportPersonalData(
+  entries: StoredSupportRequest[],
+  slots: SlotStore
+): Promise<PersonalDataRecord[]> {
+  return Promise.all(
+    entries.map(async ({ accessTokenHash: _accessTokenHash, ...entry }) => {
+      const slot = await slots.findByRequest(entry.id);
+      return { ...entry, session: slot ? toSessionView(slot) : null };
+    })
+  );
+}
+
+/**
+ * Deletes a request with its attachments and webhook deliveries and releases
+ * its booked session. The coach is not emailed: the booking simply disappears.
+ * Emails already sent are out of scope, including copies the `outbox` mail
+ * transport left on disk; clear `MAIL_OUTBOX_DIR` separately if it holds real mail.
+ */
+export async function eraseRequest(deps: PrivacyDependencies, id: string): Promise<void> {
+  await deps.slots.cancel(id);
+  await deps.attachments.removeAll(id);
+  await deps.webhooks.forget([id]);
+  await deps.store.remove(id);
+}
+
+export interface RetentionSweeperOptions extends PrivacyDependencies {
+  audit: AuditLog;
+  logger: Logger;
+  config: RetentionConfig;
+  now?: () => number;
+}
+
+export interface RetentionSweeper {
+  /** Applies the retention policy once; returns the ids it anonymized or purged. */
+  sweep(): Promise<string[]>;
+  start(): void;
+  stop(): void;
+}
+
+const dayMs = 24 * 60 * 60 * 1000;
+
+/**
+ * Periodically anonymizes or purges requests that have been closed for longer
+ * than `closedDays`, recording each run that changed anything in the audit log.
+ */
+export function createRetentionSweeper(options: RetentionSweeperOptions): RetentionSweeper {
+  const { store, audit, logger, config } = options;
+  const now = options.now ?? Date.now;
+  let timer: ReturnType<typeof setInterval> | undefined;
+
+  const sweep = async () => {
+    if (config.closedDays === null) {
+      return [];
+    }
+    const at = now();
+    const cutoff = new Date(at - config.closedDays * dayMs).toISOString();
+
+    // Collected first so the queue is not changed while it is being paged through.
+    const expired: string[] = [];
+    // A request is updated no earlier than it was created, so `to` only narrows the pages read.
+    for await (const entry of iterateTickets(store, { status: 'closed', to: cutoff })) {
+      if (entry.updatedAt <= cutoff && !isAnonymized(entry)) {
+        expired.push(entry.id);
+      }
+    }
+
+    for (const id of expired) {
+      if (config.mode === 'purge') {
+        await eraseRequest(options, id);
+      } else {
+        await options.attachments.removeAll(id);
+        await options.webhooks.forget([id]);
+        await store.update(id, (entry) => anonymizeEntry(entry, new Date(at).toISOString()));
+      }
+    }
+
+    if (expired.length > 0) {
+      const action = config.mode === 'purge' ? 'retention.purged' : 'retention.anonymized';
+      await audit.record({ action, actor: 'retention', requestIds: expired, emailHash: null });
+      logger.info('retention policy applied', { action, count: expired.length });
+    }
+    return expired;
+  };
+
+  return {
+    sweep,
+
+    start() {
+      if (config.closedDays === null) {
+        return;
+      }
+      timer ??= setInterval(() => {
+        sweep().catch((error) => logger.error('retention sweep failed', { err: error }));
+      }, config.intervalMs);
+      timer.unref();
+    },
+
+    stop() {
+      clearInterval(timer);
+      timer = undefined;
+    }
+  };
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createLogger } from './logger';
+import { createJsonQueueStore } from './queue';
+import { makeEntry } from './testFixtures';
+import { listQuerySchema } from './tickets';
+
+describe('JSON queue store', () => {
+  let tempDir: string;
+  let queueFile: string;
+  let logLines: string[];
+  const logger = createLogger({ level: 'warn', write: (line) => logLines.push(line) });
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(tmpdir(), 'support-json-'));
+    queueFile = path.join(tempDir, 'queue.json');
+    logLines = [];
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('serializes concurrent updates and appends', async () => {
+    const store = createJsonQueueStore(queueFile, logger);
+    await store.append(makeEntry({ id: 'req-1' }));
+
+    await Promise.all([
+      ...Array.from({ length: 10 }, (_, index) => store.append(makeEntry({ id: `req-extra-${index}` }))),
+      ...Array.from({ length: 10 }, (_, index) =>
+        store.update('req-1', (entry) => ({
+          ...entry,
+          notes: [...entry.notes, { id: `${index}`, author: 'grace', body: 'note', createdAt: entry.createdAt }]
+        }))
+      )
+    ]);
+
+    const page = await store.list(listQuerySchema.parse({ limit: 100 }));
+    expect(page.items).toHaveLength(11);
+    expect((await store.get('req-1'))?.notes).toHaveLength(10);
+    expect(readdirSync(tempDir).filter((file) => file.endsWith('.tmp'))).toEqual([]);
+  });
+
+  it('removes entries', async () => {
+    const store = createJsonQueueStore(queueFile, logger);
+    await store.append(makeEntry({ id: 'req-1' }));
+    await store.append(makeEntry({ id: 'req-2' }));
+
+    expect(await store.remove('req-1')).toMatchObject({ id: 'req-1' });
+    expect(await store.remove('req-1')).toBeUndefined();
+    expect((await store.list(listQuerySchema.parse({}))).items.map((entry) => entry.id)).toEqual(['req-2']);
+  });
+
+  it('restores the last good backup when the queue file is truncated', async () => {
+    const store = createJsonQueueStore(queueFile, logger);
+    await store.append(makeEntry({ id: 'req-1' }));
+    await store.append(makeEntry({ id: 'req-2' }));
+    writeFileSync(queueFile, '[{"id": "req-1", "na');
+
+    const recovered = await store.list(listQuerySchema.parse({}));
+
+    expect(recovered.items.map((entry) => entry.id)).toEqual(['req-1']);
+    expect(JSON.parse(readFileSync(queueFile, 'utf-8'))).toHaveLength(1);
+    expect(readdirSync(tempDir).some((file) => file.startsWith('queue.json.corrupt-'))).toBe(true);
+    await store.append(makeEntry({ id: 'req-3' }));
+    expect((await store.list(listQuerySchema.parse({}))).items).toHaveLength(2);
+  });
+
+  it('starts an empty queue when a corrupt file has no backup', async () => {
+    writeFileSync(queueFile, 'not json');
+    const store = createJsonQueueStore(queueFile, logger);
+
+    expect((await store.list(listQuerySchema.parse({}))).items).toEqual([]);
+    expect(existsSync(queueFile)).toBe(true);
+    expect(JSON.parse(logLines[0])).toMatchObject({ level: 'error', msg: expect.stringMatching(/unreadable/) });
+  });
+});
@@ -1,48 +1,148 @@
-import { promises as fs } from 'fs';
-import path from 'path';
+import type { Locale } from '../shared/locales';
+import { upgradeSupportRequest, type InterviewContext } from '../shared/supportRequest';
+import { isArray, loadJsonFile, saveJsonFile, withFileLock } from './jsonFile';
+import type { Logger } from './logger';
+import type { SupportQueueStore } from './store';
+import { paginateTickets } from './tickets';
+import type { TriageResult } from './triage';
 
-export interface StoredSupportRequest {
+export type SupportRequestStatus = 'open' | 'in_progress' | 'resolved' | 'closed';
+
+export interface InternalNote {
+  id: string;
+  author: string;
+  body: string;
+  createdAt: string;
+}
+
+export type ParticipantRole = 'candidate' | 'coach';
+
+/** A message in the candidate/coach thread, as opposed to an internal note. */
+export interface ConversationMessage {
+  id: string;
+  role: ParticipantRole;
+  author: string;
+  body: string;
+  createdAt: string;
+}
+
+/** A file uploaded with the request; the bytes live under `config.attachments.dir`. */
+export interface AttachmentMeta {
   id: string;
+  /** Sanitized original file name, used for downloads. */
+  filename: string;
+  contentType: string;
+  size: number;
+  uploadedAt: string;
+}
+
+export interface StoredSupportRequest extends InterviewContext {
+  id: string;
+  /** `supportRequestSchemaVersion` when the request was submitted; entries from before versioning read as 1. */
+  schemaVersion: number;
   name: string;
   email: string;
   topic: string;
   message: string;
   urgency: 'normal' | 'urgent';
+  /** Language the candidate wrote in; emails to them use it. */
+  locale: Locale;
+  /** Partner site whose embedded widget the request came through; absent for the app's own form. */
+  partnerId?: string;
   createdAt: string;
+  status: SupportRequestStatus;
+  assignee: string | null;
+  notes: InternalNote[];
+  messages: ConversationMessage[];
+  attachments: AttachmentMeta[];
+  /** Labels and SLA stamped on submission; `null` for requests created before triage existed. */
+  triage: TriageResult | null;
+  /** `createdAt` of the newest message each side has read, or `null` if they have read none. */
+  readMarkers: Record<ParticipantRole, string | null>;
+  /** SHA-256 of the candidate's status-page token; `null` for requests created before tokens existed. */
+  accessTokenHash: string | null;
+  updatedAt: string;
 }
 
-function resolveQueueFilePath(): string {
-  const envPath = process.env.SUPPORT_QUEUE_FILE;
-  if (envPath) {
-    return path.isAbsolute(envPath) ? envPath : path.resolve(process.cwd(), envPath);
-  }
-  return path.resolve(process.cwd(), 'data', 'support-queue.json');
+// Entries written before the ticket lifecycle existed only carry the submission fields.
+export function normalizeEntry(
+  entry: Partial<StoredSupportRequest> & Pick<StoredSupportRequest, 'id' | 'createdAt'>
+): StoredSupportRequest {
+  return {
+    ...(upgradeSupportRequest(entry) as StoredSupportRequest),
+    status: entry.status ?? 'open',
+    assignee: entry.assignee ?? null,
+    notes: entry.notes ?? [],
+    messages: entry.messages ?? [],
+    attachments: entry.attachments ?? [],
+    triage: entry.triage ?? null,
+    readMarkers: entry.readMarkers ?? { candidate: null, coach: null },
+    accessTokenHash: entry.accessTokenHash ?? null,
+    updatedAt: entry.updatedAt ?? entry.createdAt
+  };
 }
 
-async function ensureFile(filePath: string): Promise<void> {
-  await fs.mkdir(path.dirname(filePath), { recursive: true });
-  try {
-    await fs.access(filePath);
-  } catch {
-    await fs.writeFile(filePath, '[]', 'utf-8');
-  }
+async function loadQueue(filePath: string, logger?: Logger): Promise<StoredSupportRequest[]> {
+  const queue = await loadJsonFile(filePath, { fallback: [], isValid: isArray, logger });
+  return (queue as StoredSupportRequest[]).map(normalizeEntry);
 }
 
-export async function appendToQueue(entry: StoredSupportRequest): Promise<void> {
-  const filePath = resolveQueueFilePath();
-  await ensureFile(filePath);
-  const queue = await readQueue();
-  queue.push(entry);
-  await fs.writeFile(filePath, JSON.stringify(queue, null, 2), 'utf-8');
+export function readQueueFile(filePath: string, logger?: Logger): Promise<StoredSupportRequest[]> {
+  return withFileLock(filePath, () => loadQueue(filePath, logger));
 }
 
-export async function readQueue(): Promise<StoredSupportRequest[]> {
-  const filePath = resolveQueueFilePath();
-  await ensureFile(filePath);
-  const content = await fs.readFile(filePath, 'utf-8');
-  return JSON.parse(content) as StoredSupportRequest[];
-}
+/**
+ * Stores the whole queue as a pretty-printed JSON array. Simple to inspect by
+ * hand, but every write rewrites the file, so prefer SQLite for larger queues.
+ * Operations on the same file are serialized and every write is atomic.
+ */
+export function createJsonQueueStore(filePath: string, logger?: Logger): SupportQueueStore {
+  return {
+    append(entry) {
+      return withFileLock(filePath, async () => {
+        const queue = await loadQueue(filePath, logger);
+        queue.push(entry);
+        await saveJsonFile(filePath, queue);
+      });
+    },
+
+    async get(id) {
+      const queue = await readQueueFile(filePath, logger);
+      return queue.find((entry) => entry.id === id);
+    },
+
+    async list(query) {
+      return paginateTickets(await readQueueFile(filePath, logger), query);
+    },
+
+    update(id, change) {
+      return withFileLock(filePath, async () => {
+        const queue = await loadQueue(filePath, logger);
+        const index = queue.findIndex((entry) => entry.id === id);
+        if (index === -1) {
+          return undefined;
+        }
+
+        queue[index] = change(queue[index]);
+        await saveJsonFile(filePath, queue);
+        return queue[index];
+      });
+    },
+
+    remove(id) {
+      return withFileLock(filePath, async () => {
+        const queue = await loadQueue(filePath, logger);
+        const removed = queue.find((entry) => entry.id === id);
+        if (removed) {
+          await saveJsonFile(
+            filePath,
+            queue.filter((entry) => entry.id !== id)
+          );
+        }
+        return removed;
+      });
+    },
 
-export function queueFilePath(): string {
-  return resolveQueueFilePath();
+    async close() {}
+  };
 }
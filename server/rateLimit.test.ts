@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { createSlidingWindowLimiter } from './rateLimit';
+
+describe('createSlidingWindowLimiter', () => {
+  it('allows hits again as old ones slide out of the window', () => {
+    let now = 0;
+    const limiter = createSlidingWindowLimiter(1000, 2, () => now);
+
+    expect(limiter.hit('ip').allowed).toBe(true);
+    now = 400;
+    expect(limiter.hit('ip').allowed).toBe(true);
+    now = 600;
+    expect(limiter.hit('ip')).toEqual({ allowed: false, retryAfterMs: 400 });
+
+    now = 1000;
+    expect(limiter.hit('ip').allowed).toBe(true);
+    expect(limiter.hit('ip')).toEqual({ allowed: false, retryAfterMs: 400 });
+  });
+
+  it('tracks keys independently', () => {
+    const limiter = createSlidingWindowLimiter(1000, 1, () => 0);
+
+    expect(limiter.hit('a').allowed).toBe(true);
+    expect(limiter.hit('b').allowed).toBe(true);
+    expect(limiter.hit('a').allowed).toBe(false);
+  });
+
+  it('starts a key over after a reset', () => {
+    const limiter = createSlidingWindowLimiter(1000, 1, () => 0);
+
+    expect(limiter.hit('a').allowed).toBe(true);
+    expect(limiter.hit('b').allowed).toBe(true);
+    limiter.reset('a');
+    expect(limiter.hit('a').allowed).toBe(true);
+    expect(limiter.hit('b').allowed).toBe(false);
+  });
+});
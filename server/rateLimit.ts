@@ -0,0 +1,81 @@
+import type { Request, Response, NextFunction } from 'express';
+
+export interface RateLimitOptions {
+  windowMs: number;
+  maxPerIp: number;
+  maxPerEmail: number;
+  /** Failed logins allowed per username within the window. */
+  maxLoginAttempts: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Milliseconds until the oldest hit in the window expires; 0 when allowed. */
+  retryAfterMs: number;
+}
+
+export interface SlidingWindowLimiter {
+  hit(key: string): RateLimitResult;
+  /** Forgets every hit counted for `key`. */
+  reset(key: string): void;
+}
+
+/**
+ * Sliding-window log limiter: remembers the timestamp of every accepted hit per
+ * key and allows a new one only while fewer than `max` fall inside the window.
+ */
+export function createSlidingWindowLimiter(
+  windowMs: number,
+  max: number,
+  now: () => number = Date.now
+): SlidingWindowLimiter {
+  const hits = new Map<string, number[]>();
+
+  const prune = (timestamps: number[], current: number) => timestamps.filter((time) => current - time < windowMs);
+
+  return {
+    hit(key) {
+      const current = now();
+      const recent = prune(hits.get(key) ?? [], current);
+
+      if (recent.length >= max) {
+        hits.set(key, recent);
+        return { allowed: false, retryAfterMs: windowMs - (current - recent[0]) };
+      }
+
+      recent.push(current);
+      hits.set(key, recent);
+
+      // Keep memory bounded by dropping keys whose hits have all expired.
+      if (hits.size > 10_000) {
+        for (const [otherKey, timestamps] of hits) {
+          if (prune(timestamps, current).length === 0) {
+            hits.delete(otherKey);
+          }
+        }
+      }
+
+      return { allowed: true, retryAfterMs: 0 };
+    },
+
+    reset(key) {
+      hits.delete(key);
+    }
+  };
+}
+
+export function sendTooManyRequests(res: Response, retryAfterMs: number) {
+  const retryAfterSeconds = Math.max(1, Math.ceil(retryAfterMs / 1000));
+  res.set('Retry-After', String(retryAfterSeconds));
+  return res.status(429).json({ error: 'Too many requests', code: 'rate_limited', retryAfterSeconds });
+}
+
+export function limitByIp(limiter: SlidingWindowLimiter) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const { allowed, retryAfterMs } = limiter.hit(req.ip ?? 'unknown');
+    if (!allowed) {
+      return sendTooManyRequests(res, retryAfterMs);
+    }
+    return next();
+  };
+}
@@ -0,0 +1,152 @@
+import { describe, expect, it, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createJsonQueueStore } from './queue';
+import { computeMetrics, exportLines, iterateTickets } from './reports';
+import type { SupportQueueStore } from './store';
+import { makeEntry } from './testFixtures';
+
+const hour = 60 * 60 * 1000;
+const start = Date.parse('2024-03-01T09:00:00.000Z');
+const at = (hours: number) => new Date(start + hours * hour).toISOString();
+
+function coachReply(createdAt: string) {
+  return { id: `m-${createdAt}`, role: 'coach' as const, author: 'Grace', body: 'Happy to help.', createdAt };
+}
+
+async function collect<T>(items: AsyncIterable<T>): Promise<T[]> {
+  const collected: T[] = [];
+  for await (const item of items) {
+    collected.push(item);
+  }
+  return collected;
+}
+
+async function* fromArray<T>(items: T[]): AsyncGenerator<T> {
+  yield* items;
+}
+
+describe('iterateTickets', () => {
+  let tempDir: string;
+  let store: SupportQueueStore;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(tmpdir(), 'reports-'));
+    store = createJsonQueueStore(path.join(tempDir, 'queue.json'));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('pages through every matching request in arrival order', async () => {
+    for (let index = 0; index < 250; index += 1) {
+      await store.append(
+        makeEntry({
+          id: `req-${String(index).padStart(3, '0')}`,
+          createdAt: at(index),
+          status: index % 5 === 0 ? 'resolved' : 'open'
+        })
+      );
+    }
+
+    const open = await collect(iterateTickets(store, { status: 'open' }));
+    expect(open).toHaveLength(200);
+    expect(open[0].id).toBe('req-001');
+    expect(open[199].id).toBe('req-249');
+
+    const window = await collect(iterateTickets(store, { from: at(10), to: at(19) }));
+    expect(window.map((entry) => entry.id)).toEqual(
+      Array.from({ length: 10 }, (_, index) => `req-${String(index + 10).padStart(3, '0')}`)
+    );
+  });
+});
+
+describe('exportLines', () => {
+  const entries = [
+    makeEntry({
+      id: 'req-1',
+      topic: 'Offer, "final" round',
+      message: 'line one\nline two',
+      company: 'Acme',
+      triage: { labels: ['offer', 'final-round'], boost: 25, slaDueAt: at(4), escalatedAt: null },
+      messages: [coachReply(at(2))]
+    }),
+    makeEntry({ id: 'req-2', name: '=HYPERLINK("http://evil")', assignee: 'grace' })
+  ];
+
+  it('writes a header and one escaped row per request as CSV', async () => {
+    const lines = await collect(exportLines(fromArray(entries), 'csv'));
+
+    expect(lines).toHaveLength(3);
+    expect(lines[0]).toBe(
+      'id,createdAt,updatedAt,status,urgency,category,topic,name,email,locale,partnerId,assignee,company,role,seniority,' +
+        'interviewDate,format,labels,slaDueAt,escalatedAt,firstResponseAt,messages,attachments\r\n'
+    );
+    expect(lines[1]).toBe(
+      `req-1,${at(0)},${at(0)},open,normal,general,"Offer, ""final"" round",Ada Lovelace,ada@example.com,en,,,Acme,,,,` +
+        `no_preference,offer;final-round,${at(4)},,${at(2)},1,0\r\n`
+    );
+    expect(lines[2]).toContain(`,"'=HYPERLINK(""http://evil"")",`);
+    expect(lines.join('')).not.toContain('line one');
+  });
+
+  it('writes one JSON object per line as NDJSON', async () => {
+    const lines = await collect(exportLines(fromArray(entries), 'ndjson'));
+
+    expect(lines).toHaveLength(2);
+    expect(lines.every((line) => line.endsWith('\n') && !line.slice(0, -1).includes('\n'))).toBe(true);
+    expect(JSON.parse(lines[0])).toMatchObject({
+      id: 'req-1',
+      labels: ['offer', 'final-round'],
+      firstResponseAt: at(2),
+      messages: 1
+    });
+    expect(JSON.parse(lines[1])).not.toHaveProperty('accessTokenHash');
+  });
+});
+
+describe('computeMetrics', () => {
+  const range = { from: at(0), to: at(72) };
+
+  it('counts requests and works out response times and SLA breaches', async () => {
+    const entries = [
+      // Answered after 2 hours, within the SLA.
+      makeEntry({ id: 'req-1', urgency: 'urgent', category: 'coding', messages: [coachReply(at(2))] }),
+      // Answered after 30 hours, past the 24 hour SLA.
+      makeEntry({ id: 'req-2', topic: ' mock interviews ', messages: [coachReply(at(30))] }),
+      // Resolved without a reply: met.
+      makeEntry({ id: 'req-3', topic: 'Offer review', status: 'resolved' }),
+      // Waiting past its SLA.
+      makeEntry({ id: 'req-4', createdAt: at(1) }),
+      // Waiting, but still within its SLA.
+      makeEntry({ id: 'req-5', createdAt: at(40) }),
+      // Submitted before triage existed.
+      makeEntry({ id: 'req-6', triage: null, messages: [coachReply(at(10))] })
+    ];
+
+    const metrics = await computeMetrics(fromArray(entries), range, start + 48 * hour);
+
+    expect(metrics).toEqual({
+      ...range,
+      total: 6,
+      byUrgency: { normal: 5, urgent: 1 },
+      byCategory: { behavioral: 0, coding: 1, system_design: 0, general: 5 },
+      byTopic: [
+        { topic: 'Mock interviews', count: 5 },
+        { topic: 'Offer review', count: 1 }
+      ],
+      firstResponse: { responded: 3, medianMinutes: 600 },
+      sla: { due: 4, breached: 2, breachRate: 0.5 }
+    });
+  });
+
+  it('reports no median or breach rate for an empty period', async () => {
+    const metrics = await computeMetrics(fromArray([]), range);
+
+    expect(metrics.total).toBe(0);
+    expect(metrics.firstResponse).toEqual({ responded: 0, medianMinutes: null });
+    expect(metrics.sla).toEqual({ due: 0, breached: 0, breachRate: null });
+  });
+});
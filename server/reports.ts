@@ -0,0 +1,263 @@
+import { z } from 'zod';
+import { interviewCategories, urgencyLevels, type InterviewCategory } from '../shared/supportRequest';
+import type { StoredSupportRequest } from './queue';
+import type { SupportQueueStore } from './store';
+import { statusValues, type ListQuery } from './tickets';
+import { isOverdue, isSlaMet } from './triage';
+
+export const exportFormats = ['csv', 'ndjson'] as const;
+
+export type ExportFormat = (typeof exportFormats)[number];
+
+const periodSchema = z.object({
+  from: z.iso.datetime({ offset: true }).optional(),
+  to: z.iso.datetime({ offset: true }).optional()
+});
+
+const isOrderedPeriod = (query: z.infer<typeof periodSchema>) =>
+  !query.from || !query.to || Date.parse(query.from) <= Date.parse(query.to);
+
+export const exportQuerySchema = periodSchema
+  .extend({
+    format: z.enum(exportFormats).default('csv'),
+    status: z.enum(statusValues).optional()
+  })
+  .refine(isOrderedPeriod, { message: '`from` must be before `to`', path: ['to'] });
+
+export type ExportQuery = z.infer<typeof exportQuerySchema>;
+
+export const metricsQuerySchema = periodSchema.refine(isOrderedPeriod, {
+  message: '`from` must be before `to`',
+  path: ['to']
+});
+
+type TicketFilter = Omit<ListQuery, 'cursor' | 'limit'>;
+
+// Large enough to keep round trips down, small enough that a page never holds much of a big queue in memory.
+const pageSize = 100;
+
+/** Walks every matching request oldest first, one page of `store.list()` at a time. */
+export async function* iterateTickets(
+  store: SupportQueueStore,
+  filter: TicketFilter
+): AsyncGenerator<StoredSupportRequest> {
+  let cursor: string | undefined;
+  do {
+    const page = await store.list({ ...filter, limit: pageSize, cursor });
+    yield* page.items;
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+}
+
+/** When a coach first wrote to the candidate, or `null` if no coach has yet. */
+export function firstResponseAt(entry: StoredSupportRequest): string | null {
+  return entry.messages.find((message) => message.role === 'coach')?.createdAt ?? null;
+}
+
+/**
+ * One exported request. Contact details are included because exports are for
+ * leads; notes, message bodies and status-page token hashes are not.
+ */
+export interface ExportRow {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  status: StoredSupportRequest['status'];
+  urgency: StoredSupportRequest['urgency'];
+  category: InterviewCategory;
+  topic: string;
+  name: string;
+  email: string;
+  locale: string;
+  partnerId: string | null;
+  assignee: string | null;
+  company: string | null;
+  role: string | null;
+  seniority: string | null;
+  interviewDate: string | null;
+  format: string;
+  labels: string[];
+  slaDueAt: string | null;
+  escalatedAt: string | null;
+  firstResponseAt: string | null;
+  messages: number;
+  attachments: number;
+}
+
+export function toExportRow(entry: StoredSupportRequest): ExportRow {
+  return {
+    id: entry.id,
+    createdAt: entry.createdAt,
+    updatedAt: entry.updatedAt,
+    status: entry.status,
+    urgency: entry.urgency,
+    category: entry.category,
+    topic: entry.topic,
+    name: entry.name,
+    email: entry.email,
+    locale: entry.locale,
+    partnerId: entry.partnerId ?? null,
+    assignee: entry.assignee,
+    company: entry.company ?? null,
+    role: entry.role ?? null,
+    seniority: entry.seniority ?? null,
+    interviewDate: entry.interviewDate ?? null,
+    format: entry.format,
+    labels: entry.triage?.labels ?? [],
+    slaDueAt: entry.triage?.slaDueAt ?? null,
+    escalatedAt: entry.triage?.escalatedAt ?? null,
+    firstResponseAt: firstResponseAt(entry),
+    messages: entry.messages.length,
+    attachments: entry.attachments.length
+  };
+}
+
+const csvColumns: (keyof ExportRow)[] = [
+  'id',
+  'createdAt',
+  'updatedAt',
+  'status',
+  'urgency',
+  'category',
+  'topic',
+  'name',
+  'email',
+  'locale',
+  'partnerId',
+  'assignee',
+  'company',
+  'role',
+  'seniority',
+  'interviewDate',
+  'format',
+  'labels',
+  'slaDueAt',
+  'escalatedAt',
+  'firstResponseAt',
+  'messages',
+  'attachments'
+];
+
+// Candidates control most text fields; a leading =, +, - or @ would otherwise run as a spreadsheet formula.
+function csvCell(value: ExportRow[keyof ExportRow]): string {
+  const text = value === null ? '' : Array.isArray(value) ? value.join(';') : String(value);
+  const safe = /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/** Yields the export one line at a time: a header row and RFC 4180 rows for CSV, one JSON object per line for NDJSON. */
+export async function* exportLines(
+  entries: AsyncIterable<StoredSupportRequest>,
+  format: ExportFormat
+): AsyncGenerator<string> {
+  if (format === 'csv') {
+    yield `${csvColumns.join(',')}\r\n`;
+  }
+  for await (const entry of entries) {
+    const row = toExportRow(entry);
+    yield format === 'csv'
+      ? `${csvColumns.map((column) => csvCell(row[column])).join(',')}\r\n`
+      : `${JSON.stringify(row)}\n`;
+  }
+}
+
+export interface QueueMetrics {
+  from: string;
+  to: string;
+  /** Requests created in the period. */
+  total: number;
+  byUrgency: Record<StoredSupportRequest['urgency'], number>;
+  byCategory: Record<InterviewCategory, number>;
+  /** Most frequent first; topics differing only in case or surrounding spaces count together. */
+  byTopic: { topic: string; count: number }[];
+  firstResponse: {
+    /** Requests a coach has written to. */
+    responded: number;
+    medianMinutes: number | null;
+  };
+  sla: {
+    /** Requests whose SLA has been met or has run out; ones still within their SLA are left out. */
+    due: number;
+    breached: number;
+    /** `breached / due`, or `null` when nothing was due. */
+    breachRate: number | null;
+  };
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * A request breached its SLA if it was escalated, is overdue now, or got its
+ * first coach reply after the deadline. Requests resolved without a reply have
+ * no reply time, so only escalation counts against them.
+ */
+function slaOutcome(entry: StoredSupportRequest, now: number): 'met' | 'breached' | 'pending' | null {
+  if (!entry.triage) {
+    return null;
+  }
+  const respondedAt = firstResponseAt(entry);
+  if (entry.triage.escalatedAt || isOverdue(entry, now) || (respondedAt && respondedAt > entry.triage.slaDueAt)) {
+    return 'breached';
+  }
+  return isSlaMet(entry) ? 'met' : 'pending';
+}
+
+/** Aggregates the requests of a period in one pass, so the queue never has to be loaded at once. */
+export async function computeMetrics(
+  entries: AsyncIterable<StoredSupportRequest>,
+  range: { from: string; to: string },
+  now = Date.now()
+): Promise<QueueMetrics> {
+  const byUrgency = Object.fromEntries(urgencyLevels.map((level) => [level, 0])) as QueueMetrics['byUrgency'];
+  const byCategory = Object.fromEntries(
+    interviewCategories.map((category) => [category, 0])
+  ) as QueueMetrics['byCategory'];
+  const topics = new Map<string, { topic: string; count: number }>();
+  const responseMinutes: number[] = [];
+  let total = 0;
+  let due = 0;
+  let breached = 0;
+
+  for await (const entry of entries) {
+    total += 1;
+    byUrgency[entry.urgency] += 1;
+    byCategory[entry.category] += 1;
+
+    const key = entry.topic.trim().toLowerCase();
+    const topic = topics.get(key) ?? { topic: entry.topic.trim(), count: 0 };
+    topic.count += 1;
+    topics.set(key, topic);
+
+    const respondedAt = firstResponseAt(entry);
+    if (respondedAt) {
+      responseMinutes.push((Date.parse(respondedAt) - Date.parse(entry.createdAt)) / 60_000);
+    }
+
+    const outcome = slaOutcome(entry, now);
+    if (outcome === 'met' || outcome === 'breached') {
+      due += 1;
+      breached += outcome === 'breached' ? 1 : 0;
+    }
+  }
+
+  const medianMinutes = median(responseMinutes);
+  return {
+    ...range,
+    total,
+    byUrgency,
+    byCategory,
+    byTopic: [...topics.values()].sort((a, b) => b.count - a.count || a.topic.localeCompare(b.topic)),
+    firstResponse: {
+      responded: responseMinutes.length,
+      medianMinutes: medianMinutes === null ? null : Math.round(medianMinutes)
+    },
+    sla: { due, breached, breachRate: due === 0 ? null : breached / due }
+  };
+}
@@ -0,0 +1,40 @@
+import { randomUUID } from 'crypto';
+import type { Request, Response, NextFunction } from 'express';
+import type { Logger } from './logger';
+
+const incomingIdPattern = /^[\w.-]{1,128}$/;
+
+/**
+ * Assigns every request an ID (reusing a well-formed incoming `X-Request-Id`),
+ * echoes it in the response, exposes a request-scoped logger on
+ * `res.locals.logger` and writes one access log line when the response ends.
+ */
+export function requestContext(logger: Logger) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const incoming = req.get('x-request-id');
+    const requestId = incoming && incomingIdPattern.test(incoming) ? incoming : randomUUID();
+    const requestLogger = logger.child({ requestId });
+    const startedAt = process.hrtime.bigint();
+
+    res.locals.requestId = requestId;
+    res.locals.logger = requestLogger;
+    res.set('X-Request-Id', requestId);
+
+    res.on('finish', () => {
+      const fields = {
+        method: req.method,
+        path: req.originalUrl.split('?')[0],
+        status: res.statusCode,
+        durationMs: Number(process.hrtime.bigint() - startedAt) / 1e6
+      };
+      // Health checks arrive every few seconds; keep them out of the default log level.
+      if (req.path === '/health') {
+        requestLogger.debug('request completed', fields);
+      } else {
+        requestLogger.info('request completed', fields);
+      }
+    });
+
+    next();
+  };
+}
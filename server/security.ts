@@ -0,0 +1,42 @@
+import cors from 'cors';
+import type { Request, Response, NextFunction } from 'express';
+
+/**
+ * Conservative headers for a JSON-only API: nothing it serves should be
+ * rendered, framed or sniffed by a browser.
+ */
+export function securityHeaders(options: { hsts: boolean }) {
+  return (_req: Request, res: Response, next: NextFunction) => {
+    res.set({
+      'Content-Security-Policy': "default-src 'none'; frame-ancestors 'none'",
+      'X-Content-Type-Options': 'nosniff',
+      'X-Frame-Options': 'DENY',
+      'Referrer-Policy': 'no-referrer',
+      'Cross-Origin-Resource-Policy': 'same-site'
+    });
+    if (options.hsts) {
+      res.set('Strict-Transport-Security', 'max-age=31536000; includeSubDomains');
+    }
+    next();
+  };
+}
+
+function isAllowedOrigin(allowed: string[] | '*', origin: string | undefined): boolean {
+  return !origin || allowed === '*' || allowed.includes(origin);
+}
+
+/**
+ * CORS restricted to the configured allow-list. Browsers calling from any other
+ * origin are refused outright instead of merely missing the CORS headers, so
+ * their requests never reach a handler.
+ */
+export function corsAllowList(allowed: string[] | '*') {
+  const corsMiddleware = cors({ origin: allowed === '*' ? true : allowed });
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!isAllowedOrigin(allowed, req.get('origin'))) {
+      return res.status(403).json({ error: 'Origin not allowed' });
+    }
+    return corsMiddleware(req, res, next);
+  };
+}
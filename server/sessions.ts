@@ -0,0 +1,59 @@
+import { createAccessToken, hashAccessToken } from './accessTokens';
+
+export interface CoachSession {
+  username: string;
+  expiresAt: number;
+}
+
+export interface SessionStore {
+  /** Starts a session and returns the bearer token; only its hash is kept. */
+  create(username: string): { token: string; expiresAt: string };
+  /** Returns the signed-in username, or `undefined` for unknown or expired tokens. */
+  resolve(token: string): string | undefined;
+  revoke(token: string): void;
+  /** Ends every session of a user, e.g. after they are disabled or deleted. */
+  revokeUser(username: string): void;
+}
+
+/**
+ * Keeps coach sessions in memory. Restarting the API signs every coach out,
+ * which is acceptable for a single-process service.
+ */
+export function createSessionStore(options: { ttlMs: number; now?: () => number }): SessionStore {
+  const now = options.now ?? Date.now;
+  const sessions = new Map<string, CoachSession>();
+
+  return {
+    create(username) {
+      const { token, hash } = createAccessToken();
+      const expiresAt = now() + options.ttlMs;
+      sessions.set(hash, { username, expiresAt });
+      return { token, expiresAt: new Date(expiresAt).toISOString() };
+    },
+
+    resolve(token) {
+      const hash = hashAccessToken(token);
+      const session = sessions.get(hash);
+      if (!session) {
+        return undefined;
+      }
+      if (session.expiresAt <= now()) {
+        sessions.delete(hash);
+        return undefined;
+      }
+      return session.username;
+    },
+
+    revoke(token) {
+      sessions.delete(hashAccessToken(token));
+    },
+
+    revokeUser(username) {
+      for (const [hash, session] of sessions) {
+        if (session.username === username) {
+          sessions.delete(hash);
+        }
+      }
+    }
+  };
+}
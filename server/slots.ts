@@ -0,0 +1,221 @@
+import { z } from 'zod';
+import { isArray, loadJsonFile, saveJsonFile, withFileLock } from './jsonFile';
+import type { Logger } from './logger';
+
+export interface SlotBooking {
+  requestId: string;
+  /** IANA zone the candidate booked from; invites and emails show the session in it. */
+  candidateTimeZone: string;
+  bookedAt: string;
+}
+
+/**
+ * A session a coach offers. Times are stored as UTC instants; `timeZone` only
+ * decides how the slot is shown to the coach who published it.
+ */
+export interface AvailabilitySlot {
+  id: string;
+  /** Username of the coach running the session. */
+  coach: string;
+  coachName: string;
+  startsAt: string;
+  endsAt: string;
+  timeZone: string;
+  booking: SlotBooking | null;
+  createdAt: string;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const timeZone = z.string().min(1).refine(isValidTimeZone, 'must be an IANA time zone such as Europe/Berlin');
+
+// Offsets are required so a slot never depends on the server's own time zone.
+const instant = z.iso.datetime({ offset: true }).transform((value) => new Date(value).toISOString());
+
+export const createSlotSchema = z.object({
+  startsAt: instant,
+  durationMinutes: z.number().int().min(15).max(180).default(60),
+  timeZone
+});
+
+export const slotQuerySchema = z.object({
+  coach: z.string().min(1).optional(),
+  from: instant.optional(),
+  to: instant.optional(),
+  available: z.stringbool().optional()
+});
+
+export type SlotQuery = z.infer<typeof slotQuerySchema>;
+
+export const bookingSchema = z.object({
+  slotId: z.string().min(1),
+  timeZone
+});
+
+export type BookResult =
+  | { status: 'booked'; slot: AvailabilitySlot; previous: AvailabilitySlot | undefined }
+  | { status: 'taken' }
+  | { status: 'not_found' };
+
+/**
+ * Persistence for availability slots. Booking is atomic: a slot is only ever
+ * held by one request, and a request only ever holds one slot.
+ */
+export interface SlotStore {
+  /** Adds the slot unless it overlaps another slot of the same coach. */
+  create(slot: AvailabilitySlot): Promise<'created' | 'overlaps'>;
+  get(id: string): Promise<AvailabilitySlot | undefined>;
+  /** Slots ordered by start time. */
+  list(query: SlotQuery): Promise<AvailabilitySlot[]>;
+  findByRequest(requestId: string): Promise<AvailabilitySlot | undefined>;
+  /** Books a free slot, releasing the slot the request held before so rescheduling is one step. */
+  book(slotId: string, booking: SlotBooking): Promise<BookResult>;
+  /** Releases the request's slot; returns it as it was while booked. */
+  cancel(requestId: string): Promise<AvailabilitySlot | undefined>;
+  remove(id: string): Promise<AvailabilitySlot | undefined>;
+  close(): Promise<void>;
+}
+
+export function overlaps(
+  a: Pick<AvailabilitySlot, 'startsAt' | 'endsAt'>,
+  b: Pick<AvailabilitySlot, 'startsAt' | 'endsAt'>
+) {
+  return a.startsAt < b.endsAt && b.startsAt < a.endsAt;
+}
+
+export function matchesSlotQuery(slot: AvailabilitySlot, query: SlotQuery): boolean {
+  if (query.coach && slot.coach !== query.coach) {
+    return false;
+  }
+  if (query.from && slot.startsAt < query.from) {
+    return false;
+  }
+  if (query.to && slot.startsAt > query.to) {
+    return false;
+  }
+  if (query.available !== undefined && (slot.booking === null) !== query.available) {
+    return false;
+  }
+  return true;
+}
+
+/** Keeps every slot in one JSON file; operations on the file are serialized, which makes booking atomic. */
+export function createJsonSlotStore(filePath: string, logger?: Logger): SlotStore {
+  const load = async () =>
+    (await loadJsonFile(filePath, { fallback: [], isValid: isArray, logger })) as AvailabilitySlot[];
+
+  return {
+    create(slot) {
+      return withFileLock(filePath, async () => {
+        const slots = await load();
+        if (slots.some((existing) => existing.coach === slot.coach && overlaps(existing, slot))) {
+          return 'overlaps';
+        }
+        slots.push(slot);
+        await saveJsonFile(filePath, slots);
+        return 'created';
+      });
+    },
+
+    async get(id) {
+      const slots = await withFileLock(filePath, load);
+      return slots.find((slot) => slot.id === id);
+    },
+
+    async list(query) {
+      const slots = await withFileLock(filePath, load);
+      return slots.filter((slot) => matchesSlotQuery(slot, query)).sort((a, b) => a.startsAt.localeCompare(b.startsAt));
+    },
+
+    async findByRequest(requestId) {
+      const slots = await withFileLock(filePath, load);
+      return slots.find((slot) => slot.booking?.requestId === requestId);
+    },
+
+    book(slotId, booking) {
+      return withFileLock(filePath, async (): Promise<BookResult> => {
+        const slots = await load();
+        const index = slots.findIndex((slot) => slot.id === slotId);
+        if (index === -1) {
+          return { status: 'not_found' };
+        }
+        if (slots[index].booking && slots[index].booking.requestId !== booking.requestId) {
+          return { status: 'taken' };
+        }
+
+        const previousIndex = slots.findIndex(
+          (slot) => slot.id !== slotId && slot.booking?.requestId === booking.requestId
+        );
+        const previous = previousIndex === -1 ? undefined : slots[previousIndex];
+        if (previous) {
+          slots[previousIndex] = { ...previous, booking: null };
+        }
+        slots[index] = { ...slots[index], booking };
+        await saveJsonFile(filePath, slots);
+        return { status: 'booked', slot: slots[index], previous };
+      });
+    },
+
+    cancel(requestId) {
+      return withFileLock(filePath, async () => {
+        const slots = await load();
+        const index = slots.findIndex((slot) => slot.booking?.requestId === requestId);
+        if (index === -1) {
+          return undefined;
+        }
+        const cancelled = slots[index];
+        slots[index] = { ...cancelled, booking: null };
+        await saveJsonFile(filePath, slots);
+        return cancelled;
+      });
+    },
+
+    remove(id) {
+      return withFileLock(filePath, async () => {
+        const slots = await load();
+        const removed = slots.find((slot) => slot.id === id);
+        if (removed) {
+          await saveJsonFile(
+            filePath,
+            slots.filter((slot) => slot.id !== id)
+          );
+        }
+        return removed;
+      });
+    },
+
+    async close() {}
+  };
+}
+
+/** A free slot as offered to candidates: no other bookings, no coach usernames. */
+export interface OpenSlotView {
+  id: string;
+  coachName: string;
+  startsAt: string;
+  endsAt: string;
+}
+
+export function toOpenSlotView(slot: AvailabilitySlot): OpenSlotView {
+  return { id: slot.id, coachName: slot.coachName, startsAt: slot.startsAt, endsAt: slot.endsAt };
+}
+
+/** The session booked for a request, as shown on the status page. */
+export interface SessionView extends OpenSlotView {
+  timeZone: string;
+  bookedAt: string;
+}
+
+/** Returns `null` for a slot nobody has booked. */
+export function toSessionView(slot: AvailabilitySlot): SessionView | null {
+  return slot.booking
+    ? { ...toOpenSlotView(slot), timeZone: slot.booking.candidateTimeZone, bookedAt: slot.booking.bookedAt }
+    : null;
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createSqliteQueueStore, createSqliteSlotStore, importJsonQueue, importJsonSlots } from './sqliteStore';
+import { makeEntry } from './testFixtures';
+import { listQuerySchema } from './tickets';
+
+describe('SQLite queue store', () => {
+  let tempDir: string;
+  let dbPath: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(tmpdir(), 'support-sqlite-'));
+    dbPath = path.join(tempDir, 'queue.db');
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('lists entries in creation order across pages', async () => {
+    const store = createSqliteQueueStore(dbPath);
+    await store.append(makeEntry({ id: 'req-3', createdAt: '2024-01-03T00:00:00.000Z' }));
+    await store.append(makeEntry({ id: 'req-1', createdAt: '2024-01-01T00:00:00.000Z' }));
+    await store.append(makeEntry({ id: 'req-2', createdAt: '2024-01-02T00:00:00.000Z', urgency: 'urgent' }));
+
+    const firstPage = await store.list(listQuerySchema.parse({ limit: 2 }));
+    const secondPage = await store.list(listQuerySchema.parse({ limit: 2, cursor: firstPage.nextCursor }));
+    const urgent = await store.list(listQuerySchema.parse({ urgency: 'urgent' }));
+
+    expect(firstPage.items.map((entry) => entry.id)).toEqual(['req-1', 'req-2']);
+    expect(secondPage.items.map((entry) => entry.id)).toEqual(['req-3']);
+    expect(secondPage.nextCursor).toBeNull();
+    expect(urgent.items.map((entry) => entry.id)).toEqual(['req-2']);
+    await store.close();
+  });
+
+  it('persists updates across reopening the database', async () => {
+    const store = createSqliteQueueStore(dbPath);
+    await store.append(makeEntry({ id: 'req-1' }));
+    await store.update('req-1', (entry) => ({ ...entry, status: 'in_progress', assignee: 'grace' }));
+    await store.close();
+
+    const reopened = createSqliteQueueStore(dbPath);
+    const inProgress = await reopened.list(listQuerySchema.parse({ status: 'in_progress' }));
+
+    expect(inProgress.items).toHaveLength(1);
+    expect(await reopened.get('req-1')).toMatchObject({ status: 'in_progress', assignee: 'grace' });
+    expect(await reopened.update('missing', (entry) => entry)).toBeUndefined();
+
+    expect(await reopened.remove('req-1')).toMatchObject({ id: 'req-1', status: 'in_progress' });
+    expect(await reopened.get('req-1')).toBeUndefined();
+    expect(await reopened.remove('req-1')).toBeUndefined();
+    await reopened.close();
+  });
+
+  it('imports an existing JSON queue once', async () => {
+    const jsonPath = path.join(tempDir, 'support-queue.json');
+    const {
+      status: _status,
+      assignee: _assignee,
+      notes: _notes,
+      updatedAt: _updatedAt,
+      ...legacy
+    } = makeEntry({ id: 'req-1' });
+    writeFileSync(jsonPath, JSON.stringify([legacy, makeEntry({ id: 'req-2' })]));
+
+    expect(await importJsonQueue(jsonPath, dbPath)).toEqual({ imported: 2, skipped: 0 });
+    expect(await importJsonQueue(jsonPath, dbPath)).toEqual({ imported: 0, skipped: 2 });
+
+    const store = createSqliteQueueStore(dbPath);
+    expect(await store.get('req-1')).toMatchObject({ status: 'open', notes: [] });
+    await store.close();
+  });
+
+  it('imports existing JSON slots with their bookings once', async () => {
+    const slotsPath = path.join(tempDir, 'slots.json');
+    const slot = {
+      id: 'slot-1',
+      coach: 'grace',
+      coachName: 'Grace Hopper',
+      startsAt: '2024-03-04T10:00:00.000Z',
+      endsAt: '2024-03-04T11:00:00.000Z',
+      timeZone: 'Europe/Berlin',
+      booking: null,
+      createdAt: '2024-03-01T09:00:00.000Z'
+    };
+    const booked = {
+      ...slot,
+      id: 'slot-2',
+      startsAt: '2024-03-05T10:00:00.000Z',
+      endsAt: '2024-03-05T11:00:00.000Z',
+      booking: { requestId: 'req-1', candidateTimeZone: 'America/New_York', bookedAt: '2024-03-02T09:00:00.000Z' }
+    };
+    writeFileSync(slotsPath, JSON.stringify([slot, booked]));
+
+    expect(await importJsonSlots(slotsPath, dbPath)).toEqual({ imported: 2, skipped: 0 });
+    expect(await importJsonSlots(slotsPath, dbPath)).toEqual({ imported: 0, skipped: 2 });
+
+    const slots = createSqliteSlotStore(dbPath);
+    expect(await slots.get('slot-1')).toEqual(slot);
+    expect(await slots.findByRequest('req-1')).toEqual(booked);
+    expect(await slots.book('slot-2', { ...booked.booking, requestId: 'req-2' })).toEqual({ status: 'taken' });
+    await slots.close();
+  });
+});
@@ -0,0 +1,372 @@
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import path from 'path';
+import { isArray, loadJsonFile } from './jsonFile';
+import { normalizeEntry, readQueueFile, type StoredSupportRequest } from './queue';
+import { overlaps, type AvailabilitySlot, type BookResult, type SlotBooking, type SlotStore } from './slots';
+import type { SupportQueueStore } from './store';
+import { decodeCursor, encodeCursor } from './tickets';
+
+interface Row {
+  data: string;
+}
+
+/**
+ * Keeps one row per request. Filterable fields get their own indexed columns;
+ * the full entry lives in `data` as JSON so new fields need no migration.
+ */
+const schema = `
+  CREATE TABLE IF NOT EXISTS support_requests (
+    id TEXT PRIMARY KEY,
+    created_at TEXT NOT NULL,
+    urgency TEXT NOT NULL,
+    status TEXT NOT NULL,
+    topic TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS support_requests_created_at ON support_requests (created_at, id);
+  CREATE INDEX IF NOT EXISTS support_requests_urgency ON support_requests (urgency, created_at);
+  CREATE INDEX IF NOT EXISTS support_requests_status ON support_requests (status, created_at);
+`;
+
+function toParams(entry: StoredSupportRequest) {
+  return {
+    id: entry.id,
+    created_at: entry.createdAt,
+    urgency: entry.urgency,
+    status: entry.status,
+    topic: entry.topic,
+    data: JSON.stringify(entry)
+  };
+}
+
+function fromRow(row: Row): StoredSupportRequest {
+  return normalizeEntry(JSON.parse(row.data));
+}
+
+export function createSqliteQueueStore(filePath: string): SupportQueueStore {
+  mkdirSync(path.dirname(filePath), { recursive: true });
+  const db = new Database(filePath);
+  db.pragma('journal_mode = WAL');
+  db.exec(schema);
+
+  const insert = db.prepare(
+    `INSERT INTO support_requests (id, created_at, urgency, status, topic, data)
+     VALUES (@id, @created_at, @urgency, @status, @topic, @data)`
+  );
+  const replace = db.prepare(
+    `UPDATE support_requests
+     SET urgency = @urgency, status = @status, topic = @topic, data = @data
+     WHERE id = @id`
+  );
+  const selectById = db.prepare<[string], Row>('SELECT data FROM support_requests WHERE id = ?');
+  const deleteById = db.prepare('DELETE FROM support_requests WHERE id = ?');
+
+  const updateInTransaction = db.transaction(
+    (id: string, change: (entry: StoredSupportRequest) => StoredSupportRequest) => {
+      const row = selectById.get(id);
+      if (!row) {
+        return undefined;
+      }
+      const updated = change(fromRow(row));
+      replace.run(toParams(updated));
+      return updated;
+    }
+  );
+
+  const removeInTransaction = db.transaction((id: string) => {
+    const row = selectById.get(id);
+    if (row) {
+      deleteById.run(id);
+    }
+    return row ? fromRow(row) : undefined;
+  });
+
+  return {
+    async append(entry) {
+      insert.run(toParams(entry));
+    },
+
+    async get(id) {
+      const row = selectById.get(id);
+      return row ? fromRow(row) : undefined;
+    },
+
+    async list(query) {
+      const clauses: string[] = [];
+      const params: Record<string, string | number> = { limit: query.limit + 1 };
+
+      if (query.urgency) {
+        clauses.push('urgency = @urgency');
+        params.urgency = query.urgency;
+      }
+      if (query.category) {
+        // Rows written before schema version 2 have no category and read as general.
+        clauses.push("coalesce(json_extract(data, '$.category'), 'general') = @category");
+        params.category = query.category;
+      }
+      if (query.status) {
+        clauses.push('status = @status');
+        params.status = query.status;
+      }
+      if (query.topic) {
+        clauses.push('instr(lower(topic), lower(@topic)) > 0');
+        params.topic = query.topic;
+      }
+      if (query.email) {
+        clauses.push("lower(json_extract(data, '$.email')) = lower(@email)");
+        params.email = query.email;
+      }
+      if (query.assignee) {
+        clauses.push("json_extract(data, '$.assignee') = @assignee");
+        params.assignee = query.assignee;
+      }
+      if (query.unassigned !== undefined) {
+        clauses.push(`json_extract(data, '$.assignee') IS ${query.unassigned ? '' : 'NOT '}NULL`);
+      }
+      if (query.from) {
+        clauses.push('created_at >= @from');
+        params.from = new Date(query.from).toISOString();
+      }
+      if (query.to) {
+        clauses.push('created_at <= @to');
+        params.to = new Date(query.to).toISOString();
+      }
+      const after = query.cursor ? decodeCursor(query.cursor) : null;
+      if (after) {
+        clauses.push('(created_at, id) > (@afterCreatedAt, @afterId)');
+        params.afterCreatedAt = after.createdAt;
+        params.afterId = after.id;
+      }
+
+      const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+      const rows = db
+        .prepare<Record<string, string | number>, Row>(
+          `SELECT data FROM support_requests ${where} ORDER BY created_at, id LIMIT @limit`
+        )
+        .all(params);
+
+      const items = rows.slice(0, query.limit).map(fromRow);
+      return {
+        items,
+        nextCursor: rows.length > query.limit ? encodeCursor(items[items.length - 1]) : null
+      };
+    },
+
+    async update(id, change) {
+      return updateInTransaction(id, change);
+    },
+
+    async remove(id) {
+      return removeInTransaction(id);
+    },
+
+    async close() {
+      db.close();
+    }
+  };
+}
+
+const slotSchema = `
+  CREATE TABLE IF NOT EXISTS availability_slots (
+    id TEXT PRIMARY KEY,
+    coach TEXT NOT NULL,
+    starts_at TEXT NOT NULL,
+    ends_at TEXT NOT NULL,
+    request_id TEXT UNIQUE,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS availability_slots_starts_at ON availability_slots (starts_at);
+  CREATE INDEX IF NOT EXISTS availability_slots_coach ON availability_slots (coach, starts_at);
+`;
+
+function toSlotParams(slot: AvailabilitySlot) {
+  return {
+    id: slot.id,
+    coach: slot.coach,
+    starts_at: slot.startsAt,
+    ends_at: slot.endsAt,
+    request_id: slot.booking?.requestId ?? null,
+    data: JSON.stringify(slot)
+  };
+}
+
+/**
+ * Keeps availability slots in the queue database. The unique `request_id`
+ * column plus transactions make double-booking impossible, even across
+ * processes sharing the file.
+ */
+export function createSqliteSlotStore(filePath: string): SlotStore {
+  mkdirSync(path.dirname(filePath), { recursive: true });
+  const db = new Database(filePath);
+  db.pragma('journal_mode = WAL');
+  db.exec(slotSchema);
+
+  const insert = db.prepare(
+    `INSERT INTO availability_slots (id, coach, starts_at, ends_at, request_id, data)
+     VALUES (@id, @coach, @starts_at, @ends_at, @request_id, @data)`
+  );
+  const replace = db.prepare('UPDATE availability_slots SET request_id = @request_id, data = @data WHERE id = @id');
+  const selectById = db.prepare<[string], Row>('SELECT data FROM availability_slots WHERE id = ?');
+  const selectByRequest = db.prepare<[string], Row>('SELECT data FROM availability_slots WHERE request_id = ?');
+  const selectOverlapping = db.prepare<{ coach: string; starts_at: string; ends_at: string }, Row>(
+    'SELECT data FROM availability_slots WHERE coach = @coach AND starts_at < @ends_at AND @starts_at < ends_at'
+  );
+  const deleteById = db.prepare('DELETE FROM availability_slots WHERE id = ?');
+
+  const parse = (row: Row | undefined) => (row ? (JSON.parse(row.data) as AvailabilitySlot) : undefined);
+
+  const createInTransaction = db.transaction((slot: AvailabilitySlot) => {
+    const params = toSlotParams(slot);
+    if (selectOverlapping.all(params).some((row) => overlaps(parse(row) as AvailabilitySlot, slot))) {
+      return 'overlaps' as const;
+    }
+    insert.run(params);
+    return 'created' as const;
+  });
+
+  const bookInTransaction = db.transaction((slotId: string, booking: SlotBooking): BookResult => {
+    const slot = parse(selectById.get(slotId));
+    if (!slot) {
+      return { status: 'not_found' };
+    }
+    if (slot.booking && slot.booking.requestId !== booking.requestId) {
+      return { status: 'taken' };
+    }
+
+    const held = parse(selectByRequest.get(booking.requestId));
+    const previous = held && held.id !== slotId ? held : undefined;
+    if (previous) {
+      replace.run(toSlotParams({ ...previous, booking: null }));
+    }
+    const booked = { ...slot, booking };
+    replace.run(toSlotParams(booked));
+    return { status: 'booked', slot: booked, previous };
+  });
+
+  const cancelInTransaction = db.transaction((requestId: string) => {
+    const slot = parse(selectByRequest.get(requestId));
+    if (slot) {
+      replace.run(toSlotParams({ ...slot, booking: null }));
+    }
+    return slot;
+  });
+
+  const removeInTransaction = db.transaction((id: string) => {
+    const slot = parse(selectById.get(id));
+    if (slot) {
+      deleteById.run(id);
+    }
+    return slot;
+  });
+
+  return {
+    async create(slot) {
+      return createInTransaction(slot);
+    },
+
+    async get(id) {
+      return parse(selectById.get(id));
+    },
+
+    async list(query) {
+      const clauses: string[] = [];
+      const params: Record<string, string> = {};
+      if (query.coach) {
+        clauses.push('coach = @coach');
+        params.coach = query.coach;
+      }
+      if (query.from) {
+        clauses.push('starts_at >= @from');
+        params.from = query.from;
+      }
+      if (query.to) {
+        clauses.push('starts_at <= @to');
+        params.to = query.to;
+      }
+      if (query.available !== undefined) {
+        clauses.push(`request_id IS ${query.available ? '' : 'NOT '}NULL`);
+      }
+
+      const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+      return db
+        .prepare<Record<string, string>, Row>(`SELECT data FROM availability_slots ${where} ORDER BY starts_at, id`)
+        .all(params)
+        .map((row) => JSON.parse(row.data) as AvailabilitySlot);
+    },
+
+    async findByRequest(requestId) {
+      return parse(selectByRequest.get(requestId));
+    },
+
+    async book(slotId, booking) {
+      return bookInTransaction(slotId, booking);
+    },
+
+    async cancel(requestId) {
+      return cancelInTransaction(requestId);
+    },
+
+    async remove(id) {
+      return removeInTransaction(id);
+    },
+
+    async close() {
+      db.close();
+    }
+  };
+}
+
+/**
+ * Copies every entry of a JSON queue file into a SQLite database. Entries that
+ * already exist in the database are skipped, so the import can be re-run.
+ */
+export async function importJsonQueue(
+  jsonPath: string,
+  sqlitePath: string
+): Promise<{ imported: number; skipped: number }> {
+  const entries = await readQueueFile(jsonPath);
+  mkdirSync(path.dirname(sqlitePath), { recursive: true });
+  const db = new Database(sqlitePath);
+  try {
+    db.exec(schema);
+    const insert = db.prepare(
+      `INSERT OR IGNORE INTO support_requests (id, created_at, urgency, status, topic, data)
+       VALUES (@id, @created_at, @urgency, @status, @topic, @data)`
+    );
+    const importAll = db.transaction((rows: StoredSupportRequest[]) =>
+      rows.reduce((imported, entry) => imported + insert.run(toParams(entry)).changes, 0)
+    );
+    const imported = importAll(entries);
+    return { imported, skipped: entries.length - imported };
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Copies the slots of a JSON slot file into the queue database, keeping their
+ * bookings. Slots that already exist in the database are skipped.
+ */
+export async function importJsonSlots(
+  jsonPath: string,
+  sqlitePath: string
+): Promise<{ imported: number; skipped: number }> {
+  const slots = (await loadJsonFile(jsonPath, { fallback: [], isValid: isArray })) as AvailabilitySlot[];
+  mkdirSync(path.dirname(sqlitePath), { recursive: true });
+  const db = new Database(sqlitePath);
+  try {
+    db.exec(slotSchema);
+    const insert = db.prepare(
+      `INSERT OR IGNORE INTO availability_slots (id, coach, starts_at, ends_at, request_id, data)
+       VALUES (@id, @coach, @starts_at, @ends_at, @request_id, @data)`
+    );
+    const importAll = db.transaction((rows: AvailabilitySlot[]) =>
+      rows.reduce((imported, slot) => imported + insert.run(toSlotParams(slot)).changes, 0)
+    );
+    const imported = importAll(slots);
+    return { imported, skipped: slots.length - imported };
+  } finally {
+    db.close();
+  }
+}
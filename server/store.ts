@@ -0,0 +1,39 @@
+import type { QueueConfig } from './config';
+import type { Logger } from './logger';
+import { createJsonQueueStore, type StoredSupportRequest } from './queue';
+import { createJsonSlotStore, type SlotStore } from './slots';
+import { createSqliteQueueStore, createSqliteSlotStore } from './sqliteStore';
+import type { ListQuery, TicketPage } from './tickets';
+
+/**
+ * Persistence boundary for support requests. `createApp()` only talks to this
+ * interface so the JSON file and SQLite backends are interchangeable.
+ */
+export interface SupportQueueStore {
+  append(entry: StoredSupportRequest): Promise<void>;
+  get(id: string): Promise<StoredSupportRequest | undefined>;
+  list(query: ListQuery): Promise<TicketPage>;
+  update(
+    id: string,
+    change: (entry: StoredSupportRequest) => StoredSupportRequest
+  ): Promise<StoredSupportRequest | undefined>;
+  /** Deletes the request for good and returns it as it was; used by retention and erasure. */
+  remove(id: string): Promise<StoredSupportRequest | undefined>;
+  close(): Promise<void>;
+}
+
+/** Builds the store selected by `SUPPORT_QUEUE_DRIVER`: the JSON queue file (default) or the SQLite database. */
+export function createQueueStore(config: QueueConfig, logger: Logger): SupportQueueStore {
+  if (config.driver === 'sqlite') {
+    return createSqliteQueueStore(config.db);
+  }
+  return createJsonQueueStore(config.file, logger);
+}
+
+/** Availability slots live alongside the queue: in the same SQLite database, or in a JSON file next to the queue file. */
+export function createSlotStore(config: QueueConfig, logger: Logger): SlotStore {
+  if (config.driver === 'sqlite') {
+    return createSqliteSlotStore(config.db);
+  }
+  return createJsonSlotStore(config.slotsFile, logger);
+}
@@ -0,0 +1,152 @@
+import { z } from 'zod';
+import { templatePlaceholders, unknownPlaceholders } from '../shared/replyTemplates';
+import { isArray, loadJsonFile, saveJsonFile, withFileLock } from './jsonFile';
+import type { Logger } from './logger';
+
+/** A saved answer coaches can send as a reply, with `{{name}}` and `{{topic}}` filled from the request. */
+export interface ReplyTemplate {
+  id: string;
+  title: string;
+  /** Free-form group such as "Logistics" or "Resume review", for finding templates in the dashboard. */
+  category: string;
+  body: string;
+  /** Username of the coach who wrote it. */
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+  /** Replies sent from this template; the most used are candidates for FAQ content. */
+  usageCount: number;
+  lastUsedAt: string | null;
+}
+
+const templateBody = z
+  .string()
+  .trim()
+  .min(1)
+  .max(5000)
+  .refine((body) => unknownPlaceholders(body).length === 0, {
+    message: `only ${templatePlaceholders.map((name) => `{{${name}}}`).join(' and ')} can be filled in`
+  });
+
+export const createTemplateSchema = z.object({
+  title: z.string().trim().min(1).max(100),
+  category: z.string().trim().min(1).max(50),
+  body: templateBody
+});
+
+export type CreateTemplateInput = z.infer<typeof createTemplateSchema>;
+
+export const updateTemplateSchema = createTemplateSchema
+  .partial()
+  .refine((patch) => Object.values(patch).some((value) => value !== undefined), {
+    message: 'Provide a title, category or body'
+  });
+
+export type UpdateTemplateInput = z.infer<typeof updateTemplateSchema>;
+
+export const templateQuerySchema = z.object({
+  category: z.string().trim().min(1).optional()
+});
+
+export type TemplateQuery = z.infer<typeof templateQuerySchema>;
+
+export function createTemplate(
+  input: CreateTemplateInput,
+  context: { id: string; author: string; now: string }
+): ReplyTemplate {
+  return {
+    id: context.id,
+    ...input,
+    createdBy: context.author,
+    createdAt: context.now,
+    updatedAt: context.now,
+    usageCount: 0,
+    lastUsedAt: null
+  };
+}
+
+export function applyTemplateUpdate(template: ReplyTemplate, input: UpdateTemplateInput, now: string): ReplyTemplate {
+  return {
+    ...template,
+    title: input.title ?? template.title,
+    category: input.category ?? template.category,
+    body: input.body ?? template.body,
+    updatedAt: now
+  };
+}
+
+/** Counts one reply sent from the template; using a template is not an edit, so `updatedAt` stays. */
+export function recordTemplateUse(template: ReplyTemplate, now: string): ReplyTemplate {
+  return { ...template, usageCount: template.usageCount + 1, lastUsedAt: now };
+}
+
+// Categories compare ignoring case, so "logistics" finds the "Logistics" templates.
+function sameCategory(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function compareTemplates(a: ReplyTemplate, b: ReplyTemplate): number {
+  return a.category.localeCompare(b.category) || a.title.localeCompare(b.title);
+}
+
+export interface ReplyTemplateStore {
+  /** Ordered by category, then title. */
+  list(query: TemplateQuery): Promise<ReplyTemplate[]>;
+  get(id: string): Promise<ReplyTemplate | undefined>;
+  create(template: ReplyTemplate): Promise<void>;
+  update(id: string, change: (template: ReplyTemplate) => ReplyTemplate): Promise<ReplyTemplate | undefined>;
+  remove(id: string): Promise<boolean>;
+}
+
+/** Keeps the template library in one JSON file; the library is small and shared by every coach. */
+export function createJsonReplyTemplateStore(filePath: string, logger?: Logger): ReplyTemplateStore {
+  const load = async () =>
+    (await loadJsonFile(filePath, { fallback: [], isValid: isArray, logger })) as ReplyTemplate[];
+
+  return {
+    async list(query) {
+      const templates = await withFileLock(filePath, load);
+      return templates
+        .filter((template) => !query.category || sameCategory(template.category, query.category))
+        .sort(compareTemplates);
+    },
+
+    async get(id) {
+      const templates = await withFileLock(filePath, load);
+      return templates.find((template) => template.id === id);
+    },
+
+    create(template) {
+      return withFileLock(filePath, async () => {
+        const templates = await load();
+        templates.push(template);
+        await saveJsonFile(filePath, templates);
+      });
+    },
+
+    update(id, change) {
+      return withFileLock(filePath, async () => {
+        const templates = await load();
+        const index = templates.findIndex((template) => template.id === id);
+        if (index === -1) {
+          return undefined;
+        }
+        templates[index] = change(templates[index]);
+        await saveJsonFile(filePath, templates);
+        return templates[index];
+      });
+    },
+
+    remove(id) {
+      return withFileLock(filePath, async () => {
+        const templates = await load();
+        const remaining = templates.filter((template) => template.id !== id);
+        if (remaining.length === templates.length) {
+          return false;
+        }
+        await saveJsonFile(filePath, remaining);
+        return true;
+      });
+    }
+  };
+}
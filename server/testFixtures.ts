@@ -0,0 +1,41 @@
+import { supportRequestSchemaVersion } from '../shared/supportRequest';
+import type { StoredSupportRequest } from './queue';
+
+const hourMs = 60 * 60 * 1000;
+
+/**
+ * A stored request as the current schema writes it, for tests. It is open,
+ * unassigned and untouched since `createdAt`, with its first response due a
+ * day later.
+ */
+export function makeEntry(overrides: Partial<StoredSupportRequest> = {}): StoredSupportRequest {
+  const createdAt = overrides.createdAt ?? '2024-03-01T09:00:00.000Z';
+  return {
+    id: 'req-1',
+    name: 'Ada Lovelace',
+    email: 'ada@example.com',
+    topic: 'Mock interviews',
+    message: 'Help me prepare for system design.',
+    urgency: 'normal',
+    locale: 'en',
+    schemaVersion: supportRequestSchemaVersion,
+    category: 'general',
+    format: 'no_preference',
+    createdAt,
+    status: 'open',
+    assignee: null,
+    notes: [],
+    messages: [],
+    attachments: [],
+    triage: {
+      labels: [],
+      boost: 0,
+      slaDueAt: new Date(Date.parse(createdAt) + 24 * hourMs).toISOString(),
+      escalatedAt: null
+    },
+    readMarkers: { candidate: null, coach: null },
+    accessTokenHash: null,
+    updatedAt: createdAt,
+    ...overrides
+  };
+}
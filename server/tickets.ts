@@ -0,0 +1,206 @@
+import { z } from 'zod';
+import { interviewCategories, urgencyLevels, type InterviewContext } from '../shared/supportRequest';
+import { appendMessage, unreadCount } from './messages';
+import type { AttachmentMeta, ConversationMessage, StoredSupportRequest, SupportRequestStatus } from './queue';
+import type { SessionView } from './slots';
+
+export const statusValues = ['open', 'in_progress', 'resolved', 'closed'] as const;
+
+const allowedTransitions: Record<SupportRequestStatus, SupportRequestStatus[]> = {
+  open: ['in_progress'],
+  in_progress: ['open', 'resolved'],
+  resolved: ['in_progress', 'closed'],
+  closed: []
+};
+
+export function canTransition(from: SupportRequestStatus, to: SupportRequestStatus): boolean {
+  return from === to || allowedTransitions[from].includes(to);
+}
+
+export const listQuerySchema = z
+  .object({
+    urgency: z.enum(urgencyLevels).optional(),
+    category: z.enum(interviewCategories).optional(),
+    topic: z.string().min(1).optional(),
+    email: z.string().min(1).optional(),
+    status: z.enum(statusValues).optional(),
+    assignee: z.string().min(1).optional(),
+    unassigned: z.stringbool().optional(),
+    from: z.string().datetime({ offset: true }).optional(),
+    to: z.string().datetime({ offset: true }).optional(),
+    cursor: z.string().min(1).optional(),
+    limit: z.coerce.number().int().min(1).max(100).default(20)
+  })
+  .refine((query) => !query.from || !query.to || Date.parse(query.from) <= Date.parse(query.to), {
+    message: '`from` must be before `to`',
+    path: ['to']
+  });
+
+export type ListQuery = z.infer<typeof listQuerySchema>;
+
+export const patchSchema = z
+  .object({
+    status: z.enum(statusValues).optional(),
+    assignee: z.string().min(1).nullable().optional(),
+    note: z.string().trim().min(1).optional(),
+    reply: z.string().trim().min(1).optional(),
+    // Sends the template filled in for this request, or, with `reply`, counts the edited text as a use of it.
+    templateId: z.string().min(1).optional()
+  })
+  .refine((patch) => Object.values(patch).some((value) => value !== undefined), {
+    message: 'Provide a status, assignee, note, reply or template'
+  });
+
+export type TicketPatch = z.infer<typeof patchSchema>;
+
+export interface TicketPage {
+  items: StoredSupportRequest[];
+  nextCursor: string | null;
+}
+
+// Cursors are opaque to clients: the sort key of the last item returned.
+export function encodeCursor(entry: StoredSupportRequest): string {
+  return Buffer.from(`${entry.createdAt}|${entry.id}`, 'utf-8').toString('base64url');
+}
+
+export function decodeCursor(cursor: string): { createdAt: string; id: string } | null {
+  const [createdAt, id] = Buffer.from(cursor, 'base64url').toString('utf-8').split('|');
+  if (!createdAt || !id) {
+    return null;
+  }
+  return { createdAt, id };
+}
+
+export function isValidCursor(cursor: string): boolean {
+  return decodeCursor(cursor) !== null;
+}
+
+function compareEntries(
+  a: Pick<StoredSupportRequest, 'createdAt' | 'id'>,
+  b: Pick<StoredSupportRequest, 'createdAt' | 'id'>
+) {
+  if (a.createdAt !== b.createdAt) {
+    return a.createdAt < b.createdAt ? -1 : 1;
+  }
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+export function matchesQuery(entry: StoredSupportRequest, query: ListQuery): boolean {
+  if (query.urgency && entry.urgency !== query.urgency) {
+    return false;
+  }
+  if (query.category && entry.category !== query.category) {
+    return false;
+  }
+  if (query.status && entry.status !== query.status) {
+    return false;
+  }
+  if (query.assignee && entry.assignee !== query.assignee) {
+    return false;
+  }
+  if (query.unassigned !== undefined && (entry.assignee === null) !== query.unassigned) {
+    return false;
+  }
+  if (query.topic && !entry.topic.toLowerCase().includes(query.topic.toLowerCase())) {
+    return false;
+  }
+  if (query.email && entry.email.toLowerCase() !== query.email.toLowerCase()) {
+    return false;
+  }
+  if (query.from && entry.createdAt < new Date(query.from).toISOString()) {
+    return false;
+  }
+  if (query.to && entry.createdAt > new Date(query.to).toISOString()) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Filters the queue and returns one page ordered oldest first, so coaches work
+ * the backlog in arrival order.
+ */
+export function paginateTickets(entries: StoredSupportRequest[], query: ListQuery): TicketPage {
+  const after = query.cursor ? decodeCursor(query.cursor) : null;
+  const matching = entries
+    .filter((entry) => matchesQuery(entry, query))
+    .filter((entry) => !after || compareEntries(entry, after) > 0)
+    .sort(compareEntries);
+
+  const items = matching.slice(0, query.limit);
+  const hasMore = matching.length > query.limit;
+  return {
+    items,
+    nextCursor: hasMore ? encodeCursor(items[items.length - 1]) : null
+  };
+}
+
+export function applyPatch(
+  entry: StoredSupportRequest,
+  patch: TicketPatch,
+  context: { actor: string; now: string; newId: () => string }
+): StoredSupportRequest {
+  const updated: StoredSupportRequest = {
+    ...entry,
+    status: patch.status ?? entry.status,
+    assignee: patch.assignee === undefined ? entry.assignee : patch.assignee,
+    notes: patch.note
+      ? [...entry.notes, { id: context.newId(), author: context.actor, body: patch.note, createdAt: context.now }]
+      : entry.notes,
+    updatedAt: context.now
+  };
+
+  return patch.reply
+    ? appendMessage(updated, {
+        id: context.newId(),
+        role: 'coach',
+        author: context.actor,
+        body: patch.reply,
+        createdAt: context.now
+      })
+    : updated;
+}
+
+/** What a candidate sees on their status page: no internal notes, assignee or contact details. */
+export interface CandidateView extends InterviewContext {
+  id: string;
+  topic: string;
+  message: string;
+  urgency: StoredSupportRequest['urgency'];
+  status: SupportRequestStatus;
+  createdAt: string;
+  updatedAt: string;
+  messages: ConversationMessage[];
+  attachments: AttachmentMeta[];
+  /** Coach messages the candidate has not marked as read. */
+  unread: number;
+  /** The booked coaching session, if any. */
+  session: SessionView | null;
+}
+
+export function toCandidateView(entry: StoredSupportRequest, session: SessionView | null = null): CandidateView {
+  return {
+    id: entry.id,
+    topic: entry.topic,
+    message: entry.message,
+    urgency: entry.urgency,
+    category: entry.category,
+    company: entry.company,
+    role: entry.role,
+    seniority: entry.seniority,
+    interviewDate: entry.interviewDate,
+    format: entry.format,
+    status: entry.status,
+    createdAt: entry.createdAt,
+    updatedAt: entry.updatedAt,
+    messages: entry.messages,
+    attachments: entry.attachments,
+    unread: unreadCount(entry, 'candidate'),
+    session
+  };
+}
+
+// The token travels in the URL fragment, which browsers never send to the web server.
+export function statusPageUrl(appUrl: string, id: string, token: string): string {
+  return `${appUrl.replace(/\/$/, '')}/requests/${encodeURIComponent(id)}#token=${encodeURIComponent(token)}`;
+}
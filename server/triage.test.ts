@@ -0,0 +1,132 @@
+import { describe, expect, it, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createLogger } from './logger';
+import type { Notifier } from './notifications';
+import { createJsonQueueStore } from './queue';
+import { makeEntry } from './testFixtures';
+import {
+  classify,
+  createEscalationSweeper,
+  defaultTriageRules,
+  isOverdue,
+  priorityScore,
+  triageRequest,
+  type TriageConfig
+} from './triage';
+import type { WebhookDispatcher } from './webhooks';
+
+const config: TriageConfig = {
+  rules: defaultTriageRules,
+  slaHours: { urgent: 4, normal: 24 },
+  escalationIntervalMs: 60_000
+};
+
+const createdAt = '2024-03-01T09:00:00.000Z';
+const hour = 60 * 60 * 1000;
+const start = Date.parse(createdAt);
+
+describe('triageRequest', () => {
+  it('labels requests by keyword and adds up rule boosts', () => {
+    expect(classify('Negotiating my offer after the ONSITE', defaultTriageRules)).toEqual({
+      labels: ['offer', 'final-round'],
+      boost: 25
+    });
+    expect(classify('General question', defaultTriageRules)).toEqual({ labels: [], boost: 0 });
+  });
+
+  it('sets the SLA from the urgency, tightened for imminent interviews', () => {
+    const base = { topic: 'Resume review', message: 'Please look at my resume.', createdAt };
+
+    expect(triageRequest({ ...base, urgency: 'normal' }, config)).toEqual({
+      labels: ['resume'],
+      boost: 0,
+      slaDueAt: '2024-03-02T09:00:00.000Z',
+      escalatedAt: null
+    });
+    expect(triageRequest({ ...base, urgency: 'urgent' }, config).slaDueAt).toBe('2024-03-01T13:00:00.000Z');
+    expect(triageRequest({ ...base, urgency: 'normal', interviewDate: '2024-03-03' }, config).slaDueAt).toBe(
+      '2024-03-01T13:00:00.000Z'
+    );
+    expect(triageRequest({ ...base, urgency: 'normal', interviewDate: '2024-04-01' }, config).slaDueAt).toBe(
+      '2024-03-02T09:00:00.000Z'
+    );
+  });
+});
+
+describe('priorityScore', () => {
+  it('weighs urgency, interview date, waiting time and rule boosts', () => {
+    expect(priorityScore(makeEntry(), start)).toBe(0);
+    expect(priorityScore(makeEntry({ urgency: 'urgent' }), start)).toBe(40);
+    expect(priorityScore(makeEntry({ interviewDate: '2024-03-02' }), start)).toBe(40);
+    expect(priorityScore(makeEntry({ interviewDate: '2024-03-07' }), start)).toBe(25);
+    expect(priorityScore(makeEntry({ interviewDate: '2024-02-01' }), start)).toBe(0);
+    expect(priorityScore(makeEntry(), start + 5 * hour)).toBe(10);
+    expect(priorityScore(makeEntry(), start + 100 * hour)).toBe(30);
+
+    const boosted = makeEntry();
+    boosted.triage = { ...boosted.triage!, boost: 15 };
+    expect(priorityScore(boosted, start)).toBe(15);
+  });
+
+  it('stops counting waiting time once a coach has replied', () => {
+    const replied = makeEntry({
+      messages: [{ id: 'm1', role: 'coach', author: 'Grace', body: 'On it', createdAt }]
+    });
+
+    expect(priorityScore(replied, start + 10 * hour)).toBe(0);
+  });
+});
+
+describe('isOverdue', () => {
+  it('flags requests past their SLA until a coach responds', () => {
+    const late = start + 25 * hour;
+
+    expect(isOverdue(makeEntry(), start + 23 * hour)).toBe(false);
+    expect(isOverdue(makeEntry(), late)).toBe(true);
+    expect(isOverdue(makeEntry({ status: 'in_progress' }), late)).toBe(true);
+    expect(isOverdue(makeEntry({ status: 'resolved' }), late)).toBe(false);
+    expect(
+      isOverdue(makeEntry({ messages: [{ id: 'm1', role: 'coach', author: 'Grace', body: 'Hi', createdAt }] }), late)
+    ).toBe(false);
+    expect(isOverdue(makeEntry({ triage: null }), late)).toBe(false);
+  });
+});
+
+describe('escalation sweeper', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(tmpdir(), 'support-triage-'));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('escalates each overdue request once', async () => {
+    const store = createJsonQueueStore(path.join(tempDir, 'queue.json'));
+    await store.append(makeEntry({ id: 'overdue' }));
+    await store.append(makeEntry({ id: 'answered', status: 'resolved' }));
+    const notifier = { slaBreached: vi.fn() } as unknown as Notifier;
+    const webhooks = { emit: vi.fn() } as unknown as WebhookDispatcher;
+    const sweeper = createEscalationSweeper({
+      store,
+      notifier,
+      webhooks,
+      logger: createLogger({ level: 'silent' }),
+      intervalMs: 60_000,
+      now: () => start + 25 * hour
+    });
+
+    await expect(sweeper.sweep()).resolves.toBe(1);
+    await expect(sweeper.sweep()).resolves.toBe(0);
+
+    const escalated = await store.get('overdue');
+    expect(escalated?.triage?.escalatedAt).toBe('2024-03-02T10:00:00.000Z');
+    expect(notifier.slaBreached).toHaveBeenCalledTimes(1);
+    expect(notifier.slaBreached).toHaveBeenCalledWith(escalated);
+    expect(webhooks.emit).toHaveBeenCalledWith('support.sla_breached', escalated);
+  });
+});
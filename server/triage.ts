@@ -0,0 +1,210 @@
+import { z } from 'zod';
+import type { Logger } from './logger';
+import type { Notifier } from './notifications';
+import type { StoredSupportRequest } from './queue';
+import type { SupportQueueStore } from './store';
+import type { WebhookDispatcher } from './webhooks';
+
+export interface TriageRule {
+  /** Tag added to matching requests, e.g. `offer` or `resume`. */
+  label: string;
+  /** Case-insensitive substrings looked for in the topic and message. */
+  keywords: string[];
+  /** Added to the priority score when the rule matches. */
+  boost: number;
+}
+
+export const triageRulesSchema = z.array(
+  z.object({
+    label: z.string().regex(/^[a-z0-9_-]+$/, 'use lowercase letters, digits, dashes or underscores'),
+    keywords: z.array(z.string().trim().min(1)).min(1),
+    boost: z.number().int().min(0).max(100).default(0)
+  })
+);
+
+/** Used when `TRIAGE_RULES_FILE` is not set. */
+export const defaultTriageRules: TriageRule[] = [
+  { label: 'resume', keywords: ['resume', 'résumé', ' cv', 'cover letter', 'linkedin'], boost: 0 },
+  { label: 'coding', keywords: ['leetcode', 'algorithm', 'data structure', 'live coding', 'coding round'], boost: 0 },
+  { label: 'system-design', keywords: ['system design', 'architecture', 'scalab', 'distributed'], boost: 0 },
+  { label: 'behavioral', keywords: ['behavioral', 'behavioural', 'star method', 'leadership', 'conflict'], boost: 0 },
+  { label: 'offer', keywords: ['offer', 'negotiat', 'salary', 'compensation'], boost: 10 },
+  { label: 'final-round', keywords: ['final round', 'onsite', 'on-site', 'tomorrow'], boost: 15 },
+  { label: 'platform-issue', keywords: ['bug', 'error', 'broken', "can't log in", 'cannot log in'], boost: 15 }
+];
+
+export interface TriageConfig {
+  rules: TriageRule[];
+  /** Hours a coach has to respond, by urgency. */
+  slaHours: Record<StoredSupportRequest['urgency'], number>;
+  /** How often the escalation sweep looks for overdue requests. */
+  escalationIntervalMs: number;
+}
+
+/** Stamped on each request when it is submitted. */
+export interface TriageResult {
+  /** Labels of every rule that matched, in rule order. */
+  labels: string[];
+  /** Sum of the matched rules' boosts, added to the priority score. */
+  boost: number;
+  /** When the first coach response is due. */
+  slaDueAt: string;
+  /** When the overdue request was escalated, or `null` if it has not been. */
+  escalatedAt: string | null;
+}
+
+const hourMs = 60 * 60 * 1000;
+const dayMs = 24 * hourMs;
+
+// An interview this close gets the urgent SLA whatever the candidate picked.
+const imminentInterviewDays = 3;
+
+function daysUntilInterview(entry: Pick<StoredSupportRequest, 'interviewDate'>, now: number): number | null {
+  return entry.interviewDate ? (Date.parse(`${entry.interviewDate}T00:00:00Z`) - now) / dayMs : null;
+}
+
+export function classify(text: string, rules: TriageRule[]): Pick<TriageResult, 'labels' | 'boost'> {
+  const haystack = ` ${text.toLowerCase()}`;
+  const matched = rules.filter((rule) => rule.keywords.some((keyword) => haystack.includes(keyword.toLowerCase())));
+  return {
+    labels: matched.map((rule) => rule.label),
+    boost: matched.reduce((total, rule) => total + rule.boost, 0)
+  };
+}
+
+/** Runs the rules on a new submission and works out its SLA deadline. */
+export function triageRequest(
+  entry: Pick<StoredSupportRequest, 'topic' | 'message' | 'urgency' | 'interviewDate' | 'createdAt'>,
+  config: TriageConfig
+): TriageResult {
+  const createdAt = Date.parse(entry.createdAt);
+  const days = daysUntilInterview(entry, createdAt);
+  const urgency = days !== null && days <= imminentInterviewDays ? 'urgent' : entry.urgency;
+
+  return {
+    ...classify(`${entry.topic}\n${entry.message}`, config.rules),
+    slaDueAt: new Date(createdAt + config.slaHours[urgency] * hourMs).toISOString(),
+    escalatedAt: null
+  };
+}
+
+/** The SLA covers the first response: a coach reply, or resolving the request outright. */
+export function isSlaMet(entry: StoredSupportRequest): boolean {
+  return (
+    entry.status === 'resolved' ||
+    entry.status === 'closed' ||
+    entry.messages.some((message) => message.role === 'coach')
+  );
+}
+
+export function isOverdue(entry: StoredSupportRequest, now = Date.now()): boolean {
+  return entry.triage !== null && !isSlaMet(entry) && now >= Date.parse(entry.triage.slaDueAt);
+}
+
+/**
+ * Higher is more pressing. Combines the candidate's urgency, how soon the
+ * interview is, how long the request has waited and any rule boosts. Age keeps
+ * adding points until a coach responds, so old requests rise.
+ */
+export function priorityScore(entry: StoredSupportRequest, now = Date.now()): number {
+  let score = entry.urgency === 'urgent' ? 40 : 0;
+
+  const days = daysUntilInterview(entry, now);
+  // An interview later today has a start-of-day timestamp in the past.
+  if (days !== null && days >= -1) {
+    score += days <= 2 ? 40 : days <= 7 ? 25 : days <= 14 ? 10 : 0;
+  }
+
+  if (!isSlaMet(entry)) {
+    const waitingHours = (now - Date.parse(entry.createdAt)) / hourMs;
+    score += Math.min(30, Math.max(0, Math.floor(waitingHours * 2)));
+  }
+
+  return score + (entry.triage?.boost ?? 0);
+}
+
+/** A request as returned to coaches, with the time-dependent triage fields worked out. */
+export type TicketView = StoredSupportRequest & { priority: number; overdue: boolean };
+
+export function toTicketView(entry: StoredSupportRequest, now = Date.now()): TicketView {
+  return { ...entry, priority: priorityScore(entry, now), overdue: isOverdue(entry, now) };
+}
+
+export interface EscalationSweeperOptions {
+  store: SupportQueueStore;
+  notifier: Notifier;
+  webhooks: WebhookDispatcher;
+  logger: Logger;
+  intervalMs: number;
+  now?: () => number;
+}
+
+export interface EscalationSweeper {
+  /** Escalates every overdue request that has not been escalated yet; returns how many were. */
+  sweep(): Promise<number>;
+  start(): void;
+  stop(): void;
+}
+
+/**
+ * Periodically pages the on-call coach and emits `support.sla_breached` for
+ * requests past their SLA. Each request is escalated at most once.
+ */
+export function createEscalationSweeper(options: EscalationSweeperOptions): EscalationSweeper {
+  const { store, notifier, webhooks, logger } = options;
+  const now = options.now ?? Date.now;
+  let timer: ReturnType<typeof setInterval> | undefined;
+
+  const escalate = async (id: string, at: number): Promise<boolean> => {
+    let escalated = false;
+    const updated = await store.update(id, (entry) => {
+      // Re-checked inside the update so two sweeps cannot escalate the same request.
+      if (!entry.triage || entry.triage.escalatedAt || !isOverdue(entry, at)) {
+        return entry;
+      }
+      escalated = true;
+      return { ...entry, triage: { ...entry.triage, escalatedAt: new Date(at).toISOString() } };
+    });
+    if (updated && escalated) {
+      logger.warn('support request escalated', { supportRequestId: id, slaDueAt: updated.triage?.slaDueAt });
+      notifier.slaBreached(updated);
+      webhooks.emit('support.sla_breached', updated);
+    }
+    return escalated;
+  };
+
+  const sweep = async () => {
+    const at = now();
+    let count = 0;
+    for (const status of ['open', 'in_progress'] as const) {
+      let cursor: string | undefined;
+      do {
+        const page = await store.list({ status, limit: 100, cursor });
+        for (const entry of page.items) {
+          if (entry.triage && !entry.triage.escalatedAt && isOverdue(entry, at) && (await escalate(entry.id, at))) {
+            count += 1;
+          }
+        }
+        cursor = page.nextCursor ?? undefined;
+      } while (cursor);
+    }
+    return count;
+  };
+
+  return {
+    sweep,
+
+    start() {
+      timer ??= setInterval(() => {
+        sweep().catch((error) => logger.error('escalation sweep failed', { err: error }));
+      }, options.intervalMs);
+      // The sweep alone should not keep the process alive.
+      timer.unref();
+    },
+
+    stop() {
+      clearInterval(timer);
+      timer = undefined;
+    }
+  };
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { hashPassword, verifyPassword } from './passwords';
+import { createSessionStore } from './sessions';
+import { createAccount, createJsonCoachUserStore, hasRole } from './users';
+
+describe('passwords', () => {
+  it('verifies only the original password', async () => {
+    const hash = await hashPassword('correct-horse-battery');
+
+    expect(hash).toMatch(/^scrypt\$16384\$8\$1\$/);
+    expect(await verifyPassword('correct-horse-battery', hash)).toBe(true);
+    expect(await verifyPassword('correct-horse-battery!', hash)).toBe(false);
+    expect(await verifyPassword('correct-horse-battery', 'plain-text')).toBe(false);
+    expect(await hashPassword('correct-horse-battery')).not.toBe(hash);
+  });
+});
+
+describe('hasRole', () => {
+  it('ranks admin above lead above coach', () => {
+    expect(hasRole('admin', 'lead')).toBe(true);
+    expect(hasRole('lead', 'lead')).toBe(true);
+    expect(hasRole('lead', 'admin')).toBe(false);
+    expect(hasRole('coach', 'lead')).toBe(false);
+  });
+});
+
+describe('createJsonCoachUserStore', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(tmpdir(), 'coach-users-'));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('stores password hashes and refuses duplicate usernames', async () => {
+    const filePath = path.join(tempDir, 'coach-users.json');
+    const users = createJsonCoachUserStore(filePath);
+    const account = await createAccount({
+      username: 'grace',
+      name: 'Grace Hopper',
+      role: 'lead',
+      password: 'correct-horse-battery'
+    });
+
+    expect(await users.create(account)).toBe(true);
+    expect(await users.create({ ...account, name: 'Impostor' })).toBe(false);
+    expect(readFileSync(filePath, 'utf-8')).not.toContain('correct-horse-battery');
+
+    await users.update('grace', (existing) => ({ ...existing, disabled: true }));
+    expect(await users.get('grace')).toMatchObject({ name: 'Grace Hopper', disabled: true });
+    expect(await users.remove('grace')).toBe(true);
+    expect(await users.list()).toEqual([]);
+  });
+});
+
+describe('createSessionStore', () => {
+  it('expires and revokes sessions', () => {
+    let now = 0;
+    const sessions = createSessionStore({ ttlMs: 1000, now: () => now });
+    const first = sessions.create('grace');
+    const second = sessions.create('grace');
+    const other = sessions.create('alan');
+
+    expect(sessions.resolve(first.token)).toBe('grace');
+    sessions.revoke(first.token);
+    expect(sessions.resolve(first.token)).toBeUndefined();
+
+    sessions.revokeUser('grace');
+    expect(sessions.resolve(second.token)).toBeUndefined();
+    expect(sessions.resolve(other.token)).toBe('alan');
+
+    now = 1000;
+    expect(sessions.resolve(other.token)).toBeUndefined();
+  });
+});
@@ -0,0 +1,158 @@
+import { z } from 'zod';
+import { isArray, loadJsonFile, saveJsonFile, withFileLock } from './jsonFile';
+import type { Logger } from './logger';
+import { hashPassword } from './passwords';
+
+export const coachRoles = ['coach', 'lead', 'admin'] as const;
+
+export type CoachRole = (typeof coachRoles)[number];
+
+/** Each role can do everything the roles before it can. */
+export function hasRole(role: CoachRole, required: CoachRole): boolean {
+  return coachRoles.indexOf(role) >= coachRoles.indexOf(required);
+}
+
+export interface CoachAccount {
+  username: string;
+  /** Shown to candidates as the author of replies. */
+  name: string;
+  role: CoachRole;
+  /** Where session invites are sent; accounts without one only get sessions on the dashboard. */
+  email?: string;
+  passwordHash: string;
+  disabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** An account without its password hash, as returned by the API. */
+export type CoachProfile = Omit<CoachAccount, 'passwordHash'>;
+
+export function toProfile({ passwordHash: _passwordHash, ...profile }: CoachAccount): CoachProfile {
+  return profile;
+}
+
+const password = z.string().min(12, 'must be at least 12 characters').max(200);
+
+export const createUserSchema = z.object({
+  username: z
+    .string()
+    .regex(/^[a-z0-9][a-z0-9._-]{1,31}$/, 'use 2-32 lowercase letters, digits, dots, dashes or underscores'),
+  name: z.string().trim().min(1).max(100),
+  role: z.enum(coachRoles),
+  email: z.email().optional(),
+  password
+});
+
+export type CreateUserInput = z.infer<typeof createUserSchema>;
+
+export const updateUserSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100).optional(),
+    role: z.enum(coachRoles).optional(),
+    email: z.email().nullable().optional(),
+    password: password.optional(),
+    disabled: z.boolean().optional()
+  })
+  .refine((patch) => Object.values(patch).some((value) => value !== undefined), {
+    message: 'Provide a name, role, email, password or disabled flag'
+  });
+
+export type UpdateUserInput = z.infer<typeof updateUserSchema>;
+
+export const loginSchema = z.object({
+  username: z.string().min(1).max(100),
+  password: z.string().min(1).max(200)
+});
+
+export async function createAccount(input: CreateUserInput, now = new Date().toISOString()): Promise<CoachAccount> {
+  return {
+    username: input.username,
+    name: input.name,
+    role: input.role,
+    ...(input.email && { email: input.email }),
+    passwordHash: await hashPassword(input.password),
+    disabled: false,
+    createdAt: now,
+    updatedAt: now
+  };
+}
+
+/** Applies an admin's changes; a new password must already be hashed because store updates are synchronous. */
+export function applyUserUpdate(
+  account: CoachAccount,
+  input: Omit<UpdateUserInput, 'password'>,
+  context: { passwordHash?: string; now: string }
+): CoachAccount {
+  return {
+    ...account,
+    name: input.name ?? account.name,
+    // `null` clears the address.
+    email: input.email === undefined ? account.email : (input.email ?? undefined),
+    role: input.role ?? account.role,
+    disabled: input.disabled ?? account.disabled,
+    passwordHash: context.passwordHash ?? account.passwordHash,
+    updatedAt: context.now
+  };
+}
+
+export interface CoachUserStore {
+  get(username: string): Promise<CoachAccount | undefined>;
+  list(): Promise<CoachAccount[]>;
+  /** Adds the account; returns `false` if the username is taken. */
+  create(account: CoachAccount): Promise<boolean>;
+  update(username: string, change: (account: CoachAccount) => CoachAccount): Promise<CoachAccount | undefined>;
+  remove(username: string): Promise<boolean>;
+}
+
+export function createJsonCoachUserStore(filePath: string, logger?: Logger): CoachUserStore {
+  const load = async () => (await loadJsonFile(filePath, { fallback: [], isValid: isArray, logger })) as CoachAccount[];
+
+  return {
+    async get(username) {
+      const accounts = await withFileLock(filePath, load);
+      return accounts.find((account) => account.username === username);
+    },
+
+    async list() {
+      return withFileLock(filePath, load);
+    },
+
+    create(account) {
+      return withFileLock(filePath, async () => {
+        const accounts = await load();
+        if (accounts.some((existing) => existing.username === account.username)) {
+          return false;
+        }
+        accounts.push(account);
+        await saveJsonFile(filePath, accounts);
+        return true;
+      });
+    },
+
+    update(username, change) {
+      return withFileLock(filePath, async () => {
+        const accounts = await load();
+        const index = accounts.findIndex((account) => account.username === username);
+        if (index === -1) {
+          return undefined;
+        }
+        accounts[index] = change(accounts[index]);
+        await saveJsonFile(filePath, accounts);
+        return accounts[index];
+      });
+    },
+
+    remove(username) {
+      return withFileLock(filePath, async () => {
+        const accounts = await load();
+        const remaining = accounts.filter((account) => account.username !== username);
+        if (remaining.length === accounts.length) {
+          return false;
+        }
+        await saveJsonFile(filePath, remaining);
+        return true;
+      });
+    }
+  };
+}
@@ -0,0 +1,160 @@
+// @vitest-environment node
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { describe, expect, it, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createLogger } from './logger';
+import { makeEntry } from './testFixtures';
+import {
+  createJsonWebhookDeliveryStore,
+  createWebhookDispatcher,
+  signWebhook,
+  verifyWebhookSignature,
+  type WebhookSubscription
+} from './webhooks';
+
+const entry = makeEntry({ createdAt: '2024-01-01T00:00:00.000Z', triage: null });
+
+const secret = 'whsec_0123456789abcdef';
+
+interface Received {
+  headers: Record<string, string | string[] | undefined>;
+  body: string;
+}
+
+describe('webhook dispatcher', () => {
+  let tempDir: string;
+  let server: Server;
+  let url: string;
+  let received: Received[];
+  let responses: number[];
+
+  beforeEach(async () => {
+    tempDir = mkdtempSync(path.join(tmpdir(), 'support-webhooks-'));
+    received = [];
+    responses = [];
+
+    const receiver = express();
+    receiver.post('/hooks', express.text({ type: 'application/json' }), (req, res) => {
+      received.push({ headers: req.headers, body: req.body as string });
+      res.sendStatus(responses.shift() ?? 204);
+    });
+    server = await new Promise<Server>((resolve) => {
+      const listening = receiver.listen(0, '127.0.0.1', () => resolve(listening));
+    });
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function createDispatcher(subscriptions: WebhookSubscription[]) {
+    const deliveries = createJsonWebhookDeliveryStore(path.join(tempDir, 'deliveries.json'));
+    return createWebhookDispatcher({
+      subscriptions,
+      deliveries,
+      logger: createLogger({ level: 'silent' }),
+      retry: { attempts: 3, baseDelayMs: 1 }
+    });
+  }
+
+  it('posts signed events to matching subscriptions only', async () => {
+    const dispatcher = createDispatcher([
+      { id: 'crm', url, secret, events: ['support.created'] },
+      { id: 'status-only', url, secret, events: ['support.status_changed'] }
+    ]);
+
+    dispatcher.emit('support.created', entry);
+    await dispatcher.idle();
+
+    expect(received).toHaveLength(1);
+    const [{ headers, body }] = received;
+    expect(headers['x-webhook-event']).toBe('support.created');
+    expect(verifyWebhookSignature(secret, headers['x-webhook-signature'] as string, body)).toBe(true);
+    expect(verifyWebhookSignature('wrong-secret-value', headers['x-webhook-signature'] as string, body)).toBe(false);
+    expect(JSON.parse(body)).toMatchObject({
+      event: 'support.created',
+      data: { id: 'req-1', topic: 'Mock interviews' }
+    });
+
+    expect(await dispatcher.listDeliveries({})).toEqual([
+      expect.objectContaining({ subscriptionId: 'crm', status: 'succeeded', attempts: 1, lastStatusCode: 204 })
+    ]);
+  });
+
+  it('forgets the deliveries about erased requests', async () => {
+    const dispatcher = createDispatcher([{ id: 'crm', url, secret, events: ['support.created'] }]);
+    dispatcher.emit('support.created', entry);
+    dispatcher.emit('support.created', { ...entry, id: 'req-2' });
+    await dispatcher.idle();
+
+    expect(await dispatcher.forget(['req-1', 'req-3'])).toBe(1);
+    expect(await dispatcher.listDeliveries({})).toEqual([
+      expect.objectContaining({ payload: expect.objectContaining({ data: expect.objectContaining({ id: 'req-2' }) }) })
+    ]);
+  });
+
+  it('retries with backoff, records the failure and replays it', async () => {
+    responses = [500, 502, 503];
+    const dispatcher = createDispatcher([{ id: 'crm', url, secret, events: ['support.status_changed'] }]);
+
+    dispatcher.emit('support.status_changed', { ...entry, status: 'in_progress' }, { previousStatus: 'open' });
+    await dispatcher.idle();
+
+    const [failed] = await dispatcher.listDeliveries({ status: 'failed' });
+    expect(received).toHaveLength(3);
+    expect(failed).toMatchObject({ attempts: 3, lastStatusCode: 503, lastError: 'HTTP 503' });
+    expect(failed.payload).toMatchObject({ previousStatus: 'open', data: { status: 'in_progress' } });
+
+    expect(await dispatcher.replay(failed.id)).toMatchObject({ status: 'replayed' });
+    expect(await dispatcher.replay(failed.id)).toMatchObject({ status: 'in_flight' });
+    await dispatcher.idle();
+
+    expect(received).toHaveLength(4);
+    expect(JSON.parse(received[3].body).id).toBe(failed.id);
+    expect(await dispatcher.listDeliveries({ status: 'succeeded' })).toEqual([
+      expect.objectContaining({ id: failed.id, attempts: 4 })
+    ]);
+  });
+
+  it('replays a delivery a restart left pending', async () => {
+    const deliveries = createJsonWebhookDeliveryStore(path.join(tempDir, 'deliveries.json'));
+    await deliveries.create({
+      id: 'stuck',
+      subscriptionId: 'crm',
+      url,
+      event: 'support.created',
+      payload: { id: 'stuck', event: 'support.created', occurredAt: entry.createdAt, data: entry },
+      status: 'pending',
+      attempts: 1,
+      lastStatusCode: 500,
+      lastError: 'HTTP 500',
+      createdAt: entry.createdAt,
+      updatedAt: entry.createdAt
+    });
+
+    // A fresh dispatcher, as after a restart, reading the same file.
+    const dispatcher = createDispatcher([{ id: 'crm', url, secret, events: ['support.created'] }]);
+    expect(await dispatcher.replay('stuck')).toMatchObject({ status: 'replayed' });
+    await dispatcher.idle();
+
+    expect(received).toHaveLength(1);
+    expect(await dispatcher.listDeliveries({ status: 'succeeded' })).toEqual([
+      expect.objectContaining({ id: 'stuck', attempts: 2 })
+    ]);
+    expect(await dispatcher.replay('missing')).toEqual({ status: 'not_found' });
+  });
+
+  it('rejects stale signatures', () => {
+    const body = JSON.stringify({ hello: 'world' });
+    const header = signWebhook(secret, 1_000, body);
+
+    expect(verifyWebhookSignature(secret, header, body, { now: 1_100 })).toBe(true);
+    expect(verifyWebhookSignature(secret, header, body, { now: 2_000 })).toBe(false);
+  });
+});
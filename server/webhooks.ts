@@ -0,0 +1,312 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { isArray, loadJsonFile, saveJsonFile, withFileLock } from './jsonFile';
+import type { Logger } from './logger';
+import type { RetryPolicy } from './notifications';
+import type { StoredSupportRequest, SupportRequestStatus } from './queue';
+
+export const webhookEvents = ['support.created', 'support.status_changed', 'support.sla_breached'] as const;
+
+export type WebhookEvent = (typeof webhookEvents)[number];
+
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  /** Shared secret used to sign every delivery. */
+  secret: string;
+  events: WebhookEvent[];
+}
+
+export interface WebhookPayload {
+  id: string;
+  event: WebhookEvent;
+  occurredAt: string;
+  data: StoredSupportRequest;
+  previousStatus?: SupportRequestStatus;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  url: string;
+  event: WebhookEvent;
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Signs `<timestamp>.<body>` with HMAC-SHA256. Receivers recompute it with the
+ * shared secret and reject stale timestamps to stop replays.
+ */
+export function signWebhook(secret: string, timestamp: number, body: string): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+export function verifyWebhookSignature(
+  secret: string,
+  header: string,
+  body: string,
+  options: { toleranceSeconds?: number; now?: number } = {}
+): boolean {
+  const parts = Object.fromEntries(header.split(',').map((part) => part.split('=') as [string, string]));
+  const timestamp = Number(parts.t);
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  if (!Number.isInteger(timestamp) || Math.abs(now - timestamp) > (options.toleranceSeconds ?? 300)) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhook(secret, timestamp, body));
+  const actual = Buffer.from(header);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+export interface WebhookDeliveryStore {
+  create(delivery: WebhookDelivery): Promise<void>;
+  get(id: string): Promise<WebhookDelivery | undefined>;
+  list(filter: { status?: WebhookDeliveryStatus }): Promise<WebhookDelivery[]>;
+  update(id: string, change: (delivery: WebhookDelivery) => WebhookDelivery): Promise<WebhookDelivery | undefined>;
+  /** Deletes every delivery about the given requests; returns how many were deleted. */
+  removeForRequests(requestIds: string[]): Promise<number>;
+}
+
+/** Keeps the delivery log in a JSON file with the same locking and recovery as the queue. */
+export function createJsonWebhookDeliveryStore(filePath: string, logger?: Logger): WebhookDeliveryStore {
+  const load = async () =>
+    (await loadJsonFile(filePath, { fallback: [], isValid: isArray, logger })) as WebhookDelivery[];
+
+  return {
+    create(delivery) {
+      return withFileLock(filePath, async () => {
+        const deliveries = await load();
+        deliveries.push(delivery);
+        await saveJsonFile(filePath, deliveries);
+      });
+    },
+
+    async get(id) {
+      const deliveries = await withFileLock(filePath, load);
+      return deliveries.find((delivery) => delivery.id === id);
+    },
+
+    async list(filter) {
+      const deliveries = await withFileLock(filePath, load);
+      return deliveries.filter((delivery) => !filter.status || delivery.status === filter.status);
+    },
+
+    update(id, change) {
+      return withFileLock(filePath, async () => {
+        const deliveries = await load();
+        const index = deliveries.findIndex((delivery) => delivery.id === id);
+        if (index === -1) {
+          return undefined;
+        }
+        deliveries[index] = change(deliveries[index]);
+        await saveJsonFile(filePath, deliveries);
+        return deliveries[index];
+      });
+    },
+
+    removeForRequests(requestIds) {
+      return withFileLock(filePath, async () => {
+        const deliveries = await load();
+        const kept = deliveries.filter((delivery) => !requestIds.includes(delivery.payload.data.id));
+        if (kept.length < deliveries.length) {
+          await saveJsonFile(filePath, kept);
+        }
+        return deliveries.length - kept.length;
+      });
+    }
+  };
+}
+
+export interface WebhookDispatcherOptions {
+  subscriptions: WebhookSubscription[];
+  deliveries: WebhookDeliveryStore;
+  logger: Logger;
+  retry?: RetryPolicy;
+  /** Per-attempt timeout. */
+  timeoutMs?: number;
+  fetch?: typeof fetch;
+}
+
+export type ReplayResult =
+  | { status: 'replayed'; delivery: WebhookDelivery }
+  | { status: 'in_flight'; delivery: WebhookDelivery }
+  | { status: 'not_found' };
+
+export interface WebhookDispatcher {
+  /** Records and sends one delivery per matching subscription in the background. */
+  emit(event: WebhookEvent, data: StoredSupportRequest, extra?: { previousStatus?: SupportRequestStatus }): void;
+  listDeliveries(filter: { status?: WebhookDeliveryStatus }): Promise<WebhookDelivery[]>;
+  /**
+   * Sends a recorded delivery again with a fresh retry budget. A delivery this
+   * process is still sending is left to the attempts already under way; one left
+   * `pending` by a restart can be replayed.
+   */
+  replay(id: string): Promise<ReplayResult>;
+  /** Deletes the recorded deliveries about the given requests, whose payloads hold the candidate's details. */
+  forget(requestIds: string[]): Promise<number>;
+  /** Resolves once every in-flight delivery has succeeded or exhausted its retries. */
+  idle(): Promise<void>;
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+export function createWebhookDispatcher(options: WebhookDispatcherOptions): WebhookDispatcher {
+  const { deliveries, logger } = options;
+  const retry = options.retry ?? { attempts: 6, baseDelayMs: 1000 };
+  const timeoutMs = options.timeoutMs ?? 10_000;
+  const send = options.fetch ?? fetch;
+  const pending = new Set<Promise<void>>();
+  // Ids being sent or waiting to retry in this process. The stored `pending` status outlives a restart; this does not.
+  const inFlight = new Set<string>();
+
+  const attempt = async (
+    delivery: WebhookDelivery
+  ): Promise<{ ok: boolean; statusCode: number | null; error: string | null }> => {
+    const subscription = options.subscriptions.find((candidate) => candidate.id === delivery.subscriptionId);
+    if (!subscription) {
+      return { ok: false, statusCode: null, error: 'Subscription no longer configured' };
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    try {
+      const response = await send(subscription.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'interview-helper-webhooks/1',
+          'X-Webhook-Id': delivery.id,
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Signature': signWebhook(subscription.secret, Math.floor(Date.now() / 1000), body)
+        },
+        body,
+        signal: AbortSignal.timeout(timeoutMs)
+      });
+      return { ok: response.ok, statusCode: response.status, error: response.ok ? null : `HTTP ${response.status}` };
+    } catch (error) {
+      return { ok: false, statusCode: null, error: error instanceof Error ? error.message : String(error) };
+    }
+  };
+
+  const sendWithRetries = async (id: string) => {
+    for (let attemptNumber = 1; ; attemptNumber += 1) {
+      const delivery = await deliveries.get(id);
+      if (!delivery) {
+        return;
+      }
+
+      const result = await attempt(delivery);
+      const exhausted = attemptNumber >= retry.attempts;
+      const status: WebhookDeliveryStatus = result.ok ? 'succeeded' : exhausted ? 'failed' : 'pending';
+      await deliveries.update(id, (current) => ({
+        ...current,
+        status,
+        attempts: current.attempts + 1,
+        lastStatusCode: result.statusCode,
+        lastError: result.error,
+        updatedAt: new Date().toISOString()
+      }));
+
+      const fields = {
+        deliveryId: id,
+        event: delivery.event,
+        subscriptionId: delivery.subscriptionId,
+        attempt: attemptNumber
+      };
+      if (result.ok) {
+        logger.info('webhook delivered', { ...fields, statusCode: result.statusCode });
+        return;
+      }
+      if (exhausted) {
+        logger.error('webhook delivery failed', { ...fields, error: result.error });
+        return;
+      }
+
+      const retryInMs = retry.baseDelayMs * 2 ** (attemptNumber - 1);
+      logger.warn('webhook delivery failed; retrying', { ...fields, retryInMs, error: result.error });
+      await sleep(retryInMs);
+    }
+  };
+
+  const deliver = async (id: string) => {
+    inFlight.add(id);
+    try {
+      await sendWithRetries(id);
+    } finally {
+      inFlight.delete(id);
+    }
+  };
+
+  const schedule = (task: Promise<void>) => {
+    const tracked = task
+      .catch((error) => logger.error('webhook dispatch crashed', { err: error }))
+      .finally(() => pending.delete(tracked));
+    pending.add(tracked);
+  };
+
+  return {
+    emit(event, data, extra = {}) {
+      for (const subscription of options.subscriptions.filter((candidate) => candidate.events.includes(event))) {
+        const now = new Date().toISOString();
+        const id = randomUUID();
+        const delivery: WebhookDelivery = {
+          id,
+          subscriptionId: subscription.id,
+          url: subscription.url,
+          event,
+          payload: { id, event, occurredAt: now, data, ...extra },
+          status: 'pending',
+          attempts: 0,
+          lastStatusCode: null,
+          lastError: null,
+          createdAt: now,
+          updatedAt: now
+        };
+        schedule(deliveries.create(delivery).then(() => deliver(id)));
+      }
+    },
+
+    listDeliveries(filter) {
+      return deliveries.list(filter);
+    },
+
+    async replay(id) {
+      if (inFlight.has(id)) {
+        const delivery = await deliveries.get(id);
+        return delivery ? { status: 'in_flight', delivery } : { status: 'not_found' };
+      }
+
+      // Claimed before the first await so a second replay in the meantime sees it.
+      inFlight.add(id);
+      const delivery = await deliveries.update(id, (current) => ({
+        ...current,
+        status: 'pending',
+        updatedAt: new Date().toISOString()
+      }));
+      if (!delivery) {
+        inFlight.delete(id);
+        return { status: 'not_found' };
+      }
+      schedule(deliver(id));
+      return { status: 'replayed', delivery };
+    },
+
+    forget(requestIds) {
+      return deliveries.removeForRequests(requestIds);
+    },
+
+    async idle() {
+      while (pending.size > 0) {
+        await Promise.all(pending);
+      }
+    }
+  };
+}
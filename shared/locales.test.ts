@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import { matchLocale } from './locales';
+
+describe('matchLocale', () => {
+  it('takes the first supported language, ignoring regions', () => {
+    expect(matchLocale(['fr-FR', 'de-AT', 'en'])).toBe('de');
+    expect(matchLocale(['EN-us'])).toBe('en');
+  });
+
+  it('falls back to English', () => {
+    expect(matchLocale(['fr', '*'])).toBe('en');
+    expect(matchLocale([])).toBe('en');
+  });
+});
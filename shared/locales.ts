@@ -0,0 +1,31 @@
+/** Languages the candidate-facing form and emails are written in. */
+export const supportedLocales = ['en', 'de'] as const;
+
+export type Locale = (typeof supportedLocales)[number];
+
+export const defaultLocale: Locale = 'en';
+
+/** Each language in its own words, as a language switcher lists them. */
+export const localeNames: Record<Locale, string> = {
+  en: 'English',
+  de: 'Deutsch'
+};
+
+export function isSupportedLocale(value: string): value is Locale {
+  return (supportedLocales as readonly string[]).includes(value);
+}
+
+/**
+ * Picks the first supported language from a preference list such as
+ * `navigator.languages`; regional variants match their language, so `de-AT`
+ * reads as `de`.
+ */
+export function matchLocale(preferences: readonly string[]): Locale {
+  for (const preference of preferences) {
+    const language = preference.toLowerCase().split('-')[0];
+    if (isSupportedLocale(language)) {
+      return language;
+    }
+  }
+  return defaultLocale;
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { fillTemplate, unknownPlaceholders } from './replyTemplates';
+
+describe('fillTemplate', () => {
+  it('fills every placeholder, allowing spaces inside the braces', () => {
+    expect(
+      fillTemplate('Hi {{name}}! About {{ topic }}: see you soon, {{name}}.', {
+        name: 'Ada',
+        topic: 'Mock interviews'
+      })
+    ).toBe('Hi Ada! About Mock interviews: see you soon, Ada.');
+  });
+
+  it('leaves anything else untouched, including $ patterns in the values', () => {
+    expect(fillTemplate('{{name}} owes {{amount}}', { name: "$& $'", topic: '' })).toBe("$& $' owes {{amount}}");
+  });
+});
+
+describe('unknownPlaceholders', () => {
+  it('lists each placeholder that cannot be filled once', () => {
+    expect(unknownPlaceholders('Hi {{nmae}}, {{topic}} {{ nmae }} {{company}}')).toEqual(['nmae', 'company']);
+    expect(unknownPlaceholders('Hi {{name}}, no braces {here}')).toEqual([]);
+  });
+});
@@ -0,0 +1,24 @@
+/** Fields of the request a reply template can mention; each is written `{{field}}` in the template body. */
+export const templatePlaceholders = ['name', 'topic'] as const;
+
+export type TemplatePlaceholder = (typeof templatePlaceholders)[number];
+
+const placeholderPattern = /\{\{\s*(\w+)\s*\}\}/g;
+
+function isPlaceholder(name: string): name is TemplatePlaceholder {
+  return (templatePlaceholders as readonly string[]).includes(name);
+}
+
+/** Placeholders in `body` that cannot be filled in, so a typo such as `{{nmae}}` is caught when the template is saved. */
+export function unknownPlaceholders(body: string): string[] {
+  const names = Array.from(body.matchAll(placeholderPattern), (match) => match[1]);
+  return [...new Set(names.filter((name) => !isPlaceholder(name)))];
+}
+
+/**
+ * Fills the placeholders from the request being answered. The API and the
+ * coach dashboard both use it, so an inserted template reads exactly as a sent one.
+ */
+export function fillTemplate(body: string, request: Record<TemplatePlaceholder, string>): string {
+  return body.replace(placeholderPattern, (match, name: string) => (isPlaceholder(name) ? request[name] : match));
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { supportRequestSchema, upgradeSupportRequest } from './supportRequest';
+
+const base = {
+  name: 'Ada Lovelace',
+  email: 'ada@example.com',
+  topic: 'Mock interviews',
+  message: 'Help me prepare for system design.',
+  urgency: 'normal'
+};
+
+describe('supportRequestSchema', () => {
+  it('accepts submissions from clients that predate the interview fields', () => {
+    expect(supportRequestSchema.parse(base)).toEqual({ ...base, category: 'general', format: 'no_preference' });
+  });
+
+  it('treats blank optional fields as missing', () => {
+    const parsed = supportRequestSchema.parse({
+      ...base,
+      category: 'coding',
+      company: '  Acme  ',
+      role: '',
+      seniority: '',
+      interviewDate: '',
+      format: 'async_review'
+    });
+
+    expect(parsed).toEqual({ ...base, category: 'coding', company: 'Acme', format: 'async_review' });
+  });
+
+  it('rejects unknown values and malformed dates', () => {
+    const result = supportRequestSchema.safeParse({
+      ...base,
+      category: 'brain_teasers',
+      seniority: 'wizard',
+      interviewDate: '31/05/2026'
+    });
+
+    expect(result.success).toBe(false);
+    expect(Object.keys(result.error?.flatten().fieldErrors ?? {}).sort()).toEqual([
+      'category',
+      'interviewDate',
+      'seniority'
+    ]);
+  });
+});
+
+describe('upgradeSupportRequest', () => {
+  it('reads version 1 entries as general requests', () => {
+    const entry = { id: 'abc', topic: 'Resume' };
+
+    expect(upgradeSupportRequest(entry)).toEqual({
+      id: 'abc',
+      topic: 'Resume',
+      schemaVersion: 1,
+      category: 'general',
+      format: 'no_preference',
+      locale: 'en'
+    });
+  });
+
+  it('keeps the fields of current entries', () => {
+    const entry = {
+      schemaVersion: 3,
+      category: 'coding' as const,
+      company: 'Acme',
+      format: 'live_mock' as const,
+      locale: 'de' as const
+    };
+
+    expect(upgradeSupportRequest(entry)).toEqual(entry);
+  });
+});
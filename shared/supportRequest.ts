@@ -0,0 +1,131 @@
+import { z } from 'zod';
+import { supportedLocales, type Locale } from './locales';
+
+/**
+ * Version of the submission fields below. Stored requests record the version
+ * they were written with; bump it whenever a field is added or its meaning
+ * changes, and teach `upgradeSupportRequest` how to read the older shape.
+ */
+export const supportRequestSchemaVersion = 4;
+
+export const urgencyLevels = ['normal', 'urgent'] as const;
+export const interviewCategories = ['behavioral', 'coding', 'system_design', 'general'] as const;
+export const seniorityLevels = ['intern', 'junior', 'mid', 'senior', 'staff'] as const;
+export const coachingFormats = ['live_mock', 'async_review', 'no_preference'] as const;
+
+export type InterviewCategory = (typeof interviewCategories)[number];
+export type SeniorityLevel = (typeof seniorityLevels)[number];
+export type CoachingFormat = (typeof coachingFormats)[number];
+
+/**
+ * Stable codes for what is wrong with a submission. The schema reports these
+ * instead of sentences so each client can show them in the candidate's language.
+ */
+export const supportRequestErrorCodes = [
+  'name_required',
+  'email_invalid',
+  'topic_required',
+  'message_too_short',
+  'urgency_invalid',
+  'category_invalid',
+  'company_too_long',
+  'role_too_long',
+  'seniority_invalid',
+  'interview_date_invalid',
+  'format_invalid',
+  'locale_invalid',
+  'partner_invalid',
+  'invalid_value'
+] as const;
+
+export type SupportRequestErrorCode = (typeof supportRequestErrorCodes)[number];
+
+/** Codes `POST /support` sends alongside `error` for everything other than field validation. */
+export const submissionErrorCodes = [
+  'invalid_payload',
+  'too_fast',
+  'rate_limited',
+  'duplicate',
+  'attachment_type',
+  'attachment_too_large',
+  'invalid_upload',
+  'invalid_idempotency_key',
+  'submission_in_progress',
+  'idempotency_key_reused'
+] as const;
+
+export type SubmissionErrorCode = (typeof submissionErrorCodes)[number];
+
+function isErrorCode(message: string): message is SupportRequestErrorCode {
+  return (supportRequestErrorCodes as readonly string[]).includes(message);
+}
+
+// Forms and multipart bodies send untouched optional fields as empty strings.
+function blankable<T extends z.ZodType<string>>(schema: T, code: SupportRequestErrorCode) {
+  return z
+    .union([schema, z.literal('')], code)
+    .transform((value) => (value === '' ? undefined : value))
+    .optional();
+}
+
+/**
+ * The fields a candidate submits, validated the same way by `SupportForm` and
+ * `POST /support`. Every failure is reported as a `SupportRequestErrorCode`.
+ */
+export const supportRequestSchema = z.object({
+  name: z.string('name_required').min(2, 'name_required'),
+  email: z.string('email_invalid').email('email_invalid'),
+  topic: z.string('topic_required').min(3, 'topic_required'),
+  message: z.string('message_too_short').min(10, 'message_too_short'),
+  urgency: z.enum(urgencyLevels, 'urgency_invalid'),
+  // Clients written before the interview fields existed omit them.
+  category: z.enum(interviewCategories, 'category_invalid').default('general'),
+  company: blankable(z.string().trim().max(100, 'company_too_long'), 'company_too_long'),
+  role: blankable(z.string().trim().max(100, 'role_too_long'), 'role_too_long'),
+  seniority: blankable(z.enum(seniorityLevels), 'seniority_invalid'),
+  interviewDate: blankable(z.iso.date(), 'interview_date_invalid'),
+  format: z.enum(coachingFormats, 'format_invalid').default('no_preference'),
+  // The language the candidate used the form in; emails to them follow it. The API falls back to `Accept-Language`.
+  locale: z.enum(supportedLocales, 'locale_invalid').optional(),
+  // Set by the embeddable widget to the partner site it runs on; the app's own form leaves it out.
+  partnerId: blankable(z.string().regex(/^[A-Za-z0-9_-]{1,64}$/, 'partner_invalid'), 'partner_invalid')
+});
+
+export type SupportRequestPayload = z.infer<typeof supportRequestSchema>;
+
+/**
+ * The first error code for each field. Issues that carry no code, such as
+ * those from fields a caller adds around the schema, read as `invalid_value`.
+ */
+export function supportRequestErrors(error: z.ZodError): Partial<Record<string, SupportRequestErrorCode>> {
+  const errors: Partial<Record<string, SupportRequestErrorCode>> = {};
+  for (const issue of error.issues) {
+    const field = String(issue.path[0] ?? '');
+    errors[field] ??= isErrorCode(issue.message) ? issue.message : 'invalid_value';
+  }
+  return errors;
+}
+
+/** The structured interview fields, as kept on every stored request. */
+export type InterviewContext = Pick<
+  SupportRequestPayload,
+  'category' | 'company' | 'role' | 'seniority' | 'interviewDate' | 'format'
+>;
+
+/**
+ * Fills in the interview fields for requests stored before version 2, which
+ * only had the free-text topic and message, and the locale for requests
+ * stored before version 3, which were all written in English. Version 4
+ * added the optional partner ID, which older requests simply lack.
+ */
+export function upgradeSupportRequest<T extends object>(
+  entry: T & Partial<InterviewContext> & { schemaVersion?: number; locale?: Locale }
+): T & InterviewContext & { schemaVersion: number; locale: Locale } {
+  return {
+    ...entry,
+    schemaVersion: entry.schemaVersion ?? 1,
+    category: entry.category ?? 'general',
+    format: entry.format ?? 'no_preference',
+    locale: entry.locale ?? 'en'
+  };
+}
@@ -1,13 +1,49 @@
 import type { JSX } from 'react';
+import CoachDashboard from './components/CoachDashboard';
+import LanguageSwitcher from './components/LanguageSwitcher';
+import RequestStatus from './components/RequestStatus';
 import SupportForm from './components/SupportForm';
+import { useTranslation } from './i18n';
+import { matchPath, useLocation } from './routing';
 import './app.css';
 
 function App(): JSX.Element {
+  const location = useLocation();
+  const { t } = useTranslation();
+  const statusMatch = matchPath('/requests/:id', location.pathname);
+
+  if (matchPath('/coach', location.pathname)) {
+    return (
+      <main className="app app--wide">
+        <header className="app__header">
+          <h1>Support queue</h1>
+          <p>Triage, assign and resolve candidate requests.</p>
+        </header>
+        <CoachDashboard />
+      </main>
+    );
+  }
+
+  if (statusMatch) {
+    const accessToken = new URLSearchParams(location.hash.slice(1)).get('token');
+    return (
+      <main className="app">
+        <header className="app__header">
+          <LanguageSwitcher />
+          <h1>{t('app.statusTitle')}</h1>
+          <p>{t('app.statusSubtitle')}</p>
+        </header>
+        <RequestStatus id={statusMatch.id} accessToken={accessToken} />
+      </main>
+    );
+  }
+
   return (
     <main className="app">
       <header className="app__header">
-        <h1>Need a hand before your next interview?</h1>
-        <p>Tell us what you are working on and our coaches will get back to you shortly.</p>
+        <LanguageSwitcher />
+        <h1>{t('app.title')}</h1>
+        <p>{t('app.subtitle')}</p>
       </header>
       <SupportForm />
     </main>
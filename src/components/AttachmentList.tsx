@@ -0,0 +1,61 @@
+import type { JSX } from 'react';
+import { useState } from 'react';
+import type { AttachmentMeta } from '../types/support';
+import './AttachmentList.css';
+
+interface AttachmentListProps {
+  attachments: AttachmentMeta[];
+  /** Fetches the file with whatever credentials the caller holds. */
+  download: (attachment: AttachmentMeta) => Promise<Blob>;
+}
+
+function formatSize(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+}
+
+// Downloads need an auth header, so a plain link will not do; hand the fetched blob to the browser instead.
+export function saveBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function AttachmentList({ attachments, download }: AttachmentListProps): JSX.Element | null {
+  const [error, setError] = useState<string | null>(null);
+
+  if (attachments.length === 0) {
+    return null;
+  }
+
+  const handleDownload = async (attachment: AttachmentMeta) => {
+    setError(null);
+    try {
+      saveBlob(await download(attachment), attachment.filename);
+    } catch (reason) {
+      setError(reason instanceof Error ? reason.message : 'Unable to download the file');
+    }
+  };
+
+  return (
+    <div className="attachment-list">
+      <ul>
+        {attachments.map((attachment) => (
+          <li key={attachment.id}>
+            <button type="button" className="attachment-list__download" onClick={() => handleDownload(attachment)}>
+              {attachment.filename}
+            </button>{' '}
+            <span className="attachment-list__size">{formatSize(attachment.size)}</span>
+          </li>
+        ))}
+      </ul>
+      {error && (
+        <p className="attachment-list__error" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import type { JSX } from 'react';
+import { FormEvent, useCallback, useState } from 'react';
+import { CoachAuthError, createSlot, deleteSlot, listSlots } from '../services/coach';
+import type { AvailabilitySlot } from '../types/support';
+import './AvailabilityPanel.css';
+
+interface AvailabilityPanelProps {
+  token: string;
+  username: string;
+  onFailure: (reason: unknown, fallback: string) => void;
+}
+
+const durations = [30, 45, 60, 90];
+
+// Slots are published with the coach's browser zone so invites show them in the coach's own time.
+const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+function formatSlot(slot: AvailabilitySlot): string {
+  const start = new Date(slot.startsAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+  const end = new Date(slot.endsAt).toLocaleTimeString(undefined, { timeStyle: 'short' });
+  return `${start} – ${end}`;
+}
+
+/** Lets a coach publish and withdraw the sessions candidates can book. Loads when first opened. */
+export default function AvailabilityPanel({ token, username, onFailure }: AvailabilityPanelProps): JSX.Element {
+  const [slots, setSlots] = useState<AvailabilitySlot[] | null>(null);
+  const [startsAt, setStartsAt] = useState('');
+  const [durationMinutes, setDurationMinutes] = useState(60);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setSlots(await listSlots(token, username, new Date().toISOString()));
+    } catch (reason) {
+      onFailure(reason, 'Could not load your availability.');
+    }
+  }, [token, username, onFailure]);
+
+  const addSlot = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+    const start = new Date(startsAt);
+    if (!startsAt || Number.isNaN(start.getTime())) {
+      setError('Pick a start time.');
+      return;
+    }
+    try {
+      // `datetime-local` values are in the browser's zone; the API wants an explicit offset.
+      await createSlot(token, { startsAt: start.toISOString(), durationMinutes, timeZone });
+      setStartsAt('');
+      await load();
+    } catch (reason) {
+      // Overlaps and past times are shown next to the form rather than above the queue.
+      if (reason instanceof CoachAuthError) {
+        onFailure(reason, 'Could not add the slot.');
+      } else {
+        setError(reason instanceof Error ? reason.message : 'Could not add the slot.');
+      }
+    }
+  };
+
+  const removeSlot = async (slot: AvailabilitySlot) => {
+    setError(null);
+    try {
+      await deleteSlot(token, slot.id);
+      await load();
+    } catch (reason) {
+      onFailure(reason, 'Could not remove the slot.');
+    }
+  };
+
+  return (
+    <details
+      className="availability-panel"
+      onToggle={(event) => {
+        if ((event.target as HTMLDetailsElement).open && slots === null) {
+          void load();
+        }
+      }}
+    >
+      <summary>Your availability</summary>
+
+      <form className="availability-panel__form" onSubmit={addSlot} aria-label="Add a slot">
+        <label>
+          Starts at
+          <input type="datetime-local" value={startsAt} onChange={(event) => setStartsAt(event.target.value)} />
+        </label>
+        <label>
+          Length
+          <select value={durationMinutes} onChange={(event) => setDurationMinutes(Number(event.target.value))}>
+            {durations.map((minutes) => (
+              <option key={minutes} value={minutes}>
+                {minutes} minutes
+              </option>
+            ))}
+          </select>
+        </label>
+        <button type="submit" className="coach-dashboard__button">
+          Add slot
+        </button>
+      </form>
+      <p className="availability-panel__zone">Times are in {timeZone}.</p>
+
+      {error && (
+        <p className="coach-dashboard__error" role="alert">
+          {error}
+        </p>
+      )}
+
+      {slots !== null &&
+        (slots.length === 0 ? (
+          <p className="coach-dashboard__empty">You have no upcoming slots.</p>
+        ) : (
+          <ul className="availability-panel__list">
+            {slots.map((slot) => (
+              <li key={slot.id}>
+                <time dateTime={slot.startsAt}>{formatSlot(slot)}</time>{' '}
+                <span className={slot.booking ? 'availability-panel__booked' : 'availability-panel__open'}>
+                  {slot.booking ? `Booked for #${slot.booking.requestId}` : 'Open'}
+                </span>{' '}
+                <button type="button" className="coach-dashboard__link-button" onClick={() => removeSlot(slot)}>
+                  {slot.booking ? 'Cancel session' : 'Remove'}
+                </button>
+              </li>
+            ))}
+          </ul>
+        ))}
+    </details>
+  );
+}
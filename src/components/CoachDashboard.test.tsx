@@ -0,0 +1,301 @@
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { vi } from 'vitest';
+import CoachDashboard from './CoachDashboard';
+import {
+  CoachAuthError,
+  createSlot,
+  deleteSlot,
+  listSlots,
+  listTemplates,
+  listTickets,
+  login,
+  logout,
+  updateTicket,
+  updateTickets
+} from '../services/coach';
+import type { CoachSession, ReplyTemplate, SupportTicket } from '../types/support';
+
+vi.mock('../services/coach', async (importOriginal) => ({
+  CoachAuthError: (await importOriginal<typeof import('../services/coach')>()).CoachAuthError,
+  createSlot: vi.fn(),
+  deleteSlot: vi.fn(),
+  listSlots: vi.fn(),
+  listTemplates: vi.fn(),
+  listTickets: vi.fn(),
+  login: vi.fn(),
+  logout: vi.fn(),
+  updateTicket: vi.fn(),
+  updateTickets: vi.fn()
+}));
+
+function ticket(overrides: Partial<SupportTicket>): SupportTicket {
+  return {
+    id: 'id',
+    schemaVersion: 3,
+    locale: 'en',
+    name: 'Ada Lovelace',
+    email: 'ada@example.com',
+    topic: 'Topic',
+    message: 'Help me prepare for system design.',
+    urgency: 'normal',
+    category: 'general',
+    format: 'no_preference',
+    status: 'open',
+    assignee: null,
+    notes: [],
+    messages: [],
+    attachments: [],
+    triage: null,
+    priority: 0,
+    overdue: false,
+    createdAt: '2024-01-01T09:00:00.000Z',
+    updatedAt: '2024-01-01T09:00:00.000Z',
+    ...overrides
+  };
+}
+
+const tickets = [
+  ticket({ id: 'a', topic: 'Resume review', createdAt: '2024-01-01T09:00:00.000Z', assignee: 'grace' }),
+  ticket({ id: 'b', topic: 'Behavioral practice', urgency: 'urgent', createdAt: '2024-01-02T09:00:00.000Z' }),
+  ticket({
+    id: 'c',
+    topic: 'Coding interview',
+    status: 'in_progress',
+    priority: 55,
+    overdue: true,
+    createdAt: '2024-01-03T09:00:00.000Z'
+  })
+];
+
+const session: CoachSession = {
+  token: 'grace-token',
+  expiresAt: '2099-01-01T00:00:00.000Z',
+  coach: { username: 'grace', name: 'Grace Hopper', role: 'lead' }
+};
+
+const storeSession = (value: CoachSession) =>
+  window.sessionStorage.setItem('interview-helper.coach-session', JSON.stringify(value));
+
+const topics = () =>
+  screen
+    .getAllByRole('row')
+    .slice(1)
+    .map((row) => within(row).getAllByRole('cell')[3].textContent);
+
+describe('CoachDashboard', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storeSession(session);
+    vi.mocked(logout).mockResolvedValue();
+    vi.mocked(listTickets).mockResolvedValue({ items: tickets, nextCursor: null });
+    vi.mocked(listTemplates).mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    window.sessionStorage.clear();
+  });
+
+  it('signs in before loading the queue', async () => {
+    window.sessionStorage.clear();
+    vi.mocked(login).mockRejectedValueOnce(new Error('That username and password did not match.'));
+    vi.mocked(login).mockResolvedValueOnce(session);
+    render(<CoachDashboard />);
+
+    await userEvent.type(screen.getByLabelText(/username/i), 'grace');
+    await userEvent.type(screen.getByLabelText(/password/i), 'wrong');
+    await userEvent.click(screen.getByRole('button', { name: /sign in/i }));
+    expect(await screen.findByRole('alert')).toHaveTextContent(/did not match/i);
+
+    await userEvent.click(screen.getByRole('button', { name: /sign in/i }));
+
+    expect(await screen.findByText('Resume review')).toBeInTheDocument();
+    expect(login).toHaveBeenLastCalledWith('grace', 'wrong');
+    expect(listTickets).toHaveBeenCalledWith('grace-token', {});
+    expect(screen.getByText(/signed in as grace hopper \(lead\)/i)).toBeInTheDocument();
+  });
+
+  it('signs out on the server and locally', async () => {
+    render(<CoachDashboard />);
+    await screen.findByText('Resume review');
+
+    await userEvent.click(screen.getByRole('button', { name: /sign out/i }));
+
+    expect(logout).toHaveBeenCalledWith('grace-token');
+    expect(screen.getByLabelText(/username/i)).toBeInTheDocument();
+    expect(window.sessionStorage.getItem('interview-helper.coach-session')).toBeNull();
+  });
+
+  it('offers coaches self-assignment instead of reassignment', async () => {
+    storeSession({ ...session, coach: { ...session.coach, role: 'coach' } });
+    vi.mocked(updateTickets).mockResolvedValue({ updated: [tickets[1]], failed: [] });
+    render(<CoachDashboard />);
+    await screen.findByText('Resume review');
+
+    expect(screen.queryByLabelText('Assign selected to')).not.toBeInTheDocument();
+    await userEvent.click(screen.getByLabelText('Select Behavioral practice'));
+    await userEvent.click(screen.getByRole('button', { name: 'Assign to me' }));
+
+    expect(updateTickets).toHaveBeenCalledWith('grace-token', ['b'], { assignee: 'grace' });
+  });
+
+  it('sorts by column and highlights urgent unassigned requests', async () => {
+    render(<CoachDashboard />);
+    await screen.findByText('Resume review');
+
+    expect(topics()).toEqual(['Resume review', 'Behavioral practice', 'Coding interview']);
+
+    await userEvent.click(screen.getByRole('button', { name: 'Topic' }));
+    expect(topics()).toEqual(['Behavioral practice', 'Coding interview', 'Resume review']);
+
+    await userEvent.click(screen.getByRole('button', { name: 'Topic' }));
+    expect(topics()).toEqual(['Resume review', 'Coding interview', 'Behavioral practice']);
+
+    await userEvent.click(screen.getByRole('button', { name: 'Priority' }));
+    expect(topics()[0]).toBe('Coding interview');
+
+    expect(screen.getByText('Behavioral practice').closest('tr')).toHaveClass('coach-dashboard__row--attention');
+    const overdueRow = screen.getByRole('button', { name: 'Coding interview' }).closest('tr');
+    expect(overdueRow).toHaveClass('coach-dashboard__row--attention');
+    expect(screen.getByText('Overdue').closest('tr')).toBe(overdueRow);
+    expect(screen.getByText('Resume review').closest('tr')).not.toHaveClass('coach-dashboard__row--attention');
+  });
+
+  it('applies filters and switches to the triage view', async () => {
+    render(<CoachDashboard />);
+    await screen.findByText('Resume review');
+
+    await userEvent.selectOptions(screen.getByLabelText('Status'), 'in_progress');
+    await userEvent.type(screen.getByLabelText('Assignee'), 'grace');
+    await userEvent.click(screen.getByRole('button', { name: /apply filters/i }));
+    await waitFor(() =>
+      expect(listTickets).toHaveBeenLastCalledWith('grace-token', { status: 'in_progress', assignee: 'grace' })
+    );
+
+    await userEvent.click(screen.getByRole('tab', { name: /urgent & unassigned/i }));
+    await waitFor(() =>
+      expect(listTickets).toHaveBeenLastCalledWith('grace-token', { urgency: 'urgent', unassigned: true })
+    );
+  });
+
+  it('opens the full request in a drawer', async () => {
+    render(<CoachDashboard />);
+
+    await userEvent.click(await screen.findByRole('button', { name: 'Resume review' }));
+
+    const drawer = screen.getByRole('dialog');
+    expect(within(drawer).getByText('Help me prepare for system design.')).toBeInTheDocument();
+    expect(within(drawer).getByText('ada@example.com')).toBeInTheDocument();
+
+    await userEvent.click(within(drawer).getByRole('button', { name: /close details/i }));
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  });
+
+  it('inserts a reply template, lets the coach edit it and sends it', async () => {
+    const template: ReplyTemplate = {
+      id: 't1',
+      title: 'Resume checklist',
+      category: 'Resume review',
+      body: 'Hi {{name}}, thanks for asking about {{topic}}.',
+      createdBy: 'grace',
+      createdAt: '2024-01-01T09:00:00.000Z',
+      updatedAt: '2024-01-01T09:00:00.000Z',
+      usageCount: 3,
+      lastUsedAt: null
+    };
+    vi.mocked(listTemplates).mockResolvedValue([template]);
+    const replied = {
+      ...tickets[0],
+      messages: [
+        {
+          id: 'm1',
+          role: 'coach' as const,
+          author: 'grace',
+          body: 'Hi Ada Lovelace, thanks for asking about Resume review. See you Monday.',
+          createdAt: '2024-01-04T09:00:00.000Z'
+        }
+      ]
+    };
+    vi.mocked(updateTicket).mockResolvedValue(replied);
+    render(<CoachDashboard />);
+
+    await userEvent.click(await screen.findByRole('button', { name: 'Resume review' }));
+    const drawer = screen.getByRole('dialog');
+    await userEvent.selectOptions(await within(drawer).findByLabelText('Template'), 'Resume checklist');
+    await userEvent.click(within(drawer).getByRole('button', { name: 'Insert' }));
+
+    const reply = within(drawer).getByLabelText('Reply');
+    expect(reply).toHaveValue('Hi Ada Lovelace, thanks for asking about Resume review.');
+    await userEvent.type(reply, ' See you Monday.');
+    await userEvent.click(within(drawer).getByRole('button', { name: 'Send reply' }));
+
+    expect(updateTicket).toHaveBeenCalledWith('grace-token', 'a', {
+      reply: 'Hi Ada Lovelace, thanks for asking about Resume review. See you Monday.',
+      templateId: 't1'
+    });
+    expect(await within(drawer).findByText(replied.messages[0].body)).toBeInTheDocument();
+    expect(reply).toHaveValue('');
+  });
+
+  it('runs bulk actions on the selection and reports failures', async () => {
+    vi.mocked(updateTickets).mockResolvedValue({
+      updated: [tickets[2]],
+      failed: [{ id: 'b', error: 'Cannot move a request from open to resolved' }]
+    });
+    render(<CoachDashboard />);
+    await screen.findByText('Resume review');
+
+    await userEvent.click(screen.getByLabelText('Select Behavioral practice'));
+    await userEvent.click(screen.getByLabelText('Select Coding interview'));
+    await userEvent.click(screen.getByRole('button', { name: 'Resolve' }));
+
+    expect(updateTickets).toHaveBeenCalledWith('grace-token', ['b', 'c'], { status: 'resolved' });
+    expect(await screen.findByRole('status')).toHaveTextContent(/updated 1 request\. 1 could not be updated/i);
+    await waitFor(() => expect(listTickets).toHaveBeenCalledTimes(2));
+  });
+
+  it('publishes and withdraws availability slots', async () => {
+    const slot = {
+      id: 's1',
+      coach: 'grace',
+      coachName: 'Grace Hopper',
+      startsAt: '2030-03-05T13:00:00.000Z',
+      endsAt: '2030-03-05T14:00:00.000Z',
+      timeZone: 'UTC',
+      booking: { requestId: 'b', candidateTimeZone: 'UTC', bookedAt: '2030-03-01T09:00:00.000Z' },
+      createdAt: '2030-03-01T08:00:00.000Z'
+    };
+    vi.mocked(listSlots).mockResolvedValueOnce([]).mockResolvedValueOnce([slot]).mockResolvedValueOnce([]);
+    vi.mocked(createSlot).mockResolvedValue(slot);
+    vi.mocked(deleteSlot).mockResolvedValue();
+    render(<CoachDashboard />);
+    await screen.findByText('Resume review');
+
+    await userEvent.click(screen.getByText('Your availability'));
+    expect(await screen.findByText(/no upcoming slots/i)).toBeInTheDocument();
+    expect(listSlots).toHaveBeenCalledWith('grace-token', 'grace', expect.any(String));
+
+    await userEvent.type(screen.getByLabelText(/starts at/i), '2030-03-05T13:00');
+    await userEvent.click(screen.getByRole('button', { name: /add slot/i }));
+
+    expect(createSlot).toHaveBeenCalledWith('grace-token', {
+      startsAt: new Date('2030-03-05T13:00').toISOString(),
+      durationMinutes: 60,
+      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone
+    });
+    expect(await screen.findByText('Booked for #b')).toBeInTheDocument();
+
+    await userEvent.click(screen.getByRole('button', { name: /cancel session/i }));
+    expect(deleteSlot).toHaveBeenCalledWith('grace-token', 's1');
+    expect(await screen.findByText(/no upcoming slots/i)).toBeInTheDocument();
+  });
+
+  it('returns to sign-in when the session ends', async () => {
+    vi.mocked(listTickets).mockRejectedValue(new CoachAuthError());
+    render(<CoachDashboard />);
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(/session has ended/i);
+    expect(screen.getByLabelText(/username/i)).toBeInTheDocument();
+    expect(window.sessionStorage.getItem('interview-helper.coach-session')).toBeNull();
+  });
+});
@@ -0,0 +1,549 @@
+import type { JSX } from 'react';
+import { FormEvent, useCallback, useEffect, useMemo, useState } from 'react';
+import { interviewCategories } from '../../shared/supportRequest';
+import { CoachAuthError, listTickets, login, logout, updateTickets } from '../services/coach';
+import type { CoachSession, SupportRequestStatus, SupportTicket, TicketFilters, TicketPatch } from '../types/support';
+import AvailabilityPanel from './AvailabilityPanel';
+import TicketDrawer from './TicketDrawer';
+import { categoryLabels, statusLabels } from './ticketLabels';
+import './CoachDashboard.css';
+
+const sessionStorageKey = 'interview-helper.coach-session';
+
+type View = 'all' | 'triage';
+
+type SortKey = 'priority' | 'urgency' | 'topic' | 'age' | 'status' | 'assignee';
+
+interface SortState {
+  key: SortKey;
+  ascending: boolean;
+}
+
+const columns: { key: SortKey; label: string }[] = [
+  { key: 'priority', label: 'Priority' },
+  { key: 'urgency', label: 'Urgency' },
+  { key: 'topic', label: 'Topic' },
+  { key: 'age', label: 'Age' },
+  { key: 'status', label: 'Status' },
+  { key: 'assignee', label: 'Assignee' }
+];
+
+const statusOrder: SupportRequestStatus[] = ['open', 'in_progress', 'resolved', 'closed'];
+
+const triageFilters: TicketFilters = { urgency: 'urgent', unassigned: true };
+
+function compareTickets(a: SupportTicket, b: SupportTicket, key: SortKey): number {
+  switch (key) {
+    case 'priority':
+      return b.priority - a.priority;
+    case 'urgency':
+      return Number(b.urgency === 'urgent') - Number(a.urgency === 'urgent');
+    case 'topic':
+      return a.topic.localeCompare(b.topic);
+    case 'age':
+      // Ascending age means newest first.
+      return b.createdAt.localeCompare(a.createdAt);
+    case 'status':
+      return statusOrder.indexOf(a.status) - statusOrder.indexOf(b.status);
+    case 'assignee':
+      // Unassigned requests sort first so they are not missed.
+      return (a.assignee ?? '').localeCompare(b.assignee ?? '');
+  }
+}
+
+function formatAge(createdAt: string, now: number): string {
+  const minutes = Math.max(0, Math.floor((now - Date.parse(createdAt)) / 60_000));
+  if (minutes < 60) {
+    return `${minutes}m`;
+  }
+  const hours = Math.floor(minutes / 60);
+  return hours < 48 ? `${hours}h` : `${Math.floor(hours / 24)}d`;
+}
+
+function needsAttention(ticket: SupportTicket): boolean {
+  return ticket.overdue || (ticket.urgency === 'urgent' && ticket.assignee === null && ticket.status !== 'closed');
+}
+
+function readStoredSession(): CoachSession | null {
+  try {
+    const raw = window.sessionStorage.getItem(sessionStorageKey);
+    return raw ? (JSON.parse(raw) as CoachSession) : null;
+  } catch {
+    return null;
+  }
+}
+
+interface CoachSignInProps {
+  message: string | null;
+  onSignIn: (session: CoachSession) => void;
+}
+
+function CoachSignIn({ message, onSignIn }: CoachSignInProps): JSX.Element {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!username.trim() || !password) {
+      setError('Enter your username and password.');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      onSignIn(await login(username.trim(), password));
+    } catch (reason) {
+      setError(reason instanceof Error ? reason.message : 'Something went wrong signing in.');
+      setIsSubmitting(false);
+    }
+  };
+
+  const shownError = error ?? message;
+
+  return (
+    <form className="coach-dashboard__sign-in" onSubmit={handleSubmit} noValidate>
+      <label htmlFor="coach-username">Username</label>
+      <input
+        id="coach-username"
+        type="text"
+        autoComplete="username"
+        value={username}
+        onChange={(event) => setUsername(event.target.value)}
+      />
+      <label htmlFor="coach-password">Password</label>
+      <input
+        id="coach-password"
+        type="password"
+        autoComplete="current-password"
+        value={password}
+        onChange={(event) => setPassword(event.target.value)}
+      />
+      <button type="submit" className="coach-dashboard__button" disabled={isSubmitting}>
+        {isSubmitting ? 'Signing in...' : 'Sign in'}
+      </button>
+      {shownError && (
+        <p className="coach-dashboard__error" role="alert">
+          {shownError}
+        </p>
+      )}
+    </form>
+  );
+}
+
+export default function CoachDashboard(): JSX.Element {
+  const [session, setSession] = useState<CoachSession | null>(readStoredSession);
+  const [signInMessage, setSignInMessage] = useState<string | null>(null);
+
+  const signIn = (value: CoachSession) => {
+    window.sessionStorage.setItem(sessionStorageKey, JSON.stringify(value));
+    setSignInMessage(null);
+    setSession(value);
+  };
+
+  const signOut = useCallback((message: string | null) => {
+    window.sessionStorage.removeItem(sessionStorageKey);
+    setSignInMessage(message);
+    setSession(null);
+  }, []);
+
+  if (!session) {
+    return <CoachSignIn message={signInMessage} onSignIn={signIn} />;
+  }
+
+  return <TicketQueue session={session} onSignOut={signOut} />;
+}
+
+interface TicketQueueProps {
+  session: CoachSession;
+  onSignOut: (message: string | null) => void;
+}
+
+function TicketQueue({ session, onSignOut }: TicketQueueProps): JSX.Element {
+  const { token, coach } = session;
+  const canReassign = coach.role !== 'coach';
+  const [view, setView] = useState<View>('all');
+  const [filters, setFilters] = useState<TicketFilters>({});
+  const [draftFilters, setDraftFilters] = useState<TicketFilters>({});
+  const [tickets, setTickets] = useState<SupportTicket[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  // Longest-waiting first, matching the order coaches work the backlog in.
+  const [sort, setSort] = useState<SortState>({ key: 'age', ascending: false });
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [assignTo, setAssignTo] = useState('');
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+
+  const activeFilters = view === 'triage' ? triageFilters : filters;
+
+  const handleFailure = useCallback(
+    (reason: unknown, fallback: string) => {
+      if (reason instanceof CoachAuthError) {
+        onSignOut(reason.message);
+        return;
+      }
+      setError(reason instanceof Error ? reason.message : fallback);
+    },
+    [onSignOut]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    listTickets(token, activeFilters)
+      .then((page) => {
+        if (!cancelled) {
+          setTickets(page.items);
+          setNextCursor(page.nextCursor);
+          setSelected(new Set());
+          setNow(Date.now());
+        }
+      })
+      .catch((reason: unknown) => {
+        if (!cancelled) {
+          handleFailure(reason, 'Could not load the support queue.');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token, activeFilters, reloadKey, handleFailure]);
+
+  const sortedTickets = useMemo(() => {
+    const sorted = [...tickets].sort((a, b) => compareTickets(a, b, sort.key));
+    return sort.ascending ? sorted : sorted.reverse();
+  }, [tickets, sort]);
+
+  const activeTicket = tickets.find((ticket) => ticket.id === activeId) ?? null;
+  const closeDrawer = useCallback(() => setActiveId(null), []);
+  const replaceTicket = useCallback((updated: SupportTicket) => {
+    setTickets((prev) => prev.map((ticket) => (ticket.id === updated.id ? updated : ticket)));
+  }, []);
+
+  const loadMore = async () => {
+    if (!nextCursor) {
+      return;
+    }
+    try {
+      setIsLoading(true);
+      const page = await listTickets(token, activeFilters, nextCursor);
+      setTickets((prev) => [...prev, ...page.items]);
+      setNextCursor(page.nextCursor);
+    } catch (reason) {
+      handleFailure(reason, 'Could not load more requests.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleSort = (key: SortKey) => {
+    setSort((prev) => (prev.key === key ? { key, ascending: !prev.ascending } : { key, ascending: true }));
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const allSelected = tickets.length > 0 && selected.size === tickets.length;
+  const toggleAll = () => {
+    setSelected(allSelected ? new Set() : new Set(tickets.map((ticket) => ticket.id)));
+  };
+
+  const applyBulk = async (patch: TicketPatch) => {
+    setNotice(null);
+    setError(null);
+    try {
+      const result = await updateTickets(token, [...selected], patch);
+      const updated = `Updated ${result.updated.length} request${result.updated.length === 1 ? '' : 's'}.`;
+      const failed = result.failed.map((failure) => `#${failure.id}: ${failure.error}`).join(' ');
+      setNotice(failed ? `${updated} ${result.failed.length} could not be updated. ${failed}` : updated);
+      setReloadKey((key) => key + 1);
+    } catch (reason) {
+      handleFailure(reason, 'Could not update the selected requests.');
+    }
+  };
+
+  const applyFilters = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setFilters({ ...draftFilters });
+  };
+
+  return (
+    <section className="coach-dashboard">
+      <div className="coach-dashboard__toolbar">
+        <div className="coach-dashboard__views" role="tablist" aria-label="Queue views">
+          <button
+            type="button"
+            role="tab"
+            aria-selected={view === 'all'}
+            className="coach-dashboard__view"
+            onClick={() => setView('all')}
+          >
+            All requests
+          </button>
+          <button
+            type="button"
+            role="tab"
+            aria-selected={view === 'triage'}
+            className="coach-dashboard__view coach-dashboard__view--attention"
+            onClick={() => setView('triage')}
+          >
+            Urgent &amp; unassigned
+          </button>
+        </div>
+        <span className="coach-dashboard__account">
+          Signed in as {coach.name} ({coach.role}){' '}
+          <button
+            type="button"
+            className="coach-dashboard__link-button"
+            onClick={() => {
+              // Forget the session locally even if the server cannot be reached.
+              logout(token).catch(() => undefined);
+              onSignOut(null);
+            }}
+          >
+            Sign out
+          </button>
+        </span>
+      </div>
+
+      {view === 'all' && (
+        <form className="coach-dashboard__filters" onSubmit={applyFilters} aria-label="Filters">
+          <label>
+            Status
+            <select
+              value={draftFilters.status ?? ''}
+              onChange={(event) =>
+                setDraftFilters((prev) => ({
+                  ...prev,
+                  status: (event.target.value || undefined) as SupportRequestStatus | undefined
+                }))
+              }
+            >
+              <option value="">Any</option>
+              {statusOrder.map((status) => (
+                <option key={status} value={status}>
+                  {statusLabels[status]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Urgency
+            <select
+              value={draftFilters.urgency ?? ''}
+              onChange={(event) =>
+                setDraftFilters((prev) => ({
+                  ...prev,
+                  urgency: (event.target.value || undefined) as TicketFilters['urgency']
+                }))
+              }
+            >
+              <option value="">Any</option>
+              <option value="urgent">Urgent</option>
+              <option value="normal">Normal</option>
+            </select>
+          </label>
+          <label>
+            Preparing for
+            <select
+              value={draftFilters.category ?? ''}
+              onChange={(event) =>
+                setDraftFilters((prev) => ({
+                  ...prev,
+                  category: (event.target.value || undefined) as TicketFilters['category']
+                }))
+              }
+            >
+              <option value="">Any</option>
+              {interviewCategories.map((category) => (
+                <option key={category} value={category}>
+                  {categoryLabels[category]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Topic
+            <input
+              type="search"
+              value={draftFilters.topic ?? ''}
+              onChange={(event) => setDraftFilters((prev) => ({ ...prev, topic: event.target.value || undefined }))}
+            />
+          </label>
+          <label>
+            Assignee
+            <input
+              type="text"
+              value={draftFilters.assignee ?? ''}
+              onChange={(event) => setDraftFilters((prev) => ({ ...prev, assignee: event.target.value || undefined }))}
+            />
+          </label>
+          <button type="submit" className="coach-dashboard__button">
+            Apply filters
+          </button>
+        </form>
+      )}
+
+      <div className="coach-dashboard__bulk" aria-label="Bulk actions">
+        <span>{selected.size} selected</span>
+        {canReassign ? (
+          <>
+            <input
+              type="text"
+              aria-label="Assign selected to"
+              placeholder="Coach username"
+              value={assignTo}
+              onChange={(event) => setAssignTo(event.target.value)}
+            />
+            <button
+              type="button"
+              className="coach-dashboard__button"
+              disabled={selected.size === 0 || !assignTo.trim()}
+              onClick={() => applyBulk({ assignee: assignTo.trim() })}
+            >
+              Assign
+            </button>
+          </>
+        ) : (
+          <button
+            type="button"
+            className="coach-dashboard__button"
+            disabled={selected.size === 0}
+            onClick={() => applyBulk({ assignee: coach.username })}
+          >
+            Assign to me
+          </button>
+        )}
+        <button
+          type="button"
+          className="coach-dashboard__button"
+          disabled={selected.size === 0}
+          onClick={() => applyBulk({ status: 'resolved' })}
+        >
+          Resolve
+        </button>
+        <button
+          type="button"
+          className="coach-dashboard__button"
+          disabled={selected.size === 0}
+          onClick={() => applyBulk({ status: 'closed' })}
+        >
+          Close
+        </button>
+      </div>
+
+      {notice && (
+        <p className="coach-dashboard__notice" role="status">
+          {notice}
+        </p>
+      )}
+      {error && (
+        <p className="coach-dashboard__error" role="alert">
+          {error}
+        </p>
+      )}
+
+      <table className="coach-dashboard__table" aria-busy={isLoading}>
+        <thead>
+          <tr>
+            <th scope="col">
+              <input type="checkbox" aria-label="Select all" checked={allSelected} onChange={toggleAll} />
+            </th>
+            {columns.map((column) => (
+              <th
+                key={column.key}
+                scope="col"
+                aria-sort={sort.key === column.key ? (sort.ascending ? 'ascending' : 'descending') : 'none'}
+              >
+                <button type="button" className="coach-dashboard__sort" onClick={() => toggleSort(column.key)}>
+                  {column.label}
+                </button>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {sortedTickets.map((ticket) => (
+            <tr
+              key={ticket.id}
+              className={
+                needsAttention(ticket) ? 'coach-dashboard__row coach-dashboard__row--attention' : 'coach-dashboard__row'
+              }
+            >
+              <td>
+                <input
+                  type="checkbox"
+                  aria-label={`Select ${ticket.topic}`}
+                  checked={selected.has(ticket.id)}
+                  onChange={() => toggleSelected(ticket.id)}
+                />
+              </td>
+              <td>{ticket.priority}</td>
+              <td>{ticket.urgency === 'urgent' ? 'Urgent' : 'Normal'}</td>
+              <td>
+                <button type="button" className="coach-dashboard__link-button" onClick={() => setActiveId(ticket.id)}>
+                  {ticket.topic}
+                </button>
+                {ticket.category !== 'general' && (
+                  <span className="coach-dashboard__category">{categoryLabels[ticket.category]}</span>
+                )}
+              </td>
+              <td>
+                <time dateTime={ticket.createdAt}>{formatAge(ticket.createdAt, now)}</time>
+                {ticket.overdue && <span className="coach-dashboard__overdue">Overdue</span>}
+              </td>
+              <td>{statusLabels[ticket.status]}</td>
+              <td>{ticket.assignee ?? 'Unassigned'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {!isLoading && tickets.length === 0 && (
+        <p className="coach-dashboard__empty">
+          {view === 'triage' ? 'No urgent requests are waiting for a coach.' : 'No requests match these filters.'}
+        </p>
+      )}
+
+      {nextCursor && (
+        <button type="button" className="coach-dashboard__button" disabled={isLoading} onClick={loadMore}>
+          Load more
+        </button>
+      )}
+
+      <AvailabilityPanel token={token} username={coach.username} onFailure={handleFailure} />
+
+      {activeTicket && (
+        <TicketDrawer
+          ticket={activeTicket}
+          token={token}
+          onClose={closeDrawer}
+          onUpdated={replaceTicket}
+          onFailure={handleFailure}
+        />
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,144 @@
+import type { JSX } from 'react';
+import { useEffect, useRef, useState } from 'react';
+import { useTranslation } from '../i18n';
+import { fetchFaqArticle, recordFaqOpened, searchFaq } from '../services/faq';
+import type { FaqArticle, FaqSuggestion } from '../types/support';
+import './FaqSuggestions.css';
+
+// Searches once the candidate pauses, and only once there is enough to go on.
+const searchDelayMs = 300;
+const minQueryLength = 3;
+
+interface FaqSuggestionsProps {
+  /** What the candidate has typed into the topic and message so far. */
+  query: string;
+  /** API to search; defaults to the one next to `VITE_SUPPORT_API_URL`. */
+  apiUrl?: string;
+  /** Called whenever an article is expanded; each article counts as opened once per visit. */
+  onOpen: (articleId: string) => void;
+}
+
+type ArticleState = FaqArticle | 'loading' | 'failed';
+
+function ArticleBody({ article }: { article: FaqArticle }): JSX.Element {
+  return (
+    <div className="faq-suggestions__article" lang={article.locale}>
+      {article.blocks.map((block, index) => {
+        if (block.type === 'list') {
+          return (
+            <ul key={index}>
+              {block.items.map((item, position) => (
+                <li key={position}>{item}</li>
+              ))}
+            </ul>
+          );
+        }
+        return block.type === 'heading' ? <h4 key={index}>{block.text}</h4> : <p key={index}>{block.text}</p>;
+      })}
+    </div>
+  );
+}
+
+/**
+ * Help articles that may answer the candidate's question before they send it.
+ * Suggestions are a shortcut, so search and loading failures stay quiet.
+ */
+export default function FaqSuggestions({ query, apiUrl, onOpen }: FaqSuggestionsProps): JSX.Element | null {
+  const { locale, t } = useTranslation();
+  const [suggestions, setSuggestions] = useState<FaqSuggestion[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [articles, setArticles] = useState<Record<string, ArticleState>>({});
+  const opened = useRef(new Set<string>());
+
+  useEffect(() => {
+    if (query.trim().length < minQueryLength) {
+      setSuggestions([]);
+      return undefined;
+    }
+    const controller = new AbortController();
+    const timer = window.setTimeout(() => {
+      searchFaq(query, locale, apiUrl, controller.signal).then(setSuggestions, () => {
+        if (!controller.signal.aborted) {
+          setSuggestions([]);
+        }
+      });
+    }, searchDelayMs);
+    return () => {
+      window.clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, locale, apiUrl]);
+
+  // Articles are cached per language, so switching language loads the translations.
+  const articleKey = (id: string) => `${locale}/${id}`;
+
+  const toggle = async (suggestion: FaqSuggestion) => {
+    if (expandedId === suggestion.id) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(suggestion.id);
+    onOpen(suggestion.id);
+    if (!opened.current.has(suggestion.id)) {
+      opened.current.add(suggestion.id);
+      void recordFaqOpened(suggestion.id, apiUrl);
+    }
+
+    const key = articleKey(suggestion.id);
+    const current = articles[key];
+    if (current && current !== 'failed') {
+      return;
+    }
+    setArticles((prev) => ({ ...prev, [key]: 'loading' }));
+    try {
+      const article = await fetchFaqArticle(suggestion.id, locale, apiUrl);
+      setArticles((prev) => ({ ...prev, [key]: article }));
+    } catch {
+      setArticles((prev) => ({ ...prev, [key]: 'failed' }));
+    }
+  };
+
+  if (suggestions.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="faq-suggestions" aria-labelledby="faq-suggestions-title">
+      <h3 className="faq-suggestions__title" id="faq-suggestions-title">
+        {t('faq.title')}
+      </h3>
+      <ul className="faq-suggestions__list">
+        {suggestions.map((suggestion) => {
+          const isExpanded = expandedId === suggestion.id;
+          const article = articles[articleKey(suggestion.id)];
+          return (
+            <li key={suggestion.id}>
+              <button
+                type="button"
+                className="faq-suggestions__toggle"
+                aria-expanded={isExpanded}
+                aria-controls={`faq-article-${suggestion.id}`}
+                onClick={() => void toggle(suggestion)}
+              >
+                {suggestion.title}
+              </button>
+              {!isExpanded && suggestion.summary && <p className="faq-suggestions__summary">{suggestion.summary}</p>}
+              {isExpanded && (
+                <div id={`faq-article-${suggestion.id}`}>
+                  {article === 'loading' && <p className="faq-suggestions__summary">{t('faq.loading')}</p>}
+                  {article === 'failed' && <p className="faq-suggestions__summary">{t('faq.loadFailed')}</p>}
+                  {article && typeof article === 'object' && (
+                    <>
+                      <ArticleBody article={article} />
+                      <p className="faq-suggestions__summary">{t('faq.stillNeedHelp')}</p>
+                    </>
+                  )}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+}
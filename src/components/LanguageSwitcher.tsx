@@ -0,0 +1,28 @@
+import type { JSX } from 'react';
+import { isSupportedLocale, localeNames, supportedLocales } from '../../shared/locales';
+import { setLocale, useTranslation } from '../i18n';
+import './LanguageSwitcher.css';
+
+export default function LanguageSwitcher(): JSX.Element {
+  const { locale, t } = useTranslation();
+
+  return (
+    <label className="language-switcher">
+      {t('language.label')}
+      <select
+        value={locale}
+        onChange={(event) => {
+          if (isSupportedLocale(event.target.value)) {
+            setLocale(event.target.value);
+          }
+        }}
+      >
+        {supportedLocales.map((option) => (
+          <option key={option} value={option} lang={option}>
+            {localeNames[option]}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,88 @@
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { vi } from 'vitest';
+import MessageThread from './MessageThread';
+import { markMessagesRead, postMessage } from '../services/support';
+
+vi.mock('../services/support', () => ({
+  markMessagesRead: vi.fn(),
+  postMessage: vi.fn()
+}));
+
+const coachMessage = {
+  id: 'm1',
+  role: 'coach' as const,
+  author: 'Grace',
+  body: 'Which company is the interview with?',
+  createdAt: '2024-01-02T10:00:00.000Z'
+};
+
+describe('MessageThread', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(markMessagesRead).mockResolvedValue({
+      messages: [coachMessage],
+      readMarkers: { candidate: coachMessage.createdAt, coach: null },
+      unread: 0
+    });
+  });
+
+  it('marks unread coach replies as read', async () => {
+    render(
+      <MessageThread requestId="abc123" accessToken="secret" messages={[coachMessage]} unread={1} closed={false} />
+    );
+
+    expect(screen.getByText('Grace')).toBeInTheDocument();
+    await waitFor(() => expect(markMessagesRead).toHaveBeenCalledWith('abc123', 'secret', 'm1'));
+  });
+
+  it('validates the reply before sending', async () => {
+    render(<MessageThread requestId="abc123" accessToken="secret" messages={[]} unread={0} closed={false} />);
+
+    await userEvent.click(screen.getByRole('button', { name: /send reply/i }));
+
+    expect(await screen.findByText(/write a little more/i)).toBeInTheDocument();
+    expect(postMessage).not.toHaveBeenCalled();
+    expect(markMessagesRead).not.toHaveBeenCalled();
+  });
+
+  it('appends the sent reply to the thread', async () => {
+    vi.mocked(postMessage).mockResolvedValue({
+      id: 'm2',
+      role: 'candidate',
+      author: 'Ada Lovelace',
+      body: 'It is with Acme.',
+      createdAt: '2024-01-02T11:00:00.000Z'
+    });
+
+    render(
+      <MessageThread requestId="abc123" accessToken="secret" messages={[coachMessage]} unread={0} closed={false} />
+    );
+
+    await userEvent.type(screen.getByLabelText(/reply to your coach/i), 'It is with Acme.');
+    await userEvent.click(screen.getByRole('button', { name: /send reply/i }));
+
+    expect(await screen.findByText('It is with Acme.')).toBeInTheDocument();
+    expect(screen.getByText('You')).toBeInTheDocument();
+    expect(postMessage).toHaveBeenCalledWith('abc123', 'secret', 'It is with Acme.');
+    expect(screen.getByLabelText(/reply to your coach/i)).toHaveValue('');
+  });
+
+  it('shows send failures inline', async () => {
+    vi.mocked(postMessage).mockRejectedValue(new Error('This request is closed.'));
+
+    render(<MessageThread requestId="abc123" accessToken="secret" messages={[]} unread={0} closed={false} />);
+
+    await userEvent.type(screen.getByLabelText(/reply to your coach/i), 'Still there?');
+    await userEvent.click(screen.getByRole('button', { name: /send reply/i }));
+
+    expect(await screen.findByRole('status')).toHaveTextContent(/request is closed/i);
+  });
+
+  it('hides the reply form once the request is closed', () => {
+    render(<MessageThread requestId="abc123" accessToken="secret" messages={[coachMessage]} unread={0} closed />);
+
+    expect(screen.queryByLabelText(/reply to your coach/i)).not.toBeInTheDocument();
+    expect(screen.getByText(/this request is closed/i)).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,139 @@
+import type { JSX } from 'react';
+import { ChangeEvent, FormEvent, useEffect, useMemo, useState } from 'react';
+import { z } from 'zod';
+import { markMessagesRead, postMessage } from '../services/support';
+import type { ConversationMessage } from '../types/support';
+import './MessageThread.css';
+
+const schema = z.object({
+  body: z.string().trim().min(2, 'Write a little more before sending').max(5000, 'Keep messages under 5000 characters')
+});
+
+interface MessageThreadProps {
+  requestId: string;
+  accessToken: string;
+  messages: ConversationMessage[];
+  /** Coach messages the candidate has not seen yet. */
+  unread: number;
+  /** Closed requests show the history but no longer accept replies. */
+  closed: boolean;
+}
+
+function formatTimestamp(value: string): string {
+  return new Date(value).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+export default function MessageThread({
+  requestId,
+  accessToken,
+  messages: initialMessages,
+  unread,
+  closed
+}: MessageThreadProps): JSX.Element {
+  const [messages, setMessages] = useState(initialMessages);
+  const [body, setBody] = useState('');
+  const [touched, setTouched] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+  const [statusType, setStatusType] = useState<'success' | 'error' | null>(null);
+
+  useEffect(() => {
+    setMessages(initialMessages);
+  }, [initialMessages]);
+
+  // Opening the page counts as reading the thread; a failure only leaves the unread count stale.
+  useEffect(() => {
+    const latest = initialMessages[initialMessages.length - 1];
+    if (unread > 0 && latest) {
+      markMessagesRead(requestId, accessToken, latest.id).catch(() => undefined);
+    }
+  }, [requestId, accessToken, initialMessages, unread]);
+
+  const error = useMemo(() => {
+    const result = schema.safeParse({ body });
+    return result.success ? undefined : result.error.flatten().fieldErrors.body?.[0];
+  }, [body]);
+
+  const showError = touched || statusType === 'error' ? error : undefined;
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setStatusMessage(null);
+    setStatusType(null);
+
+    const result = schema.safeParse({ body });
+    if (!result.success) {
+      setTouched(true);
+      setStatusMessage('Please fix your message before sending.');
+      setStatusType('error');
+      return;
+    }
+
+    try {
+      setIsSending(true);
+      const message = await postMessage(requestId, accessToken, result.data.body);
+      setMessages((prev) => [...prev, message]);
+      setBody('');
+      setTouched(false);
+      setStatusMessage('Message sent. We will email you when a coach replies.');
+      setStatusType('success');
+    } catch (reason) {
+      setStatusMessage(reason instanceof Error ? reason.message : 'Something went wrong sending your message.');
+      setStatusType('error');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="message-thread">
+      <h3>Conversation</h3>
+      {messages.length === 0 ? (
+        <p className="message-thread__empty">No replies yet. We will email you as soon as a coach responds.</p>
+      ) : (
+        <ol className="message-thread__messages">
+          {messages.map((message) => (
+            <li key={message.id} className={`message-thread__message message-thread__message--${message.role}`}>
+              <p className="message-thread__meta">
+                <strong>{message.role === 'candidate' ? 'You' : message.author}</strong> ·{' '}
+                <time dateTime={message.createdAt}>{formatTimestamp(message.createdAt)}</time>
+              </p>
+              <p>{message.body}</p>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {closed ? (
+        <p className="message-thread__empty">This request is closed. Send a new request if you need more help.</p>
+      ) : (
+        <form className="message-thread__form" onSubmit={handleSubmit} noValidate>
+          <label htmlFor="reply">Reply to your coach</label>
+          <textarea
+            id="reply"
+            name="reply"
+            rows={4}
+            value={body}
+            onChange={(event: ChangeEvent<HTMLTextAreaElement>) => setBody(event.target.value)}
+            onBlur={() => setTouched(true)}
+            aria-invalid={Boolean(showError)}
+            aria-describedby="reply-error"
+          />
+          {showError && (
+            <p className="message-thread__error" id="reply-error">
+              {showError}
+            </p>
+          )}
+          <button type="submit" disabled={isSending} className="message-thread__submit">
+            {isSending ? 'Sending...' : 'Send reply'}
+          </button>
+          {statusMessage && (
+            <div className={`message-thread__status message-thread__status--${statusType}`} role="status">
+              {statusMessage}
+            </div>
+          )}
+        </form>
+      )}
+    </div>
+  );
+}
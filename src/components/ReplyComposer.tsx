@@ -0,0 +1,144 @@
+import type { JSX } from 'react';
+import { FormEvent, useEffect, useState } from 'react';
+import { fillTemplate } from '../../shared/replyTemplates';
+import { CoachAuthError, listTemplates, updateTicket } from '../services/coach';
+import type { ReplyTemplate, SupportTicket } from '../types/support';
+import './ReplyComposer.css';
+
+interface ReplyComposerProps {
+  ticket: SupportTicket;
+  token: string;
+  onSent: (ticket: SupportTicket) => void;
+  onFailure: (reason: unknown, fallback: string) => void;
+}
+
+function groupByCategory(templates: ReplyTemplate[]): [string, ReplyTemplate[]][] {
+  const groups = new Map<string, ReplyTemplate[]>();
+  for (const template of templates) {
+    groups.set(template.category, [...(groups.get(template.category) ?? []), template]);
+  }
+  return [...groups];
+}
+
+/**
+ * Writes a reply to the candidate, optionally starting from a saved template.
+ * An inserted template can be edited before sending and still counts as used.
+ */
+export default function ReplyComposer({ ticket, token, onSent, onFailure }: ReplyComposerProps): JSX.Element {
+  const [templates, setTemplates] = useState<ReplyTemplate[]>([]);
+  const [selectedId, setSelectedId] = useState('');
+  const [insertedId, setInsertedId] = useState<string | null>(null);
+  const [reply, setReply] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSending, setIsSending] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    listTemplates(token).then(
+      (items) => {
+        if (!cancelled) {
+          setTemplates(items);
+        }
+      },
+      (reason: unknown) => {
+        if (!cancelled) {
+          onFailure(reason, 'Could not load reply templates.');
+        }
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [token, onFailure]);
+
+  const insertTemplate = () => {
+    const template = templates.find((candidate) => candidate.id === selectedId);
+    if (!template) {
+      return;
+    }
+    const filled = fillTemplate(template.body, ticket);
+    setReply((current) => (current.trim() ? `${current.trimEnd()}\n\n${filled}` : filled));
+    setInsertedId(template.id);
+  };
+
+  const sendReply = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+    setIsSending(true);
+    try {
+      const updated = await updateTicket(token, ticket.id, {
+        reply: reply.trim(),
+        ...(insertedId && { templateId: insertedId })
+      });
+      setReply('');
+      setSelectedId('');
+      setInsertedId(null);
+      onSent(updated);
+    } catch (reason) {
+      if (reason instanceof CoachAuthError) {
+        onFailure(reason, 'Could not send the reply.');
+      } else {
+        setError(reason instanceof Error ? reason.message : 'Could not send the reply.');
+      }
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <form className="reply-composer" onSubmit={sendReply} aria-label="Reply to the candidate">
+      {templates.length > 0 && (
+        <div className="reply-composer__templates">
+          <label>
+            Template
+            <select value={selectedId} onChange={(event) => setSelectedId(event.target.value)}>
+              <option value="">Choose a template…</option>
+              {groupByCategory(templates).map(([category, items]) => (
+                <optgroup key={category} label={category}>
+                  {items.map((template) => (
+                    <option key={template.id} value={template.id}>
+                      {template.title}
+                    </option>
+                  ))}
+                </optgroup>
+              ))}
+            </select>
+          </label>
+          <button
+            type="button"
+            className="coach-dashboard__link-button"
+            onClick={insertTemplate}
+            disabled={!selectedId}
+          >
+            Insert
+          </button>
+        </div>
+      )}
+
+      <label>
+        Reply
+        <textarea
+          rows={5}
+          value={reply}
+          onChange={(event) => {
+            setReply(event.target.value);
+            // A cleared reply is a fresh start, not an edited template.
+            if (!event.target.value.trim()) {
+              setInsertedId(null);
+            }
+          }}
+        />
+      </label>
+
+      {error && (
+        <p className="coach-dashboard__error" role="alert">
+          {error}
+        </p>
+      )}
+
+      <button type="submit" className="coach-dashboard__button" disabled={isSending || !reply.trim()}>
+        {isSending ? 'Sending…' : 'Send reply'}
+      </button>
+    </form>
+  );
+}
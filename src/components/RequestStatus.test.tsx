@@ -0,0 +1,78 @@
+import { render, screen } from '@testing-library/react';
+import { vi } from 'vitest';
+import RequestStatus from './RequestStatus';
+import { fetchRequestStatus } from '../services/support';
+
+vi.mock('../services/support', () => ({
+  fetchRequestStatus: vi.fn(),
+  markMessagesRead: vi.fn().mockResolvedValue({}),
+  postMessage: vi.fn()
+}));
+
+const view = {
+  id: 'abc123',
+  topic: 'Mock interviews',
+  message: 'Help me prepare for system design.',
+  urgency: 'normal' as const,
+  category: 'system_design' as const,
+  company: 'Acme',
+  interviewDate: '2024-02-01',
+  format: 'live_mock' as const,
+  status: 'in_progress' as const,
+  createdAt: '2024-01-01T09:00:00.000Z',
+  updatedAt: '2024-01-02T10:00:00.000Z',
+  messages: [
+    {
+      id: 'm1',
+      role: 'coach' as const,
+      author: 'Grace',
+      body: 'Which company is the interview with?',
+      createdAt: '2024-01-02T10:00:00.000Z'
+    }
+  ],
+  attachments: [],
+  unread: 1,
+  session: null
+};
+
+describe('RequestStatus', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('shows the status and coach replies', async () => {
+    vi.mocked(fetchRequestStatus).mockResolvedValue(view);
+
+    render(<RequestStatus id="abc123" accessToken="secret" />);
+
+    expect(await screen.findByText('A coach is working on it')).toBeInTheDocument();
+    expect(screen.getByText('Which company is the interview with?')).toBeInTheDocument();
+    expect(screen.getByText('Grace')).toBeInTheDocument();
+    expect(screen.getByText('System design interview')).toBeInTheDocument();
+    expect(screen.getByText('Acme')).toBeInTheDocument();
+    expect(fetchRequestStatus).toHaveBeenCalledWith('abc123', 'secret');
+  });
+
+  it('says when there are no replies yet', async () => {
+    vi.mocked(fetchRequestStatus).mockResolvedValue({ ...view, status: 'open', messages: [] });
+
+    render(<RequestStatus id="abc123" accessToken="secret" />);
+
+    expect(await screen.findByText(/no replies yet/i)).toBeInTheDocument();
+  });
+
+  it('reports lookup failures', async () => {
+    vi.mocked(fetchRequestStatus).mockRejectedValue(new Error('We could not find that request.'));
+
+    render(<RequestStatus id="abc123" accessToken="wrong" />);
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(/could not find that request/i);
+  });
+
+  it('does not call the API without an access token', () => {
+    render(<RequestStatus id="abc123" accessToken={null} />);
+
+    expect(screen.getByRole('alert')).toHaveTextContent(/missing its access code/i);
+    expect(fetchRequestStatus).not.toHaveBeenCalled();
+  });
+});
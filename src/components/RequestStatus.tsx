@@ -0,0 +1,131 @@
+import type { JSX } from 'react';
+import { Fragment, useEffect, useState } from 'react';
+import { Link } from '../routing';
+import { downloadAttachment, fetchRequestStatus } from '../services/support';
+import AttachmentList from './AttachmentList';
+import MessageThread from './MessageThread';
+import SessionBooking from './SessionBooking';
+import { interviewDetails } from './ticketLabels';
+import type { RequestStatusView, SupportRequestStatus } from '../types/support';
+import './RequestStatus.css';
+
+interface RequestStatusProps {
+  id: string;
+  accessToken: string | null;
+}
+
+const statusLabels: Record<SupportRequestStatus, string> = {
+  open: 'Waiting for a coach',
+  in_progress: 'A coach is working on it',
+  resolved: 'Resolved',
+  closed: 'Closed'
+};
+
+function formatTimestamp(value: string): string {
+  return new Date(value).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+export default function RequestStatus({ id, accessToken }: RequestStatusProps): JSX.Element {
+  const [view, setView] = useState<RequestStatusView | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!accessToken) {
+      setError('This link is missing its access code. Open the full link from your confirmation.');
+      return;
+    }
+
+    let cancelled = false;
+    setView(null);
+    setError(null);
+    fetchRequestStatus(id, accessToken)
+      .then((result) => {
+        if (!cancelled) {
+          setView(result);
+        }
+      })
+      .catch((reason: unknown) => {
+        if (!cancelled) {
+          setError(reason instanceof Error ? reason.message : 'Something went wrong loading your request.');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id, accessToken]);
+
+  if (error) {
+    return (
+      <section className="request-status">
+        <p className="request-status__error" role="alert">
+          {error}
+        </p>
+        <Link to="/">Send a new request</Link>
+      </section>
+    );
+  }
+
+  if (!view) {
+    return (
+      <section className="request-status" aria-busy="true">
+        <p>Loading your request…</p>
+      </section>
+    );
+  }
+
+  return (
+    <section className="request-status">
+      <header className="request-status__header">
+        <h2>{view.topic}</h2>
+        <span className={`request-status__badge request-status__badge--${view.status}`}>
+          {statusLabels[view.status]}
+        </span>
+      </header>
+
+      <dl className="request-status__meta">
+        <dt>Reference</dt>
+        <dd>#{view.id}</dd>
+        <dt>Sent</dt>
+        <dd>
+          <time dateTime={view.createdAt}>{formatTimestamp(view.createdAt)}</time>
+        </dd>
+        <dt>Last update</dt>
+        <dd>
+          <time dateTime={view.updatedAt}>{formatTimestamp(view.updatedAt)}</time>
+        </dd>
+        {interviewDetails(view).map(([label, value]) => (
+          <Fragment key={label}>
+            <dt>{label}</dt>
+            <dd>{value}</dd>
+          </Fragment>
+        ))}
+      </dl>
+
+      <blockquote className="request-status__original">{view.message}</blockquote>
+
+      <AttachmentList
+        attachments={view.attachments}
+        download={(attachment) =>
+          downloadAttachment(view.id, attachment.id, { 'X-Access-Token': accessToken as string })
+        }
+      />
+
+      <SessionBooking
+        requestId={view.id}
+        accessToken={accessToken as string}
+        session={view.session}
+        disabled={view.status === 'resolved' || view.status === 'closed'}
+        onChange={(session) => setView({ ...view, session })}
+      />
+
+      <MessageThread
+        requestId={view.id}
+        accessToken={accessToken as string}
+        messages={view.messages}
+        unread={view.unread}
+        closed={view.status === 'closed'}
+      />
+    </section>
+  );
+}
@@ -0,0 +1,83 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { vi } from 'vitest';
+import SessionBooking from './SessionBooking';
+import { bookSession, cancelSession, fetchOpenSlots } from '../services/support';
+
+vi.mock('../services/support', () => ({
+  bookSession: vi.fn(),
+  cancelSession: vi.fn(),
+  downloadSessionInvite: vi.fn(),
+  fetchOpenSlots: vi.fn()
+}));
+
+const slot = {
+  id: 's1',
+  coachName: 'Grace',
+  startsAt: '2030-03-05T13:00:00.000Z',
+  endsAt: '2030-03-05T14:00:00.000Z'
+};
+
+const booked = { ...slot, timeZone: 'UTC', bookedAt: '2030-03-01T09:00:00.000Z' };
+
+describe('SessionBooking', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("books an open slot in the candidate's time zone", async () => {
+    vi.mocked(fetchOpenSlots).mockResolvedValue([slot]);
+    vi.mocked(bookSession).mockResolvedValue(booked);
+    const onChange = vi.fn();
+
+    render(
+      <SessionBooking requestId="abc123" accessToken="secret" session={null} disabled={false} onChange={onChange} />
+    );
+
+    await userEvent.click(screen.getByRole('button', { name: /book a session/i }));
+    expect(await screen.findByText(/with Grace/)).toBeInTheDocument();
+    await userEvent.click(screen.getByRole('button', { name: 'Book' }));
+
+    const zone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    expect(bookSession).toHaveBeenCalledWith('abc123', 'secret', 's1', zone);
+    expect(onChange).toHaveBeenCalledWith(booked);
+  });
+
+  it('refreshes the open slots when a booking is refused', async () => {
+    vi.mocked(fetchOpenSlots).mockResolvedValueOnce([slot]).mockResolvedValueOnce([]);
+    vi.mocked(bookSession).mockRejectedValue(new Error('This slot was just booked by someone else.'));
+
+    render(
+      <SessionBooking requestId="abc123" accessToken="secret" session={null} disabled={false} onChange={vi.fn()} />
+    );
+
+    await userEvent.click(screen.getByRole('button', { name: /book a session/i }));
+    await userEvent.click(await screen.findByRole('button', { name: 'Book' }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(/booked by someone else/i);
+    expect(screen.getByText(/no sessions are open/i)).toBeInTheDocument();
+  });
+
+  it('cancels a booked session', async () => {
+    vi.mocked(cancelSession).mockResolvedValue();
+    const onChange = vi.fn();
+
+    render(
+      <SessionBooking requestId="abc123" accessToken="secret" session={booked} disabled={false} onChange={onChange} />
+    );
+
+    expect(screen.getByText('Grace')).toBeInTheDocument();
+    await userEvent.click(screen.getByRole('button', { name: /cancel session/i }));
+
+    expect(cancelSession).toHaveBeenCalledWith('abc123', 'secret');
+    expect(onChange).toHaveBeenCalledWith(null);
+  });
+
+  it('offers nothing on closed requests without a session', () => {
+    const { container } = render(
+      <SessionBooking requestId="abc123" accessToken="secret" session={null} disabled onChange={vi.fn()} />
+    );
+
+    expect(container).toBeEmptyDOMElement();
+  });
+});
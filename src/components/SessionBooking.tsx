@@ -0,0 +1,149 @@
+import type { JSX } from 'react';
+import { useState } from 'react';
+import { bookSession, cancelSession, downloadSessionInvite, fetchOpenSlots } from '../services/support';
+import type { BookedSession, OpenSlot } from '../types/support';
+import { saveBlob } from './AttachmentList';
+import './SessionBooking.css';
+
+interface SessionBookingProps {
+  requestId: string;
+  accessToken: string;
+  session: BookedSession | null;
+  /** Resolved and closed requests can no longer book sessions. */
+  disabled: boolean;
+  onChange: (session: BookedSession | null) => void;
+}
+
+// Slots are stored in UTC; the browser's zone is what the candidate expects to see and is sent with each booking.
+const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+function formatSlot(slot: OpenSlot): string {
+  const start = new Date(slot.startsAt).toLocaleString(undefined, {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+  const end = new Date(slot.endsAt).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+  return `${start} – ${end}`;
+}
+
+export default function SessionBooking({
+  requestId,
+  accessToken,
+  session,
+  disabled,
+  onChange
+}: SessionBookingProps): JSX.Element | null {
+  const [slots, setSlots] = useState<OpenSlot[] | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (disabled && !session) {
+    return null;
+  }
+
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (reason) {
+      setError(reason instanceof Error ? reason.message : fallback);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const showSlots = () =>
+    run(async () => {
+      setSlots(await fetchOpenSlots(requestId, accessToken));
+    }, 'Unable to load available sessions');
+
+  const book = (slot: OpenSlot) =>
+    run(async () => {
+      try {
+        onChange(await bookSession(requestId, accessToken, slot.id, timeZone));
+        setSlots(null);
+      } catch (reason) {
+        // Someone may have taken the slot meanwhile; show what is still free.
+        setSlots(await fetchOpenSlots(requestId, accessToken));
+        throw reason;
+      }
+    }, 'Unable to book this session');
+
+  const cancel = () =>
+    run(async () => {
+      await cancelSession(requestId, accessToken);
+      onChange(null);
+    }, 'Unable to cancel the session');
+
+  const addToCalendar = () =>
+    run(async () => {
+      saveBlob(await downloadSessionInvite(requestId, accessToken), 'coaching-session.ics');
+    }, 'Unable to download the calendar invite');
+
+  return (
+    <section className="session-booking" aria-labelledby="session-booking-title">
+      <h3 id="session-booking-title">Coaching session</h3>
+
+      {session ? (
+        <div className="session-booking__booked">
+          <p>
+            Booked with <strong>{session.coachName}</strong>:{' '}
+            <time dateTime={session.startsAt}>{formatSlot(session)}</time>
+          </p>
+          {!disabled && (
+            <div className="session-booking__actions">
+              <button type="button" onClick={addToCalendar} disabled={isBusy}>
+                Add to calendar
+              </button>
+              <button type="button" onClick={showSlots} disabled={isBusy}>
+                Reschedule
+              </button>
+              <button type="button" onClick={cancel} disabled={isBusy}>
+                Cancel session
+              </button>
+            </div>
+          )}
+        </div>
+      ) : (
+        slots === null && (
+          <button type="button" onClick={showSlots} disabled={isBusy}>
+            Book a session with a coach
+          </button>
+        )
+      )}
+
+      {slots !== null && (
+        <div className="session-booking__slots">
+          <p className="session-booking__zone">Times are shown in {timeZone}.</p>
+          {slots.length === 0 ? (
+            <p>No sessions are open in the next two weeks. Check back soon or message your coach.</p>
+          ) : (
+            <ul>
+              {slots.map((slot) => (
+                <li key={slot.id}>
+                  <time dateTime={slot.startsAt}>{formatSlot(slot)}</time> with {slot.coachName}{' '}
+                  <button type="button" onClick={() => book(slot)} disabled={isBusy || slot.id === session?.id}>
+                    {session ? 'Move here' : 'Book'}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <button type="button" className="session-booking__dismiss" onClick={() => setSlots(null)}>
+            Hide times
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <p className="session-booking__error" role="alert">
+          {error}
+        </p>
+      )}
+    </section>
+  );
+}
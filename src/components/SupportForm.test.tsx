@@ -1,16 +1,32 @@
-import { render, screen, waitFor } from '@testing-library/react';
+import { act, render, screen, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { vi } from 'vitest';
+import { setLocale } from '../i18n';
 import SupportForm from './SupportForm';
-import { submitSupportRequest } from '../services/support';
+import { fetchFaqArticle, recordFaqOpened, reportFaqDeflection, searchFaq } from '../services/faq';
+import { DuplicateSubmissionError, submitSupportRequest, TransientSubmissionError } from '../services/support';
 
-vi.mock('../services/support', () => ({
+vi.mock('../services/support', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../services/support')>()),
   submitSupportRequest: vi.fn()
 }));
 
+vi.mock('../services/faq', () => ({
+  fetchFaqArticle: vi.fn(),
+  recordFaqOpened: vi.fn(),
+  reportFaqDeflection: vi.fn(),
+  searchFaq: vi.fn()
+}));
+
 describe('SupportForm', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    window.localStorage.clear();
+    vi.mocked(searchFaq).mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
   });
 
   it('shows inline errors when submitting empty form', async () => {
@@ -24,8 +40,27 @@ describe('SupportForm', () => {
     expect(screen.getByText(/please add a short summary/i)).toBeInTheDocument();
   });
 
+  it('shows labels and validation messages in the chosen language', async () => {
+    act(() => setLocale('de'));
+
+    try {
+      render(<SupportForm />);
+
+      expect(screen.getByLabelText('Wie können wir helfen?')).toBeInTheDocument();
+      await userEvent.click(screen.getByRole('button', { name: 'Nachricht senden' }));
+
+      expect(await screen.findByText('Sagen Sie uns, wer Sie sind')).toBeInTheDocument();
+      expect(screen.getByText(/bitte korrigieren sie die markierten felder/i)).toBeInTheDocument();
+
+      act(() => setLocale('en'));
+      expect(screen.getByText('Tell us who you are')).toBeInTheDocument();
+    } finally {
+      act(() => setLocale('en'));
+    }
+  });
+
   it('submits successfully when fields are valid', async () => {
-    vi.mocked(submitSupportRequest).mockResolvedValue({ status: 'ok', id: 'abc123' });
+    vi.mocked(submitSupportRequest).mockResolvedValue({ status: 'ok', id: 'abc123', accessToken: 'secret-token' });
 
     render(<SupportForm />);
 
@@ -38,16 +73,27 @@ describe('SupportForm', () => {
     await userEvent.click(screen.getByRole('button', { name: /send message/i }));
 
     await waitFor(() => {
-      expect(submitSupportRequest).toHaveBeenCalledWith({
-        name: 'Ada Lovelace',
-        email: 'ada@example.com',
-        topic: 'Mock interviews',
-        message: 'Help me prepare for system design.',
-        urgency: 'urgent'
-      });
+      expect(submitSupportRequest).toHaveBeenCalledWith(
+        {
+          name: 'Ada Lovelace',
+          email: 'ada@example.com',
+          topic: 'Mock interviews',
+          message: 'Help me prepare for system design.',
+          urgency: 'urgent',
+          category: 'general',
+          format: 'no_preference',
+          locale: 'en'
+        },
+        { website: '', elapsedMs: expect.any(Number) },
+        { files: [], onProgress: expect.any(Function), idempotencyKey: expect.any(String), apiUrl: undefined }
+      );
     });
 
     expect(await screen.findByText(/your request has been queued/i)).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: /track your request/i })).toHaveAttribute(
+      'href',
+      '/requests/abc123#token=secret-token'
+    );
   });
 
   it('reports an error when the API call fails', async () => {
@@ -64,4 +110,225 @@ describe('SupportForm', () => {
 
     expect(await screen.findByText(/network down/i)).toBeInTheDocument();
   });
+
+  it('resends a draft with the same key and points to the original on a duplicate', async () => {
+    vi.mocked(submitSupportRequest)
+      .mockRejectedValueOnce(new Error('Network down'))
+      .mockRejectedValueOnce(
+        new DuplicateSubmissionError('You already sent us this request. A coach will answer it there.', 'abc123', false)
+      );
+
+    render(<SupportForm />);
+
+    await userEvent.type(screen.getByLabelText(/name/i), 'Ada Lovelace');
+    await userEvent.type(screen.getByLabelText(/email/i), 'ada@example.com');
+    await userEvent.type(screen.getByLabelText(/topic/i), 'Mock interviews');
+    await userEvent.type(screen.getByLabelText(/how can we help/i), 'Help me prepare for system design.');
+    await userEvent.click(screen.getByRole('button', { name: /send message/i }));
+    expect(await screen.findByText(/network down/i)).toBeInTheDocument();
+
+    await userEvent.click(screen.getByRole('button', { name: /send message/i }));
+
+    expect(await screen.findByText(/already sent us this request.*reference #abc123/i)).toBeInTheDocument();
+    const [first, second] = vi.mocked(submitSupportRequest).mock.calls;
+    expect(second[2]?.idempotencyKey).toBe(first[2]?.idempotencyKey);
+    expect(screen.getByLabelText(/topic/i)).toHaveValue('Mock interviews');
+  });
+
+  it('saves the draft on this device and restores it on the next visit', async () => {
+    const { unmount } = render(<SupportForm />);
+
+    await userEvent.type(screen.getByLabelText(/topic/i), 'Salary talks');
+    expect(screen.getByText(/draft saved on this device/i)).toBeInTheDocument();
+    unmount();
+
+    render(<SupportForm />);
+
+    expect(screen.getByLabelText(/topic/i)).toHaveValue('Salary talks');
+    expect(screen.getByText(/restored the draft/i)).toBeInTheDocument();
+  });
+
+  it('queues a send that cannot reach the server and retries it when back online', async () => {
+    vi.mocked(submitSupportRequest)
+      .mockRejectedValueOnce(new TransientSubmissionError())
+      .mockResolvedValueOnce({ status: 'ok', id: 'abc123', accessToken: 'secret-token' });
+    // Offline, the form waits for the connection instead of retrying on a timer.
+    const onLine = vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+
+    render(<SupportForm />);
+
+    await userEvent.type(screen.getByLabelText(/name/i), 'Ada Lovelace');
+    await userEvent.type(screen.getByLabelText(/email/i), 'ada@example.com');
+    await userEvent.type(screen.getByLabelText(/topic/i), 'Mock interviews');
+    await userEvent.type(screen.getByLabelText(/how can we help/i), 'Help me prepare for system design.');
+    await userEvent.click(screen.getByRole('button', { name: /send message/i }));
+
+    expect(await screen.findByText(/will be sent as soon as we can reach the server/i)).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /send now/i })).toBeInTheDocument();
+    expect(window.localStorage.getItem('interview-helper.support-pending')).not.toBeNull();
+
+    onLine.mockReturnValue(true);
+    act(() => {
+      window.dispatchEvent(new Event('online'));
+    });
+
+    expect(await screen.findByText(/your request has been queued/i)).toBeInTheDocument();
+    const [first, second] = vi.mocked(submitSupportRequest).mock.calls;
+    expect(second[2]?.idempotencyKey).toBe(first[2]?.idempotencyKey);
+    expect(window.localStorage.getItem('interview-helper.support-pending')).toBeNull();
+    expect(window.localStorage.getItem('interview-helper.support-draft')).toBeNull();
+  });
+
+  it('asks for attachments again when a queued send was left behind by a reload', () => {
+    window.localStorage.setItem(
+      'interview-helper.support-pending',
+      JSON.stringify({
+        values: { topic: 'Resume review' },
+        signals: { website: '', elapsedMs: 5000 },
+        idempotencyKey: 'draft-key-123',
+        attachmentNames: ['resume.pdf'],
+        attempts: 2,
+        queuedAt: '2024-03-01T09:00:00.000Z'
+      })
+    );
+
+    render(<SupportForm />);
+
+    expect(screen.getByText(/attach resume\.pdf again and send it/i)).toBeInTheDocument();
+    expect(screen.getByLabelText(/topic/i)).toHaveValue('Resume review');
+    expect(window.localStorage.getItem('interview-helper.support-pending')).toBeNull();
+  });
+
+  it('validates attachments and sends them with the request', async () => {
+    vi.mocked(submitSupportRequest).mockResolvedValue({ status: 'ok', id: 'abc123', accessToken: 'secret-token' });
+    const user = userEvent.setup({ applyAccept: false });
+    const resume = new File(['%PDF-1.7'], 'resume.pdf', { type: 'application/pdf' });
+    const script = new File(['echo hi'], 'setup.sh', { type: 'text/x-sh' });
+
+    render(<SupportForm />);
+
+    await user.upload(screen.getByLabelText(/attachments/i), [resume, script]);
+    expect(screen.getByText(/setup\.sh is not supported/i)).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: /remove setup\.sh/i }));
+    expect(screen.queryByText(/is not supported/i)).not.toBeInTheDocument();
+    expect(screen.getByText(/resume\.pdf/)).toBeInTheDocument();
+
+    await user.type(screen.getByLabelText(/name/i), 'Ada Lovelace');
+    await user.type(screen.getByLabelText(/email/i), 'ada@example.com');
+    await user.type(screen.getByLabelText(/topic/i), 'Resume review');
+    await user.type(screen.getByLabelText(/how can we help/i), 'Please review my resume before Friday.');
+    await user.click(screen.getByRole('button', { name: /send message/i }));
+
+    await waitFor(() => {
+      expect(submitSupportRequest).toHaveBeenCalledWith(
+        expect.objectContaining({ topic: 'Resume review' }),
+        expect.any(Object),
+        { files: [resume], onProgress: expect.any(Function), idempotencyKey: expect.any(String), apiUrl: undefined }
+      );
+    });
+  });
+
+  it('blocks submissions with too many attachments', async () => {
+    const user = userEvent.setup();
+    const files = ['a', 'b', 'c', 'd'].map((name) => new File(['notes'], `${name}.txt`, { type: 'text/plain' }));
+
+    render(<SupportForm />);
+
+    await user.upload(screen.getByLabelText(/attachments/i), files);
+    await user.click(screen.getByRole('button', { name: /send message/i }));
+
+    expect(screen.getByText(/attach up to 3 files/i)).toBeInTheDocument();
+    expect(submitSupportRequest).not.toHaveBeenCalled();
+  });
+
+  it('asks for interview details only when preparing for a specific interview', async () => {
+    vi.mocked(submitSupportRequest).mockResolvedValue({ status: 'ok', id: 'abc123', accessToken: 'secret-token' });
+    const user = userEvent.setup();
+
+    render(<SupportForm />);
+
+    expect(screen.queryByLabelText(/company/i)).not.toBeInTheDocument();
+
+    await user.selectOptions(screen.getByLabelText(/what are you preparing for/i), 'system_design');
+    await user.type(screen.getByLabelText(/company/i), 'Acme');
+    await user.selectOptions(screen.getByLabelText(/level/i), 'senior');
+    await user.type(screen.getByLabelText(/interview date/i), '2026-05-31');
+    await user.click(screen.getByLabelText(/live mock interview/i));
+    await user.type(screen.getByLabelText(/name/i), 'Ada Lovelace');
+    await user.type(screen.getByLabelText(/email/i), 'ada@example.com');
+    await user.type(screen.getByLabelText(/topic/i), 'Design rounds');
+    await user.type(screen.getByLabelText(/how can we help/i), 'Help me prepare for system design.');
+    await user.click(screen.getByRole('button', { name: /send message/i }));
+
+    await waitFor(() => {
+      expect(submitSupportRequest).toHaveBeenCalledWith(
+        expect.objectContaining({
+          category: 'system_design',
+          company: 'Acme',
+          role: undefined,
+          seniority: 'senior',
+          interviewDate: '2026-05-31',
+          format: 'live_mock'
+        }),
+        expect.any(Object),
+        { files: [], onProgress: expect.any(Function), idempotencyKey: expect.any(String), apiUrl: undefined }
+      );
+    });
+  });
+
+  describe('FAQ suggestions', () => {
+    const suggestion = {
+      id: 'resume-review',
+      title: 'Can a coach review my resume?',
+      summary: 'Yes. Attach your resume to the form.'
+    };
+
+    beforeEach(() => {
+      vi.mocked(searchFaq).mockResolvedValue([suggestion]);
+      vi.mocked(fetchFaqArticle).mockResolvedValue({
+        id: 'resume-review',
+        locale: 'en',
+        title: suggestion.title,
+        blocks: [{ type: 'list', items: ['Up to three files, 5 MB each.'] }]
+      });
+    });
+
+    it('suggests articles while the candidate types and counts leaving after reading one', async () => {
+      const { unmount } = render(<SupportForm />);
+
+      await userEvent.type(screen.getByLabelText(/topic/i), 'Resume');
+      await userEvent.type(screen.getByLabelText(/how can we help/i), 'Can you look at my CV?');
+      await userEvent.click(await screen.findByRole('button', { name: suggestion.title }));
+
+      expect(await screen.findByText('Up to three files, 5 MB each.')).toBeInTheDocument();
+      expect(searchFaq).toHaveBeenLastCalledWith(
+        'Resume\nCan you look at my CV?',
+        'en',
+        undefined,
+        expect.any(AbortSignal)
+      );
+      expect(recordFaqOpened).toHaveBeenCalledWith('resume-review', undefined);
+      expect(reportFaqDeflection).not.toHaveBeenCalled();
+
+      unmount();
+      expect(reportFaqDeflection).toHaveBeenCalledWith('resume-review', undefined);
+    });
+
+    it('does not count a deflection once the request was sent', async () => {
+      vi.mocked(submitSupportRequest).mockResolvedValue({ status: 'ok', id: 'abc123', accessToken: 'secret-token' });
+      const { unmount } = render(<SupportForm />);
+
+      await userEvent.type(screen.getByLabelText(/name/i), 'Ada Lovelace');
+      await userEvent.type(screen.getByLabelText(/email/i), 'ada@example.com');
+      await userEvent.type(screen.getByLabelText(/topic/i), 'Resume review');
+      await userEvent.type(screen.getByLabelText(/how can we help/i), 'Please review my resume before Friday.');
+      await userEvent.click(await screen.findByRole('button', { name: suggestion.title }));
+      await userEvent.click(screen.getByRole('button', { name: /send message/i }));
+      expect(await screen.findByText(/abc123/)).toBeInTheDocument();
+
+      unmount();
+      expect(reportFaqDeflection).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -1,123 +1,400 @@
 import type { JSX } from 'react';
-import { ChangeEvent, FormEvent, useMemo, useState } from 'react';
-import { z } from 'zod';
-import { submitSupportRequest } from '../services/support';
-import type { SupportRequestPayload } from '../types/support';
+import { ChangeEvent, FormEvent, useEffect, useMemo, useRef, useState } from 'react';
+import type { Locale } from '../../shared/locales';
+import {
+  coachingFormats,
+  interviewCategories,
+  seniorityLevels,
+  supportRequestErrors,
+  supportRequestSchema,
+  type SupportRequestErrorCode
+} from '../../shared/supportRequest';
+import { useTranslation, type MessageKey, type Translate } from '../i18n';
+import { Link } from '../routing';
+import {
+  clearDraft,
+  clearPendingSubmission,
+  loadDraft,
+  loadPendingSubmission,
+  retryDelayMs,
+  saveDraft,
+  savePendingSubmission,
+  type PendingSubmission
+} from '../services/drafts';
+import { reportFaqDeflection } from '../services/faq';
+import {
+  DuplicateSubmissionError,
+  SubmissionError,
+  submitSupportRequest,
+  TransientSubmissionError
+} from '../services/support';
+import type { SupportFormValues, SupportResponse } from '../types/support';
+import FaqSuggestions from './FaqSuggestions';
 import './SupportForm.css';
 
-const schema = z.object({
-  name: z.string().min(2, 'Tell us who you are'),
-  email: z.string().email('Provide a valid email so we can reply'),
-  topic: z.string().min(3, 'Please add a short summary'),
-  message: z.string().min(10, 'Let us know a bit more (10 characters minimum)'),
-  urgency: z.enum(['normal', 'urgent'])
-});
+// Mirrors the API defaults (ATTACHMENT_MAX_FILES, ATTACHMENT_MAX_BYTES); the server has the final say.
+const maxAttachments = 3;
+const maxAttachmentBytes = 5 * 1024 * 1024;
+const acceptedExtensions = ['.pdf', '.docx', '.txt', '.md', '.png', '.jpg', '.jpeg'];
 
-type FieldName = keyof SupportRequestPayload;
+function formatSize(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+}
+
+function validateAttachments(files: File[], t: Translate): string | undefined {
+  if (files.length > maxAttachments) {
+    return t('attachments.tooMany', { count: maxAttachments });
+  }
+  const wrongType = files.find(
+    (file) => !acceptedExtensions.some((extension) => file.name.toLowerCase().endsWith(extension))
+  );
+  if (wrongType) {
+    return t('attachments.unsupported', { name: wrongType.name });
+  }
+  const tooLarge = files.find((file) => file.size > maxAttachmentBytes);
+  if (tooLarge) {
+    return t('attachments.tooLarge', { name: tooLarge.name, size: formatSize(maxAttachmentBytes) });
+  }
+  return undefined;
+}
+
+type FieldName = keyof SupportFormValues;
+
+type FieldErrors = Partial<Record<FieldName, SupportRequestErrorCode>>;
 
-type FieldErrors = Partial<Record<FieldName, string>>;
+// Inputs hold strings; `supportRequestSchema` turns blanks into missing fields.
+type FormValues = SupportFormValues;
 
-const defaultValues: SupportRequestPayload = {
+type StatusType = 'success' | 'notice' | 'pending' | 'error';
+
+// Kept as a catalog key rather than text so the message follows a language switch; `text` is the API's own words.
+type StatusMessage = { key: MessageKey; values?: Record<string, string | number> } | { text: string };
+
+const defaultValues: FormValues = {
   name: '',
   email: '',
   topic: '',
   message: '',
-  urgency: 'normal'
+  urgency: 'normal',
+  category: 'general',
+  company: '',
+  role: '',
+  seniority: '',
+  interviewDate: '',
+  format: 'no_preference'
 };
 
-export default function SupportForm(): JSX.Element {
-  const [values, setValues] = useState<SupportRequestPayload>(defaultValues);
-  const [touched, setTouched] = useState<Record<FieldName, boolean>>({
-    name: false,
-    email: false,
-    topic: false,
-    message: false,
-    urgency: false
-  });
+const allTouched = Object.fromEntries(Object.keys(defaultValues).map((field) => [field, true])) as Record<
+  FieldName,
+  boolean
+>;
+
+// Company, role, level and date only apply to a specific interview, so they are dropped when hidden.
+function submittedValues(values: FormValues): FormValues {
+  return values.category === 'general'
+    ? { ...values, company: '', role: '', seniority: '', interviewDate: '' }
+    : values;
+}
+
+function isBlank(values: FormValues, initial: FormValues): boolean {
+  return (Object.keys(initial) as FieldName[]).every((field) => values[field] === initial[field]);
+}
+
+interface RestoredForm {
+  values: FormValues;
+  pending: PendingSubmission | null;
+  status: { message: StatusMessage; type: StatusType } | null;
+}
+
+/**
+ * Picks up where the candidate left off: a submission still waiting to be
+ * sent wins over a draft. A pending submission with attachments cannot be
+ * resent after a reload, because files are not kept, so it becomes a draft again.
+ */
+function restoreForm(initial: FormValues): RestoredForm {
+  const pending = loadPendingSubmission();
+  const stored = pending?.values ?? loadDraft() ?? {};
+  const values = { ...initial };
+  for (const field of Object.keys(initial) as FieldName[]) {
+    values[field] = stored[field] ?? values[field];
+  }
+
+  if (pending && pending.attachmentNames.length > 0) {
+    clearPendingSubmission();
+    return {
+      values,
+      pending: null,
+      status: {
+        message: { key: 'status.notSentWithAttachments', values: { names: pending.attachmentNames.join(', ') } },
+        type: 'notice'
+      }
+    };
+  }
+  return { values, pending, status: pending ? { message: { key: 'status.pending' }, type: 'pending' } : null };
+}
+
+function formatSeconds(seconds: number, locale: Locale): string {
+  return new Intl.NumberFormat(locale, { style: 'unit', unit: 'second', unitDisplay: 'long' }).format(seconds);
+}
+
+/** Words an error from `submitSupportRequest` in the candidate's language where the API gave a code. */
+function failureMessage(error: unknown, locale: Locale): StatusMessage {
+  if (error instanceof DuplicateSubmissionError) {
+    return {
+      key: error.merged ? 'status.duplicateMerged' : 'status.duplicateRejected',
+      values: { id: error.originalId }
+    };
+  }
+  if (error instanceof SubmissionError && error.code === 'rate_limited') {
+    return error.retryAfterSeconds
+      ? { key: 'error.rate_limited', values: { wait: formatSeconds(error.retryAfterSeconds, locale) } }
+      : { key: 'error.rate_limited_soon' };
+  }
+  if (error instanceof SubmissionError && error.code) {
+    return { key: `error.${error.code}` };
+  }
+  return error instanceof Error ? { text: error.message } : { key: 'status.failed' };
+}
+
+interface SupportFormProps {
+  /** Where to send the request; defaults to `VITE_SUPPORT_API_URL`. */
+  apiUrl?: string;
+  /** Partner site the form is embedded on, recorded with the request. */
+  partnerId?: string;
+  /** Fills in the topic on a fresh form and after every sent request. */
+  presetTopic?: string;
+  /**
+   * Base URL of the app, for a status link that opens in a new tab. Without
+   * it the link navigates within the app, which only works on its own pages.
+   */
+  appUrl?: string;
+  onSubmitted?: (response: SupportResponse) => void;
+}
+
+export default function SupportForm({
+  apiUrl,
+  partnerId,
+  presetTopic,
+  appUrl,
+  onSubmitted
+}: SupportFormProps = {}): JSX.Element {
+  const { locale, t } = useTranslation();
+  const initialValues = useMemo(() => ({ ...defaultValues, topic: presetTopic ?? '' }), [presetTopic]);
+  const [restored] = useState(() => restoreForm(initialValues));
+  const [values, setValues] = useState<FormValues>(restored.values);
+  const [touched, setTouched] = useState<Partial<Record<FieldName, boolean>>>({});
+  const [attachments, setAttachments] = useState<File[]>([]);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const [honeypot, setHoneypot] = useState('');
+  const startedAt = useRef(Date.now());
+  // One key per draft: resending an unchanged draft after a lost response replays it instead of queuing a copy.
+  const idempotencyKey = useRef(restored.pending?.idempotencyKey ?? crypto.randomUUID());
+  const [pending, setPending] = useState<PendingSubmission | null>(restored.pending);
+  const [draftState, setDraftState] = useState<'restored' | 'saved' | null>(
+    isBlank(restored.values, initialValues) ? null : 'restored'
+  );
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [statusMessage, setStatusMessage] = useState<string | null>(null);
-  const [statusType, setStatusType] = useState<'success' | 'error' | null>(null);
+  const sending = useRef(false);
+  const [statusMessage, setStatusMessage] = useState<StatusMessage | null>(restored.status?.message ?? null);
+  const [statusType, setStatusType] = useState<StatusType | null>(restored.status?.type ?? null);
+  const [trackingLink, setTrackingLink] = useState<string | null>(null);
+  // The last FAQ article the candidate opened; leaving the form unsent with one open counts as a deflection.
+  const openedArticle = useRef<string | null>(null);
 
   const errors: FieldErrors = useMemo(() => {
-    const result = schema.safeParse(values);
-    if (result.success) {
-      return {};
+    const result = supportRequestSchema.safeParse(submittedValues(values));
+    return result.success ? {} : supportRequestErrors(result.error);
+  }, [values]);
+
+  const attachmentError = validateAttachments(attachments, t);
+
+  // Every edit is kept on this device, so a reload or a closed tab does not lose a long message.
+  useEffect(() => {
+    if (isBlank(values, initialValues)) {
+      clearDraft();
+    } else if (saveDraft(values)) {
+      setDraftState((state) => (state === 'restored' ? state : 'saved'));
     }
+  }, [values, initialValues]);
 
-    const fieldErrors = result.error.flatten().fieldErrors;
-    return Object.entries(fieldErrors).reduce<FieldErrors>((acc, [key, messages]) => {
-      if (messages && messages.length > 0) {
-        acc[key as FieldName] = messages[0];
+  // Leaving covers closing the tab, navigating away and a host page removing the widget.
+  useEffect(() => {
+    const reportLeft = () => {
+      if (openedArticle.current) {
+        void reportFaqDeflection(openedArticle.current, apiUrl);
+        openedArticle.current = null;
       }
-      return acc;
-    }, {});
-  }, [values]);
+    };
+    window.addEventListener('pagehide', reportLeft);
+    return () => {
+      window.removeEventListener('pagehide', reportLeft);
+      reportLeft();
+    };
+  }, [apiUrl]);
 
-  const showError = (field: FieldName): string | undefined => {
-    if (touched[field] || statusType === 'error') {
-      return errors[field];
+  const startNewDraft = () => {
+    idempotencyKey.current = crypto.randomUUID();
+  };
+
+  // An edited draft is a different request, so a queued copy of the old one is dropped.
+  const editDraft = () => {
+    startNewDraft();
+    setDraftState(null);
+    if (pending) {
+      clearPendingSubmission();
+      setPending(null);
+      setStatusMessage(null);
+      setStatusType(null);
     }
-    return undefined;
   };
 
-  const handleChange = (field: FieldName) => (event: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
-    const { value } = event.target;
-    setValues((prev) => ({ ...prev, [field]: value }));
+  const handleFiles = (event: ChangeEvent<HTMLInputElement>) => {
+    editDraft();
+    const picked = Array.from(event.target.files ?? []);
+    setAttachments((prev) => [...prev, ...picked]);
+    // Clear the input so picking the same file again after removing it still fires a change.
+    event.target.value = '';
+  };
+
+  const removeAttachment = (index: number) => {
+    editDraft();
+    setAttachments((prev) => prev.filter((_, position) => position !== index));
+  };
+
+  const showError = (field: FieldName): string | undefined => {
+    const code = errors[field];
+    return code && (touched[field] || statusType === 'error') ? t(`validation.${code}`) : undefined;
   };
 
+  const handleChange =
+    (field: FieldName) => (event: ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+      const { value } = event.target;
+      editDraft();
+      setValues((prev) => ({ ...prev, [field]: value }));
+    };
+
   const handleBlur = (field: FieldName) => () => {
     setTouched((prev) => ({ ...prev, [field]: true }));
   };
 
   const resetForm = () => {
-    setValues({ ...defaultValues });
-    setTouched({
-      name: false,
-      email: false,
-      topic: false,
-      message: false,
-      urgency: false
-    });
+    setValues({ ...initialValues });
+    setAttachments([]);
+    setHoneypot('');
+    startedAt.current = Date.now();
+    startNewDraft();
+    setDraftState(null);
+    setTouched({});
+    // The articles did not answer the question; the request that was sent did.
+    openedArticle.current = null;
   };
 
-  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
-    event.preventDefault();
+  const send = async (submission: PendingSubmission) => {
     setStatusMessage(null);
     setStatusType(null);
+    setTrackingLink(null);
 
-    const result = schema.safeParse(values);
-    if (!result.success) {
-      setStatusMessage('Please fix the highlighted fields before submitting.');
+    const result = supportRequestSchema.safeParse({
+      ...submittedValues({ ...defaultValues, ...submission.values }),
+      locale,
+      partnerId
+    });
+    if (!result.success || attachmentError) {
+      // The candidate cannot fix a partner ID, so it is reported instead of the usual field hint.
+      const partnerError = result.success ? undefined : supportRequestErrors(result.error).partnerId;
+      setStatusMessage({ key: partnerError ? `validation.${partnerError}` : 'status.fixFields' });
       setStatusType('error');
-      setTouched({
-        name: true,
-        email: true,
-        topic: true,
-        message: true,
-        urgency: true
-      });
+      setTouched(allTouched);
+      clearPendingSubmission();
+      setPending(null);
+      return;
+    }
+
+    // A retry timer and the `online` event can fire together; only one send may run.
+    if (sending.current) {
       return;
     }
+    sending.current = true;
 
     try {
       setIsSubmitting(true);
-      const response = await submitSupportRequest(result.data);
-      setStatusMessage('Thanks! Your request has been queued. Reference #' + response.id);
+      const response = await submitSupportRequest(result.data, submission.signals, {
+        files: attachments,
+        onProgress: setUploadProgress,
+        idempotencyKey: submission.idempotencyKey,
+        apiUrl
+      });
+      clearPendingSubmission();
+      setPending(null);
+      setStatusMessage({ key: 'status.queued', values: { id: response.id } });
       setStatusType('success');
+      setTrackingLink(`/requests/${encodeURIComponent(response.id)}#token=${encodeURIComponent(response.accessToken)}`);
       resetForm();
+      onSubmitted?.(response);
     } catch (error) {
-      const message = error instanceof Error ? error.message : 'Something went wrong submitting your request.';
-      setStatusMessage(message);
+      if (error instanceof TransientSubmissionError) {
+        const next = { ...submission, attempts: submission.attempts + 1 };
+        savePendingSubmission(next);
+        setPending(next);
+        setStatusMessage({ key: error.status === null ? 'status.pendingUnreachable' : 'status.pendingServerError' });
+        setStatusType('pending');
+        return;
+      }
+      clearPendingSubmission();
+      setPending(null);
+      setStatusMessage(failureMessage(error, locale));
+      if (error instanceof DuplicateSubmissionError) {
+        setStatusType('notice');
+        // Merged details are safe with the original request; a rejected draft stays so nothing typed is lost.
+        if (error.merged) {
+          resetForm();
+        }
+        return;
+      }
       setStatusType('error');
     } finally {
+      sending.current = false;
       setIsSubmitting(false);
+      setUploadProgress(null);
+    }
+  };
+
+  // Retries a queued submission with backoff while online, and right away when the connection returns.
+  useEffect(() => {
+    if (!pending) {
+      return undefined;
     }
+    const retry = () => void send(pending);
+    window.addEventListener('online', retry);
+    const timer = navigator.onLine ? window.setTimeout(retry, retryDelayMs(pending.attempts)) : undefined;
+    return () => {
+      window.removeEventListener('online', retry);
+      window.clearTimeout(timer);
+    };
+    // `send` is recreated on every render; the schedule only depends on the queued submission.
+  }, [pending]);
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    return send(
+      pending ?? {
+        values,
+        signals: {
+          website: honeypot,
+          elapsedMs: Date.now() - startedAt.current
+        },
+        idempotencyKey: idempotencyKey.current,
+        attachmentNames: attachments.map((file) => file.name),
+        attempts: 0,
+        queuedAt: new Date().toISOString()
+      }
+    );
   };
 
   return (
     <form className="support-form" onSubmit={handleSubmit} noValidate>
       <div className="support-form__group">
-        <label htmlFor="name">Name</label>
+        <label htmlFor="name">{t('form.name')}</label>
         <input
           id="name"
           name="name"
@@ -137,7 +414,7 @@ export default function SupportForm(): JSX.Element {
       </div>
 
       <div className="support-form__group">
-        <label htmlFor="email">Email</label>
+        <label htmlFor="email">{t('form.email')}</label>
         <input
           id="email"
           name="email"
@@ -157,7 +434,121 @@ export default function SupportForm(): JSX.Element {
       </div>
 
       <div className="support-form__group">
-        <label htmlFor="topic">Topic</label>
+        <label htmlFor="category">{t('form.category')}</label>
+        <select
+          id="category"
+          name="category"
+          value={values.category}
+          onChange={handleChange('category')}
+          onBlur={handleBlur('category')}
+          aria-invalid={Boolean(showError('category'))}
+          aria-describedby="category-error"
+        >
+          {interviewCategories.map((category) => (
+            <option key={category} value={category}>
+              {t(`category.${category}`)}
+            </option>
+          ))}
+        </select>
+        {showError('category') && (
+          <p className="support-form__error" id="category-error">
+            {showError('category')}
+          </p>
+        )}
+      </div>
+
+      {values.category !== 'general' && (
+        <fieldset className="support-form__group support-form__details">
+          <legend>{t('form.interviewDetails')}</legend>
+
+          <div className="support-form__group">
+            <label htmlFor="company">{t('form.company')}</label>
+            <input
+              id="company"
+              name="company"
+              type="text"
+              value={values.company}
+              onChange={handleChange('company')}
+              onBlur={handleBlur('company')}
+              aria-invalid={Boolean(showError('company'))}
+              aria-describedby="company-error"
+              autoComplete="organization"
+            />
+            {showError('company') && (
+              <p className="support-form__error" id="company-error">
+                {showError('company')}
+              </p>
+            )}
+          </div>
+
+          <div className="support-form__group">
+            <label htmlFor="role">{t('form.role')}</label>
+            <input
+              id="role"
+              name="role"
+              type="text"
+              value={values.role}
+              onChange={handleChange('role')}
+              onBlur={handleBlur('role')}
+              aria-invalid={Boolean(showError('role'))}
+              aria-describedby="role-error"
+              autoComplete="organization-title"
+            />
+            {showError('role') && (
+              <p className="support-form__error" id="role-error">
+                {showError('role')}
+              </p>
+            )}
+          </div>
+
+          <div className="support-form__group">
+            <label htmlFor="seniority">{t('form.seniority')}</label>
+            <select
+              id="seniority"
+              name="seniority"
+              value={values.seniority}
+              onChange={handleChange('seniority')}
+              onBlur={handleBlur('seniority')}
+              aria-invalid={Boolean(showError('seniority'))}
+              aria-describedby="seniority-error"
+            >
+              <option value="">{t('form.seniorityUnknown')}</option>
+              {seniorityLevels.map((level) => (
+                <option key={level} value={level}>
+                  {t(`seniority.${level}`)}
+                </option>
+              ))}
+            </select>
+            {showError('seniority') && (
+              <p className="support-form__error" id="seniority-error">
+                {showError('seniority')}
+              </p>
+            )}
+          </div>
+
+          <div className="support-form__group">
+            <label htmlFor="interviewDate">{t('form.interviewDate')}</label>
+            <input
+              id="interviewDate"
+              name="interviewDate"
+              type="date"
+              value={values.interviewDate}
+              onChange={handleChange('interviewDate')}
+              onBlur={handleBlur('interviewDate')}
+              aria-invalid={Boolean(showError('interviewDate'))}
+              aria-describedby="interviewDate-error"
+            />
+            {showError('interviewDate') && (
+              <p className="support-form__error" id="interviewDate-error">
+                {showError('interviewDate')}
+              </p>
+            )}
+          </div>
+        </fieldset>
+      )}
+
+      <div className="support-form__group">
+        <label htmlFor="topic">{t('form.topic')}</label>
         <input
           id="topic"
           name="topic"
@@ -176,7 +567,7 @@ export default function SupportForm(): JSX.Element {
       </div>
 
       <div className="support-form__group">
-        <label htmlFor="message">How can we help?</label>
+        <label htmlFor="message">{t('form.message')}</label>
         <textarea
           id="message"
           name="message"
@@ -194,8 +585,36 @@ export default function SupportForm(): JSX.Element {
         )}
       </div>
 
+      <FaqSuggestions
+        query={[values.topic, values.message].filter((text) => text.trim()).join('\n')}
+        apiUrl={apiUrl}
+        onOpen={(articleId) => {
+          openedArticle.current = articleId;
+        }}
+      />
+
+      <fieldset className="support-form__group">
+        <legend>{t('form.format')}</legend>
+        <div className="support-form__radio-group">
+          {coachingFormats.map((format) => (
+            <label key={format}>
+              <input
+                type="radio"
+                name="format"
+                value={format}
+                checked={values.format === format}
+                onChange={handleChange('format')}
+                onBlur={handleBlur('format')}
+              />
+              {t(`format.${format}`)}
+            </label>
+          ))}
+        </div>
+        {showError('format') && <p className="support-form__error">{showError('format')}</p>}
+      </fieldset>
+
       <fieldset className="support-form__group">
-        <legend>How urgent is this?</legend>
+        <legend>{t('form.urgency')}</legend>
         <div className="support-form__radio-group">
           <label>
             <input
@@ -206,7 +625,7 @@ export default function SupportForm(): JSX.Element {
               onChange={handleChange('urgency')}
               onBlur={handleBlur('urgency')}
             />
-            Normal
+            {t('form.urgency.normal')}
           </label>
           <label>
             <input
@@ -217,19 +636,110 @@ export default function SupportForm(): JSX.Element {
               onChange={handleChange('urgency')}
               onBlur={handleBlur('urgency')}
             />
-            Urgent
+            {t('form.urgency.urgent')}
           </label>
         </div>
         {showError('urgency') && <p className="support-form__error">{showError('urgency')}</p>}
       </fieldset>
 
+      <div className="support-form__group">
+        <label htmlFor="attachments">{t('form.attachments')}</label>
+        <p className="support-form__hint" id="attachments-hint">
+          {t('form.attachmentsHint', { count: maxAttachments, size: formatSize(maxAttachmentBytes) })}
+        </p>
+        <input
+          id="attachments"
+          name="attachments"
+          type="file"
+          multiple
+          accept={acceptedExtensions.join(',')}
+          onChange={handleFiles}
+          aria-invalid={Boolean(attachmentError)}
+          aria-describedby="attachments-hint attachments-error"
+        />
+        {attachments.length > 0 && (
+          <ul className="support-form__attachments">
+            {attachments.map((file, index) => (
+              <li key={`${file.name}-${index}`}>
+                <span>
+                  {file.name} ({formatSize(file.size)})
+                </span>
+                <button
+                  type="button"
+                  className="support-form__remove"
+                  onClick={() => removeAttachment(index)}
+                  aria-label={t('form.removeFile', { name: file.name })}
+                >
+                  {t('form.remove')}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        {attachmentError && (
+          <p className="support-form__error" id="attachments-error">
+            {attachmentError}
+          </p>
+        )}
+      </div>
+
+      <div className="support-form__honeypot" aria-hidden="true">
+        <label htmlFor="website">{t('form.honeypot')}</label>
+        <input
+          id="website"
+          name="website"
+          type="text"
+          tabIndex={-1}
+          autoComplete="off"
+          value={honeypot}
+          onChange={(event) => setHoneypot(event.target.value)}
+        />
+      </div>
+
       <button type="submit" disabled={isSubmitting} className="support-form__submit">
-        {isSubmitting ? 'Sending...' : 'Send message'}
+        {isSubmitting ? t('form.sending') : pending ? t('form.sendNow') : t('form.send')}
       </button>
 
+      {draftState && (
+        <p className="support-form__draft" aria-live="polite">
+          {draftState === 'restored' ? t('form.draftRestored') : t('form.draftSaved')}
+          {attachments.length > 0 && ` ${t('form.draftWithoutAttachments')}`}
+        </p>
+      )}
+
+      {uploadProgress !== null && (
+        <progress
+          className="support-form__progress"
+          value={uploadProgress}
+          max={1}
+          aria-label={t('form.uploadProgress')}
+        >
+          {Math.round(uploadProgress * 100)}%
+        </progress>
+      )}
+
       {statusMessage && (
         <div className={`support-form__status support-form__status--${statusType}`} role="status">
-          {statusMessage}
+          {'key' in statusMessage ? t(statusMessage.key, statusMessage.values) : statusMessage.text}
+          {trackingLink && (
+            <>
+              {' '}
+              {appUrl ? (
+                <a
+                  href={new URL(trackingLink, appUrl).toString()}
+                  className="support-form__status-link"
+                  target="_blank"
+                  rel="noopener noreferrer"
+                >
+                  {t('form.trackRequest')}
+                </a>
+              ) : (
+                <Link to={trackingLink} className="support-form__status-link">
+                  {t('form.trackRequest')}
+                </Link>
+              )}
+            </>
+          )}
         </div>
       )}
     </form>
@@ -0,0 +1,138 @@
+import type { JSX } from 'react';
+import { Fragment, useEffect } from 'react';
+import { localeNames } from '../../shared/locales';
+import { downloadAttachment } from '../services/support';
+import type { SupportTicket } from '../types/support';
+import AttachmentList from './AttachmentList';
+import ReplyComposer from './ReplyComposer';
+import { interviewDetails, statusLabels } from './ticketLabels';
+import './TicketDrawer.css';
+
+interface TicketDrawerProps {
+  ticket: SupportTicket;
+  /** Coach session token, used to download attachments and send replies. */
+  token: string;
+  onClose: () => void;
+  /** Called with the ticket as the API returns it after a reply is sent. */
+  onUpdated: (ticket: SupportTicket) => void;
+  onFailure: (reason: unknown, fallback: string) => void;
+}
+
+function formatTimestamp(value: string): string {
+  return new Date(value).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+export default function TicketDrawer({ ticket, token, onClose, onUpdated, onFailure }: TicketDrawerProps): JSX.Element {
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <aside className="ticket-drawer" role="dialog" aria-modal="false" aria-labelledby="ticket-drawer-title">
+      <header className="ticket-drawer__header">
+        <h2 id="ticket-drawer-title">{ticket.topic}</h2>
+        <button type="button" className="ticket-drawer__close" onClick={onClose} aria-label="Close details">
+          ×
+        </button>
+      </header>
+
+      <dl className="ticket-drawer__meta">
+        <dt>From</dt>
+        <dd>
+          {ticket.name} &lt;<a href={`mailto:${ticket.email}`}>{ticket.email}</a>&gt;
+        </dd>
+        <dt>Status</dt>
+        <dd>{statusLabels[ticket.status]}</dd>
+        <dt>Urgency</dt>
+        <dd>{ticket.urgency === 'urgent' ? 'Urgent' : 'Normal'}</dd>
+        <dt>Language</dt>
+        <dd>{localeNames[ticket.locale]}</dd>
+        {ticket.partnerId && (
+          <>
+            <dt>Partner</dt>
+            <dd>{ticket.partnerId}</dd>
+          </>
+        )}
+        {interviewDetails(ticket).map(([label, value]) => (
+          <Fragment key={label}>
+            <dt>{label}</dt>
+            <dd>{value}</dd>
+          </Fragment>
+        ))}
+        <dt>Priority</dt>
+        <dd>
+          {ticket.priority}
+          {ticket.overdue && ' (overdue)'}
+        </dd>
+        {ticket.triage && (
+          <>
+            <dt>Response due</dt>
+            <dd>
+              <time dateTime={ticket.triage.slaDueAt}>{formatTimestamp(ticket.triage.slaDueAt)}</time>
+            </dd>
+            {ticket.triage.labels.length > 0 && (
+              <>
+                <dt>Labels</dt>
+                <dd>{ticket.triage.labels.join(', ')}</dd>
+              </>
+            )}
+          </>
+        )}
+        <dt>Assignee</dt>
+        <dd>{ticket.assignee ?? 'Unassigned'}</dd>
+        <dt>Received</dt>
+        <dd>
+          <time dateTime={ticket.createdAt}>{formatTimestamp(ticket.createdAt)}</time>
+        </dd>
+      </dl>
+
+      <blockquote className="ticket-drawer__message">{ticket.message}</blockquote>
+
+      <AttachmentList
+        attachments={ticket.attachments}
+        download={(attachment) => downloadAttachment(ticket.id, attachment.id, { Authorization: `Bearer ${token}` })}
+      />
+
+      <h3>Conversation</h3>
+      {ticket.messages.length === 0 ? (
+        <p className="ticket-drawer__empty">No messages yet.</p>
+      ) : (
+        <ol className="ticket-drawer__list">
+          {ticket.messages.map((message) => (
+            <li key={message.id}>
+              <p className="ticket-drawer__item-meta">
+                <strong>{message.author}</strong> ({message.role}) ·{' '}
+                <time dateTime={message.createdAt}>{formatTimestamp(message.createdAt)}</time>
+              </p>
+              <p>{message.body}</p>
+            </li>
+          ))}
+        </ol>
+      )}
+      <ReplyComposer key={ticket.id} ticket={ticket} token={token} onSent={onUpdated} onFailure={onFailure} />
+
+      <h3>Internal notes</h3>
+      {ticket.notes.length === 0 ? (
+        <p className="ticket-drawer__empty">No notes yet.</p>
+      ) : (
+        <ol className="ticket-drawer__list">
+          {ticket.notes.map((note) => (
+            <li key={note.id}>
+              <p className="ticket-drawer__item-meta">
+                <strong>{note.author}</strong> ·{' '}
+                <time dateTime={note.createdAt}>{formatTimestamp(note.createdAt)}</time>
+              </p>
+              <p>{note.body}</p>
+            </li>
+          ))}
+        </ol>
+      )}
+    </aside>
+  );
+}
@@ -0,0 +1,49 @@
+import type {
+  CoachingFormat,
+  InterviewCategory,
+  InterviewContext,
+  SeniorityLevel,
+  SupportRequestStatus
+} from '../types/support';
+
+/** Status names as coaches see them; the candidate status page words them differently. */
+export const statusLabels: Record<SupportRequestStatus, string> = {
+  open: 'Open',
+  in_progress: 'In progress',
+  resolved: 'Resolved',
+  closed: 'Closed'
+};
+
+export const categoryLabels: Record<InterviewCategory, string> = {
+  behavioral: 'Behavioral interview',
+  coding: 'Coding interview',
+  system_design: 'System design interview',
+  general: 'Something else'
+};
+
+export const seniorityLabels: Record<SeniorityLevel, string> = {
+  intern: 'Intern',
+  junior: 'Junior',
+  mid: 'Mid-level',
+  senior: 'Senior',
+  staff: 'Staff or above'
+};
+
+export const formatLabels: Record<CoachingFormat, string> = {
+  live_mock: 'Live mock interview',
+  async_review: 'Written feedback',
+  no_preference: 'No preference'
+};
+
+/** Label/value pairs for the interview fields a candidate filled in, in display order. */
+export function interviewDetails(context: InterviewContext): [string, string][] {
+  const details: [string, string | undefined][] = [
+    ['Preparing for', categoryLabels[context.category]],
+    ['Company', context.company],
+    ['Role', context.role],
+    ['Level', context.seniority && seniorityLabels[context.seniority]],
+    ['Interview date', context.interviewDate],
+    ['Coaching format', formatLabels[context.format]]
+  ];
+  return details.filter((detail): detail is [string, string] => Boolean(detail[1]));
+}
@@ -0,0 +1,106 @@
+import type { Messages } from './index';
+
+export const de: Messages = {
+  'app.title': 'Brauchen Sie Unterstützung vor Ihrem nächsten Vorstellungsgespräch?',
+  'app.subtitle': 'Erzählen Sie uns, woran Sie arbeiten, und unsere Coaches melden sich in Kürze bei Ihnen.',
+  'app.statusTitle': 'Ihre Anfrage',
+  'app.statusSubtitle': 'Verfolgen Sie den Fortschritt und lesen Sie die Antworten unserer Coaches.',
+  'language.label': 'Sprache',
+
+  'form.name': 'Name',
+  'form.email': 'E-Mail',
+  'form.category': 'Worauf bereiten Sie sich vor?',
+  'form.interviewDetails': 'Zum Gespräch (optional)',
+  'form.company': 'Unternehmen',
+  'form.role': 'Position',
+  'form.seniority': 'Erfahrungsstufe',
+  'form.seniorityUnknown': 'Weiß nicht',
+  'form.interviewDate': 'Datum des Gesprächs',
+  'form.topic': 'Thema',
+  'form.message': 'Wie können wir helfen?',
+  'form.format': 'Wie möchten Sie gecoacht werden?',
+  'form.urgency': 'Wie dringend ist es?',
+  'form.urgency.normal': 'Normal',
+  'form.urgency.urgent': 'Dringend',
+  'form.attachments': 'Anhänge (optional)',
+  'form.attachmentsHint':
+    'Lebenslauf, Stellenbeschreibung oder Codebeispiel. Bis zu {{count}} PDF-, DOCX-, Text- oder Bilddateien mit je {{size}}.',
+  'form.remove': 'Entfernen',
+  'form.removeFile': '{{name}} entfernen',
+  'form.honeypot': 'Dieses Feld leer lassen',
+  'form.send': 'Nachricht senden',
+  'form.sending': 'Wird gesendet...',
+  'form.sendNow': 'Jetzt senden',
+  'form.uploadProgress': 'Fortschritt des Uploads',
+  'form.draftRestored': 'Wir haben Ihren begonnenen Entwurf wiederhergestellt.',
+  'form.draftSaved': 'Entwurf auf diesem Gerät gespeichert.',
+  'form.draftWithoutAttachments': 'Anhänge werden im Entwurf nicht gespeichert.',
+  'form.trackRequest': 'Anfrage verfolgen',
+
+  'faq.title': 'Diese Artikel beantworten vielleicht Ihre Frage',
+  'faq.loading': 'Wird geladen...',
+  'faq.loadFailed': 'Wir konnten diesen Artikel nicht laden.',
+  'faq.stillNeedHelp': 'Brauchen Sie weiterhin Hilfe? Füllen Sie das Formular aus und senden Sie es an unsere Coaches.',
+
+  'category.behavioral': 'Verhaltensinterview',
+  'category.coding': 'Coding-Interview',
+  'category.system_design': 'System-Design-Interview',
+  'category.general': 'Etwas anderes',
+  'seniority.intern': 'Praktikum',
+  'seniority.junior': 'Junior',
+  'seniority.mid': 'Mit Berufserfahrung',
+  'seniority.senior': 'Senior',
+  'seniority.staff': 'Staff oder höher',
+  'format.live_mock': 'Live-Probeinterview',
+  'format.async_review': 'Schriftliches Feedback',
+  'format.no_preference': 'Keine Präferenz',
+
+  'attachments.tooMany': 'Hängen Sie höchstens {{count}} Dateien an',
+  'attachments.unsupported': '{{name}} wird nicht unterstützt. Hängen Sie PDF-, DOCX-, Text- oder Bilddateien an',
+  'attachments.tooLarge': '{{name}} ist größer als {{size}}',
+
+  'status.fixFields': 'Bitte korrigieren Sie die markierten Felder vor dem Absenden.',
+  'status.queued': 'Danke! Ihre Anfrage ist eingegangen. Referenz #{{id}}',
+  'status.pending': 'Ihre Anfrage ist auf diesem Gerät gespeichert und wird gesendet, sobald wir den Server erreichen.',
+  'status.notSentWithAttachments':
+    'Ihre Anfrage wurde nicht gesendet, bevor die Seite geschlossen wurde. Hängen Sie {{names}} erneut an und senden Sie sie ab.',
+  'status.duplicateMerged':
+    'Diese Anfrage haben Sie uns bereits geschickt, daher haben wir die neuen Angaben ergänzt. Referenz #{{id}}',
+  'status.duplicateRejected':
+    'Diese Anfrage haben Sie uns bereits geschickt. Ein Coach beantwortet sie dort. Referenz #{{id}}',
+  'status.pendingUnreachable':
+    'Wir konnten den Server nicht erreichen. Prüfen Sie Ihre Verbindung. Ihre Anfrage ist auf diesem Gerät gespeichert und wird gesendet, sobald wir den Server erreichen.',
+  'status.pendingServerError':
+    'Der Support-Dienst hat gerade Probleme. Ihre Anfrage ist auf diesem Gerät gespeichert und wird gesendet, sobald wir den Server erreichen.',
+  'status.failed': 'Beim Senden Ihrer Anfrage ist etwas schiefgegangen.',
+
+  'validation.name_required': 'Sagen Sie uns, wer Sie sind',
+  'validation.email_invalid': 'Geben Sie eine gültige E-Mail-Adresse an, damit wir antworten können',
+  'validation.topic_required': 'Bitte fassen Sie Ihr Anliegen kurz zusammen',
+  'validation.message_too_short': 'Erzählen Sie uns etwas mehr (mindestens 10 Zeichen)',
+  'validation.urgency_invalid': 'Wählen Sie aus, wie dringend es ist',
+  'validation.category_invalid': 'Wählen Sie aus, worauf Sie sich vorbereiten',
+  'validation.company_too_long': 'Der Unternehmensname darf höchstens 100 Zeichen lang sein',
+  'validation.role_too_long': 'Die Position darf höchstens 100 Zeichen lang sein',
+  'validation.seniority_invalid': 'Wählen Sie eine Stufe aus der Liste',
+  'validation.interview_date_invalid': 'Verwenden Sie ein Datum wie 2026-05-31',
+  'validation.format_invalid': 'Wählen Sie aus, wie Sie gecoacht werden möchten',
+  'validation.locale_invalid': 'Wählen Sie eine Sprache aus der Liste',
+  'validation.partner_invalid': 'Dieses Formular wurde mit einer ungültigen Partner-ID eingebunden',
+  'validation.invalid_value': 'Prüfen Sie dieses Feld',
+
+  'error.invalid_payload': 'Bitte korrigieren Sie die markierten Felder vor dem Absenden.',
+  'error.too_fast': 'Das ging zu schnell. Bitte prüfen Sie Ihre Anfrage und versuchen Sie es erneut.',
+  'error.rate_limited':
+    'Sie haben in kurzer Zeit mehrere Anfragen gesendet. Bitte versuchen Sie es in {{wait}} erneut.',
+  'error.rate_limited_soon':
+    'Sie haben in kurzer Zeit mehrere Anfragen gesendet. Bitte versuchen Sie es gleich noch einmal.',
+  'error.duplicate': 'Diese Anfrage haben Sie uns bereits geschickt.',
+  'error.attachment_type':
+    'Eine Ihrer Dateien hat ein nicht unterstütztes Format. Hängen Sie PDF-, DOCX-, Text- oder Bilddateien an.',
+  'error.attachment_too_large': 'Eine Ihrer Dateien ist zu groß.',
+  'error.invalid_upload': 'Wir konnten Ihren Upload nicht lesen. Hängen Sie die Dateien erneut an.',
+  'error.invalid_idempotency_key': 'Beim Senden Ihrer Anfrage ist etwas schiefgegangen. Bitte laden Sie die Seite neu.',
+  'error.submission_in_progress': 'Diese Anfrage wird noch verarbeitet. Versuchen Sie es gleich noch einmal.',
+  'error.idempotency_key_reused': 'Beim Senden Ihrer Anfrage ist etwas schiefgegangen. Bitte laden Sie die Seite neu.'
+};
@@ -0,0 +1,108 @@
+import type { SubmissionErrorCode, SupportRequestErrorCode } from '../../shared/supportRequest';
+
+// Every code the schema or the API can report needs copy.
+type CodeKeys = `validation.${SupportRequestErrorCode}` | `error.${SubmissionErrorCode}`;
+
+/**
+ * English copy for the candidate-facing pages. Other catalogs must translate
+ * every key; `{{name}}` placeholders are filled in by `t()`.
+ */
+export const en = {
+  'app.title': 'Need a hand before your next interview?',
+  'app.subtitle': 'Tell us what you are working on and our coaches will get back to you shortly.',
+  'app.statusTitle': 'Your support request',
+  'app.statusSubtitle': 'Check progress and read replies from our coaches.',
+  'language.label': 'Language',
+
+  'form.name': 'Name',
+  'form.email': 'Email',
+  'form.category': 'What are you preparing for?',
+  'form.interviewDetails': 'About the interview (optional)',
+  'form.company': 'Company',
+  'form.role': 'Role',
+  'form.seniority': 'Level',
+  'form.seniorityUnknown': 'Not sure',
+  'form.interviewDate': 'Interview date',
+  'form.topic': 'Topic',
+  'form.message': 'How can we help?',
+  'form.format': 'How would you like to be coached?',
+  'form.urgency': 'How urgent is this?',
+  'form.urgency.normal': 'Normal',
+  'form.urgency.urgent': 'Urgent',
+  'form.attachments': 'Attachments (optional)',
+  'form.attachmentsHint':
+    'Resume, job description or code sample. Up to {{count}} PDF, DOCX, text or image files, {{size}} each.',
+  'form.remove': 'Remove',
+  'form.removeFile': 'Remove {{name}}',
+  'form.honeypot': 'Leave this field empty',
+  'form.send': 'Send message',
+  'form.sending': 'Sending...',
+  'form.sendNow': 'Send now',
+  'form.uploadProgress': 'Upload progress',
+  'form.draftRestored': 'We restored the draft you started earlier.',
+  'form.draftSaved': 'Draft saved on this device.',
+  'form.draftWithoutAttachments': 'Attachments are not saved with drafts.',
+  'form.trackRequest': 'Track your request',
+
+  'faq.title': 'These articles might answer your question',
+  'faq.loading': 'Loading...',
+  'faq.loadFailed': 'We could not load this article.',
+  'faq.stillNeedHelp': 'Still need help? Finish the form below and send it to our coaches.',
+
+  'category.behavioral': 'Behavioral interview',
+  'category.coding': 'Coding interview',
+  'category.system_design': 'System design interview',
+  'category.general': 'Something else',
+  'seniority.intern': 'Intern',
+  'seniority.junior': 'Junior',
+  'seniority.mid': 'Mid-level',
+  'seniority.senior': 'Senior',
+  'seniority.staff': 'Staff or above',
+  'format.live_mock': 'Live mock interview',
+  'format.async_review': 'Written feedback',
+  'format.no_preference': 'No preference',
+
+  'attachments.tooMany': 'Attach up to {{count}} files',
+  'attachments.unsupported': '{{name}} is not supported. Attach PDF, DOCX, text or image files',
+  'attachments.tooLarge': '{{name}} is larger than {{size}}',
+
+  'status.fixFields': 'Please fix the highlighted fields before submitting.',
+  'status.queued': 'Thanks! Your request has been queued. Reference #{{id}}',
+  'status.pending': 'Your request is saved on this device and will be sent as soon as we can reach the server.',
+  'status.notSentWithAttachments':
+    'Your request was not sent before the page closed. Attach {{names}} again and send it.',
+  'status.duplicateMerged': 'You already sent us this request, so we added these details to it. Reference #{{id}}',
+  'status.duplicateRejected': 'You already sent us this request. A coach will answer it there. Reference #{{id}}',
+  'status.pendingUnreachable':
+    'We could not reach the server. Check your connection. Your request is saved on this device and will be sent as soon as we can reach the server.',
+  'status.pendingServerError':
+    'The support service is having trouble right now. Your request is saved on this device and will be sent as soon as we can reach the server.',
+  'status.failed': 'Something went wrong submitting your request.',
+
+  'validation.name_required': 'Tell us who you are',
+  'validation.email_invalid': 'Provide a valid email so we can reply',
+  'validation.topic_required': 'Please add a short summary',
+  'validation.message_too_short': 'Let us know a bit more (10 characters minimum)',
+  'validation.urgency_invalid': 'Choose how urgent this is',
+  'validation.category_invalid': 'Choose what you are preparing for',
+  'validation.company_too_long': 'Keep the company under 100 characters',
+  'validation.role_too_long': 'Keep the role under 100 characters',
+  'validation.seniority_invalid': 'Choose a level from the list',
+  'validation.interview_date_invalid': 'Use a date like 2026-05-31',
+  'validation.format_invalid': 'Choose how you would like to be coached',
+  'validation.locale_invalid': 'Choose a language from the list',
+  'validation.partner_invalid': 'This form was embedded with an invalid partner ID',
+  'validation.invalid_value': 'Check this field',
+
+  'error.invalid_payload': 'Please fix the highlighted fields before submitting.',
+  'error.too_fast': 'Submission was too fast. Please review your request and try again.',
+  'error.rate_limited': "You've sent several requests in a short time. Please try again in {{wait}}.",
+  'error.rate_limited_soon': "You've sent several requests in a short time. Please try again shortly.",
+  'error.duplicate': 'You already sent us this request.',
+  'error.attachment_type': 'One of your files is not an accepted type. Attach PDF, DOCX, text or image files.',
+  'error.attachment_too_large': 'One of your files is too large.',
+  'error.invalid_upload': 'We could not read your upload. Try attaching the files again.',
+  'error.invalid_idempotency_key': 'Something went wrong submitting your request. Please reload the page.',
+  'error.submission_in_progress': 'This submission is still being processed. Try again in a moment.',
+  'error.idempotency_key_reused': 'Something went wrong submitting your request. Please reload the page.'
+} satisfies Record<CodeKeys, string> & Record<string, string>;
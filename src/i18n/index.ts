@@ -0,0 +1,73 @@
+import { useSyncExternalStore } from 'react';
+import { defaultLocale, isSupportedLocale, matchLocale, type Locale } from '../../shared/locales';
+import { de } from './de';
+import { en } from './en';
+
+export type Messages = Record<keyof typeof en, string>;
+
+export type MessageKey = keyof Messages;
+
+const catalogs: Record<Locale, Messages> = { en, de };
+
+const storageKey = 'interview-helper.locale';
+
+/** A language the candidate picked wins over the browser's preferences. */
+export function detectLocale(): Locale {
+  try {
+    const stored = window.localStorage.getItem(storageKey);
+    if (stored && isSupportedLocale(stored)) {
+      return stored;
+    }
+  } catch {
+    // Storage can be disabled; fall back to the browser's languages.
+  }
+  return typeof navigator === 'undefined' ? defaultLocale : matchLocale(navigator.languages ?? [navigator.language]);
+}
+
+let current: Locale = detectLocale();
+const listeners = new Set<() => void>();
+
+const subscribe = (onChange: () => void) => {
+  listeners.add(onChange);
+  return () => listeners.delete(onChange);
+};
+
+const getLocale = () => current;
+
+/** Switches every mounted component to `locale` and remembers the choice on this device. */
+export function setLocale(locale: Locale): void {
+  current = locale;
+  try {
+    window.localStorage.setItem(storageKey, locale);
+  } catch {
+    // The choice still applies until the page is reloaded.
+  }
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Keeps `<html lang>` in step with the chosen language. Only the app calls
+ * this: the embeddable widget must not change its host page's language.
+ */
+export function syncDocumentLanguage(): () => void {
+  const apply = () => {
+    document.documentElement.lang = current;
+  };
+  apply();
+  return subscribe(apply);
+}
+
+/** Looks up `key` in the locale's catalog and fills in `{{name}}` placeholders; unknown ones are left visible. */
+export function translate(locale: Locale, key: MessageKey, values: Record<string, string | number> = {}): string {
+  return catalogs[locale][key].replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+    name in values ? String(values[name]) : match
+  );
+}
+
+export type Translate = (key: MessageKey, values?: Record<string, string | number>) => string;
+
+/** Re-renders whenever the language changes through `setLocale()`. */
+export function useTranslation(): { locale: Locale; t: Translate } {
+  const locale = useSyncExternalStore(subscribe, getLocale);
+  return { locale, t: (key, values) => translate(locale, key, values) };
+}
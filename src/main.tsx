@@ -1,6 +1,7 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { syncDocumentLanguage } from './i18n';
 
 const rootElement = document.getElementById('root');
 
@@ -8,6 +9,8 @@ if (!rootElement) {
   throw new Error('Root element not found');
 }
 
+syncDocumentLanguage();
+
 ReactDOM.createRoot(rootElement).render(
   <React.StrictMode>
     <App />
@@ -0,0 +1,65 @@
+import type { JSX, MouseEvent, ReactNode } from 'react';
+import { useSyncExternalStore } from 'react';
+
+const subscribe = (onChange: () => void) => {
+  window.addEventListener('popstate', onChange);
+  return () => window.removeEventListener('popstate', onChange);
+};
+
+const getHref = () => window.location.href;
+
+/** Re-renders whenever the URL changes through `navigate()` or the back/forward buttons. */
+export function useLocation(): URL {
+  const href = useSyncExternalStore(subscribe, getHref);
+  return new URL(href);
+}
+
+export function navigate(to: string): void {
+  window.history.pushState(null, '', to);
+  window.dispatchEvent(new PopStateEvent('popstate'));
+}
+
+/**
+ * Matches `pathname` against a pattern such as `/requests/:id`, returning the
+ * decoded parameters or `null`.
+ */
+export function matchPath(pattern: string, pathname: string): Record<string, string> | null {
+  const patternParts = pattern.split('/').filter(Boolean);
+  const pathParts = pathname.split('/').filter(Boolean);
+  if (patternParts.length !== pathParts.length) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  for (const [index, part] of patternParts.entries()) {
+    if (part.startsWith(':')) {
+      params[part.slice(1)] = decodeURIComponent(pathParts[index]);
+    } else if (part !== pathParts[index]) {
+      return null;
+    }
+  }
+  return params;
+}
+
+interface LinkProps {
+  to: string;
+  className?: string;
+  children: ReactNode;
+}
+
+/** An anchor that navigates without reloading the page (modified clicks still open new tabs). */
+export function Link({ to, className, children }: LinkProps): JSX.Element {
+  const handleClick = (event: MouseEvent<HTMLAnchorElement>) => {
+    if (event.button !== 0 || event.metaKey || event.ctrlKey || event.shiftKey || event.altKey) {
+      return;
+    }
+    event.preventDefault();
+    navigate(to);
+  };
+
+  return (
+    <a href={to} className={className} onClick={handleClick}>
+      {children}
+    </a>
+  );
+}
@@ -0,0 +1,126 @@
+import { describe, expect, it, vi, beforeEach, afterEach } from 'vitest';
+import { CoachAuthError, listTickets, login, logout, updateTicket, updateTickets } from './coach';
+
+const ticket = {
+  id: 'abc',
+  schemaVersion: 3,
+  locale: 'en',
+  name: 'Ada Lovelace',
+  email: 'ada@example.com',
+  topic: 'Mock interviews',
+  message: 'Help me prepare for system design.',
+  urgency: 'urgent',
+  category: 'general',
+  format: 'no_preference',
+  status: 'in_progress',
+  assignee: null,
+  notes: [],
+  messages: [],
+  attachments: [],
+  triage: null,
+  priority: 0,
+  overdue: false,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z'
+};
+
+const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), { status });
+
+describe('coach client', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    vi.stubEnv('VITE_SUPPORT_API_URL', 'https://api.test/support');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    global.fetch = originalFetch;
+  });
+
+  it('logs in next to the support endpoint', async () => {
+    const session = {
+      token: 'grace-token',
+      expiresAt: '2024-01-01T12:00:00.000Z',
+      coach: { username: 'grace', name: 'Grace Hopper', role: 'lead' }
+    };
+    const fetchMock = vi.fn().mockResolvedValue(json(session));
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    await expect(login('grace', 'correct-horse-battery')).resolves.toEqual(session);
+    expect(fetchMock).toHaveBeenCalledWith('https://api.test/auth/login', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username: 'grace', password: 'correct-horse-battery' })
+    });
+  });
+
+  it('explains failed logins', async () => {
+    global.fetch = vi.fn().mockResolvedValue(json({ error: 'Invalid' }, 401)) as unknown as typeof fetch;
+    await expect(login('grace', 'wrong')).rejects.toThrow(/did not match/i);
+
+    global.fetch = vi.fn().mockResolvedValue(json({ error: 'Too many' }, 429)) as unknown as typeof fetch;
+    await expect(login('grace', 'wrong')).rejects.toThrow(/too many sign-in attempts/i);
+  });
+
+  it('logs out with the session token', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(null, { status: 204 }));
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    await logout('grace-token');
+
+    expect(fetchMock).toHaveBeenCalledWith('https://api.test/auth/logout', {
+      method: 'POST',
+      headers: { Authorization: 'Bearer grace-token' }
+    });
+  });
+
+  it('lists tickets with filters and the coach token', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(json({ items: [ticket], nextCursor: 'next' }));
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const page = await listTickets('grace-token', { urgency: 'urgent', unassigned: true, topic: '' }, 'cursor-1');
+
+    expect(page).toEqual({ items: [ticket], nextCursor: 'next' });
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://api.test/support?limit=100&urgency=urgent&unassigned=true&cursor=cursor-1',
+      { method: 'GET', headers: { Authorization: 'Bearer grace-token' } }
+    );
+  });
+
+  it('sends patches as JSON', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(json({ ...ticket, assignee: 'grace' }));
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    await expect(updateTicket('grace-token', 'abc', { assignee: 'grace' })).resolves.toMatchObject({
+      assignee: 'grace'
+    });
+    expect(fetchMock).toHaveBeenCalledWith('https://api.test/support/abc', {
+      method: 'PATCH',
+      headers: { Authorization: 'Bearer grace-token', 'Content-Type': 'application/json' },
+      body: JSON.stringify({ assignee: 'grace' })
+    });
+  });
+
+  it('signals rejected tokens separately', async () => {
+    global.fetch = vi.fn().mockResolvedValue(json({ error: 'Unauthorized' }, 401)) as unknown as typeof fetch;
+
+    await expect(listTickets('wrong')).rejects.toBeInstanceOf(CoachAuthError);
+  });
+
+  it('reports bulk results per ticket', async () => {
+    global.fetch = vi.fn((url: string) =>
+      Promise.resolve(
+        url.endsWith('/abc')
+          ? json({ ...ticket, status: 'resolved' })
+          : json({ error: 'Cannot move a request from open to resolved' }, 409)
+      )
+    ) as unknown as typeof fetch;
+
+    const result = await updateTickets('grace-token', ['abc', 'def'], { status: 'resolved' });
+
+    expect(result.updated.map((item) => item.id)).toEqual(['abc']);
+    expect(result.failed).toEqual([{ id: 'def', error: 'Cannot move a request from open to resolved' }]);
+  });
+});
@@ -0,0 +1,264 @@
+import { z } from 'zod';
+import { supportedLocales } from '../../shared/locales';
+import { attachmentSchema, getApiUrl, interviewContextSchema } from './support';
+import type {
+  AvailabilitySlot,
+  CoachSession,
+  NewSlot,
+  ReplyTemplate,
+  SupportTicket,
+  TicketFilters,
+  TicketPage,
+  TicketPatch
+} from '../types/support';
+
+const ticketSchema = interviewContextSchema.extend({
+  id: z.string(),
+  schemaVersion: z.number(),
+  name: z.string(),
+  email: z.string(),
+  topic: z.string(),
+  message: z.string(),
+  urgency: z.enum(['normal', 'urgent']),
+  locale: z.enum(supportedLocales),
+  partnerId: z.string().optional(),
+  status: z.enum(['open', 'in_progress', 'resolved', 'closed']),
+  assignee: z.string().nullable(),
+  notes: z.array(z.object({ id: z.string(), author: z.string(), body: z.string(), createdAt: z.string() })),
+  messages: z.array(
+    z.object({
+      id: z.string(),
+      role: z.enum(['candidate', 'coach']),
+      author: z.string(),
+      body: z.string(),
+      createdAt: z.string()
+    })
+  ),
+  attachments: z.array(attachmentSchema),
+  triage: z
+    .object({ labels: z.array(z.string()), slaDueAt: z.string(), escalatedAt: z.string().nullable() })
+    .nullable(),
+  priority: z.number(),
+  overdue: z.boolean(),
+  createdAt: z.string(),
+  updatedAt: z.string()
+});
+
+const pageSchema = z.object({
+  items: z.array(ticketSchema),
+  nextCursor: z.string().nullable()
+});
+
+const slotSchema = z.object({
+  id: z.string(),
+  coach: z.string(),
+  coachName: z.string(),
+  startsAt: z.string(),
+  endsAt: z.string(),
+  timeZone: z.string(),
+  booking: z.object({ requestId: z.string(), candidateTimeZone: z.string(), bookedAt: z.string() }).nullable(),
+  createdAt: z.string()
+});
+
+const templateSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  category: z.string(),
+  body: z.string(),
+  createdBy: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  usageCount: z.number(),
+  lastUsedAt: z.string().nullable()
+});
+
+const sessionSchema = z.object({
+  token: z.string(),
+  expiresAt: z.string(),
+  coach: z.object({ username: z.string(), name: z.string(), role: z.enum(['coach', 'lead', 'admin']) })
+});
+
+/** Auth, availability and template endpoints sit next to `/support` on the same API. */
+function siblingUrl(path: string): string {
+  return new URL(`../${path}`, `${getApiUrl()}/`).toString();
+}
+
+function authUrl(path: string): string {
+  return siblingUrl(`auth/${path}`);
+}
+
+/** Thrown when the session is missing, expired or revoked, so the UI can ask the coach to sign in again. */
+export class CoachAuthError extends Error {
+  constructor() {
+    super('Your session has ended. Sign in again.');
+    this.name = 'CoachAuthError';
+  }
+}
+
+async function coachRequest<T>(
+  url: string,
+  token: string,
+  schema: z.ZodType<T>,
+  init: { method?: string; body?: unknown } = {}
+): Promise<T> {
+  const response = await fetch(url, {
+    method: init.method ?? 'GET',
+    headers: {
+      Authorization: `Bearer ${token}`,
+      ...(init.body === undefined ? {} : { 'Content-Type': 'application/json' })
+    },
+    ...(init.body === undefined ? {} : { body: JSON.stringify(init.body) })
+  });
+
+  if (response.status === 401) {
+    throw new CoachAuthError();
+  }
+
+  if (!response.ok) {
+    const text = await response.text();
+    let message = text;
+    try {
+      message = (JSON.parse(text) as { error?: string }).error ?? text;
+    } catch {
+      // Plain-text errors are shown as they are.
+    }
+    throw new Error(message || 'The support API could not complete the request');
+  }
+
+  const parsed = schema.safeParse(await response.json());
+  if (!parsed.success) {
+    throw new Error('Received malformed response from support API');
+  }
+
+  return parsed.data;
+}
+
+export async function login(username: string, password: string): Promise<CoachSession> {
+  const response = await fetch(authUrl('login'), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username, password })
+  });
+
+  if (response.status === 401) {
+    throw new Error('That username and password did not match.');
+  }
+
+  if (response.status === 429) {
+    throw new Error('Too many sign-in attempts. Please wait a few minutes and try again.');
+  }
+
+  if (!response.ok) {
+    const message = await response.text();
+    throw new Error(message || 'Unable to sign in');
+  }
+
+  const parsed = sessionSchema.safeParse(await response.json());
+  if (!parsed.success) {
+    throw new Error('Received malformed response from support API');
+  }
+
+  return parsed.data;
+}
+
+/** Ends the session on the server; a session that already expired is treated as signed out. */
+export async function logout(token: string): Promise<void> {
+  const response = await fetch(authUrl('logout'), {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${token}` }
+  });
+
+  if (!response.ok && response.status !== 401) {
+    throw new Error('Unable to sign out');
+  }
+}
+
+export async function listTickets(
+  token: string,
+  filters: TicketFilters = {},
+  cursor: string | null = null
+): Promise<TicketPage> {
+  const query = new URLSearchParams({ limit: '100' });
+  for (const [key, value] of Object.entries(filters)) {
+    if (value !== undefined && value !== '') {
+      query.set(key, String(value));
+    }
+  }
+  if (cursor) {
+    query.set('cursor', cursor);
+  }
+
+  return coachRequest(`${getApiUrl()}?${query.toString()}`, token, pageSchema);
+}
+
+export async function updateTicket(token: string, id: string, patch: TicketPatch): Promise<SupportTicket> {
+  return coachRequest(`${getApiUrl()}/${encodeURIComponent(id)}`, token, ticketSchema, {
+    method: 'PATCH',
+    body: patch
+  });
+}
+
+export interface BulkUpdateResult {
+  updated: SupportTicket[];
+  failed: { id: string; error: string }[];
+}
+
+/** Applies one patch to several tickets; each ticket succeeds or fails on its own. */
+export async function updateTickets(token: string, ids: string[], patch: TicketPatch): Promise<BulkUpdateResult> {
+  const results = await Promise.allSettled(ids.map((id) => updateTicket(token, id, patch)));
+
+  return results.reduce<BulkUpdateResult>(
+    (acc, result, index) => {
+      if (result.status === 'fulfilled') {
+        acc.updated.push(result.value);
+      } else if (result.reason instanceof CoachAuthError) {
+        throw result.reason;
+      } else {
+        acc.failed.push({
+          id: ids[index],
+          error: result.reason instanceof Error ? result.reason.message : 'Update failed'
+        });
+      }
+      return acc;
+    },
+    { updated: [], failed: [] }
+  );
+}
+
+/** Slots of one coach from `from` onwards, ordered by start time. */
+export async function listSlots(token: string, coach: string, from: string): Promise<AvailabilitySlot[]> {
+  const query = new URLSearchParams({ coach, from });
+  const page = await coachRequest(
+    `${siblingUrl('slots')}?${query.toString()}`,
+    token,
+    z.object({ items: z.array(slotSchema) })
+  );
+  return page.items;
+}
+
+export async function createSlot(token: string, slot: NewSlot): Promise<AvailabilitySlot> {
+  return coachRequest(siblingUrl('slots'), token, slotSchema, { method: 'POST', body: slot });
+}
+
+/** Removes a slot; a candidate who booked it is sent a cancellation. */
+export async function deleteSlot(token: string, id: string): Promise<void> {
+  const response = await fetch(siblingUrl(`slots/${encodeURIComponent(id)}`), {
+    method: 'DELETE',
+    headers: { Authorization: `Bearer ${token}` }
+  });
+
+  if (response.status === 401) {
+    throw new CoachAuthError();
+  }
+
+  if (!response.ok && response.status !== 404) {
+    const message = await response.text();
+    throw new Error(message || 'Unable to remove the slot');
+  }
+}
+
+/** The shared reply templates, ordered by category, then title. */
+export async function listTemplates(token: string): Promise<ReplyTemplate[]> {
+  const page = await coachRequest(siblingUrl('templates'), token, z.object({ items: z.array(templateSchema) }));
+  return page.items;
+}
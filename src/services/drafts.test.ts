@@ -0,0 +1,44 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { clearDraft, loadDraft, loadPendingSubmission, retryDelayMs, saveDraft } from './drafts';
+
+describe('drafts', () => {
+  afterEach(() => {
+    window.localStorage.clear();
+  });
+
+  it('round-trips the form values', () => {
+    const values = {
+      name: 'Ada Lovelace',
+      email: '',
+      topic: 'Mock interviews',
+      message: '',
+      urgency: 'normal',
+      category: 'general',
+      company: '',
+      role: '',
+      seniority: '',
+      interviewDate: '',
+      format: 'no_preference'
+    };
+
+    expect(saveDraft(values)).toBe(true);
+    expect(loadDraft()).toEqual(values);
+
+    clearDraft();
+    expect(loadDraft()).toBeNull();
+  });
+
+  it('ignores storage it cannot read', () => {
+    window.localStorage.setItem('interview-helper.support-draft', '{not json');
+    window.localStorage.setItem('interview-helper.support-pending', JSON.stringify({ values: {} }));
+
+    expect(loadDraft()).toBeNull();
+    expect(loadPendingSubmission()).toBeNull();
+  });
+});
+
+describe('retryDelayMs', () => {
+  it('doubles after each failure up to a minute', () => {
+    expect([1, 2, 3, 6, 7, 20].map(retryDelayMs)).toEqual([2000, 4000, 8000, 60_000, 60_000, 60_000]);
+  });
+});
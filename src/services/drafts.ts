@@ -0,0 +1,92 @@
+import { z } from 'zod';
+import type { SubmissionSignals, SupportFormValues } from '../types/support';
+
+const draftStorageKey = 'interview-helper.support-draft';
+const pendingStorageKey = 'interview-helper.support-pending';
+
+// Unknown or missing fields are tolerated so a draft saved by an older form still restores what it can.
+const valuesSchema = z.record(z.string(), z.string()) as z.ZodType<Partial<SupportFormValues>>;
+
+const draftSchema = z.object({
+  values: valuesSchema,
+  savedAt: z.string()
+});
+
+const pendingSchema = z.object({
+  values: valuesSchema,
+  signals: z.object({ website: z.string(), elapsedMs: z.number() }),
+  idempotencyKey: z.string(),
+  attachmentNames: z.array(z.string()),
+  attempts: z.number().int().min(0),
+  queuedAt: z.string()
+});
+
+/** A submission that failed to reach the API and is waiting to be sent again with the same idempotency key. */
+export interface PendingSubmission {
+  values: Partial<SupportFormValues>;
+  signals: SubmissionSignals;
+  idempotencyKey: string;
+  /** Files cannot be kept in storage; their names tell the form what to ask for again after a reload. */
+  attachmentNames: string[];
+  attempts: number;
+  queuedAt: string;
+}
+
+// Storage can be full, disabled or hold something an older version wrote; drafts are a convenience, so failures are ignored.
+function read<T>(key: string, schema: z.ZodType<T>): T | null {
+  try {
+    const raw = window.localStorage.getItem(key);
+    const parsed = raw ? schema.safeParse(JSON.parse(raw)) : null;
+    return parsed?.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+function write(key: string, value: unknown): boolean {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function remove(key: string): void {
+  try {
+    window.localStorage.removeItem(key);
+  } catch {
+    // Nothing to clean up when storage is unavailable.
+  }
+}
+
+/** Returns the stored field values, or `null` when there is no readable draft. */
+export function loadDraft(): Partial<SupportFormValues> | null {
+  return read(draftStorageKey, draftSchema)?.values ?? null;
+}
+
+/** Returns whether the draft was stored. */
+export function saveDraft(values: SupportFormValues, now = new Date().toISOString()): boolean {
+  return write(draftStorageKey, { values, savedAt: now });
+}
+
+export function clearDraft(): void {
+  remove(draftStorageKey);
+}
+
+export function loadPendingSubmission(): PendingSubmission | null {
+  return read(pendingStorageKey, pendingSchema);
+}
+
+export function savePendingSubmission(pending: PendingSubmission): boolean {
+  return write(pendingStorageKey, pending);
+}
+
+export function clearPendingSubmission(): void {
+  remove(pendingStorageKey);
+}
+
+/** Waits 2s after the first failed send, then 4s, 8s… but never more than a minute. */
+export function retryDelayMs(failedAttempts: number): number {
+  return Math.min(2000 * 2 ** Math.max(failedAttempts - 1, 0), 60_000);
+}
@@ -0,0 +1,95 @@
+import { z } from 'zod';
+import { supportedLocales, type Locale } from '../../shared/locales';
+import type { FaqArticle, FaqSuggestion } from '../types/support';
+import { getApiUrl } from './support';
+
+const suggestionSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  summary: z.string()
+});
+
+const articleSchema = z.object({
+  id: z.string(),
+  locale: z.enum(supportedLocales),
+  title: z.string(),
+  blocks: z.array(
+    z.union([
+      z.object({ type: z.enum(['heading', 'paragraph']), text: z.string() }),
+      z.object({ type: z.literal('list'), items: z.array(z.string()) })
+    ])
+  )
+});
+
+/** FAQ endpoints sit next to `/support`, so the widget finds them from the same `apiUrl`. */
+function faqUrl(path: string, apiUrl: string): string {
+  return new URL(`../faq/${path}`, `${apiUrl}/`).toString();
+}
+
+/** Articles that may answer what the candidate has typed so far, best first. */
+export async function searchFaq(
+  query: string,
+  locale: Locale,
+  apiUrl = getApiUrl(),
+  signal?: AbortSignal
+): Promise<FaqSuggestion[]> {
+  const params = new URLSearchParams({ q: query, locale });
+  const response = await fetch(`${faqUrl('search', apiUrl)}?${params.toString()}`, { signal });
+  if (!response.ok) {
+    throw new Error('Unable to search the FAQ');
+  }
+
+  const parsed = z.object({ items: z.array(suggestionSchema) }).safeParse(await response.json());
+  if (!parsed.success) {
+    throw new Error('Received malformed response from support API');
+  }
+  return parsed.data.items;
+}
+
+export async function fetchFaqArticle(id: string, locale: Locale, apiUrl = getApiUrl()): Promise<FaqArticle> {
+  const params = new URLSearchParams({ locale });
+  const response = await fetch(`${faqUrl(`articles/${encodeURIComponent(id)}`, apiUrl)}?${params.toString()}`);
+  if (!response.ok) {
+    throw new Error('Unable to load the article');
+  }
+
+  const parsed = articleSchema.safeParse(await response.json());
+  if (!parsed.success) {
+    throw new Error('Received malformed response from support API');
+  }
+  return parsed.data;
+}
+
+/** Counts an article as opened. Best effort: the candidate never hears about a failure. */
+export async function recordFaqOpened(articleId: string, apiUrl?: string): Promise<void> {
+  try {
+    await fetch(faqUrl('events', apiUrl ?? getApiUrl()), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ type: 'opened', articleId })
+    });
+  } catch {
+    // Metrics only; the article is shown either way.
+  }
+}
+
+/**
+ * Counts a form left unsent after reading `articleId`. It is called while the
+ * page unloads, so it goes out as a beacon; beacons post plain text, which
+ * needs no CORS preflight on a partner's page.
+ */
+export async function reportFaqDeflection(articleId: string, apiUrl?: string): Promise<void> {
+  const body = JSON.stringify({ type: 'deflected', articleId });
+  try {
+    const url = faqUrl('events', apiUrl ?? getApiUrl());
+    if (
+      typeof navigator.sendBeacon === 'function' &&
+      navigator.sendBeacon(url, new Blob([body], { type: 'text/plain' }))
+    ) {
+      return;
+    }
+    await fetch(url, { method: 'POST', headers: { 'Content-Type': 'text/plain' }, body, keepalive: true });
+  } catch {
+    // Metrics only; the candidate has already left.
+  }
+}
@@ -1,14 +1,27 @@
 import { describe, expect, it, vi, beforeEach, afterEach } from 'vitest';
-import { submitSupportRequest } from './support';
+import {
+  DuplicateSubmissionError,
+  downloadAttachment,
+  fetchRequestStatus,
+  markMessagesRead,
+  postMessage,
+  SubmissionError,
+  submitSupportRequest,
+  TransientSubmissionError
+} from './support';
 
 const payload = {
   name: 'Ada Lovelace',
   email: 'ada@example.com',
   topic: 'Mock interviews',
   message: 'Help me prepare for system design.',
-  urgency: 'normal' as const
+  urgency: 'normal' as const,
+  category: 'general' as const,
+  format: 'no_preference' as const
 };
 
+const signals = { website: '', elapsedMs: 5000 };
+
 describe('submitSupportRequest', () => {
   const originalFetch = global.fetch;
 
@@ -24,25 +37,38 @@ describe('submitSupportRequest', () => {
 
   it('throws when the API URL is missing', async () => {
     vi.stubEnv('VITE_SUPPORT_API_URL', '');
-    await expect(submitSupportRequest(payload)).rejects.toThrow(/not configured/i);
+    await expect(submitSupportRequest(payload, signals)).rejects.toThrow(/not configured/i);
   });
 
   it('sends the payload to the configured endpoint', async () => {
     vi.stubEnv('VITE_SUPPORT_API_URL', 'https://api.test/support');
     const fetchMock = vi.fn().mockResolvedValue({
       ok: true,
-      json: () => Promise.resolve({ status: 'ok', id: '123' })
+      json: () => Promise.resolve({ status: 'ok', id: '123', accessToken: 'token-123' })
     });
     global.fetch = fetchMock as unknown as typeof fetch;
 
-    const response = await submitSupportRequest(payload);
+    const response = await submitSupportRequest(payload, signals);
 
     expect(fetchMock).toHaveBeenCalledWith('https://api.test/support', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(payload)
+      body: JSON.stringify({ ...payload, ...signals })
     });
-    expect(response).toEqual({ status: 'ok', id: '123' });
+    expect(response).toEqual({ status: 'ok', id: '123', accessToken: 'token-123' });
+  });
+
+  it('sends to the API URL an embed passes even when none is configured', async () => {
+    vi.stubEnv('VITE_SUPPORT_API_URL', '');
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ status: 'ok', id: '123', accessToken: 'token-123' })
+    });
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    await submitSupportRequest(payload, signals, { apiUrl: 'https://partner-api.test/support' });
+
+    expect(fetchMock).toHaveBeenCalledWith('https://partner-api.test/support', expect.anything());
   });
 
   it('throws when the server returns an error response', async () => {
@@ -53,7 +79,7 @@ describe('submitSupportRequest', () => {
     });
     global.fetch = fetchMock as unknown as typeof fetch;
 
-    await expect(submitSupportRequest(payload)).rejects.toThrow(/nope/);
+    await expect(submitSupportRequest(payload, signals)).rejects.toThrow(/nope/);
   });
 
   it('throws when the response is malformed', async () => {
@@ -64,6 +90,214 @@ describe('submitSupportRequest', () => {
     });
     global.fetch = fetchMock as unknown as typeof fetch;
 
-    await expect(submitSupportRequest(payload)).rejects.toThrow(/malformed/i);
+    await expect(submitSupportRequest(payload, signals)).rejects.toThrow(/malformed/i);
+  });
+
+  it('turns rate limiting into a friendly retry message', async () => {
+    vi.stubEnv('VITE_SUPPORT_API_URL', 'https://api.test/support');
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValue(
+        new Response(JSON.stringify({ error: 'Too many requests' }), { status: 429, headers: { 'Retry-After': '42' } })
+      );
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    await expect(submitSupportRequest(payload, signals)).rejects.toThrow(/try again in 42 seconds/i);
+  });
+
+  it('passes on the error code the API sent', async () => {
+    vi.stubEnv('VITE_SUPPORT_API_URL', 'https://api.test/support');
+    global.fetch = vi
+      .fn()
+      .mockResolvedValue(
+        new Response(JSON.stringify({ error: 'Submission was too fast.', code: 'too_fast' }), { status: 400 })
+      ) as unknown as typeof fetch;
+
+    const error = await submitSupportRequest(payload, signals).catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(SubmissionError);
+    expect(error).toMatchObject({ message: 'Submission was too fast.', code: 'too_fast' });
+  });
+
+  it('marks network failures and server errors as safe to retry', async () => {
+    vi.stubEnv('VITE_SUPPORT_API_URL', 'https://api.test/support');
+    global.fetch = vi
+      .fn()
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce(new Response('Bad gateway', { status: 502 })) as unknown as typeof fetch;
+
+    await expect(submitSupportRequest(payload, signals)).rejects.toBeInstanceOf(TransientSubmissionError);
+    await expect(submitSupportRequest(payload, signals)).rejects.toBeInstanceOf(TransientSubmissionError);
+  });
+
+  it('sends the idempotency key and reports duplicates', async () => {
+    vi.stubEnv('VITE_SUPPORT_API_URL', 'https://api.test/support');
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValue(
+        new Response(
+          JSON.stringify({ error: 'You already sent us this request.', duplicateOf: 'req-1', merged: true }),
+          { status: 409 }
+        )
+      );
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const error = await submitSupportRequest(payload, signals, { idempotencyKey: 'draft-key-123' }).catch(
+      (caught: unknown) => caught
+    );
+
+    expect(fetchMock.mock.calls[0][1].headers).toEqual({
+      'Content-Type': 'application/json',
+      'Idempotency-Key': 'draft-key-123'
+    });
+    expect(error).toBeInstanceOf(DuplicateSubmissionError);
+    expect(error).toMatchObject({ message: 'You already sent us this request.', originalId: 'req-1', merged: true });
+  });
+});
+
+describe('fetchRequestStatus', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    vi.stubEnv('VITE_SUPPORT_API_URL', 'https://api.test/support');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    global.fetch = originalFetch;
+  });
+
+  it('sends the access token and returns the status view', async () => {
+    const view = {
+      id: 'abc',
+      topic: 'Mock interviews',
+      message: 'Help me prepare for system design.',
+      urgency: 'normal',
+      category: 'coding',
+      company: 'Acme',
+      format: 'live_mock',
+      status: 'in_progress',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-02T00:00:00.000Z',
+      messages: [],
+      attachments: [],
+      unread: 0,
+      session: null
+    };
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify(view), { status: 200 }));
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    await expect(fetchRequestStatus('abc', 'secret')).resolves.toEqual(view);
+    expect(fetchMock).toHaveBeenCalledWith('https://api.test/support/abc/status', {
+      headers: { 'X-Access-Token': 'secret' }
+    });
+  });
+
+  it('explains when the link is wrong', async () => {
+    global.fetch = vi.fn().mockResolvedValue(new Response('{}', { status: 404 })) as unknown as typeof fetch;
+
+    await expect(fetchRequestStatus('abc', 'wrong')).rejects.toThrow(/could not find that request/i);
+  });
+
+  it('shows the error the API gave rather than its JSON body', async () => {
+    const body = { error: 'Unexpected error handling support request', requestId: 'req-1' };
+    global.fetch = vi
+      .fn()
+      .mockResolvedValue(new Response(JSON.stringify(body), { status: 500 })) as unknown as typeof fetch;
+
+    await expect(fetchRequestStatus('abc', 'secret')).rejects.toThrow(/^Unexpected error handling support request$/);
+  });
+});
+
+describe('message thread', () => {
+  const originalFetch = global.fetch;
+  const message = {
+    id: 'm1',
+    role: 'candidate',
+    author: 'Ada Lovelace',
+    body: 'Can we focus on system design?',
+    createdAt: '2024-01-02T00:00:00.000Z'
+  };
+
+  beforeEach(() => {
+    vi.stubEnv('VITE_SUPPORT_API_URL', 'https://api.test/support');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    global.fetch = originalFetch;
+  });
+
+  it('posts a message with the access token', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify(message), { status: 201 }));
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    await expect(postMessage('abc', 'secret', message.body)).resolves.toEqual(message);
+    expect(fetchMock).toHaveBeenCalledWith('https://api.test/support/abc/messages', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Access-Token': 'secret' },
+      body: JSON.stringify({ body: message.body })
+    });
+  });
+
+  it('explains when the request no longer accepts messages', async () => {
+    global.fetch = vi.fn().mockResolvedValue(new Response('{}', { status: 409 })) as unknown as typeof fetch;
+
+    await expect(postMessage('abc', 'secret', 'Hello there')).rejects.toThrow(/request is closed/i);
+  });
+
+  it('shows the error the API gave rather than its JSON body', async () => {
+    global.fetch = vi
+      .fn()
+      .mockImplementation(() =>
+        Promise.resolve(new Response(JSON.stringify({ error: 'Invalid payload' }), { status: 400 }))
+      ) as unknown as typeof fetch;
+
+    await expect(postMessage('abc', 'secret', 'Hello there')).rejects.toThrow(/^Invalid payload$/);
+    await expect(markMessagesRead('abc', 'secret', 'm1')).rejects.toThrow(/^Invalid payload$/);
+  });
+
+  it('moves the read marker', async () => {
+    const thread = { messages: [message], readMarkers: { candidate: message.createdAt, coach: null }, unread: 0 };
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify(thread), { status: 200 }));
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    await expect(markMessagesRead('abc', 'secret', 'm1')).resolves.toEqual(thread);
+    expect(fetchMock).toHaveBeenCalledWith('https://api.test/support/abc/messages/read', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', 'X-Access-Token': 'secret' },
+      body: JSON.stringify({ upTo: 'm1' })
+    });
+  });
+});
+
+describe('downloadAttachment', () => {
+  beforeEach(() => {
+    vi.stubEnv('VITE_SUPPORT_API_URL', 'https://api.test/support');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  it('fetches the file with the given credentials', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response('%PDF-1.7', { status: 200 }));
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const blob = await downloadAttachment('abc', 'file 1', { 'X-Access-Token': 'secret' });
+
+    expect(await blob.text()).toBe('%PDF-1.7');
+    expect(fetchMock).toHaveBeenCalledWith('https://api.test/support/abc/attachments/file%201', {
+      headers: { 'X-Access-Token': 'secret' }
+    });
+  });
+
+  it('explains when the file is gone', async () => {
+    global.fetch = vi.fn().mockResolvedValue(new Response('{}', { status: 404 })) as unknown as typeof fetch;
+
+    await expect(downloadAttachment('abc', 'file-1', {})).rejects.toThrow(/no longer available/);
   });
 });
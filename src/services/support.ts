@@ -1,9 +1,91 @@
 import { z } from 'zod';
-import type { SupportRequestPayload, SupportResponse } from '../types/support';
+import {
+  coachingFormats,
+  interviewCategories,
+  seniorityLevels,
+  submissionErrorCodes,
+  urgencyLevels,
+  type SubmissionErrorCode
+} from '../../shared/supportRequest';
+import type {
+  BookedSession,
+  ConversationMessage,
+  MessageThreadView,
+  OpenSlot,
+  RequestStatusView,
+  SubmissionSignals,
+  SupportRequestPayload,
+  SupportResponse
+} from '../types/support';
 
 const responseSchema = z.object({
   status: z.literal('ok'),
-  id: z.string()
+  id: z.string(),
+  accessToken: z.string()
+});
+
+const duplicateSchema = z.object({
+  error: z.string(),
+  duplicateOf: z.string(),
+  merged: z.boolean()
+});
+
+const messageSchema = z.object({
+  id: z.string(),
+  role: z.enum(['candidate', 'coach']),
+  author: z.string(),
+  body: z.string(),
+  createdAt: z.string()
+});
+
+const threadViewSchema = z.object({
+  messages: z.array(messageSchema),
+  readMarkers: z.object({ candidate: z.string().nullable(), coach: z.string().nullable() }),
+  unread: z.number()
+});
+
+export const attachmentSchema = z.object({
+  id: z.string(),
+  filename: z.string(),
+  contentType: z.string(),
+  size: z.number(),
+  uploadedAt: z.string()
+});
+
+/** The structured interview fields as the API returns them; blanks are omitted rather than empty. */
+export const interviewContextSchema = z.object({
+  category: z.enum(interviewCategories),
+  company: z.string().optional(),
+  role: z.string().optional(),
+  seniority: z.enum(seniorityLevels).optional(),
+  interviewDate: z.string().optional(),
+  format: z.enum(coachingFormats)
+});
+
+const openSlotSchema = z.object({
+  id: z.string(),
+  coachName: z.string(),
+  startsAt: z.string(),
+  endsAt: z.string()
+});
+
+const bookedSessionSchema = openSlotSchema.extend({
+  timeZone: z.string(),
+  bookedAt: z.string()
+});
+
+const statusViewSchema = interviewContextSchema.extend({
+  id: z.string(),
+  topic: z.string(),
+  message: z.string(),
+  urgency: z.enum(urgencyLevels),
+  status: z.enum(['open', 'in_progress', 'resolved', 'closed']),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  messages: z.array(messageSchema),
+  attachments: z.array(attachmentSchema),
+  unread: z.number(),
+  session: bookedSessionSchema.nullable()
 });
 
 function getApiUrl(): string {
@@ -14,23 +96,257 @@ function getApiUrl(): string {
   return url;
 }
 
-export async function submitSupportRequest(payload: SupportRequestPayload): Promise<SupportResponse> {
-  const response = await fetch(getApiUrl(), {
+function retryAfterSeconds(response: Response): number | null {
+  const seconds = Number(response.headers?.get('Retry-After'));
+  return Number.isFinite(seconds) && seconds > 0 ? Math.ceil(seconds) : null;
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+/** Prefers the `error` field of JSON error bodies over the raw text. */
+function errorText(text: string, fallback: string): string {
+  const body = parseJson(text) as { error?: string } | null;
+  return body?.error ?? (text || fallback);
+}
+
+async function errorMessage(response: Response, fallback: string): Promise<string> {
+  return errorText(await response.text(), fallback);
+}
+
+const submissionErrorBodySchema = z.object({
+  error: z.string(),
+  code: z.enum(submissionErrorCodes).optional()
+});
+
+/**
+ * An error answer from `POST /support`. `message` is the API's English text;
+ * `code`, when the API sent one, lets the form explain it in the candidate's language.
+ */
+export class SubmissionError extends Error {
+  constructor(
+    message: string,
+    readonly code: SubmissionErrorCode | null,
+    /** Set for `rate_limited` when the API said how long to wait. */
+    readonly retryAfterSeconds: number | null = null
+  ) {
+    super(message);
+    this.name = 'SubmissionError';
+  }
+}
+
+/** Thrown when the API recognises a request the candidate already sent, so the form can point them to it. */
+export class DuplicateSubmissionError extends SubmissionError {
+  constructor(
+    message: string,
+    readonly originalId: string,
+    /** Whether the new details were added to the original request. */
+    readonly merged: boolean
+  ) {
+    super(message, 'duplicate');
+    this.name = 'DuplicateSubmissionError';
+  }
+}
+
+/**
+ * Thrown when the request may not have reached the API or the API failed
+ * temporarily. Sending it again with the same idempotency key is safe.
+ */
+export class TransientSubmissionError extends Error {
+  constructor(
+    message = 'We could not reach the server. Check your connection.',
+    /** The `5xx` status, or `null` when the API could not be reached at all. */
+    readonly status: number | null = null
+  ) {
+    super(message);
+    this.name = 'TransientSubmissionError';
+  }
+}
+
+/**
+ * Posts a multipart body with `XMLHttpRequest`, which unlike `fetch` reports
+ * upload progress, and hands back the result as a `Response`.
+ */
+function uploadWithProgress(
+  url: string,
+  body: FormData,
+  headers: Record<string, string>,
+  onProgress?: (fraction: number) => void
+): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', url);
+    for (const [name, value] of Object.entries(headers)) {
+      xhr.setRequestHeader(name, value);
+    }
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress?.(event.loaded / event.total);
+      }
+    };
+    xhr.onload = () => {
+      const retryAfter = xhr.getResponseHeader('Retry-After');
+      resolve(
+        new Response(xhr.responseText, {
+          status: xhr.status,
+          headers: retryAfter ? { 'Retry-After': retryAfter } : {}
+        })
+      );
+    };
+    xhr.onerror = () => reject(new TransientSubmissionError());
+    xhr.send(body);
+  });
+}
+
+export interface SubmitOptions {
+  files?: File[];
+  /** Called with the uploaded fraction while attachments are sent. */
+  onProgress?: (fraction: number) => void;
+  /** Pass the same key when retrying a submission so the API answers with the original request instead of a copy. */
+  idempotencyKey?: string;
+  /** The embeddable widget passes the URL its host page configured. */
+  apiUrl?: string;
+}
+
+export async function submitSupportRequest(
+  payload: SupportRequestPayload,
+  signals: SubmissionSignals,
+  { files = [], onProgress, idempotencyKey, apiUrl = getApiUrl() }: SubmitOptions = {}
+): Promise<SupportResponse> {
+  const keyHeader: Record<string, string> = idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {};
+  let response: Response;
+  if (files.length > 0) {
+    const body = new FormData();
+    for (const [key, value] of Object.entries({ ...payload, ...signals })) {
+      if (value !== undefined) {
+        body.append(key, String(value));
+      }
+    }
+    for (const file of files) {
+      body.append('attachments', file, file.name);
+    }
+    response = await uploadWithProgress(apiUrl, body, keyHeader, onProgress);
+  } else {
+    response = await fetch(apiUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...keyHeader
+      },
+      body: JSON.stringify({ ...payload, ...signals })
+    }).catch(() => {
+      throw new TransientSubmissionError();
+    });
+  }
+
+  if (response.status === 429) {
+    const seconds = retryAfterSeconds(response);
+    throw new SubmissionError(
+      seconds
+        ? `You've sent several requests in a short time. Please try again in ${seconds} second${seconds === 1 ? '' : 's'}.`
+        : "You've sent several requests in a short time. Please try again shortly.",
+      'rate_limited',
+      seconds
+    );
+  }
+
+  if (response.status >= 500) {
+    throw new TransientSubmissionError('The support service is having trouble right now.', response.status);
+  }
+
+  if (!response.ok) {
+    const text = await response.text();
+    const body = parseJson(text);
+    const duplicate = response.status === 409 ? duplicateSchema.safeParse(body) : null;
+    if (duplicate?.success) {
+      throw new DuplicateSubmissionError(duplicate.data.error, duplicate.data.duplicateOf, duplicate.data.merged);
+    }
+    const coded = submissionErrorBodySchema.safeParse(body);
+    throw new SubmissionError(
+      errorText(text, 'Unable to submit support request'),
+      coded.success ? (coded.data.code ?? null) : null
+    );
+  }
+
+  const json = await response.json();
+  const parsed = responseSchema.safeParse(json);
+
+  if (!parsed.success) {
+    throw new Error('Received malformed response from support API');
+  }
+
+  return parsed.data;
+}
+
+export async function fetchRequestStatus(id: string, accessToken: string): Promise<RequestStatusView> {
+  const response = await fetch(`${getApiUrl()}/${encodeURIComponent(id)}/status`, {
+    headers: {
+      'X-Access-Token': accessToken
+    }
+  });
+
+  if (response.status === 404) {
+    throw new Error('We could not find that request. Check that you opened the full link from your confirmation.');
+  }
+
+  if (!response.ok) {
+    throw new Error(await errorMessage(response, 'Unable to load your request'));
+  }
+
+  const parsed = statusViewSchema.safeParse(await response.json());
+  if (!parsed.success) {
+    throw new Error('Received malformed response from support API');
+  }
+
+  return parsed.data;
+}
+
+export async function postMessage(id: string, accessToken: string, body: string): Promise<ConversationMessage> {
+  const response = await fetch(`${getApiUrl()}/${encodeURIComponent(id)}/messages`, {
     method: 'POST',
     headers: {
-      'Content-Type': 'application/json'
+      'Content-Type': 'application/json',
+      'X-Access-Token': accessToken
     },
-    body: JSON.stringify(payload)
+    body: JSON.stringify({ body })
   });
 
+  if (response.status === 409) {
+    throw new Error('This request is closed. Send a new request if you need more help.');
+  }
+
   if (!response.ok) {
-    const message = await response.text();
-    throw new Error(message || 'Unable to submit support request');
+    throw new Error(await errorMessage(response, 'Unable to send your message'));
   }
 
-  const json = await response.json();
-  const parsed = responseSchema.safeParse(json);
+  const parsed = messageSchema.safeParse(await response.json());
+  if (!parsed.success) {
+    throw new Error('Received malformed response from support API');
+  }
+
+  return parsed.data;
+}
 
+export async function markMessagesRead(id: string, accessToken: string, upTo: string): Promise<MessageThreadView> {
+  const response = await fetch(`${getApiUrl()}/${encodeURIComponent(id)}/messages/read`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Access-Token': accessToken
+    },
+    body: JSON.stringify({ upTo })
+  });
+
+  if (!response.ok) {
+    throw new Error(await errorMessage(response, 'Unable to update read status'));
+  }
+
+  const parsed = threadViewSchema.safeParse(await response.json());
   if (!parsed.success) {
     throw new Error('Received malformed response from support API');
   }
@@ -38,4 +354,94 @@ export async function submitSupportRequest(payload: SupportRequestPayload): Prom
   return parsed.data;
 }
 
+/** Fetches an attachment with the caller's credentials (access token or coach session). */
+export async function downloadAttachment(
+  id: string,
+  attachmentId: string,
+  credentials: Record<string, string>
+): Promise<Blob> {
+  const response = await fetch(
+    `${getApiUrl()}/${encodeURIComponent(id)}/attachments/${encodeURIComponent(attachmentId)}`,
+    { headers: credentials }
+  );
+
+  if (!response.ok) {
+    throw new Error(
+      response.status === 404 ? 'That attachment is no longer available.' : 'Unable to download the file'
+    );
+  }
+
+  return response.blob();
+}
+
+/** Free coaching sessions in the next two weeks. */
+export async function fetchOpenSlots(id: string, accessToken: string): Promise<OpenSlot[]> {
+  const response = await fetch(`${getApiUrl()}/${encodeURIComponent(id)}/slots`, {
+    headers: { 'X-Access-Token': accessToken }
+  });
+
+  if (!response.ok) {
+    throw new Error(await errorMessage(response, 'Unable to load available sessions'));
+  }
+
+  const parsed = z.object({ items: z.array(openSlotSchema) }).safeParse(await response.json());
+  if (!parsed.success) {
+    throw new Error('Received malformed response from support API');
+  }
+
+  return parsed.data.items;
+}
+
+/** Books a slot, or moves an existing booking to it. */
+export async function bookSession(
+  id: string,
+  accessToken: string,
+  slotId: string,
+  timeZone: string
+): Promise<BookedSession> {
+  const response = await fetch(`${getApiUrl()}/${encodeURIComponent(id)}/session`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Access-Token': accessToken
+    },
+    body: JSON.stringify({ slotId, timeZone })
+  });
+
+  if (!response.ok) {
+    throw new Error(await errorMessage(response, 'Unable to book this session'));
+  }
+
+  const parsed = bookedSessionSchema.safeParse(await response.json());
+  if (!parsed.success) {
+    throw new Error('Received malformed response from support API');
+  }
+
+  return parsed.data;
+}
+
+export async function cancelSession(id: string, accessToken: string): Promise<void> {
+  const response = await fetch(`${getApiUrl()}/${encodeURIComponent(id)}/session`, {
+    method: 'DELETE',
+    headers: { 'X-Access-Token': accessToken }
+  });
+
+  if (!response.ok && response.status !== 404) {
+    throw new Error(await errorMessage(response, 'Unable to cancel the session'));
+  }
+}
+
+/** The booked session as an `.ics` file for calendar apps. */
+export async function downloadSessionInvite(id: string, accessToken: string): Promise<Blob> {
+  const response = await fetch(`${getApiUrl()}/${encodeURIComponent(id)}/session.ics`, {
+    headers: { 'X-Access-Token': accessToken }
+  });
+
+  if (!response.ok) {
+    throw new Error('Unable to download the calendar invite');
+  }
+
+  return response.blob();
+}
+
 export { getApiUrl };
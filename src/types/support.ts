@@ -1,12 +1,202 @@
-export interface SupportRequestPayload {
-  name: string;
-  email: string;
+import type { Locale } from '../../shared/locales';
+import type { InterviewContext, SupportRequestPayload } from '../../shared/supportRequest';
+
+export type {
+  CoachingFormat,
+  InterviewCategory,
+  InterviewContext,
+  SeniorityLevel,
+  SupportRequestPayload
+} from '../../shared/supportRequest';
+
+/**
+ * What the support form's inputs hold: every field as a string, blanks
+ * included. The locale comes from the page and the partner ID from the widget embed.
+ */
+export type SupportFormValues = Record<Exclude<keyof SupportRequestPayload, 'locale' | 'partnerId'>, string>;
+
+/** Anti-abuse signals sent alongside every submission. */
+export interface SubmissionSignals {
+  /** Hidden honeypot input; people leave it empty. */
+  website: string;
+  /** Milliseconds between the form appearing and the candidate submitting it. */
+  elapsedMs: number;
+}
+
+export interface SupportResponse {
+  status: 'ok';
+  id: string;
+  /** Secret that unlocks the candidate's status page for this request. */
+  accessToken: string;
+}
+
+export type SupportRequestStatus = 'open' | 'in_progress' | 'resolved' | 'closed';
+
+export interface ConversationMessage {
+  id: string;
+  role: 'candidate' | 'coach';
+  author: string;
+  body: string;
+  createdAt: string;
+}
+
+export interface AttachmentMeta {
+  id: string;
+  filename: string;
+  contentType: string;
+  size: number;
+  uploadedAt: string;
+}
+
+/** A coaching session a candidate can book. Times are UTC instants. */
+export interface OpenSlot {
+  id: string;
+  coachName: string;
+  startsAt: string;
+  endsAt: string;
+}
+
+export interface BookedSession extends OpenSlot {
+  /** Time zone the candidate booked from. */
+  timeZone: string;
+  bookedAt: string;
+}
+
+export interface RequestStatusView extends InterviewContext {
+  id: string;
   topic: string;
   message: string;
   urgency: 'normal' | 'urgent';
+  status: SupportRequestStatus;
+  createdAt: string;
+  updatedAt: string;
+  messages: ConversationMessage[];
+  attachments: AttachmentMeta[];
+  /** Coach messages the candidate has not marked as read. */
+  unread: number;
+  session: BookedSession | null;
 }
 
-export interface SupportResponse {
-  status: 'ok';
+export interface MessageThreadView {
+  messages: ConversationMessage[];
+  readMarkers: Record<ConversationMessage['role'], string | null>;
+  unread: number;
+}
+
+export interface InternalNote {
   id: string;
+  author: string;
+  body: string;
+  createdAt: string;
+}
+
+/** Keyword labels and the response deadline the API assigns on submission. */
+export interface TicketTriage {
+  labels: string[];
+  slaDueAt: string;
+  escalatedAt: string | null;
+}
+
+/** A request as coaches see it, including contact details and internal notes. */
+export interface SupportTicket extends SupportRequestPayload {
+  id: string;
+  schemaVersion: number;
+  /** The language the candidate wrote in; reply in it. */
+  locale: Locale;
+  status: SupportRequestStatus;
+  assignee: string | null;
+  notes: InternalNote[];
+  messages: ConversationMessage[];
+  attachments: AttachmentMeta[];
+  /** `null` for requests submitted before triage existed. */
+  triage: TicketTriage | null;
+  /** Higher is more pressing; grows while the request waits for a coach. */
+  priority: number;
+  /** Past its SLA without a coach response. */
+  overdue: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TicketPage {
+  items: SupportTicket[];
+  nextCursor: string | null;
+}
+
+export interface TicketFilters {
+  status?: SupportRequestStatus;
+  urgency?: SupportRequestPayload['urgency'];
+  category?: InterviewContext['category'];
+  topic?: string;
+  assignee?: string;
+  unassigned?: boolean;
+}
+
+export interface TicketPatch {
+  status?: SupportRequestStatus;
+  assignee?: string | null;
+  note?: string;
+  reply?: string;
+  /** Template the reply was written from; without `reply`, the filled-in template is sent as is. */
+  templateId?: string;
+}
+
+export type CoachRole = 'coach' | 'lead' | 'admin';
+
+export interface CoachIdentity {
+  username: string;
+  name: string;
+  role: CoachRole;
+}
+
+export interface CoachSession {
+  token: string;
+  expiresAt: string;
+  coach: CoachIdentity;
+}
+
+/** A slot as the coach who published it sees it, including who booked it. */
+export interface AvailabilitySlot {
+  id: string;
+  coach: string;
+  coachName: string;
+  startsAt: string;
+  endsAt: string;
+  timeZone: string;
+  booking: { requestId: string; candidateTimeZone: string; bookedAt: string } | null;
+  createdAt: string;
+}
+
+export interface NewSlot {
+  /** ISO 8601 instant with an offset. */
+  startsAt: string;
+  durationMinutes: number;
+  timeZone: string;
+}
+
+/** A saved answer with `{{name}}` and `{{topic}}` placeholders, filled in from the request being answered. */
+export interface ReplyTemplate {
+  id: string;
+  title: string;
+  category: string;
+  body: string;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+  usageCount: number;
+  lastUsedAt: string | null;
+}
+
+/** A help article suggested while the candidate fills in the form. */
+export interface FaqSuggestion {
+  id: string;
+  title: string;
+  summary: string;
+}
+
+export type FaqBlock = { type: 'heading' | 'paragraph'; text: string } | { type: 'list'; items: string[] };
+
+export interface FaqArticle extends Omit<FaqSuggestion, 'summary'> {
+  locale: Locale;
+  blocks: FaqBlock[];
 }
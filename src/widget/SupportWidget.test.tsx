@@ -0,0 +1,109 @@
+import { act, fireEvent, waitFor, within } from '@testing-library/react';
+import { vi } from 'vitest';
+import { searchFaq } from '../services/faq';
+import { submitSupportRequest } from '../services/support';
+import { supportWidgetSubmittedEvent, supportWidgetTag, type SupportWidgetSubmittedDetail } from './SupportWidget';
+import './index';
+
+vi.mock('../services/support', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../services/support')>()),
+  submitSupportRequest: vi.fn()
+}));
+
+vi.mock('../services/faq', () => ({
+  fetchFaqArticle: vi.fn(),
+  recordFaqOpened: vi.fn(),
+  reportFaqDeflection: vi.fn(),
+  searchFaq: vi.fn()
+}));
+
+function mountWidget(attributes: Record<string, string>): HTMLElement {
+  const element = document.createElement(supportWidgetTag);
+  for (const [name, value] of Object.entries(attributes)) {
+    element.setAttribute(name, value);
+  }
+  act(() => {
+    document.body.append(element);
+  });
+  return element;
+}
+
+describe('<interview-helper-support>', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    window.localStorage.clear();
+    vi.mocked(searchFaq).mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    act(() => {
+      document.body.replaceChildren();
+    });
+  });
+
+  it('renders the form in a shadow root with the preset topic and theme', () => {
+    const element = mountWidget({ topic: 'Offer negotiation', 'accent-color': '#0f766e' });
+    const shadow = within(element.shadowRoot as unknown as HTMLElement);
+
+    expect(shadow.getByLabelText(/topic/i)).toHaveValue('Offer negotiation');
+    expect(element.shadowRoot?.querySelector('style')).not.toBeNull();
+    expect(document.querySelector('.support-form')).toBeNull();
+    expect(
+      (element.shadowRoot?.querySelector('form')?.parentElement as HTMLElement).style.getPropertyValue(
+        '--support-form-accent'
+      )
+    ).toBe('#0f766e');
+  });
+
+  it('sends to the configured API with the partner ID and tells the host page', async () => {
+    vi.mocked(submitSupportRequest).mockResolvedValue({ status: 'ok', id: 'abc123', accessToken: 'secret-token' });
+    const element = mountWidget({
+      'api-url': 'https://api.example.com/support',
+      'partner-id': 'acme-careers',
+      'app-url': 'https://help.example.com',
+      topic: 'Mock interviews'
+    });
+    const submitted = vi.fn();
+    document.addEventListener(supportWidgetSubmittedEvent, submitted);
+    const shadow = within(element.shadowRoot as unknown as HTMLElement);
+
+    // user-event's typing does not reach fields inside a shadow root, so the changes are fired directly.
+    fireEvent.change(shadow.getByLabelText(/name/i), { target: { value: 'Ada Lovelace' } });
+    fireEvent.change(shadow.getByLabelText(/email/i), { target: { value: 'ada@example.com' } });
+    fireEvent.change(shadow.getByLabelText(/how can we help/i), {
+      target: { value: 'Please review my system design answers.' }
+    });
+    fireEvent.click(shadow.getByRole('button', { name: /send message/i }));
+
+    await waitFor(() => expect(submitted).toHaveBeenCalledTimes(1));
+    document.removeEventListener(supportWidgetSubmittedEvent, submitted);
+    expect((submitted.mock.calls[0][0] as CustomEvent<SupportWidgetSubmittedDetail>).detail).toEqual({
+      requestId: 'abc123',
+      partnerId: 'acme-careers'
+    });
+    expect(submitSupportRequest).toHaveBeenCalledWith(
+      expect.objectContaining({ topic: 'Mock interviews', partnerId: 'acme-careers' }),
+      expect.any(Object),
+      {
+        files: [],
+        onProgress: expect.any(Function),
+        idempotencyKey: expect.any(String),
+        apiUrl: 'https://api.example.com/support'
+      }
+    );
+    expect(shadow.getByRole('link', { name: /track your request/i })).toHaveAttribute(
+      'href',
+      'https://help.example.com/requests/abc123#token=secret-token'
+    );
+    expect(shadow.getByLabelText(/topic/i)).toHaveValue('Mock interviews');
+    // FAQ suggestions come from the same API as the form.
+    await waitFor(() =>
+      expect(searchFaq).toHaveBeenCalledWith(
+        'Mock interviews',
+        'en',
+        'https://api.example.com/support',
+        expect.any(AbortSignal)
+      )
+    );
+  });
+});
@@ -0,0 +1,95 @@
+import { StrictMode } from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+import SupportForm from '../components/SupportForm';
+import faqStyles from '../components/FaqSuggestions.css?inline';
+import formStyles from '../components/SupportForm.css?inline';
+import type { SupportResponse } from '../types/support';
+import widgetStyles from './SupportWidget.css?inline';
+
+export const supportWidgetTag = 'interview-helper-support';
+
+/** Dispatched on the element, bubbling out of its shadow root, once a request has been stored. */
+export const supportWidgetSubmittedEvent = 'interview-helper:submitted';
+
+export interface SupportWidgetSubmittedDetail {
+  requestId: string;
+  partnerId: string | null;
+}
+
+// Theme attributes and the SupportForm.css custom properties they set.
+const themeProperties = {
+  'accent-color': '--support-form-accent',
+  'background-color': '--support-form-background',
+  'text-color': '--support-form-text'
+};
+
+/**
+ * `<interview-helper-support>`: the support form for partner sites. It renders
+ * into a shadow root with its own copy of the form styles, so host page CSS
+ * neither breaks the form nor is changed by it.
+ */
+export class SupportWidgetElement extends HTMLElement {
+  static observedAttributes = ['api-url', 'partner-id', 'topic', 'app-url', ...Object.keys(themeProperties)];
+
+  private root: Root | null = null;
+  private container: HTMLDivElement | null = null;
+
+  connectedCallback(): void {
+    if (!this.root) {
+      const shadow = this.shadowRoot ?? this.attachShadow({ mode: 'open' });
+      const style = document.createElement('style');
+      style.textContent = `${widgetStyles}\n${formStyles}\n${faqStyles}`;
+      this.container = document.createElement('div');
+      shadow.replaceChildren(style, this.container);
+      this.root = createRoot(this.container);
+    }
+    this.render();
+  }
+
+  disconnectedCallback(): void {
+    this.root?.unmount();
+    this.root = null;
+  }
+
+  attributeChangedCallback(): void {
+    this.render();
+  }
+
+  private attribute(name: string): string | undefined {
+    return this.getAttribute(name)?.trim() || undefined;
+  }
+
+  private readonly handleSubmitted = (response: SupportResponse) => {
+    // The access token stays with the candidate's status link; the host page only learns which request was sent.
+    const detail: SupportWidgetSubmittedDetail = {
+      requestId: response.id,
+      partnerId: this.attribute('partner-id') ?? null
+    };
+    this.dispatchEvent(new CustomEvent(supportWidgetSubmittedEvent, { detail, bubbles: true, composed: true }));
+  };
+
+  private render(): void {
+    if (!this.root || !this.container) {
+      return;
+    }
+    for (const [attribute, property] of Object.entries(themeProperties)) {
+      const value = this.attribute(attribute);
+      if (value) {
+        this.container.style.setProperty(property, value);
+      } else {
+        this.container.style.removeProperty(property);
+      }
+    }
+    this.root.render(
+      <StrictMode>
+        <SupportForm
+          apiUrl={this.attribute('api-url')}
+          partnerId={this.attribute('partner-id')}
+          presetTopic={this.attribute('topic')}
+          appUrl={this.attribute('app-url')}
+          onSubmitted={this.handleSubmitted}
+        />
+      </StrictMode>
+    );
+  }
+}
@@ -0,0 +1,8 @@
+import { SupportWidgetElement, supportWidgetTag } from './SupportWidget';
+
+export type { SupportWidgetSubmittedDetail } from './SupportWidget';
+
+// Defining a tag twice throws, and partner pages may well include the script twice.
+if (!customElements.get(supportWidgetTag)) {
+  customElements.define(supportWidgetTag, SupportWidgetElement);
+}
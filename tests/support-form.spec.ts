@@ -15,5 +15,10 @@ test.describe('Support form', () => {
     await page.getByRole('button', { name: /send message/i }).click();
 
     await expect(page.getByRole('status')).toContainText(/your request has been queued/i);
+
+    await page.getByRole('link', { name: /track your request/i }).click();
+
+    await expect(page.getByText('Waiting for a coach')).toBeVisible();
+    await expect(page.getByText(/no replies yet/i)).toBeVisible();
   });
 });
@@ -0,0 +1,21 @@
+import { defineConfig } from 'vite';
+import react from '@vitejs/plugin-react';
+
+// Builds the embeddable widget: one self-contained script that partner sites load with a plain <script> tag.
+export default defineConfig({
+  plugins: [react()],
+  define: {
+    // Library builds leave `process.env.NODE_ENV` for a bundler the partner page does not have.
+    'process.env.NODE_ENV': JSON.stringify('production')
+  },
+  build: {
+    outDir: 'dist/widget',
+    emptyOutDir: true,
+    lib: {
+      entry: 'src/widget/index.ts',
+      name: 'InterviewHelperSupport',
+      formats: ['iife'],
+      fileName: () => 'support-widget.js'
+    }
+  }
+});